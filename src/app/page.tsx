@@ -200,7 +200,7 @@ export default function Home() {
                   </div>
                   <h3 className="text-xl font-semibold">Upload</h3>
                   <p className="text-muted-foreground text-sm">
-                    Drag and drop your resume (.pdf or .docx) or click to browse. 
+                    Drag and drop your resume (.pdf, .docx, .odt, .rtf or .txt) or click to browse. 
                     Your file stays in your browser - never uploaded to servers.
                   </p>
                 </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useDeferredValue } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -13,11 +13,15 @@ import {
   TrendingUp,
   Eye,
   BarChart3,
-  Zap
+  Zap,
+  ListChecks,
+  XCircle
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ATSOptimizedDocument } from '@/lib/ats-optimizer';
 import type { ParsedDocument } from '@/lib/parsers/pdf-parser';
+import { matchJobDescription, type KeywordMatch } from '@/lib/job-match/keyword-matcher';
+import { calculateATSScore, type ScoreCategory } from '@/lib/ats-score';
 
 interface ATSComparisonProps {
   originalDocument: ParsedDocument;
@@ -38,7 +42,6 @@ interface ATSAnalysis {
   strengths: string[];
   improvements: string[];
   recommendations: string[];
-  keywords: string[];
   score: number;
 }
 
@@ -47,7 +50,17 @@ export function ATSComparison({
   optimizedDocument, 
   className 
 }: ATSComparisonProps) {
-  const [activeView, setActiveView] = useState<'comparison' | 'analysis'>('comparison');
+  const [activeView, setActiveView] = useState<'comparison' | 'analysis' | 'job-match'>('comparison');
+  const [jobDescription, setJobDescription] = useState('');
+
+  // Matching runs on every keystroke, so let typing stay responsive
+  const deferredJobDescription = useDeferredValue(jobDescription);
+
+  // Both versions go through the same engine, so before and after are comparable
+  const scores = useMemo(() => ({
+    original: calculateATSScore(originalDocument.text, { language: optimizedDocument.language }),
+    optimized: calculateATSScore(optimizedDocument.content, { language: optimizedDocument.language })
+  }), [originalDocument, optimizedDocument]);
 
   const metrics = useMemo<ComparisonMetrics>(() => {
     const originalText = originalDocument.text;
@@ -63,7 +76,7 @@ export function ATSComparison({
     
     // Section counts (estimate based on capital letters and common patterns)
     const originalSections = (originalText.match(/^[A-Z\s]{3,}$/gm) || []).length;
-    const optimizedSections = optimizedDocument.sections.length;
+    const optimizedSections = optimizedDocument.sections.filter(section => section.kind === 'standard').length;
     
     // Bullet points
     const originalBullets = (originalText.match(/[•\-\*]/g) || []).length;
@@ -74,9 +87,8 @@ export function ATSComparison({
     const originalSpecialChars = (originalText.match(specialCharRegex) || []).length;
     const optimizedSpecialChars = (optimizedText.match(specialCharRegex) || []).length;
 
-    // ATS Scores (simplified calculation)
-    const originalScore = Math.max(20, 100 - (originalSpecialChars * 2) - (originalSections < 3 ? 20 : 0));
-    const optimizedScore = 85; // Default score for optimized documents
+    const originalScore = scores.original.overall;
+    const optimizedScore = scores.optimized.overall;
 
     return {
       wordCount: {
@@ -110,7 +122,7 @@ export function ATSComparison({
         improvement: optimizedScore - originalScore
       }
     };
-  }, [originalDocument, optimizedDocument]);
+  }, [originalDocument, optimizedDocument, scores]);
 
   const analysis = useMemo<ATSAnalysis>(() => {
     const strengths = [];
@@ -127,7 +139,7 @@ export function ATSComparison({
     if (metrics.sectionCount.change > 0) {
       strengths.push("Better section organization");
     }
-    if (optimizedDocument.sections.length >= 4) {
+    if (metrics.sectionCount.after >= 4) {
       strengths.push("Comprehensive section coverage");
     }
 
@@ -146,31 +158,65 @@ export function ATSComparison({
     if (metrics.wordCount.after > 800) {
       recommendations.push("Consider condensing content to under 800 words for optimal ATS processing");
     }
-    if (optimizedDocument.sections.length < 5) {
+    if (metrics.sectionCount.after < 5) {
       recommendations.push("Add more sections like Skills or Certifications if applicable");
     }
-    if (metrics.atsScore.after < 80) {
-      recommendations.push("Include more industry-specific keywords to boost ATS score");
-    }
 
-    // Extract potential keywords
-    const keywords = optimizedDocument.content
-      .toLowerCase()
-      .match(/\b\w{4,}\b/g)
-      ?.filter((word, index, arr) => arr.indexOf(word) === index)
-      .filter(word => 
-        !['this', 'that', 'with', 'from', 'they', 'have', 'will', 'been', 'were', 'work', 'experience'].includes(word)
-      )
-      .slice(0, 8) || [];
+    // The largest remaining deductions are the quickest score gains
+    const deductions = (Object.keys(scores.optimized.categories) as ScoreCategory[])
+      .flatMap(category => scores.optimized.categories[category].deductions)
+      .sort((a, b) => b.points - a.points)
+      .slice(0, 4);
+    for (const deduction of deductions) {
+      recommendations.push(`${deduction.reason} (-${deduction.points} points)`);
+    }
 
     return {
       strengths,
       improvements,
       recommendations,
-      keywords,
       score: metrics.atsScore.after
     };
-  }, [metrics, optimizedDocument]);
+  }, [metrics, scores]);
+
+  const jobMatch = useMemo(() => {
+    if (!deferredJobDescription.trim()) return null;
+    return matchJobDescription(
+      deferredJobDescription,
+      optimizedDocument.content,
+      optimizedDocument.sections.filter(section => section.kind !== 'preamble').map(section => section.standardTitle)
+    );
+  }, [deferredJobDescription, optimizedDocument]);
+
+  const renderKeywordMatch = (match: KeywordMatch, tone: 'green' | 'red' | 'yellow') => (
+    <div
+      key={match.keyword.term}
+      className={cn(
+        "p-2 rounded-lg space-y-1",
+        tone === 'green' && "bg-green-50 dark:bg-green-950/20",
+        tone === 'red' && "bg-red-50 dark:bg-red-950/20",
+        tone === 'yellow' && "bg-yellow-50 dark:bg-yellow-950/20"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{match.keyword.term}</span>
+        <div className="flex items-center gap-1">
+          {match.keyword.importance === 'required' && (
+            <Badge variant="outline" className="text-xs">Required</Badge>
+          )}
+          <Badge variant="secondary" className="text-xs capitalize">{match.keyword.kind}</Badge>
+        </div>
+      </div>
+      {match.sections.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          {match.count}× in {match.sections.join(', ')}
+        </div>
+      )}
+      {match.suggestion && (
+        <div className="text-xs text-muted-foreground">{match.suggestion}</div>
+      )}
+    </div>
+  );
 
   const getChangeIcon = (change: number) => {
     if (change > 0) return <TrendingUp className="h-4 w-4 text-green-600" />;
@@ -204,7 +250,7 @@ export function ATSComparison({
         </CardHeader>
         <CardContent>
           <Tabs value={activeView} onValueChange={setActiveView as (value: string) => void}>
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="comparison" className="flex items-center gap-2">
                 <Eye className="h-4 w-4" />
                 Before & After
@@ -213,6 +259,10 @@ export function ATSComparison({
                 <Target className="h-4 w-4" />
                 Analysis
               </TabsTrigger>
+              <TabsTrigger value="job-match" className="flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                Job Match
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="comparison" className="space-y-6 mt-6">
@@ -227,7 +277,7 @@ export function ATSComparison({
                     <div className={cn("text-xs flex items-center justify-center gap-1 mt-1", 
                       getChangeColor(metrics.atsScore.improvement))}>
                       {getChangeIcon(metrics.atsScore.improvement)}
-                      +{metrics.atsScore.improvement}%
+                      {metrics.atsScore.improvement > 0 ? '+' : ''}{metrics.atsScore.improvement}%
                     </div>
                   </CardContent>
                 </Card>
@@ -395,21 +445,149 @@ export function ATSComparison({
 
                   <Card>
                     <CardHeader className="pb-3">
-                      <CardTitle className="text-base">Key Terms Detected</CardTitle>
+                      <CardTitle className="text-base">Job Description Match</CardTitle>
                     </CardHeader>
-                    <CardContent>
-                      <div className="flex flex-wrap gap-2">
-                        {analysis.keywords.map((keyword, index) => (
-                          <Badge key={index} variant="outline" className="text-xs">
-                            {keyword}
-                          </Badge>
-                        ))}
-                      </div>
+                    <CardContent className="space-y-2">
+                      {jobMatch ? (
+                        <>
+                          <div className="text-sm">
+                            {jobMatch.coverage}% keyword coverage ({jobMatch.requiredCoverage}% of required terms)
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {jobMatch.missing.slice(0, 8).map(match => (
+                              <Badge key={match.keyword.term} variant="outline" className="text-xs">
+                                {match.keyword.term}
+                              </Badge>
+                            ))}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-sm text-muted-foreground">
+                          Paste a job description in the Job Match tab to see which of its keywords your resume covers.
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 </div>
               </div>
             </TabsContent>
+
+            <TabsContent value="job-match" className="space-y-6 mt-6">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    Job Description
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <textarea
+                    value={jobDescription}
+                    onChange={(e) => setJobDescription(e.target.value)}
+                    className="w-full h-48 p-3 text-sm border rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
+                    placeholder="Paste the job posting here..."
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Matching runs in your browser; the job description is never uploaded.
+                  </p>
+                </CardContent>
+              </Card>
+
+              {jobMatch && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <Card className="text-center">
+                      <CardContent className="p-4">
+                        <div className="text-2xl font-bold text-primary mb-1">{jobMatch.coverage}%</div>
+                        <div className="text-xs text-muted-foreground">Keyword Coverage</div>
+                      </CardContent>
+                    </Card>
+                    <Card className="text-center">
+                      <CardContent className="p-4">
+                        <div className="text-2xl font-bold mb-1">{jobMatch.requiredCoverage}%</div>
+                        <div className="text-xs text-muted-foreground">Required Terms</div>
+                      </CardContent>
+                    </Card>
+                    <Card className="text-center">
+                      <CardContent className="p-4">
+                        <div className="text-2xl font-bold mb-1">{jobMatch.matched.length + jobMatch.overused.length}</div>
+                        <div className="text-xs text-muted-foreground">Matched</div>
+                      </CardContent>
+                    </Card>
+                    <Card className="text-center">
+                      <CardContent className="p-4">
+                        <div className="text-2xl font-bold mb-1">{jobMatch.missing.length}</div>
+                        <div className="text-xs text-muted-foreground">Missing</div>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  {jobMatch.sections.length > 0 && (
+                    <Card>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-base">Coverage by Section</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        {jobMatch.sections.map(section => (
+                          <div key={section.section} className="flex items-center justify-between text-sm">
+                            <span>{section.section}</span>
+                            <span className="text-muted-foreground">
+                              {section.matched} term{section.matched === 1 ? '' : 's'} · {section.coverage}%
+                            </span>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  <div className="grid md:grid-cols-2 gap-6">
+                    <Card>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="text-base flex items-center gap-2 text-red-600">
+                          <XCircle className="h-4 w-4" />
+                          Missing Keywords
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        {jobMatch.missing.length > 0
+                          ? jobMatch.missing.map(match => renderKeywordMatch(match, 'red'))
+                          : <div className="text-sm text-muted-foreground">Every keyword from the job description appears in your resume.</div>}
+                      </CardContent>
+                    </Card>
+
+                    <div className="space-y-4">
+                      <Card>
+                        <CardHeader className="pb-3">
+                          <CardTitle className="text-base flex items-center gap-2 text-green-600">
+                            <CheckCircle className="h-4 w-4" />
+                            Matched Keywords
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-2">
+                          {jobMatch.matched.length > 0
+                            ? jobMatch.matched.map(match => renderKeywordMatch(match, 'green'))
+                            : <div className="text-sm text-muted-foreground">No keywords from the job description were found yet.</div>}
+                        </CardContent>
+                      </Card>
+
+                      {jobMatch.overused.length > 0 && (
+                        <Card>
+                          <CardHeader className="pb-3">
+                            <CardTitle className="text-base flex items-center gap-2 text-yellow-600">
+                              <AlertTriangle className="h-4 w-4" />
+                              Over-used Keywords
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent className="space-y-2">
+                            {jobMatch.overused.map(match => renderKeywordMatch(match, 'yellow'))}
+                          </CardContent>
+                        </Card>
+                      )}
+                    </div>
+                  </div>
+                </>
+              )}
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,54 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ContentLossReport } from '@/lib/content-loss';
+
+interface ContentLossCardProps {
+  report: ContentLossReport;
+  acknowledged: boolean;
+  onAcknowledge: () => void;
+  className?: string;
+}
+
+export function ContentLossCard({ report, acknowledged, onAcknowledge, className }: ContentLossCardProps) {
+  // Downloads stay blocked after a large content loss until the user has reviewed it
+  const downloadsBlocked = report.exceedsThreshold && !acknowledged;
+
+  if (report.changes.length === 0) return null;
+
+  return (
+    <Card className={cn(report.exceedsThreshold ? 'border-destructive' : 'border-yellow-500', className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className={`h-5 w-5 ${report.exceedsThreshold ? 'text-destructive' : 'text-yellow-600'}`} />
+          {report.exceedsThreshold ? 'Content May Have Been Lost' : 'Content Changes to Review'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {report.lostWords} of {report.originalWords} words ({(report.lossRatio * 100).toFixed(1)}%)
+          from your original resume don&apos;t appear in the optimized version.
+          {downloadsBlocked && ' Downloads are paused until you review the changes below.'}
+        </p>
+        <div className="space-y-1">
+          {report.changes.map((change, index) => (
+            <div key={index} className="text-sm pl-6">
+              • <span className="line-through text-muted-foreground">{change.original}</span>
+              {change.type === 'altered'
+                ? <> → <span className="font-medium">{change.optimized}</span></>
+                : <span className="text-muted-foreground"> (removed)</span>}
+            </div>
+          ))}
+        </div>
+        {downloadsBlocked && (
+          <Button variant="outline" onClick={onAcknowledge}>
+            I&apos;ve Reviewed the Changes, Allow Downloads
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,14 +17,15 @@ import {
 import { ResumeEditor } from './ResumeEditor';
 import { SectionManager } from './SectionManager';
 import { ATSComparison } from './ATSComparison';
+import { ContentLossCard } from './ContentLossCard';
 import { cn } from '@/lib/utils';
-import type { ProcessingResult } from '@/lib/document-processor';
+import type { ProcessingResult, DownloadOption } from '@/lib/document-processor';
 import type { DetectedSection } from '@/lib/ats-optimizer';
 
 interface EditorInterfaceProps {
   processingResult: ProcessingResult;
   onBack?: () => void;
-  onDownload?: (format: 'txt' | 'docx') => void;
+  onDownload?: (format: DownloadOption['format']) => void;
   className?: string;
 }
 
@@ -40,6 +41,9 @@ export function EditorInterface({
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [isAutoSaving, setIsAutoSaving] = useState(false);
+  // The upload screen's review isn't carried over, so a large content loss is acknowledged here as well
+  const [lossAcknowledged, setLossAcknowledged] = useState(false);
+  const downloadsBlocked = processingResult.optimizedDocument.contentCheck.exceedsThreshold && !lossAcknowledged;
 
   // Auto-save functionality
   useEffect(() => {
@@ -91,7 +95,7 @@ export function EditorInterface({
     
     // Regenerate content from sections
     const newContent = newSections
-      .map(section => `${section.standardTitle}\n\n${section.content}`)
+      .map(section => section.standardTitle ? `${section.standardTitle}\n\n${section.content}` : section.content)
       .join('\n\n---\n\n');
     setCurrentContent(newContent);
   };
@@ -108,7 +112,9 @@ export function EditorInterface({
     setHasUnsavedChanges(false);
   };
 
-  const handleDownload = (format: 'txt' | 'docx') => {
+  const handleDownload = (format: DownloadOption['format']) => {
+    if (downloadsBlocked) return;
+
     // Find the matching download option
     const downloadOption = processingResult.downloadOptions.find(option => option.format === format);
     if (downloadOption) {
@@ -207,11 +213,13 @@ export function EditorInterface({
                 </Button>
                 
                 <div className="flex items-center gap-1">
-                  {processingResult.downloadOptions.map((option) => (
+                  {/* The anonymized copy isn't kept in sync with edits, so it's only offered after processing */}
+                  {processingResult.downloadOptions.filter(option => !option.redaction).map((option) => (
                     <Button
                       key={option.format}
                       size="sm"
-                      onClick={() => handleDownload(option.format as 'txt' | 'docx')}
+                      onClick={() => handleDownload(option.format)}
+                      disabled={downloadsBlocked}
                       className="h-8"
                     >
                       <Download className="h-4 w-4 mr-2" />
@@ -240,6 +248,15 @@ export function EditorInterface({
       {/* Main Content */}
       <div className="w-full px-4 sm:px-6 lg:px-8 py-6">
         <div className="mx-auto max-w-7xl">
+          {downloadsBlocked && (
+            <ContentLossCard
+              report={processingResult.optimizedDocument.contentCheck}
+              acknowledged={lossAcknowledged}
+              onAcknowledge={() => setLossAcknowledged(true)}
+              className="mb-6"
+            />
+          )}
+
           <Tabs value={activeTab} onValueChange={setActiveTab as (value: string) => void}>
             <TabsList className="grid w-full grid-cols-3 max-w-md mx-auto mb-6">
               <TabsTrigger value="editor" className="flex items-center gap-2">
@@ -272,6 +289,7 @@ export function EditorInterface({
               <SectionManager
                 sections={currentSections}
                 onSectionsChange={handleSectionsChange}
+                language={processingResult.optimizedDocument.language}
               />
             </TabsContent>
 
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { ArrowRight, Plus, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  STANDARD_SECTIONS,
+  loadHeadingMappings,
+  saveHeadingMappings,
+  normalizeHeading,
+  type HeadingMapping,
+  type SectionKey
+} from '@/lib/section-headings';
+
+interface HeadingMappingsProps {
+  className?: string;
+}
+
+export function HeadingMappings({ className }: HeadingMappingsProps) {
+  const [mappings, setMappings] = useState<HeadingMapping[]>([]);
+  const [heading, setHeading] = useState('');
+  const [section, setSection] = useState<SectionKey | ''>('');
+
+  useEffect(() => {
+    setMappings(loadHeadingMappings());
+  }, []);
+
+  const updateMappings = (newMappings: HeadingMapping[]) => {
+    setMappings(newMappings);
+    saveHeadingMappings(newMappings);
+  };
+
+  const handleAddMapping = () => {
+    if (!heading.trim() || !section) return;
+
+    // A heading maps to one section; re-adding it replaces the earlier mapping
+    const normalized = normalizeHeading(heading);
+    updateMappings([
+      ...mappings.filter(mapping => normalizeHeading(mapping.heading) !== normalized),
+      { heading: heading.trim(), section }
+    ]);
+    setHeading('');
+    setSection('');
+  };
+
+  const handleRemoveMapping = (index: number) => {
+    updateMappings(mappings.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Custom Heading Mappings</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Teach the optimizer your own section headings. Mappings are saved in this browser and applied the next time you process a resume.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {mappings.map((mapping, index) => (
+          <div
+            key={`${mapping.heading}-${index}`}
+            className="flex items-center justify-between gap-2 p-2 border rounded-lg bg-muted/30"
+          >
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{mapping.heading}</span>
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <span>{STANDARD_SECTIONS[mapping.section]}</span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleRemoveMapping(index)}
+              className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={heading}
+            onChange={(e) => setHeading(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddMapping()}
+            placeholder='Heading, e.g. "Selected Engagements"'
+          />
+          <Select value={section} onValueChange={(value) => setSection(value as SectionKey)}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue placeholder="Standard section" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STANDARD_SECTIONS) as SectionKey[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {STANDARD_SECTIONS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={handleAddMapping}
+            disabled={!heading.trim() || !section}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
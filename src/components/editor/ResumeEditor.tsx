@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo, useDeferredValue } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,10 +17,20 @@ import {
   EyeOff,
   AlertCircle,
   CheckCircle,
-  Target
+  Target,
+  Lightbulb,
+  SpellCheck,
+  UserX
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ATSOptimizedDocument } from '@/lib/ats-optimizer';
+import { calculateATSScore, type ScoreCategory } from '@/lib/ats-score';
+import { analyzeBullets } from '@/lib/bullet-analyzer';
+import { detectPersonalDetails, type PersonalDetail } from '@/lib/bias-detector';
+import { RESUME_LOCALES } from '@/lib/locales/resume-locale';
+import type { SpellingIssue } from '@/lib/spelling/spell-checker';
+import { useSpellChecker } from '@/hooks/useSpellChecker';
+import { SpellingPanel } from './SpellingPanel';
 
 interface ResumeEditorProps {
   optimizedDocument: ATSOptimizedDocument;
@@ -38,12 +48,128 @@ interface EditorState {
   characterCount: number;
 }
 
-interface ATSScore {
-  overall: number;
-  sections: number;
-  formatting: number;
-  keywords: number;
-  readability: number;
+interface TextSegment {
+  node: Text;
+  start: number; // Offset of the node's text in the collected text
+}
+
+interface EditorText {
+  text: string;
+  segments: TextSegment[];
+}
+
+// Custom highlight name; the underline style is in globals.css
+const SPELLING_HIGHLIGHT = 'claritycv-spelling';
+
+// Elements that start a new line in the editor's text
+const BLOCK_TAGS = /^(DIV|P|LI|H[1-6]|UL|OL)$/;
+
+const SCORE_CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  sections: 'Sections',
+  formatting: 'Format',
+  keywords: 'Keywords',
+  readability: 'Readability'
+};
+
+/**
+ * Converts editor HTML to the plain text an ATS would read
+ * @param html - contentEditable markup (or plain text)
+ * @returns Text with block elements as line breaks
+ */
+function editorHtmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Collects the editor's text with line breaks at block boundaries, keeping track of the
+ * text node each part came from so checker offsets can be mapped back to the DOM
+ * @param root - contentEditable element
+ * @returns Text and its text nodes by offset
+ */
+function collectEditorText(root: HTMLElement): EditorText {
+  let text = '';
+  const segments: TextSegment[] = [];
+
+  const walk = (node: Node) => {
+    if (node instanceof Text) {
+      segments.push({ node, start: text.length });
+      text += node.data;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.tagName === 'BR') {
+      text += '\n';
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.test(node.tagName);
+    if (isBlock && text && !text.endsWith('\n')) text += '\n';
+    if (node.tagName === 'LI') text += '• ';
+    node.childNodes.forEach(walk);
+    if (isBlock && !text.endsWith('\n')) text += '\n';
+  };
+  root.childNodes.forEach(walk);
+
+  return { text, segments };
+}
+
+/**
+ * Creates a DOM range over a span of collected editor text
+ * @param editorText - Collected text and its text nodes
+ * @param start - Start offset in the collected text
+ * @param end - End offset in the collected text
+ * @returns Range, or null when an offset falls outside the text nodes
+ */
+function createTextRange(editorText: EditorText, start: number, end: number): Range | null {
+  const startSegment = editorText.segments.find(segment =>
+    start >= segment.start && start < segment.start + segment.node.length);
+  const endSegment = editorText.segments.find(segment =>
+    end > segment.start && end <= segment.start + segment.node.length);
+  if (!startSegment || !endSegment) return null;
+
+  const range = document.createRange();
+  range.setStart(startSegment.node, start - startSegment.start);
+  range.setEnd(endSegment.node, end - endSegment.start);
+  return range;
+}
+
+/**
+ * Creates a DOM range over the text nodes within a span of collected editor text, for spans
+ * that start or end on a line break or list marker the collected text adds around blocks
+ * @param editorText - Collected text and its text nodes
+ * @param start - Start offset in the collected text
+ * @param end - End offset in the collected text
+ * @returns Range, or null when the span holds no text node
+ */
+function createSpanRange(editorText: EditorText, start: number, end: number): Range | null {
+  const covered = editorText.segments.filter(segment =>
+    segment.start < end && segment.start + segment.node.length > start);
+  if (covered.length === 0) return null;
+
+  const first = covered[0];
+  const last = covered[covered.length - 1];
+  const range = document.createRange();
+  range.setStart(first.node, Math.max(0, start - first.start));
+  range.setEnd(last.node, Math.min(last.node.length, end - last.start));
+  return range;
+}
+
+/**
+ * Checks for CSS Custom Highlight API support, used to underline issues without touching the markup
+ * @returns Boolean indicating highlights can be shown
+ */
+function supportsHighlights(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
 }
 
 export function ResumeEditor({ 
@@ -62,13 +188,54 @@ export function ResumeEditor({
     wordCount: 0,
     characterCount: 0
   });
-  const [atsScore] = useState<ATSScore>({
-    overall: 85,
-    sections: 90,
-    formatting: 88,
-    keywords: 75,
-    readability: 82
-  });
+
+  // Rescore as the user edits, without blocking typing
+  const deferredContent = useDeferredValue(editorState.content);
+  const atsScore = useMemo(
+    () => calculateATSScore(editorHtmlToText(deferredContent), { language: optimizedDocument.language }),
+    [deferredContent, optimizedDocument.language]
+  );
+  const bulletSuggestions = useMemo(
+    () => analyzeBullets(editorHtmlToText(deferredContent), { language: optimizedDocument.language })
+      .filter(bullet => bullet.issues.length > 0),
+    [deferredContent, optimizedDocument.language]
+  );
+  const personalDetails = useMemo(
+    () => detectPersonalDetails(editorHtmlToText(deferredContent), { language: optimizedDocument.language }),
+    [deferredContent, optimizedDocument.language]
+  );
+  const personalAttributeLabels = RESUME_LOCALES[optimizedDocument.language].personalAttributes;
+
+  // Spell check the editor's text and underline the issues in place
+  const {
+    ready: spellingReady,
+    check: checkText,
+    ignoreWord,
+    addToDictionary
+  } = useSpellChecker(optimizedDocument.language === 'en');
+  const [spellingIssues, setSpellingIssues] = useState<SpellingIssue[]>([]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (isPreviewMode || !editor || !spellingReady) {
+      setSpellingIssues([]);
+      return;
+    }
+
+    const editorText = collectEditorText(editor);
+    const issues = checkText(editorText.text);
+    setSpellingIssues(issues);
+
+    if (!supportsHighlights()) return;
+    const ranges = issues
+      .map(issue => createTextRange(editorText, issue.start, issue.end))
+      .filter((range): range is Range => range !== null);
+    CSS.highlights.set(SPELLING_HIGHLIGHT, new Highlight(...ranges));
+
+    return () => {
+      CSS.highlights.delete(SPELLING_HIGHLIGHT);
+    };
+  }, [deferredContent, isPreviewMode, spellingReady, checkText]);
 
   // Calculate word and character count
   useEffect(() => {
@@ -138,6 +305,42 @@ export function ResumeEditor({
     }
   };
 
+  const handleSpellingReplace = (issue: SpellingIssue, replacement: string) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    // The text may have changed since the check; only replace what was flagged
+    const editorText = collectEditorText(editor);
+    if (editorText.text.slice(issue.start, issue.end) !== issue.text) return;
+
+    const range = createTextRange(editorText, issue.start, issue.end);
+    if (!range) return;
+    range.deleteContents();
+    range.insertNode(document.createTextNode(replacement));
+    updateContent(editor.innerHTML);
+  };
+
+  const handleRemovePersonalDetail = (detail: PersonalDetail) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    // Offsets from the deferred check may be stale; find the same field in the current text
+    const editorText = collectEditorText(editor);
+    const current = detectPersonalDetails(editorText.text, { language: optimizedDocument.language })
+      .find(candidate => candidate.attribute === detail.attribute && candidate.text === detail.text);
+    if (!current) return;
+
+    const range = createSpanRange(editorText, current.start, current.end);
+    if (!range) return;
+    const block = range.startContainer.parentElement?.closest('div, p, li');
+    range.deleteContents();
+    // A line held in its own element goes with it
+    if (block && block !== editor && editor.contains(block) && !block.textContent?.trim()) {
+      block.remove();
+    }
+    updateContent(editor.innerHTML);
+  };
+
   const handleSave = () => {
     onSave?.(editorState.content);
     setEditorState(prev => ({ ...prev, hasChanges: false }));
@@ -291,30 +494,14 @@ export function ResumeEditor({
                 {atsScore.overall}%
               </Badge>
             </div>
-            <div className="text-center">
-              <div className="text-xs text-muted-foreground mb-1">Sections</div>
-              <div className={cn("text-sm font-semibold", getATSScoreColor(atsScore.sections))}>
-                {atsScore.sections}%
-              </div>
-            </div>
-            <div className="text-center">
-              <div className="text-xs text-muted-foreground mb-1">Format</div>
-              <div className={cn("text-sm font-semibold", getATSScoreColor(atsScore.formatting))}>
-                {atsScore.formatting}%
-              </div>
-            </div>
-            <div className="text-center">
-              <div className="text-xs text-muted-foreground mb-1">Keywords</div>
-              <div className={cn("text-sm font-semibold", getATSScoreColor(atsScore.keywords))}>
-                {atsScore.keywords}%
-              </div>
-            </div>
-            <div className="text-center">
-              <div className="text-xs text-muted-foreground mb-1">Readability</div>
-              <div className={cn("text-sm font-semibold", getATSScoreColor(atsScore.readability))}>
-                {atsScore.readability}%
+            {(Object.keys(SCORE_CATEGORY_LABELS) as ScoreCategory[]).map(category => (
+              <div key={category} className="text-center">
+                <div className="text-xs text-muted-foreground mb-1">{SCORE_CATEGORY_LABELS[category]}</div>
+                <div className={cn("text-sm font-semibold", getATSScoreColor(atsScore.categories[category].score))}>
+                  {atsScore.categories[category].score}%
+                </div>
               </div>
-            </div>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -342,6 +529,7 @@ export function ResumeEditor({
                   ref={editorRef}
                   contentEditable
                   suppressContentEditableWarning
+                  spellCheck={false}
                   onInput={(e) => updateContent(e.currentTarget.innerHTML)}
                   className="w-full h-full p-4 border rounded-lg overflow-auto focus:outline-none focus:ring-2 focus:ring-primary/50 text-sm leading-relaxed"
                   style={{ minHeight: '500px' }}
@@ -354,41 +542,155 @@ export function ResumeEditor({
 
         {/* ATS Suggestions Sidebar */}
         <div className="space-y-4">
-          {/* Optimization Tips */}
+          {/* Score Breakdown */}
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-base flex items-center gap-2">
-                <CheckCircle className="h-4 w-4 text-green-600" />
-                ATS Tips
+                <Target className="h-4 w-4" />
+                Score Breakdown
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="flex items-start gap-2 p-2 bg-green-50 dark:bg-green-950/20 rounded-lg">
-                <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
-                <div className="text-sm">
-                  <div className="font-medium text-green-800 dark:text-green-200">Great section headers!</div>
-                  <div className="text-green-700 dark:text-green-300">Using standard ATS section names</div>
-                </div>
-              </div>
-              
-              <div className="flex items-start gap-2 p-2 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg">
-                <AlertCircle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
-                <div className="text-sm">
-                  <div className="font-medium text-yellow-800 dark:text-yellow-200">Add more keywords</div>
-                  <div className="text-yellow-700 dark:text-yellow-300">Include industry-specific terms</div>
-                </div>
-              </div>
+            <CardContent className="space-y-3 max-h-[400px] overflow-auto">
+              {(Object.keys(SCORE_CATEGORY_LABELS) as ScoreCategory[]).map(category => {
+                const { score, deductions } = atsScore.categories[category];
+                return (
+                  <div key={category} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm font-medium">
+                      <span>{SCORE_CATEGORY_LABELS[category]}</span>
+                      <span className={getATSScoreColor(score)}>{score}%</span>
+                    </div>
+                    {deductions.length === 0 ? (
+                      <div className="flex items-start gap-2 p-2 bg-green-50 dark:bg-green-950/20 rounded-lg">
+                        <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                        <div className="text-sm text-green-800 dark:text-green-200">No deductions</div>
+                      </div>
+                    ) : (
+                      deductions.map((deduction, index) => (
+                        <div key={index} className="flex items-start gap-2 p-2 bg-yellow-50 dark:bg-yellow-950/20 rounded-lg">
+                          <AlertCircle className="h-4 w-4 text-yellow-600 mt-0.5 flex-shrink-0" />
+                          <div className="text-sm flex-1 text-yellow-800 dark:text-yellow-200">{deduction.reason}</div>
+                          <span className="text-xs font-semibold text-yellow-700 dark:text-yellow-300">-{deduction.points}</span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
 
-              <div className="flex items-start gap-2 p-2 bg-blue-50 dark:bg-blue-950/20 rounded-lg">
-                <Target className="h-4 w-4 text-blue-600 mt-0.5 flex-shrink-0" />
-                <div className="text-sm">
-                  <div className="font-medium text-blue-800 dark:text-blue-200">Quantify achievements</div>
-                  <div className="text-blue-700 dark:text-blue-300">Add numbers and percentages</div>
+          {/* Bullet Suggestions */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Lightbulb className="h-4 w-4" />
+                Bullet Suggestions
+                {bulletSuggestions.length > 0 && (
+                  <Badge variant="secondary" className="text-xs ml-auto">
+                    {bulletSuggestions.length}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 max-h-[400px] overflow-auto">
+              {bulletSuggestions.length === 0 ? (
+                <div className="flex items-start gap-2 p-2 bg-green-50 dark:bg-green-950/20 rounded-lg">
+                  <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm text-green-800 dark:text-green-200">Experience bullets look strong</div>
                 </div>
-              </div>
+              ) : (
+                bulletSuggestions.map(bullet => (
+                  <div key={bullet.line} className="space-y-1 p-2 border rounded-lg">
+                    <div className="text-sm font-medium">• {bullet.text}</div>
+                    {bullet.issues.map((issue, index) => (
+                      <div key={index} className="flex items-start gap-2 text-xs text-yellow-800 dark:text-yellow-200">
+                        <AlertCircle className="h-3 w-3 text-yellow-600 mt-0.5 flex-shrink-0" />
+                        <span>{issue.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
             </CardContent>
           </Card>
 
+          {/* Personal Details */}
+          {!isPreviewMode && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <UserX className="h-4 w-4" />
+                  Personal Details
+                  {personalDetails.length > 0 && (
+                    <Badge variant="secondary" className="text-xs ml-auto">
+                      {personalDetails.length}
+                    </Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 max-h-[400px] overflow-auto">
+                {personalDetails.length === 0 ? (
+                  <div className="flex items-start gap-2 p-2 bg-green-50 dark:bg-green-950/20 rounded-lg">
+                    <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+                    <div className="text-sm text-green-800 dark:text-green-200">No bias-sensitive personal details</div>
+                  </div>
+                ) : (
+                  personalDetails.map(detail => (
+                    <div key={`${detail.line}-${detail.start}`} className="flex items-start gap-2 p-2 border rounded-lg">
+                      <AlertCircle
+                        className={cn(
+                          "h-4 w-4 mt-0.5 flex-shrink-0",
+                          detail.customary ? "text-muted-foreground" : "text-yellow-600"
+                        )}
+                      />
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="text-xs text-muted-foreground">
+                          {personalAttributeLabels[detail.attribute]}
+                          {detail.customary && ' · customary in this language, but optional'}
+                        </div>
+                        <div className="text-sm break-words">{detail.text}</div>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleRemovePersonalDetail(detail)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Spelling */}
+          {optimizedDocument.language === 'en' && !isPreviewMode && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <SpellCheck className="h-4 w-4" />
+                  Spelling
+                  {spellingIssues.length > 0 && (
+                    <Badge variant="secondary" className="text-xs ml-auto">
+                      {spellingIssues.length}
+                    </Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="max-h-[400px] overflow-auto">
+                <SpellingPanel
+                  issues={spellingIssues}
+                  ready={spellingReady}
+                  onReplace={handleSpellingReplace}
+                  onIgnore={ignoreWord}
+                  onAddToDictionary={addToDictionary}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Section Management */}
           <Card>
             <CardHeader className="pb-3">
@@ -400,7 +702,12 @@ export function ResumeEditor({
                   key={index}
                   className="flex items-center justify-between p-2 border rounded-lg bg-muted/30 hover:bg-muted/50 transition-colors"
                 >
-                  <span className="text-sm font-medium">{section.standardTitle}</span>
+                  <span className="text-sm font-medium">
+                    {section.kind === 'preamble' ? 'Header' : section.standardTitle}
+                    {section.kind === 'custom' && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">(custom)</span>
+                    )}
+                  </span>
                   <Badge variant="outline" className="text-xs">
                     {section.content.split('\n').length} lines
                   </Badge>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -19,12 +19,18 @@ import {
   AlertTriangle,
   Info
 } from 'lucide-react';
+import { HeadingMappings } from './HeadingMappings';
+import { SpellingPanel } from './SpellingPanel';
 import { cn } from '@/lib/utils';
 import type { DetectedSection } from '@/lib/ats-optimizer';
+import type { ResumeLanguage } from '@/lib/locales/resume-locale';
+import type { SpellingIssue } from '@/lib/spelling/spell-checker';
+import { useSpellChecker } from '@/hooks/useSpellChecker';
 
 interface SectionManagerProps {
   sections: DetectedSection[];
   onSectionsChange: (sections: DetectedSection[]) => void;
+  language?: ResumeLanguage; // Spell checking runs for English resumes only
   className?: string;
 }
 
@@ -96,11 +102,22 @@ const SECTION_TEMPLATES: SectionTemplate[] = [
   }
 ];
 
-export function SectionManager({ sections, onSectionsChange, className }: SectionManagerProps) {
+export function SectionManager({ sections, onSectionsChange, language = 'en', className }: SectionManagerProps) {
   const [editingSectionId, setEditingSectionId] = useState<number | null>(null);
   const [editingContent, setEditingContent] = useState<string>('');
   const [isAddingSection, setIsAddingSection] = useState(false);
 
+  const {
+    ready: spellingReady,
+    check: checkText,
+    ignoreWord,
+    addToDictionary
+  } = useSpellChecker(language === 'en');
+  const spellingIssues = useMemo(
+    () => (editingSectionId !== null ? checkText(editingContent) : []),
+    [checkText, editingContent, editingSectionId]
+  );
+
   const handleDragEnd = (result: DropResult) => {
     if (!result.destination) return;
 
@@ -134,6 +151,12 @@ export function SectionManager({ sections, onSectionsChange, className }: Sectio
     setEditingContent('');
   };
 
+  const handleSpellingReplace = (issue: SpellingIssue, replacement: string) => {
+    // The text may have changed since the check; only replace what was flagged
+    if (editingContent.slice(issue.start, issue.end) !== issue.text) return;
+    setEditingContent(editingContent.slice(0, issue.start) + replacement + editingContent.slice(issue.end));
+  };
+
   const handleDeleteSection = (index: number) => {
     const newSections = sections.filter((_, i) => i !== index);
     onSectionsChange(newSections);
@@ -146,7 +169,8 @@ export function SectionManager({ sections, onSectionsChange, className }: Sectio
       content: template.placeholder,
       startIndex: sections.length > 0 ? sections[sections.length - 1].startIndex + 1 : 0,
       endIndex: sections.length > 0 ? sections[sections.length - 1].endIndex + 1 : 0,
-      confidence: 1.0
+      confidence: 1.0,
+      kind: 'standard'
     };
     
     onSectionsChange([...sections, newSection]);
@@ -239,7 +263,12 @@ export function SectionManager({ sections, onSectionsChange, className }: Sectio
                                 <div className="flex-1 space-y-3">
                                   <div className="flex items-center justify-between">
                                     <div className="flex items-center gap-2">
-                                      <h3 className="font-medium">{section.standardTitle}</h3>
+                                      <h3 className="font-medium">
+                                        {section.kind === 'preamble' ? 'Header' : section.standardTitle}
+                                      </h3>
+                                      {section.kind === 'custom' && (
+                                        <Badge variant="secondary" className="text-xs">Custom</Badge>
+                                      )}
                                       <Badge variant="outline" className="text-xs">
                                         {section.content.trim().split(/\s+/).length} words
                                       </Badge>
@@ -301,12 +330,25 @@ export function SectionManager({ sections, onSectionsChange, className }: Sectio
                                   </div>
 
                                   {isEditing ? (
-                                    <textarea
-                                      value={editingContent}
-                                      onChange={(e) => setEditingContent(e.target.value)}
-                                      className="w-full h-32 p-3 text-sm border rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
-                                      placeholder="Enter section content..."
-                                    />
+                                    <>
+                                      <textarea
+                                        value={editingContent}
+                                        onChange={(e) => setEditingContent(e.target.value)}
+                                        className="w-full h-32 p-3 text-sm border rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-primary/50"
+                                        placeholder="Enter section content..."
+                                        spellCheck={false}
+                                      />
+                                      {language === 'en' && (
+                                        <SpellingPanel
+                                          issues={spellingIssues}
+                                          ready={spellingReady}
+                                          onReplace={handleSpellingReplace}
+                                          onIgnore={ignoreWord}
+                                          onAddToDictionary={addToDictionary}
+                                          className="max-h-48 overflow-auto"
+                                        />
+                                      )}
+                                    </>
                                   ) : (
                                     <div className="bg-muted/30 p-3 rounded-lg">
                                       <pre className="text-sm whitespace-pre-wrap text-muted-foreground leading-relaxed">
@@ -370,6 +412,8 @@ export function SectionManager({ sections, onSectionsChange, className }: Sectio
           )}
         </CardContent>
       </Card>
+
+      <HeadingMappings />
     </div>
   );
 }
@@ -0,0 +1,88 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle, BookPlus, EyeOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SpellingIssue } from '@/lib/spelling/spell-checker';
+
+interface SpellingPanelProps {
+  issues: SpellingIssue[];
+  ready: boolean;
+  onReplace: (issue: SpellingIssue, replacement: string) => void;
+  onIgnore: (word: string) => void;
+  onAddToDictionary: (word: string) => void;
+  className?: string;
+}
+
+export function SpellingPanel({
+  issues,
+  ready,
+  onReplace,
+  onIgnore,
+  onAddToDictionary,
+  className
+}: SpellingPanelProps) {
+  if (!ready) {
+    return <div className={cn("text-sm text-muted-foreground", className)}>Loading dictionary...</div>;
+  }
+
+  if (issues.length === 0) {
+    return (
+      <div className={cn("flex items-start gap-2 p-2 bg-green-50 dark:bg-green-950/20 rounded-lg", className)}>
+        <CheckCircle className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+        <div className="text-sm text-green-800 dark:text-green-200">No spelling issues found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {issues.map(issue => (
+        <div key={`${issue.start}-${issue.text}`} className="space-y-2 p-2 border rounded-lg">
+          <div className="flex items-start gap-2 text-sm">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-600" />
+            <span>{issue.message}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            {issue.suggestions.length === 0 && (
+              <span className="text-xs text-muted-foreground">No suggestions</span>
+            )}
+            {issue.suggestions.map(suggestion => (
+              <Button
+                key={suggestion}
+                variant="outline"
+                size="sm"
+                onClick={() => onReplace(issue, suggestion)}
+                className="h-7 px-2 text-xs"
+              >
+                {suggestion}
+              </Button>
+            ))}
+            <div className="flex items-center gap-1 ml-auto">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onIgnore(issue.text)}
+                className="h-7 px-2 text-xs"
+                title="Ignore this word for the session"
+              >
+                <EyeOff className="h-3 w-3 mr-1" />
+                Ignore
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onAddToDictionary(issue.text)}
+                className="h-7 px-2 text-xs"
+                title="Add this word to your personal dictionary"
+              >
+                <BookPlus className="h-3 w-3 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
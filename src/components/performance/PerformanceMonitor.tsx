@@ -1,12 +1,12 @@
 "use client";
 
 import { useState, useEffect } from 'react';
-import { Activity, Zap, HardDrive, Clock, TrendingUp } from 'lucide-react';
+import { Activity, Zap, HardDrive, Clock, TrendingUp, AlertTriangle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { memoryManager } from '@/lib/performance/memory-manager';
-import { lazyLoader } from '@/lib/performance/lazy-loader';
+import { lazyLoader, type PDFWorkerStatus } from '@/lib/performance/lazy-loader';
 
 interface PerformanceMonitorProps {
   className?: string;
@@ -23,6 +23,7 @@ export function PerformanceMonitor({ className = "", compact = false }: Performa
   } | null>(null);
   const [loadingStatus, setLoadingStatus] = useState<Record<string, boolean>>({});
   const [loadedStatus, setLoadedStatus] = useState<Record<string, boolean>>({});
+  const [pdfWorkerStatus, setPDFWorkerStatus] = useState<PDFWorkerStatus>({ state: 'idle' });
   const [performanceData, setPerformanceData] = useState<{
     pageLoadTime: number;
     libraryLoadTimes: Record<string, number>;
@@ -45,6 +46,7 @@ export function PerformanceMonitor({ className = "", compact = false }: Performa
       const loaded = lazyLoader.getLoadedStatus();
       setLoadingStatus(loading);
       setLoadedStatus(loaded);
+      setPDFWorkerStatus(lazyLoader.getPDFWorkerStatus());
 
       // Calculate page load time if available
       if (typeof performance !== 'undefined' && performance.timing) {
@@ -97,6 +99,12 @@ export function PerformanceMonitor({ className = "", compact = false }: Performa
         <Badge variant="outline" className={`${scoreColor} border-current`}>
           {score}% Performance
         </Badge>
+        {pdfWorkerStatus.state === 'failed' && (
+          <Badge variant="destructive" title={pdfWorkerStatus.error}>
+            <AlertTriangle className="h-3 w-3" />
+            PDF engine offline
+          </Badge>
+        )}
       </div>
     );
   }
@@ -183,6 +191,18 @@ export function PerformanceMonitor({ className = "", compact = false }: Performa
               </div>
             ))}
           </div>
+
+          {pdfWorkerStatus.state === 'failed' && (
+            <div className="p-3 border border-destructive/50 bg-destructive/10 rounded-lg text-sm">
+              <div className="font-medium text-destructive flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                PDF worker failed to start
+              </div>
+              <p className="text-muted-foreground mt-1">
+                {pdfWorkerStatus.error}. PDF files can&apos;t be processed until it starts; other formats still work.
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Performance Metrics */}
@@ -181,6 +181,7 @@ export function PrivacyIndicator({ className = "", showDetailed = false }: Priva
         <div className="text-xs text-green-600 dark:text-green-400 space-y-1">
           <div>• Your files are processed entirely in your browser</div>
           <div>• No data is ever sent to our servers</div>
+          <div>• PDF passwords unlock files locally and are never stored</div>
           <div>• Close your browser tab to clear all session data</div>
           <div>• Use incognito mode for maximum privacy</div>
         </div>
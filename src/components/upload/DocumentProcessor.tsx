@@ -1,11 +1,25 @@
 "use client";
 
-import { useEffect, useState, useCallback } from 'react';
-import { processDocument, type ProcessingResult, type ProcessingProgress } from '@/lib/document-processor';
+import { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  processDocument,
+  type ProcessingResult,
+  type ProcessingProgress,
+  type ProcessingOptions
+} from '@/lib/document-processor';
+import { createAnonymizedDownload } from '@/lib/processing-pipeline';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
 import { 
   FileText, 
   Download, 
@@ -13,9 +27,21 @@ import {
   AlertCircle, 
   Loader2,
   Clock,
-  FileCheck
+  FileCheck,
+  ScanText,
+  Lock,
+  XCircle,
+  Languages,
+  Lightbulb,
+  ShieldCheck
 } from 'lucide-react';
-import type { UploadedFile } from '@/types/file-upload';
+import { ContentLossCard } from '../editor/ContentLossCard';
+import { loadHeadingMappings } from '@/lib/section-headings';
+import { RESUME_LOCALES, type ResumeLanguage } from '@/lib/locales/resume-locale';
+import { UPLOAD_ERROR_CODES, type UploadedFile, type UploadError } from '@/types/file-upload';
+
+// Resume language picked by the user; 'auto' detects it from the document text
+type LanguageChoice = ResumeLanguage | 'auto';
 
 interface DocumentProcessorProps {
   uploadedFile: UploadedFile;
@@ -34,30 +60,128 @@ export function DocumentProcessor({
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<ProcessingResult | null>(null);
   const [error, setError] = useState<Error | null>(null);
+  const [ocrOffer, setOcrOffer] = useState<UploadError | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<UploadError | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  // Options of the current run, kept in memory only so an OCR retry can reuse the password
+  const optionsRef = useRef<ProcessingOptions>({});
+  // Aborting terminates the processing worker (or stops the main-thread fallback between stages)
+  const abortRef = useRef<AbortController | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const [languageChoice, setLanguageChoice] = useState<LanguageChoice>('auto');
+  // Whether the anonymized download also masks school and employer names
+  const [redactOrganizations, setRedactOrganizations] = useState(false);
+  // Downloads stay blocked after a large content loss until the user has reviewed it
+  const [lossAcknowledged, setLossAcknowledged] = useState(false);
 
-  const handleStartProcessing = useCallback(async () => {
+  const runProcessing = useCallback(async (options: ProcessingOptions = {}) => {
+    optionsRef.current = options;
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
+    setCancelled(false);
     setError(null);
     setResult(null);
+    setOcrOffer(null);
+    setPasswordPrompt(null);
+    setLossAcknowledged(false);
 
     try {
-      const processingResult = await processDocument(uploadedFile, setProgress);
+      // Custom heading mappings saved in the editor apply to every run
+      const processingResult = await processDocument(uploadedFile, setProgress, {
+        ...options,
+        headingMappings: loadHeadingMappings(),
+        signal: controller.signal
+      });
       setResult(processingResult);
       onComplete(processingResult);
     } catch (err) {
-      const error = err instanceof Error ? err : new Error('Processing failed');
+      const uploadError = isUploadError(err) ? err : null;
+
+      // Cancelling returns to the ready state instead of reporting an error
+      if (uploadError?.code === UPLOAD_ERROR_CODES.PROCESSING_CANCELLED) {
+        setProgress(null);
+        setCancelled(true);
+        return;
+      }
+
+      // Protected PDFs are unlocked locally; the password is never stored
+      if (uploadError?.code === UPLOAD_ERROR_CODES.PASSWORD_REQUIRED ||
+          uploadError?.code === UPLOAD_ERROR_CODES.INCORRECT_PASSWORD) {
+        optionsRef.current = {};
+        setPasswordPrompt(uploadError);
+        return;
+      }
+
+      // Scanned PDFs aren't a dead end: offer on-device OCR instead of failing
+      if (uploadError?.code === UPLOAD_ERROR_CODES.IMAGE_ONLY_PDF) {
+        setOcrOffer(uploadError);
+        return;
+      }
+
+      const error = err instanceof Error ? err : new Error(uploadError?.message || 'Processing failed');
       setError(error);
       onError(error);
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
       setIsProcessing(false);
     }
   }, [uploadedFile, onComplete, onError]);
 
+  const handleStartProcessing = useCallback(
+    () => runProcessing({ language: toResumeLanguage(languageChoice) }),
+    [runProcessing, languageChoice]
+  );
+
+  // Re-running keeps the password and OCR choice of the current run
+  const handleLanguageChange = (choice: LanguageChoice) => {
+    setLanguageChoice(choice);
+    runProcessing({ ...optionsRef.current, language: toResumeLanguage(choice) });
+  };
+
+  // Only the anonymized download changes, so it's redacted again from the optimized document
+  const handleRedactOrganizationsChange = (checked: boolean) => {
+    setRedactOrganizations(checked);
+    optionsRef.current = { ...optionsRef.current, redactOrganizations: checked };
+    if (!result) return;
+
+    const anonymized = createAnonymizedDownload(result.optimizedDocument, { maskOrganizations: checked });
+    const updated = {
+      ...result,
+      downloadOptions: result.downloadOptions.map(option => (option.redaction ? anonymized : option))
+    };
+    setResult(updated);
+    onComplete(updated);
+  };
+
+  const handleCancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    const password = passwordInput;
+    setPasswordInput('');
+    runProcessing({ password, language: toResumeLanguage(languageChoice), redactOrganizations });
+  };
+
+  // Drop any in-memory password and stop in-flight processing when the processor goes away
+  useEffect(() => {
+    const options = optionsRef;
+    const abort = abortRef;
+    return () => {
+      options.current = {};
+      abort.current?.abort();
+    };
+  }, []);
+
   useEffect(() => {
-    if (autoStart && !isProcessing && !result && !error) {
+    if (autoStart && !isProcessing && !result && !error && !ocrOffer && !passwordPrompt && !cancelled) {
       handleStartProcessing();
     }
-  }, [autoStart, isProcessing, result, error, handleStartProcessing]);
+  }, [autoStart, isProcessing, result, error, ocrOffer, passwordPrompt, cancelled, handleStartProcessing]);
 
   const downloadFile = (content: string | Uint8Array, filename: string, mimeType: string) => {
     // Handle different content types for Blob creation
@@ -98,7 +222,93 @@ export function DocumentProcessor({
     );
   }
 
+  if (passwordPrompt && !isProcessing) {
+    return (
+      <Card className="border-yellow-500">
+        <CardContent className="p-6 text-center">
+          <Lock className="h-12 w-12 text-yellow-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">
+            Password Required
+          </h3>
+          <p className={`text-sm mb-4 ${passwordPrompt.code === UPLOAD_ERROR_CODES.INCORRECT_PASSWORD ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {passwordPrompt.message}
+          </p>
+          <form onSubmit={handleUnlock} className="space-y-3 max-w-sm mx-auto">
+            <Input
+              type="password"
+              value={passwordInput}
+              onChange={(e) => setPasswordInput(e.target.value)}
+              placeholder="PDF password"
+              autoComplete="off"
+              autoFocus
+              aria-label="PDF password"
+            />
+            <div className="flex flex-col gap-2 sm:flex-row sm:justify-center">
+              <Button type="submit" disabled={passwordInput.length === 0}>
+                <Lock className="h-4 w-4 mr-2" />
+                Unlock PDF
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setPasswordInput('');
+                  setPasswordPrompt(null);
+                  onError(new Error(passwordPrompt.message));
+                }}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+          <p className="text-xs text-muted-foreground mt-4">
+            The password is used only to open the file in your browser. It is never stored or sent anywhere.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (ocrOffer && !isProcessing) {
+    return (
+      <Card className="border-yellow-500">
+        <CardContent className="p-6 text-center">
+          <ScanText className="h-12 w-12 text-yellow-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">
+            Scanned Resume Detected
+          </h3>
+          <p className="text-sm text-muted-foreground mb-2">
+            {ocrOffer.message}
+          </p>
+          <p className="text-xs text-muted-foreground mb-4">
+            Text recognition runs entirely in your browser and may take a minute for multi-page files.
+          </p>
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-center">
+            <Button onClick={() => runProcessing({ ...optionsRef.current, enableOCR: true })}>
+              <ScanText className="h-4 w-4 mr-2" />
+              Recognize Text (OCR)
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setOcrOffer(null);
+                onError(new Error(ocrOffer.message));
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (result) {
+    const { contentCheck } = result.optimizedDocument;
+    const downloadsBlocked = contentCheck.exceedsThreshold && !lossAcknowledged;
+    const bulletSuggestions = result.optimizedDocument.optimizations.filter(opt => opt.type === 'bullet_suggestion');
+    const redaction = result.downloadOptions.find(option => option.redaction)?.redaction;
+
     return (
       <div className="space-y-6">
         {/* Processing Complete Card */}
@@ -130,9 +340,24 @@ export function DocumentProcessor({
                 <div className="text-muted-foreground">Processing Time</div>
               </div>
             </div>
+            <div className="flex flex-col items-center justify-center gap-2 mt-4 text-sm sm:flex-row">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <Languages className="h-4 w-4" />
+                Resume language: <strong>{RESUME_LOCALES[result.optimizedDocument.language].name}</strong>
+                {languageChoice === 'auto' && ' (detected)'}
+              </span>
+              <LanguageSelect value={languageChoice} onChange={handleLanguageChange} />
+            </div>
           </CardContent>
         </Card>
 
+        {/* Content-loss guard */}
+        <ContentLossCard
+          report={contentCheck}
+          acknowledged={lossAcknowledged}
+          onAcknowledge={() => setLossAcknowledged(true)}
+        />
+
         {/* Download Options */}
         <Card>
           <CardHeader>
@@ -157,6 +382,7 @@ export function DocumentProcessor({
                     </div>
                     <Button 
                       className="w-full"
+                      disabled={downloadsBlocked}
                       onClick={() => downloadFile(option.content, option.filename, option.mimeType)}
                     >
                       <Download className="h-4 w-4 mr-2" />
@@ -169,6 +395,45 @@ export function DocumentProcessor({
           </CardContent>
         </Card>
 
+        {/* Redaction Report */}
+        {redaction && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Anonymized Copy
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {redaction.maskedCount > 0
+                  ? `${redaction.maskedCount} personal details are masked in the anonymized download.`
+                  : 'No personal details were found to mask.'}
+              </p>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={redactOrganizations}
+                  onChange={(e) => handleRedactOrganizationsChange(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                Also mask school and employer names
+              </label>
+              {redaction.items.length > 0 && (
+                <div className="space-y-1">
+                  {redaction.items.map((item, index) => (
+                    <div key={index} className="text-sm pl-6">
+                      • <span className="line-through text-muted-foreground">{item.original}</span>
+                      {' → '}<span className="font-medium">{item.replacement}</span>
+                      {item.occurrences > 1 && <span className="text-muted-foreground"> ({item.occurrences}×)</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Optimization Summary */}
         <Card>
           <CardHeader>
@@ -179,7 +444,7 @@ export function DocumentProcessor({
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {result.optimizedDocument.optimizations.map((opt, index) => (
+              {result.optimizedDocument.optimizations.filter(opt => opt.type !== 'bullet_suggestion').map((opt, index) => (
                 <div key={index} className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
                   <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />
                   <div>
@@ -194,6 +459,23 @@ export function DocumentProcessor({
               ))}
             </div>
 
+            {bulletSuggestions.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <h4 className="text-sm font-medium flex items-center gap-2">
+                  <Lightbulb className="h-4 w-4 text-yellow-500" />
+                  Bullet Suggestions
+                </h4>
+                <div className="space-y-2">
+                  {bulletSuggestions.map((suggestion, index) => (
+                    <div key={index} className="text-sm pl-6">
+                      <div className="font-medium">{suggestion.beforeSample}</div>
+                      <div className="text-muted-foreground">{suggestion.description}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {result.optimizedDocument.warnings.length > 0 && (
               <div className="mt-4 space-y-2">
                 <h4 className="text-sm font-medium flex items-center gap-2">
@@ -236,12 +518,23 @@ export function DocumentProcessor({
                   <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
                     <Clock className="h-4 w-4" />
                     <span>Stage: {progress.stage}</span>
+                    {progress.page && (
+                      <>
+                        <span>•</span>
+                        <span>Page {progress.page.current} of {progress.page.total}</span>
+                      </>
+                    )}
                     <span>•</span>
                     <span>{progress.progress}% complete</span>
                   </div>
                 </div>
               )}
             </div>
+
+            <Button variant="outline" size="sm" onClick={handleCancelProcessing}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -269,6 +562,12 @@ export function DocumentProcessor({
             <div><strong>Type:</strong> {uploadedFile.metadata.type}</div>
           </div>
           
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Languages className="h-4 w-4" />
+            <span>Resume language:</span>
+            <LanguageSelect value={languageChoice} onChange={setLanguageChoice} />
+          </div>
+          
           <Button size="lg" onClick={handleStartProcessing} className="w-full sm:w-auto">
             <FileCheck className="h-4 w-4 mr-2" />
             Start ATS Optimization
@@ -279,6 +578,35 @@ export function DocumentProcessor({
   );
 }
 
+// Picker for the resume language; headings and recommendations are written in it
+function LanguageSelect({ value, onChange }: { value: LanguageChoice; onChange: (choice: LanguageChoice) => void }) {
+  return (
+    <Select value={value} onValueChange={(choice) => onChange(choice as LanguageChoice)}>
+      <SelectTrigger className="w-40 h-8" aria-label="Resume language">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="auto">Auto-detect</SelectItem>
+        {(Object.keys(RESUME_LOCALES) as ResumeLanguage[]).map(language => (
+          <SelectItem key={language} value={language}>
+            {RESUME_LOCALES[language].name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Maps the picker value to a processing option; undefined lets the optimizer detect the language
+function toResumeLanguage(choice: LanguageChoice): ResumeLanguage | undefined {
+  return choice === 'auto' ? undefined : choice;
+}
+
+// Type guard for UploadError objects thrown by the parsing pipeline
+function isUploadError(error: unknown): error is UploadError {
+  return typeof error === 'object' && error !== null && 'code' in error && 'message' in error;
+}
+
 // Helper function to format file size
 function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
@@ -165,7 +165,7 @@ export function FileUploader({
                   Drag and drop your resume or click to browse
                 </p>
                 <div className="text-sm text-muted-foreground space-y-1">
-                  <p>Supported formats: PDF, DOCX</p>
+                  <p>Supported formats: PDF, DOCX, ODT, RTF, TXT, Markdown, JSON Resume</p>
                   <p>Maximum size: {formatFileSize(FILE_UPLOAD_CONFIG.MAX_FILE_SIZE)}</p>
                   <p className="text-green-600 font-medium">Your data never leaves your browser</p>
                 </div>
@@ -260,7 +260,7 @@ export function FileUploader({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+        accept={[...FILE_UPLOAD_CONFIG.SUPPORTED_EXTENSIONS, ...Object.keys(FILE_UPLOAD_CONFIG.SUPPORTED_TYPES)].join(',')}
         onChange={handleInputChange}
         className="hidden"
         disabled={disabled}
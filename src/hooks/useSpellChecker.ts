@@ -0,0 +1,77 @@
+"use client";
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { loadLibrary } from '@/lib/performance/lazy-loader';
+import {
+  createSpellChecker,
+  checkSpelling,
+  loadPersonalDictionary,
+  savePersonalDictionary,
+  type SpellingIssue
+} from '@/lib/spelling/spell-checker';
+
+interface UseSpellCheckerReturn {
+  ready: boolean;
+  check: (text: string) => SpellingIssue[];
+  ignoreWord: (word: string) => void;
+  addToDictionary: (word: string) => void;
+}
+
+/**
+ * Offline spell checking for the editors: loads the bundled word list on first use and
+ * keeps the user's personal dictionary in local storage
+ * @param enabled - Whether to check at all (the word list is English only)
+ */
+export function useSpellChecker(enabled: boolean): UseSpellCheckerReturn {
+  const [words, setWords] = useState<string | null>(null);
+  const [personalWords, setPersonalWords] = useState<string[]>([]);
+  // Ignored words last for the session only; added words are saved
+  const [ignoredWords, setIgnoredWords] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setPersonalWords(loadPersonalDictionary());
+    loadLibrary.dictionary()
+      .then(loaded => {
+        if (!cancelled) setWords(loaded as string);
+      })
+      .catch(error => console.warn('⚠️ Spell checking unavailable:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const checker = useMemo(
+    () => (enabled && words !== null ? createSpellChecker(words, personalWords) : null),
+    [enabled, words, personalWords]
+  );
+
+  const check = useCallback(
+    (text: string) => (checker ? checkSpelling(text, checker, ignoredWords) : []),
+    [checker, ignoredWords]
+  );
+
+  const ignoreWord = useCallback((word: string) => {
+    setIgnoredWords(prev => new Set(prev).add(word.toLowerCase()));
+  }, []);
+
+  const addToDictionary = useCallback((word: string) => {
+    setPersonalWords(prev => {
+      const lower = word.toLowerCase();
+      if (prev.includes(lower)) return prev;
+      const updated = [...prev, lower];
+      savePersonalDictionary(updated);
+      return updated;
+    });
+  }, []);
+
+  return {
+    ready: checker !== null,
+    check,
+    ignoreWord,
+    addToDictionary
+  };
+}
@@ -1,9 +1,32 @@
 // ATS Optimization Engine following PRD Core Principles for High-Quality ATS Conversion
-import type { ParsedDocument } from './parsers/pdf-parser';
+import type { ParsedDocument, TextBlock } from './parsers/pdf-parser';
+import { extractResumeData, type ResumeSectionText } from './resume/resume-extractor';
+import { checkWorkTimeline } from './resume/work-timeline';
+import { normalizeSkillList, type SkillListNormalization } from './resume/skill-normalizer';
+import {
+  extractContactInfo,
+  stripContactDetails,
+  formatContactBlock,
+  checkContactInfo,
+  type ContactInfo
+} from './resume/contact-info';
+import type { SectionKey, HeadingMatch, HeadingMatcher, HeadingMapping } from './section-headings';
+import {
+  RESUME_LOCALES,
+  detectResumeLanguage,
+  createLocaleHeadingMatcher,
+  type ResumeLanguage,
+  type ResumeLocale
+} from './locales/resume-locale';
+import { checkContentLoss, type ContentLossReport, type ExpectedReplacement } from './content-loss';
+import { analyzeBullets } from './bullet-analyzer';
+import { detectPersonalDetails } from './bias-detector';
+import type { ResumeData } from '@/types/resume';
 
 export interface ATSOptimizedDocument {
   content: string;
   sections: DetectedSection[];
+  resume: ResumeData;
   optimizations: OptimizationResult[];
   statistics: {
     originalWordCount: number;
@@ -12,6 +35,9 @@ export interface ATSOptimizedDocument {
     issuesFixed: number;
   };
   warnings: string[];
+  language: ResumeLanguage; // Language the headings and warnings are written in
+  contentCheck: ContentLossReport; // Original text missing from the optimized content
+  skills?: SkillListNormalization; // Skills list as normalized, when the Skills section is a plain list
 }
 
 export interface DetectedSection {
@@ -21,108 +47,100 @@ export interface DetectedSection {
   startIndex: number;
   endIndex: number;
   confidence: number;
+  // Standard heading, unrecognized heading kept as written, or the text above the first heading
+  kind: 'standard' | 'custom' | 'preamble';
+}
+
+export interface ATSOptimizationOptions {
+  headingMappings?: HeadingMapping[]; // User's own headings, applied before the built-in dictionary
+  language?: ResumeLanguage; // Resume language; detected from the text when omitted
 }
 
 export interface OptimizationResult {
-  type: 'heading_standardized' | 'formatting_cleaned' | 'structure_improved' | 'content_enhanced';
+  // bullet_suggestion results are advice on wording; the text itself is left unchanged
+  type: 'heading_standardized' | 'formatting_cleaned' | 'structure_improved' | 'content_enhanced' | 'bullet_suggestion';
   description: string;
   beforeSample?: string;
   afterSample?: string;
 }
 
-// Standard ATS-friendly section headings per PRD requirements
-const STANDARD_SECTIONS = {
-  'PERSONAL_INFO': 'Contact Information',
-  'PROFESSIONAL_SUMMARY': 'Professional Summary',
-  'WORK_EXPERIENCE': 'Work Experience',
-  'EDUCATION': 'Education',
-  'SKILLS': 'Skills',
-  'CERTIFICATIONS': 'Certifications',
-  'PROJECTS': 'Projects',
-  'VOLUNTEER': 'Volunteer Experience',
-  'AWARDS': 'Awards and Honors',
-  'PUBLICATIONS': 'Publications',
-  'LANGUAGES': 'Languages',
-  'INTERESTS': 'Additional Information'
-} as const;
-
-// Section detection patterns - maps various headings to standard sections
-const SECTION_PATTERNS = {
-  // Personal/Contact Information variations
-  'PERSONAL_INFO': [
-    /^(contact\s+information|personal\s+information|contact|contact\s+details|personal\s+details)$/i
-  ],
-  
-  // Professional Summary variations
-  'PROFESSIONAL_SUMMARY': [
-    /^(professional\s+summary|summary|profile|objective|career\s+objective|personal\s+statement|about\s+me|overview)$/i
-  ],
-  
-  // Work Experience variations
-  'WORK_EXPERIENCE': [
-    /^(work\s+experience|professional\s+experience|employment|career\s+history|experience|work\s+history|professional\s+background|my\s+professional\s+journey)$/i
-  ],
-  
-  // Education variations
-  'EDUCATION': [
-    /^(education|academic\s+background|qualifications|academic\s+qualifications|educational\s+background)$/i
-  ],
-  
-  // Skills variations
-  'SKILLS': [
-    /^(skills|technical\s+skills|core\s+competencies|competencies|expertise|abilities|proficiencies|key\s+skills)$/i
-  ],
-  
-  // Certifications variations
-  'CERTIFICATIONS': [
-    /^(certifications|certificates|professional\s+certifications|licenses|credentials)$/i
-  ],
-  
-  // Projects variations
-  'PROJECTS': [
-    /^(projects|key\s+projects|notable\s+projects|project\s+experience|portfolio)$/i
-  ],
-  
-  // Volunteer variations
-  'VOLUNTEER': [
-    /^(volunteer|volunteer\s+experience|community\s+service|volunteer\s+work|community\s+involvement)$/i
-  ],
-  
-  // Awards variations
-  'AWARDS': [
-    /^(awards|honors|achievements|recognition|accomplishments|awards\s+and\s+honors)$/i
-  ],
-  
-  // Publications variations
-  'PUBLICATIONS': [
-    /^(publications|research|papers|articles|published\s+work)$/i
-  ],
-  
-  // Languages variations
-  'LANGUAGES': [
-    /^(languages|language\s+skills|linguistic\s+abilities)$/i
-  ],
-  
-  // Additional Information variations
-  'INTERESTS': [
-    /^(interests|hobbies|additional\s+information|personal\s+interests|other|miscellaneous)$/i
-  ]
-};
+// OCR confidence (0-100) below which recognized text needs careful review
+const OCR_LOW_CONFIDENCE = 70;
+
+// Minimum style-aware score for a line to be treated as a section heading
+const HEADING_SCORE_THRESHOLD = 0.5;
+
+// Lines scanned for contact details when no section headings are found
+const CONTACT_SCAN_LINES = 8;
+
+// Confidence for sections under headings that aren't in the dictionary
+const CUSTOM_SECTION_CONFIDENCE = 0.3;
+
+// Longest line (in words) kept as an unrecognized section heading
+const MAX_CUSTOM_HEADING_WORDS = 5;
+
+interface BlockStyleIndex {
+  blocks: Map<string, TextBlock>;
+  bodyFontSize: number;
+}
+
+// A line within the sections; line -1 is the section title
+interface LinePosition {
+  section: number;
+  line: number;
+}
 
 /**
  * Main ATS optimization function following PRD Core Principles
  * @param parsedDocument - Document parsed from PDF or DOCX
+ * @param options - Optional settings such as the user's custom heading mappings and the resume language
  * @returns Optimized document ready for ATS systems
  */
-export function optimizeForATS(parsedDocument: ParsedDocument): ATSOptimizedDocument {
+export function optimizeForATS(parsedDocument: ParsedDocument, options: ATSOptimizationOptions = {}): ATSOptimizedDocument {
   const optimizations: OptimizationResult[] = [];
   const warnings: string[] = [];
   
+  // Headings are matched and standardized in the resume's own language
+  const language = options.language ?? detectResumeLanguage(parsedDocument.text);
+  const locale = RESUME_LOCALES[language];
+  const matchHeading = createLocaleHeadingMatcher(language, options.headingMappings);
+  
   // Step 1: Detect and standardize sections (PRD Principle 7.2.1)
-  const sections = detectSections(parsedDocument.text);
+  // Header/footer content is moved into the body first (PRD Principle 7.1.4)
+  const pageText = relocatePageArtifacts(parsedDocument, optimizations, matchHeading, locale.titles);
+  const styleIndex = buildStyleIndex(parsedDocument.blocks);
+  
+  // Contact details are gathered into one canonical block at the top before sections are final
+  const { text: arrangedText, contact, replacedHeadings, foldedLines } = arrangeContactInformation(
+    pageText,
+    detectSections(pageText, styleIndex, matchHeading, locale.titles),
+    optimizations,
+    locale
+  );
+  
+  // Skills are canonicalized, deduplicated and grouped before the resume model is read from them
+  const { text: sourceText, skills, replacements: skillReplacements } = normalizeSkillSections(
+    arrangedText,
+    detectSections(arrangedText, styleIndex, matchHeading, locale.titles),
+    locale,
+    optimizations
+  );
+  const headedSections = detectSections(sourceText, styleIndex, matchHeading, locale.titles);
+  
+  // Structured model: imported directly from JSON Resume files, otherwise read from the sections
+  const resume = parsedDocument.resume ?? extractResumeData(collectResumeSectionText(sourceText, headedSections, locale.titles));
+  
+  // The preamble and custom sections carry everything outside recognized sections into the output;
+  // original lines still missing after the rewrites above are restored where they stood
+  const sections = ensureContentCoverage(
+    parsedDocument.text,
+    [...createPreambleSection(sourceText, headedSections), ...headedSections],
+    [...foldedLines, ...replacedHeadings.map(replacement => replacement.before), ...skillReplacements.map(replacement => replacement.before)],
+    optimizations
+  );
   
   // Step 2: Apply structural optimizations (PRD Principle 7.1)
-  let optimizedContent = applyStructuralOptimizations(parsedDocument.text, optimizations);
+  let optimizedContent = applyStructuralOptimizations(sourceText, optimizations);
   
   // Step 3: Standardize section headings
   optimizedContent = standardizeSectionHeadings(optimizedContent, sections, optimizations);
@@ -131,37 +149,228 @@ export function optimizeForATS(parsedDocument: ParsedDocument): ATSOptimizedDocu
   optimizedContent = cleanFormatting(optimizedContent, optimizations);
   
   // Step 5: Ensure single-column layout
-  optimizedContent = ensureSingleColumnLayout(optimizedContent, optimizations);
+  optimizedContent = ensureSingleColumnLayout(
+    optimizedContent,
+    optimizations,
+    parsedDocument.metadata.multiColumnPages ?? 0,
+    parsedDocument.linearizedStructures
+  );
   
   // Step 6: Validate and add warnings
-  const validationWarnings = validateATSCompliance(optimizedContent, sections);
+  const validationWarnings = validateATSCompliance(optimizedContent, sections, resume, contact, locale);
   warnings.push(...validationWarnings);
   
+  // Text recognized from scanned pages may contain OCR errors
+  if (parsedDocument.ocr) {
+    warnings.push(
+      parsedDocument.ocr.confidence < OCR_LOW_CONFIDENCE
+        ? locale.messages.ocrLowConfidence(parsedDocument.ocr.confidence)
+        : locale.messages.ocrReview(parsedDocument.ocr.confidence)
+    );
+  }
+
+  // Personal details that invite bias; those customary in the resume's language are only optional
+  detectPersonalDetails(optimizedContent, { language }).forEach(detail => {
+    const message = detail.customary ? locale.messages.customaryPersonalDetail : locale.messages.personalDetail;
+    warnings.push(message(locale.personalAttributes[detail.attribute], detail.text));
+  });
+  
+  // Step 7: Review experience bullets; rewording is left to the user
+  analyzeBullets(optimizedContent, { language })
+    .filter(bullet => bullet.issues.length > 0)
+    .forEach(bullet => optimizations.push({
+      type: 'bullet_suggestion',
+      description: bullet.issues.map(issue => issue.message).join('; '),
+      beforeSample: bullet.text
+    }));
+  
+  // Guard against text lost or rewritten by mistake; standardized headings, merged contact headings and skills are intended
+  const contentCheck = checkContentLoss(parsedDocument.text, optimizedContent, {
+    expectedReplacements: [
+      ...replacedHeadings,
+      ...sections
+        .filter(section => section.kind === 'standard' && section.title !== section.standardTitle)
+        .map(section => ({ before: section.title, after: section.standardTitle })),
+      ...skillReplacements
+    ]
+  });
+  
   // Calculate statistics
   const statistics = {
     originalWordCount: parsedDocument.metadata.wordCount,
     optimizedWordCount: countWords(optimizedContent),
     sectionsStandardized: optimizations.filter(o => o.type === 'heading_standardized').length,
-    issuesFixed: optimizations.length
+    issuesFixed: optimizations.filter(o => o.type !== 'bullet_suggestion').length
   };
   
   return {
     content: optimizedContent,
     sections,
+    resume,
     optimizations,
     statistics,
-    warnings
+    warnings,
+    language,
+    contentCheck,
+    skills
   };
 }
 
+/**
+ * Reports removed page headers/footers and moves their unique content into
+ * the Contact Information section per PRD Principle 7.1.4
+ * @param parsedDocument - Parsed document with optional page artifacts
+ * @param optimizations - Array to track optimizations
+ * @param matchHeading - Section heading matcher
+ * @param titles - Standard section titles in the resume's language
+ * @returns Document text with header/footer content relocated
+ */
+function relocatePageArtifacts(
+  parsedDocument: ParsedDocument,
+  optimizations: OptimizationResult[],
+  matchHeading: HeadingMatcher,
+  titles: Record<SectionKey, string>
+): string {
+  const artifacts = parsedDocument.pageArtifacts;
+  if (!artifacts) return parsedDocument.text;
+  
+  for (const removed of artifacts.removed) {
+    const pageCount = removed.pages.length;
+    const pageLabel = `${pageCount} ${pageCount === 1 ? 'page' : 'pages'}`;
+    
+    optimizations.push({
+      type: 'formatting_cleaned',
+      description: removed.kind === 'page_number'
+        ? `Removed page numbers from the ${removed.position} of ${pageLabel}`
+        : `Removed repeated page ${removed.position} from ${pageLabel}`,
+      beforeSample: removed.text
+    });
+  }
+  
+  const lines = parsedDocument.text.split('\n');
+  const existing = new Set(lines.map(line => line.trim().toLowerCase()));
+  const toRelocate = artifacts.relocatedContent.filter(content => !existing.has(content.toLowerCase()));
+  
+  if (toRelocate.length === 0) return parsedDocument.text;
+  
+  // Insert under an existing contact heading, or open the document with one
+  const contactIndex = lines.findIndex(line =>
+    isLikelyHeading(line.trim(), matchHeading) && matchHeading(line.trim())?.section === 'PERSONAL_INFO'
+  );
+  
+  if (contactIndex !== -1) {
+    lines.splice(contactIndex + 1, 0, ...toRelocate);
+  } else {
+    lines.unshift(titles.PERSONAL_INFO, ...toRelocate, '');
+  }
+  
+  optimizations.push({
+    type: 'structure_improved',
+    description: 'Moved page header/footer content into the Contact Information section',
+    afterSample: toRelocate.join(' | ')
+  });
+  
+  return lines.join('\n');
+}
+
+/**
+ * Gathers contact details from the document opening and any Contact Information
+ * sections into one canonical block at the top: name, remaining headline lines,
+ * then a Contact Information section with one labeled line per detail
+ * @param text - Document text
+ * @param sections - Sections detected in the text
+ * @param optimizations - Array to track optimizations
+ * @param locale - Resume language, for the section title and contact labels
+ * @returns Rearranged text, the contact details found, the contact headings replaced by the canonical one,
+ * and the original lines whose details were folded into the canonical lines
+ */
+function arrangeContactInformation(
+  text: string,
+  sections: DetectedSection[],
+  optimizations: OptimizationResult[],
+  locale: ResumeLocale
+): { text: string; contact: ContactInfo; replacedHeadings: ExpectedReplacement[]; foldedLines: string[] } {
+  const { titles } = locale;
+  const lines = text.split('\n');
+  const preambleEnd = sections.length > 0 ? sections[0].startIndex : Math.min(lines.length, CONTACT_SCAN_LINES);
+  
+  // Contact Information sections run to the next detected section
+  const contactRanges = sections.flatMap((section, index) =>
+    section.standardTitle === titles.PERSONAL_INFO
+      ? [{ start: section.startIndex, end: sections[index + 1]?.startIndex ?? lines.length }]
+      : []
+  );
+  const contactRangeAt = (index: number) => contactRanges.find(range => index >= range.start && index < range.end);
+  
+  const contact = extractContactInfo(lines.filter((_, index) => {
+    const range = contactRangeAt(index);
+    return index < preambleEnd || (range !== undefined && range.start !== index);
+  }));
+  const contactLines = formatContactBlock(contact, locale.contactLabels);
+  if (contactLines.length === 0) return { text, contact, replacedHeadings: [], foldedLines: [] };
+  
+  const headline: string[] = [];
+  const extraContactLines: string[] = [];
+  const body: string[] = [];
+  const foldedLines: string[] = [];
+  
+  lines.forEach((line, index) => {
+    const range = contactRangeAt(index);
+    if (index >= preambleEnd && !range) {
+      body.push(line);
+      return;
+    }
+    if (range?.start === index) return; // Contact heading, re-added above the canonical lines
+    
+    const rest = stripContactDetails(line, contact);
+    if (rest !== line.trim()) foldedLines.push(line);
+    if (rest) (range ? extraContactLines : headline).push(rest);
+  });
+  
+  const arranged = [
+    ...(contact.name ? [contact.name] : []),
+    ...headline,
+    '',
+    titles.PERSONAL_INFO,
+    ...contactLines,
+    ...extraContactLines,
+    '',
+    ...body
+  ].join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  
+  if (arranged !== text.trim()) {
+    optimizations.push({
+      type: 'structure_improved',
+      description: 'Gathered contact details into a Contact Information section at the top',
+      afterSample: contactLines.join(' | ')
+    });
+  }
+  
+  // The first contact heading becomes the canonical title; any others are merged into it
+  const replacedHeadings = contactRanges.map((range, index) => ({
+    before: lines[range.start],
+    after: index === 0 ? titles.PERSONAL_INFO : ''
+  }));
+
+  return { text: arranged, contact, replacedHeadings, foldedLines };
+}
+
 /**
  * Detects sections in the document text
  * @param text - Document text
+ * @param styleIndex - Optional font-style signals from the parser
+ * @param matchHeading - Section heading matcher
+ * @param titles - Standard section titles in the resume's language
  * @returns Array of detected sections
  */
-function detectSections(text: string): DetectedSection[] {
-  const sections: DetectedSection[] = [];
+function detectSections(
+  text: string,
+  styleIndex: BlockStyleIndex | null,
+  matchHeading: HeadingMatcher,
+  titles: Record<SectionKey, string>
+): DetectedSection[] {
   const lines = text.split('\n');
+  const headings: { index: number; match: HeadingMatch | null }[] = [];
   
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -170,40 +379,336 @@ function detectSections(text: string): DetectedSection[] {
     if (!line) continue;
     
     // Check if line looks like a heading (short, often in caps, no periods)
-    if (isLikelyHeading(line)) {
-      const matchedSection = matchSectionPattern(line);
-      
-      if (matchedSection) {
-        // Find the content for this section (until next heading or end)
-        const contentLines: string[] = [];
-        let j = i + 1;
-        
-        while (j < lines.length && !isLikelyHeading(lines[j].trim())) {
-          contentLines.push(lines[j]);
-          j++;
+    if (isSectionHeading(line, styleIndex, matchHeading)) {
+      const match = matchHeading(line);
+      if (match) headings.push({ index: i, match });
+    }
+  }
+  
+  // Unknown headings styled like the recognized ones are kept as custom sections;
+  // text above the first recognized heading belongs to the preamble
+  const headingStyles = new Set(headings.map(heading => getHeadingStyle(lines, heading.index, styleIndex)));
+  headingStyles.delete(null);
+  const known = new Set(headings.map(heading => heading.index));
+  
+  for (let i = (headings[0]?.index ?? lines.length) + 1; i < lines.length; i++) {
+    if (!known.has(i) && isCustomHeading(lines, i, styleIndex, headingStyles)) {
+      headings.push({ index: i, match: null });
+    }
+  }
+  headings.sort((a, b) => a.index - b.index);
+  
+  // Each section runs to the next heading, so entry lines that look like headings stay in it
+  return headings.map((heading, position) => {
+    const line = lines[heading.index].trim();
+    const end = headings[position + 1]?.index ?? lines.length;
+    
+    return {
+      title: line,
+      standardTitle: heading.match ? titles[heading.match.section] : line.replace(/:$/, '').trim(),
+      content: lines.slice(heading.index + 1, end).join('\n').trim(),
+      startIndex: heading.index,
+      endIndex: end - 1,
+      confidence: heading.match ? calculateConfidence(heading.match) : CUSTOM_SECTION_CONFIDENCE,
+      kind: heading.match ? 'standard' : 'custom'
+    };
+  });
+}
+
+/**
+ * Creates the section holding the text above the first heading (usually the name and headline)
+ * @param text - Document text the sections were detected in
+ * @param sections - Detected sections
+ * @returns The preamble section, or nothing when the document opens with a heading
+ */
+function createPreambleSection(text: string, sections: DetectedSection[]): DetectedSection[] {
+  const lines = text.split('\n');
+  const end = sections.length > 0 ? sections[0].startIndex : lines.length;
+  const content = lines.slice(0, end).join('\n').trim();
+  if (!content) return [];
+  
+  return [{
+    title: '',
+    standardTitle: '',
+    content,
+    startIndex: 0,
+    endIndex: end - 1,
+    confidence: 1.0,
+    kind: 'preamble'
+  }];
+}
+
+/**
+ * Checks that every line of the original document survives in the final sections, restoring
+ * any that don't after the nearest preceding line that did, so nothing is dropped from
+ * section-based output such as the DOCX and restored lines keep their section and context
+ * @param originalText - Text extracted from the uploaded resume
+ * @param sections - Preamble and detected sections after all rewrites
+ * @param rewrittenLines - Original lines the optimizer rewrote on purpose (contact details, merged headings, skill lists)
+ * @param optimizations - Array to track optimizations
+ * @returns Sections covering every original line
+ */
+function ensureContentCoverage(
+  originalText: string,
+  sections: DetectedSection[],
+  rewrittenLines: string[],
+  optimizations: OptimizationResult[]
+): DetectedSection[] {
+  if (sections.length === 0) return sections;
+  
+  // Reformatted lines count as kept when all their words are still there; phone digits may be regrouped
+  const contents = sections.map(section => section.content.split('\n').map(line => line.trim()));
+  const finalLines = sections.flatMap((section, index) => [section.title.trim(), ...contents[index]]);
+  const finalWords = new Set(finalLines.flatMap(lineWords));
+  const finalDigits = finalLines.join(' ').replace(/\D/g, '');
+  const rewritten = new Set(rewrittenLines.map(line => line.trim()));
+  const isKept = (line: string) => rewritten.has(line) || lineWords(line).every(word =>
+    finalWords.has(word) || (/^\d+$/.test(word) && finalDigits.includes(word))
+  );
+  
+  // Position of the last original line found verbatim
+  let anchor: LinePosition | null = null;
+  const restored: string[] = [];
+  
+  for (const line of originalText.split('\n').map(line => line.trim())) {
+    if (lineWords(line).length === 0) continue;
+    
+    if (isKept(line)) {
+      anchor = locateLine(line, sections, contents, anchor) ?? anchor;
+      continue;
+    }
+    
+    // Without an earlier anchor the line opens the first section
+    const target: LinePosition = anchor ?? { section: 0, line: -1 };
+    contents[target.section].splice(target.line + 1, 0, line);
+    anchor = { section: target.section, line: target.line + 1 };
+    restored.push(line);
+  }
+  if (restored.length === 0) return sections;
+  
+  optimizations.push({
+    type: 'structure_improved',
+    description: `Restored ${restored.length} ${restored.length === 1 ? 'line' : 'lines'} missing from the optimized sections where ${restored.length === 1 ? 'it' : 'they'} appeared in the original`,
+    afterSample: restored.slice(0, 3).join(' | ')
+  });
+  
+  return sections.map((section, index) => ({ ...section, content: contents[index].join('\n').trim() }));
+}
+
+// Resume model fields fed by each standard section
+const RESUME_SECTION_FIELDS: Partial<Record<SectionKey, Exclude<keyof ResumeSectionText, 'preamble'>>> = {
+  PERSONAL_INFO: 'contact',
+  PROFESSIONAL_SUMMARY: 'summary',
+  WORK_EXPERIENCE: 'work',
+  EDUCATION: 'education',
+  SKILLS: 'skills',
+  CERTIFICATIONS: 'certifications',
+  PROJECTS: 'projects',
+  LANGUAGES: 'languages'
+};
+
+/**
+ * Groups section text by resume model field for structured extraction
+ * @param text - Document text the sections were detected in
+ * @param sections - Detected sections
+ * @param titles - Standard section titles in the resume's language
+ * @returns Section text keyed by field, plus the untitled text before the first heading
+ */
+function collectResumeSectionText(
+  text: string,
+  sections: DetectedSection[],
+  titles: Record<SectionKey, string>
+): ResumeSectionText {
+  const lines = text.split('\n');
+  const sectionText: ResumeSectionText = {
+    preamble: (sections.length > 0 ? lines.slice(0, sections[0].startIndex) : lines).join('\n').trim()
+  };
+  
+  sections.forEach(section => {
+    const key = (Object.keys(titles) as SectionKey[])
+      .find(sectionKey => titles[sectionKey] === section.standardTitle);
+    const field = key && RESUME_SECTION_FIELDS[key];
+    if (!field) return;
+    
+    const content = section.content;
+    if (!content) return;
+    
+    // Repeated headings (e.g. two experience sections) feed the same field
+    const existing = sectionText[field];
+    sectionText[field] = existing ? `${existing}\n\n${content}` : content;
+  });
+  
+  return sectionText;
+}
+
+/**
+ * Rewrites plain-list Skills sections with canonical skill names, without duplicates, grouped by category
+ * @param text - Document text the sections were detected in
+ * @param sections - Detected sections
+ * @param locale - Resume language, for the Skills title and group labels
+ * @param optimizations - Array to track optimizations
+ * @returns Text with normalized skills, the combined normalization (if any) and the line rewrites made
+ */
+function normalizeSkillSections(
+  text: string,
+  sections: DetectedSection[],
+  locale: ResumeLocale,
+  optimizations: OptimizationResult[]
+): { text: string; skills?: SkillListNormalization; replacements: ExpectedReplacement[] } {
+  const lines = text.split('\n');
+  const replacements: ExpectedReplacement[] = [];
+  let skills: SkillListNormalization | undefined;
+  
+  // Last to first, so earlier sections keep their line indices
+  for (const section of [...sections].reverse()) {
+    if (section.kind !== 'standard' || section.standardTitle !== locale.titles.SKILLS) continue;
+    
+    const contentIndexes: number[] = [];
+    for (let i = section.startIndex + 1; i <= section.endIndex; i++) {
+      if (lines[i].trim()) contentIndexes.push(i);
+    }
+    if (contentIndexes.length === 0) continue;
+    
+    const original = contentIndexes.map(i => lines[i].trim());
+    const normalized = normalizeSkillList(original, locale.skillGroups);
+    if (!normalized || normalized.lines.join('\n') === original.join('\n')) continue;
+    
+    const first = contentIndexes[0];
+    const last = contentIndexes[contentIndexes.length - 1];
+    lines.splice(first, last - first + 1, ...normalized.lines);
+    
+    // The content check compares against the original lines: the first becomes the new list, the rest go
+    original.forEach((line, index) => replacements.push({ before: line, after: index === 0 ? normalized.lines.join('\n') : '' }));
+    
+    skills = skills
+      ? {
+          lines: [...normalized.lines, ...skills.lines],
+          groups: [...normalized.groups, ...skills.groups],
+          renamed: [...normalized.renamed, ...skills.renamed],
+          duplicates: [...normalized.duplicates, ...skills.duplicates]
         }
-        
-        sections.push({
-          title: line,
-          standardTitle: STANDARD_SECTIONS[matchedSection],
-          content: contentLines.join('\n').trim(),
-          startIndex: i,
-          endIndex: j - 1,
-          confidence: calculateConfidence(line, matchedSection)
-        });
-      }
+      : normalized;
+  }
+  
+  if (skills) {
+    if (skills.renamed.length > 0) {
+      optimizations.push({
+        type: 'content_enhanced',
+        description: `Standardized ${skills.renamed.length} skill name${skills.renamed.length === 1 ? '' : 's'} to their common spelling`,
+        beforeSample: skills.renamed.map(rename => rename.before).join(', '),
+        afterSample: skills.renamed.map(rename => rename.after).join(', ')
+      });
     }
+    if (skills.duplicates.length > 0) {
+      optimizations.push({
+        type: 'content_enhanced',
+        description: `Removed ${skills.duplicates.length} duplicate skill${skills.duplicates.length === 1 ? '' : 's'}: ${skills.duplicates.join(', ')}`
+      });
+    }
+    optimizations.push({
+      type: 'structure_improved',
+      description: `Grouped skills by category: ${skills.groups.map(group => group.title).join(', ')}`
+    });
   }
   
-  return sections;
+  return { text: lines.join('\n'), skills, replacements };
+}
+
+/**
+ * Indexes parser text blocks by normalized text and finds the body font size
+ * @param blocks - Text blocks with font information, if the parser provided them
+ * @returns Style index or null when no style signals are available
+ */
+function buildStyleIndex(blocks?: TextBlock[]): BlockStyleIndex | null {
+  if (!blocks || blocks.length === 0) return null;
+  
+  const index = new Map<string, TextBlock>();
+  const sizeWeights = new Map<number, number>();
+  
+  for (const block of blocks) {
+    const key = normalizeBlockKey(block.text);
+    if (key && !index.has(key)) {
+      index.set(key, block);
+    }
+    sizeWeights.set(block.fontSize, (sizeWeights.get(block.fontSize) || 0) + block.text.length);
+  }
+  
+  // The body size is the one carrying the most characters
+  let bodyFontSize = 0;
+  let maxWeight = -1;
+  sizeWeights.forEach((weight, size) => {
+    if (weight > maxWeight) {
+      maxWeight = weight;
+      bodyFontSize = size;
+    }
+  });
+  
+  return { blocks: index, bodyFontSize };
+}
+
+/**
+ * Normalizes block or line text for style lookups
+ * @param text - Text to normalize
+ * @returns Lookup key
+ */
+function normalizeBlockKey(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Decides whether a line is a section heading, using font styles when available
+ * @param line - Text line to analyze
+ * @param styleIndex - Optional font-style signals from the parser
+ * @param matchHeading - Section heading matcher
+ * @returns Boolean indicating if line is a section heading
+ */
+function isSectionHeading(line: string, styleIndex: BlockStyleIndex | null, matchHeading: HeadingMatcher): boolean {
+  if (!styleIndex) return isLikelyHeading(line, matchHeading);
+  
+  const block = styleIndex.blocks.get(normalizeBlockKey(line));
+  if (!block) return isLikelyHeading(line, matchHeading);
+  
+  return scoreHeadingCandidate(line, block, styleIndex.bodyFontSize, matchHeading) >= HEADING_SCORE_THRESHOLD;
+}
+
+/**
+ * Scores a heading candidate from its wording and font style
+ * @param line - Text line to score
+ * @param block - Text block carrying the line's font information
+ * @param bodyFontSize - Dominant body font size of the document
+ * @param matchHeading - Section heading matcher
+ * @returns Score between 0 and 1
+ */
+function scoreHeadingCandidate(line: string, block: TextBlock, bodyFontSize: number, matchHeading: HeadingMatcher): number {
+  if (!line || line.length > 50) return 0;
+  if (/[.,;]$/.test(line)) return 0;
+  
+  const heading = line.replace(/:$/, '').trim();
+  const isKnownSection = matchHeading(heading) !== null;
+  const wordCount = heading.split(/\s+/).length;
+  const isAllCaps = heading === heading.toUpperCase() && heading !== heading.toLowerCase();
+  let score = 0;
+  
+  // Wording: known section names are the strongest signal
+  if (isKnownSection) score += 0.4;
+  if (wordCount <= 4) score += 0.1;
+  
+  // Styling: headings stand out from body text by size, caps or explicit heading styles
+  if (block.headingLevel) score += 0.4;
+  if (bodyFontSize > 0 && block.fontSize >= bodyFontSize * 1.15) score += 0.3;
+  if (isAllCaps) score += 0.15;
+  if (block.bold) score += 0.15;
+  
+  return Math.min(1, score);
 }
 
 /**
  * Determines if a line is likely a section heading
  * @param line - Text line to analyze
+ * @param matchHeading - Section heading matcher
  * @returns Boolean indicating if line is likely a heading
  */
-function isLikelyHeading(line: string): boolean {
+function isLikelyHeading(line: string, matchHeading: HeadingMatcher): boolean {
   if (!line || line.length === 0) return false;
   
   // Headings are typically:
@@ -215,6 +720,9 @@ function isLikelyHeading(line: string): boolean {
   if (line.length > 50) return false;
   if (line.endsWith('.') || line.endsWith(',')) return false;
   
+  // "Label: value" lines (contact details, skill categories) are content
+  if (/:\s*\S/.test(line)) return false;
+  
   // Check if it's all caps or title case
   const isAllCaps = line === line.toUpperCase() && line !== line.toLowerCase();
   const isTitleCase = line.split(' ').every(word => 
@@ -227,57 +735,84 @@ function isLikelyHeading(line: string): boolean {
   const headingPatterns = [
     /^(professional|work|career|education|skills|experience|projects|certifications)/i,
     /^(summary|objective|profile|background|history|qualifications)/i,
-    /^(awards|honors|achievements|publications|languages|interests)/i
+    /^(awards|honors|achievements|publications|languages|interests)/i,
+    /^(leadership|research|teaching|clinical|activities)/i
   ];
   
-  return headingPatterns.some(pattern => pattern.test(line));
+  if (headingPatterns.some(pattern => pattern.test(line))) return true;
+  
+  // Dictionary headings in sentence case ("Expérience professionnelle"); fuzzy matches need title or all caps
+  const match = matchHeading(line.replace(/:$/, ''));
+  return match !== null && match.method !== 'fuzzy';
 }
 
 /**
- * Matches a heading against known section patterns
- * @param heading - Heading text to match
- * @returns Matched section key or null
+ * Decides whether an unrecognized line is a section heading: short, free of
+ * entry details such as dates and separators, and styled like the document's
+ * recognized headings
+ * @param lines - Document lines
+ * @param index - Index of the line to check
+ * @param styleIndex - Optional font-style signals from the parser
+ * @param headingStyles - Styles of the recognized headings
+ * @returns Boolean indicating if the line starts a custom section
  */
-function matchSectionPattern(heading: string): keyof typeof STANDARD_SECTIONS | null {
-  const cleanHeading = heading.toLowerCase().trim();
-  
-  for (const [sectionKey, patterns] of Object.entries(SECTION_PATTERNS)) {
-    for (const pattern of patterns) {
-      if (pattern.test(cleanHeading)) {
-        return sectionKey as keyof typeof STANDARD_SECTIONS;
-      }
-    }
-  }
+function isCustomHeading(
+  lines: string[],
+  index: number,
+  styleIndex: BlockStyleIndex | null,
+  headingStyles: Set<string | null>
+): boolean {
+  const line = lines[index].trim();
+  if (!line || line.length > 50 || !/\p{L}/u.test(line)) return false;
+  if (line.split(/\s+/).length > MAX_CUSTOM_HEADING_WORDS) return false;
+  if (/\d|[,;|@•·–—]|\s-\s/.test(line) || /[.!?]$/.test(line) || /:\s*\S/.test(line)) return false;
+  
+  return headingStyles.has(getHeadingStyle(lines, index, styleIndex));
+}
+
+/**
+ * Describes the distinctive styling of a heading line
+ * @param lines - Document lines
+ * @param index - Index of the heading line
+ * @param styleIndex - Optional font-style signals from the parser
+ * @returns Style key such as "caps|colon|size:14|spaced", or null when the line has no
+ * distinctive styling (bold alone is common in entry lines, so it doesn't count)
+ */
+function getHeadingStyle(lines: string[], index: number, styleIndex: BlockStyleIndex | null): string | null {
+  const line = lines[index].trim();
+  const text = line.replace(/:$/, '');
+  const parts: string[] = [];
+  
+  if (text === text.toUpperCase() && text !== text.toLowerCase()) parts.push('caps');
+  if (line.endsWith(':')) parts.push('colon');
+  
+  const block = styleIndex?.blocks.get(normalizeBlockKey(line));
+  if (block?.headingLevel) parts.push(`level:${block.headingLevel}`);
+  if (block && styleIndex && block.fontSize >= styleIndex.bodyFontSize * 1.15) parts.push(`size:${block.fontSize}`);
+  if (parts.length === 0) return null;
   
-  return null;
+  // Whether a blank line comes first tells section headings from caps entry lines ("ACME CORP")
+  if (index === 0 || !lines[index - 1].trim()) parts.push('spaced');
+  return parts.join('|');
 }
 
 /**
  * Calculates confidence score for section detection
- * @param originalHeading - Original heading text
- * @param matchedSection - Matched section key
+ * @param match - How the heading matched the dictionary
  * @returns Confidence score between 0 and 1
  */
-function calculateConfidence(originalHeading: string, matchedSection: keyof typeof STANDARD_SECTIONS): number {
-  const patterns = SECTION_PATTERNS[matchedSection];
-  const cleanHeading = originalHeading.toLowerCase().trim();
-  
-  // Find the best matching pattern
-  let maxConfidence = 0;
-  
-  for (const pattern of patterns) {
-    if (pattern.test(cleanHeading)) {
-      // Exact matches get higher confidence
-      const standardTitle = STANDARD_SECTIONS[matchedSection].toLowerCase();
-      if (cleanHeading === standardTitle) {
-        maxConfidence = Math.max(maxConfidence, 1.0);
-      } else {
-        maxConfidence = Math.max(maxConfidence, 0.8);
-      }
-    }
+function calculateConfidence(match: HeadingMatch): number {
+  switch (match.method) {
+    // Standard names and the user's own mappings are certain
+    case 'exact':
+    case 'custom':
+      return 1.0;
+    case 'synonym':
+      return 0.8;
+    // Fuzzy matches scale with how close the heading is to the synonym
+    case 'fuzzy':
+      return Math.round(0.8 * match.similarity * 100) / 100;
   }
-  
-  return maxConfidence;
 }
 
 /**
@@ -333,7 +868,9 @@ function standardizeSectionHeadings(
     const section = sections[i];
     
     if (section.title !== section.standardTitle) {
-      result = result.replace(section.title, section.standardTitle);
+      // Replace the heading line itself, not body text that happens to contain the same words
+      const headingLine = new RegExp(`^[ \\t]*${escapeRegExp(section.title)}[ \\t]*$`, 'm');
+      result = result.replace(headingLine, section.standardTitle);
       
       optimizations.push({
         type: 'heading_standardized',
@@ -377,14 +914,54 @@ function cleanFormatting(text: string, optimizations: OptimizationResult[]): str
  * Ensures single-column layout per PRD Principle 7.1.1
  * @param text - Text to optimize
  * @param optimizations - Array to track optimizations
+ * @param multiColumnPages - Number of pages the parser linearized from multiple columns
+ * @param linearizedStructures - Tables, text boxes and header/footer content the parser flattened
  * @returns Single-column formatted text
  */
-function ensureSingleColumnLayout(text: string, optimizations: OptimizationResult[]): string {
-  // This is primarily about ensuring linear text flow
-  // Most of the work is done in the parsing phase
+function ensureSingleColumnLayout(
+  text: string,
+  optimizations: OptimizationResult[],
+  multiColumnPages: number,
+  linearizedStructures?: ParsedDocument['linearizedStructures']
+): string {
+  // Column linearization happens at parse time from glyph coordinates;
+  // here we report it and clean up any remaining tab-aligned structures
   
   let optimized = text;
   
+  if (multiColumnPages > 0) {
+    optimizations.push({
+      type: 'structure_improved',
+      description: `Linearized multi-column layout into single-column reading order (${multiColumnPages} ${multiColumnPages === 1 ? 'page' : 'pages'})`
+    });
+  }
+  
+  // Tables, text boxes and headers/footers are flattened by the DOCX parser (PRD Principles 7.1.4 and 7.1.5)
+  if (linearizedStructures) {
+    const { tables, textBoxes, headerFooterParagraphs } = linearizedStructures;
+    
+    if (tables > 0) {
+      optimizations.push({
+        type: 'structure_improved',
+        description: `Converted ${tables} ${tables === 1 ? 'table' : 'tables'} to linear text in row-by-row reading order`
+      });
+    }
+    
+    if (textBoxes > 0) {
+      optimizations.push({
+        type: 'structure_improved',
+        description: `Moved content from ${textBoxes} ${textBoxes === 1 ? 'text box' : 'text boxes'} into the main text flow`
+      });
+    }
+    
+    if (headerFooterParagraphs > 0) {
+      optimizations.push({
+        type: 'structure_improved',
+        description: `Moved ${headerFooterParagraphs} ${headerFooterParagraphs === 1 ? 'line' : 'lines'} of header/footer content into the main body`
+      });
+    }
+  }
+  
   // Remove any remaining table-like structures
   const tablePattern = /\t+/g;
   if (tablePattern.test(optimized)) {
@@ -403,38 +980,95 @@ function ensureSingleColumnLayout(text: string, optimizations: OptimizationResul
  * Validates ATS compliance and returns warnings
  * @param text - Optimized text
  * @param sections - Detected sections
+ * @param resume - Structured resume model
+ * @param contact - Contact details found in the document opening
+ * @param locale - Resume language, for section titles and warning text
  * @returns Array of warnings
  */
-function validateATSCompliance(text: string, sections: DetectedSection[]): string[] {
+function validateATSCompliance(
+  text: string,
+  sections: DetectedSection[],
+  resume: ResumeData,
+  contact: ContactInfo,
+  locale: ResumeLocale
+): string[] {
   const warnings: string[] = [];
   
   // Check for minimum content
   const wordCount = countWords(text);
   if (wordCount < 100) {
-    warnings.push('Resume appears very short. Consider adding more detail to improve ATS scoring.');
+    warnings.push(locale.messages.shortResume);
   }
   
   // Check for essential sections
   const essentialSections = ['WORK_EXPERIENCE', 'EDUCATION'];
   const detectedSectionTypes = sections.map(s => 
-    Object.entries(STANDARD_SECTIONS).find(entry => entry[1] === s.standardTitle)?.[0]
+    Object.entries(locale.titles).find(entry => entry[1] === s.standardTitle)?.[0]
   ).filter(Boolean);
   
   for (const essential of essentialSections) {
     if (!detectedSectionTypes.includes(essential)) {
-      warnings.push(`Missing essential section: ${STANDARD_SECTIONS[essential as keyof typeof STANDARD_SECTIONS]}`);
+      warnings.push(locale.messages.missingSection(locale.titles[essential as SectionKey]));
     }
   }
   
-  // Check for contact information
-  const emailPattern = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/;
-  if (!emailPattern.test(text)) {
-    warnings.push('No email address detected. Ensure contact information is included.');
-  }
+  // Unrecognized headings are kept as written; mapping them makes them standard
+  sections
+    .filter(section => section.kind === 'custom' && section.standardTitle !== locale.titles.INTERESTS)
+    .forEach(section => warnings.push(locale.messages.customSection(section.standardTitle)));
+  
+  // Check contact information for missing and duplicate items
+  warnings.push(...checkContactInfo(contact, locale.messages));
+  
+  // Check the work history for reversed ranges, gaps and overlaps
+  warnings.push(...checkWorkTimeline(resume.work, locale.messages));
   
   return warnings;
 }
 
+/**
+ * Finds a line in the sections, searching onward from the previous match first so repeated lines keep their order
+ * @param line - Trimmed line to find
+ * @param sections - Sections to search
+ * @param contents - Trimmed content lines of each section
+ * @param from - Position of the previous match
+ * @returns Position of the line, or null when no section holds it verbatim
+ */
+function locateLine(
+  line: string,
+  sections: DetectedSection[],
+  contents: string[][],
+  from: LinePosition | null
+): LinePosition | null {
+  const positions = sections.flatMap((section, index) => [
+    ...(section.title.trim() === line ? [{ section: index, line: -1 }] : []),
+    ...contents[index].flatMap((content, lineIndex) => content === line ? [{ section: index, line: lineIndex }] : [])
+  ]);
+  const after = from
+    ? positions.find(position => position.section > from.section || (position.section === from.section && position.line > from.line))
+    : undefined;
+  
+  return after ?? positions[0] ?? null;
+}
+
+/**
+ * Splits a line into lowercase words for coverage checks
+ * @param line - Line of text
+ * @returns Words and numbers in the line
+ */
+function lineWords(line: string): string[] {
+  return line.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Escapes text for use in a regular expression
+ * @param text - Literal text
+ * @returns Pattern matching the text exactly
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
  * Counts words in text
  * @param text - Text to count
@@ -459,14 +1093,39 @@ export function generateOptimizationSummary(result: ATSOptimizedDocument): strin
   summary += `• Sections standardized: ${statistics.sectionsStandardized}\n`;
   summary += `• Issues fixed: ${statistics.issuesFixed}\n\n`;
   
-  if (optimizations.length > 0) {
+  const applied = optimizations.filter(opt => opt.type !== 'bullet_suggestion');
+  const suggestions = optimizations.filter(opt => opt.type === 'bullet_suggestion');
+  
+  if (applied.length > 0) {
     summary += `✅ Optimizations Applied:\n`;
-    optimizations.forEach(opt => {
+    applied.forEach(opt => {
       summary += `• ${opt.description}\n`;
     });
     summary += `\n`;
   }
   
+  if (result.skills) {
+    summary += `🧩 Skills:\n`;
+    result.skills.groups.forEach(group => {
+      summary += `• ${group.title}: ${group.skills.join(', ')}\n`;
+    });
+    if (result.skills.renamed.length > 0) {
+      summary += `• Renamed: ${result.skills.renamed.map(rename => `${rename.before} → ${rename.after}`).join(', ')}\n`;
+    }
+    if (result.skills.duplicates.length > 0) {
+      summary += `• Duplicates removed: ${result.skills.duplicates.join(', ')}\n`;
+    }
+    summary += `\n`;
+  }
+  
+  if (suggestions.length > 0) {
+    summary += `💡 Bullet Suggestions:\n`;
+    suggestions.forEach(opt => {
+      summary += `• "${opt.beforeSample}": ${opt.description}\n`;
+    });
+    summary += `\n`;
+  }
+  
   if (warnings.length > 0) {
     summary += `⚠️ Recommendations:\n`;
     warnings.forEach(warning => {
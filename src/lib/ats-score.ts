@@ -0,0 +1,420 @@
+// ATS score engine: section, formatting, keyword and readability sub-scores with itemized deductions
+import { STANDARD_SECTIONS, type HeadingMatcher, type SectionKey } from './section-headings';
+import {
+  RESUME_LOCALES,
+  createLocaleHeadingMatcher,
+  detectResumeLanguage,
+  type ResumeLanguage
+} from './locales/resume-locale';
+import { extractContactInfo } from './resume/contact-info';
+import { RESUME_DATE_SOURCE } from './resume/resume-dates';
+import { countSkillMentions, findSkills } from './job-match/skill-dictionary';
+import { matchJobDescription } from './job-match/keyword-matcher';
+import { countWords } from './parsers/text-utils';
+
+export type ScoreCategory = 'sections' | 'formatting' | 'keywords' | 'readability';
+
+export interface ScoreDeduction {
+  points: number;
+  reason: string;
+}
+
+export interface CategoryScore {
+  score: number; // 0-100
+  deductions: ScoreDeduction[]; // Largest first
+}
+
+export interface ATSScoreReport {
+  overall: number; // Weighted average of the category scores
+  categories: Record<ScoreCategory, CategoryScore>;
+  keywordBasis: 'job-description' | 'skills'; // What the keyword score was measured against
+}
+
+export interface ATSScoreOptions {
+  jobDescription?: string; // When given, the keyword score measures coverage of it
+  language?: ResumeLanguage; // The document's language; detected from the text when omitted
+}
+
+interface ScoredSection {
+  heading: string; // As written
+  title: string; // Standard title
+  localTitle: string; // Standard title in the resume's language
+  lines: string[];
+}
+
+// Contribution of each sub-score to the overall score
+export const SCORE_WEIGHTS: Record<ScoreCategory, number> = {
+  sections: 0.3,
+  formatting: 0.25,
+  keywords: 0.25,
+  readability: 0.2
+};
+
+// Points lost for each missing section; Work Experience and Education are what ATS parse first
+const MISSING_SECTION_POINTS: [string, number][] = [
+  [STANDARD_SECTIONS.WORK_EXPERIENCE, 30],
+  [STANDARD_SECTIONS.EDUCATION, 20],
+  [STANDARD_SECTIONS.SKILLS, 15],
+  [STANDARD_SECTIONS.PROFESSIONAL_SUMMARY, 5]
+];
+
+// Sections whose lines describe work the candidate did
+const EXPERIENCE_SECTIONS: string[] = [
+  STANDARD_SECTIONS.WORK_EXPERIENCE,
+  STANDARD_SECTIONS.PROJECTS,
+  STANDARD_SECTIONS.LEADERSHIP,
+  STANDARD_SECTIONS.RESEARCH,
+  STANDARD_SECTIONS.TEACHING,
+  STANDARD_SECTIONS.CLINICAL
+];
+
+// Lines scanned for contact details when the resume has no section headings
+const CONTACT_SCAN_LINES = 8;
+
+// Skills an ATS should be able to pick out of a resume before keyword searches find it reliably
+const MIN_RECOGNIZED_SKILLS = 8;
+
+// More mentions than this reads as keyword stuffing
+const KEYWORD_STUFFING_MENTIONS = 5;
+
+// Word counts outside this range read as thin or overlong (roughly one to two pages)
+const MIN_WORDS = 400;
+const MAX_WORDS = 900;
+
+// Below this many words there is too little text to judge layout or tone, so those scores stay low
+const MIN_SCORABLE_WORDS = 50;
+
+// Bullets longer than this are hard to scan
+const MAX_BULLET_WORDS = 35;
+
+// Share of experience bullets that should carry a number, percentage or amount
+const MIN_QUANTIFIED_SHARE = 0.3;
+
+// Characters ATS parse reliably: letters in any script, digits, common punctuation and the round bullet
+const UNSAFE_CHARACTER_PATTERN = new RegExp('[^\\p{L}\\p{M}\\p{N}\\s.,;:!?\'"()\\[\\]/\\\\@#%&+=*$_|~<>•-]', 'gu');
+
+const BULLET_PATTERN = /^([•\-*▪◦‣·])\s+/;
+const FIRST_PERSON_PATTERN = /\b(I|me|my|mine|myself)\b/g;
+const WEAK_PHRASE_PATTERN = /\b(responsible for|duties included|worked on|helped with|in charge of|tasked with)\b/gi;
+const DATE_PATTERN = new RegExp(RESUME_DATE_SOURCE, 'gi');
+
+/**
+ * Scores a resume the way an ATS reads it
+ * @param text - Resume text
+ * @param options - Optional job posting, and the language headings are matched in
+ * @returns Overall and category scores with the deductions behind them
+ */
+export function calculateATSScore(text: string, options: ATSScoreOptions = {}): ATSScoreReport {
+  const { jobDescription } = options;
+  const lines = text.split('\n').map(line => line.trim());
+  const language = options.language ?? detectResumeLanguage(text);
+  const { header, sections } = splitSections(lines, createLocaleHeadingMatcher(language), RESUME_LOCALES[language].titles);
+  const useJobDescription = !!jobDescription?.trim();
+
+  const categories: Record<ScoreCategory, CategoryScore> = {
+    sections: scoreSections(header, sections),
+    formatting: scoreFormatting(lines, sections),
+    keywords: useJobDescription
+      ? scoreJobKeywords(text, jobDescription as string, sections)
+      : scoreSkillKeywords(text, sections),
+    readability: scoreReadability(text, sections)
+  };
+
+  const overall = (Object.keys(SCORE_WEIGHTS) as ScoreCategory[])
+    .reduce((sum, category) => sum + categories[category].score * SCORE_WEIGHTS[category], 0);
+
+  return {
+    overall: Math.round(overall),
+    categories,
+    keywordBasis: useJobDescription ? 'job-description' : 'skills'
+  };
+}
+
+/**
+ * Scores section structure: essential sections, contact details and heading names
+ * @param header - Lines above the first section heading
+ * @param sections - Recognized sections
+ * @returns Sections score
+ */
+function scoreSections(header: string[], sections: ScoredSection[]): CategoryScore {
+  const deductions: ScoreDeduction[] = [];
+  const titles = sections.map(section => section.title);
+
+  for (const [title, points] of MISSING_SECTION_POINTS) {
+    if (!titles.includes(title)) deduct(deductions, points, `No ${title} section`);
+  }
+
+  // Contact details sit above the first heading or in their own section
+  const contactLines = sections.length > 0
+    ? [...header, ...sections.filter(section => section.title === STANDARD_SECTIONS.PERSONAL_INFO).flatMap(section => section.lines)]
+    : header.slice(0, CONTACT_SCAN_LINES);
+  const contact = extractContactInfo(contactLines.filter(Boolean));
+  if (!contact.name) deduct(deductions, 5, 'No name found at the top of the resume');
+  if (contact.emails.length === 0) deduct(deductions, 15, 'No email address found near the top');
+  if (contact.phones.length === 0) deduct(deductions, 10, 'No phone number found near the top');
+
+  const renamed = sections.filter(section => section.heading.replace(/:\s*$/, '').toLowerCase() !== section.localTitle.toLowerCase());
+  if (renamed.length > 0) {
+    const examples = renamed.slice(0, 3).map(section => `"${section.heading}" → "${section.localTitle}"`).join(', ');
+    deduct(deductions, Math.min(12, renamed.length * 3), `${pluralize(renamed.length, 'heading')} not using the standard name (${examples})`);
+  }
+
+  const empty = sections.filter(section => section.lines.every(line => !line));
+  if (empty.length > 0) {
+    deduct(deductions, Math.min(15, empty.length * 5), `Empty ${pluralize(empty.length, 'section', false)}: ${empty.map(section => section.title).join(', ')}`);
+  }
+
+  const duplicates = titles.filter((title, index) => titles.indexOf(title) !== index);
+  if (duplicates.length > 0) {
+    deduct(deductions, Math.min(10, duplicates.length * 5), `Repeated ${pluralize(duplicates.length, 'section', false)}: ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  return toCategoryScore(deductions);
+}
+
+/**
+ * Scores formatting that trips up ATS parsers: missing structure, symbols, column alignment, mixed bullets and dates
+ * @param lines - Trimmed resume lines
+ * @param sections - Recognized sections
+ * @returns Formatting score
+ */
+function scoreFormatting(lines: string[], sections: ScoredSection[]): CategoryScore {
+  const deductions: ScoreDeduction[] = [];
+  const text = lines.join('\n');
+
+  // Text without headings can't be split into fields, whatever its characters
+  if (sections.length === 0) {
+    deduct(deductions, 50, 'No section headings ATS can recognize, so nothing can be filed under experience, education or skills');
+  }
+  const wordCount = countWords(text);
+  if (wordCount < MIN_SCORABLE_WORDS) {
+    deduct(deductions, 50, `Only ${pluralize(wordCount, 'word')}; too little text for an ATS to parse`);
+  }
+
+  const unsafe = text.match(UNSAFE_CHARACTER_PATTERN) ?? [];
+  if (unsafe.length > 0) {
+    const examples = [...new Set(unsafe)].slice(0, 5).join(' ');
+    deduct(deductions, Math.min(20, unsafe.length), `${pluralize(unsafe.length, 'symbol')} ATS may misread (${examples})`);
+  }
+
+  const aligned = lines.filter(line => /\t| {3,}/.test(line));
+  if (aligned.length > 0) {
+    deduct(deductions, 10, `Tabs or runs of spaces align text into columns (${pluralize(aligned.length, 'line')})`);
+  }
+
+  const bulletMarkers = new Set(lines.map(line => line.match(BULLET_PATTERN)?.[1]).filter(Boolean));
+  if (bulletMarkers.size > 1) {
+    deduct(deductions, 5, `Mixed bullet styles (${[...bulletMarkers].join(' ')}); use one style throughout`);
+  }
+
+  const dateStyles = new Set((text.match(DATE_PATTERN) ?? []).map(classifyDate).filter(Boolean));
+  if (dateStyles.size > 1) {
+    deduct(deductions, 5, `Dates are written in ${dateStyles.size} different formats; pick one, such as "Jan 2020"`);
+  }
+
+  return toCategoryScore(deductions);
+}
+
+/**
+ * Scores keywords against a job description: each missing keyword costs its share of the posting's weight
+ * @param text - Resume text
+ * @param jobDescription - Job posting
+ * @param sections - Recognized sections
+ * @returns Keywords score
+ */
+function scoreJobKeywords(text: string, jobDescription: string, sections: ScoredSection[]): CategoryScore {
+  const deductions: ScoreDeduction[] = [];
+  const match = matchJobDescription(jobDescription, text, sections.map(section => section.heading));
+  const keywords = [...match.matched, ...match.missing, ...match.overused].map(item => item.keyword);
+  const totalWeight = keywords.reduce((sum, keyword) => sum + keyword.weight, 0);
+
+  for (const item of match.missing) {
+    const points = Math.max(1, Math.round((item.keyword.weight / totalWeight) * 100));
+    deduct(deductions, points, `Missing ${item.keyword.importance} keyword "${item.keyword.term}"`);
+  }
+
+  for (const item of match.overused) {
+    deduct(deductions, 3, `"${item.keyword.term}" is mentioned ${item.count} times`);
+  }
+
+  return toCategoryScore(deductions);
+}
+
+/**
+ * Scores keywords without a job description: recognizable skills, shown in context, without stuffing
+ * @param text - Resume text
+ * @param sections - Recognized sections
+ * @returns Keywords score
+ */
+function scoreSkillKeywords(text: string, sections: ScoredSection[]): CategoryScore {
+  const deductions: ScoreDeduction[] = [];
+  const skills = findSkills(text);
+
+  // Each missing skill costs its share of the target, so a resume without any scores zero
+  if (skills.length < MIN_RECOGNIZED_SKILLS) {
+    const points = Math.round(((MIN_RECOGNIZED_SKILLS - skills.length) / MIN_RECOGNIZED_SKILLS) * 100);
+    deduct(deductions, points, `Only ${pluralize(skills.length, 'skill')} ATS can recognize (aim for ${MIN_RECOGNIZED_SKILLS} or more)`);
+  }
+
+  const experienceText = sectionText(sections, EXPERIENCE_SECTIONS);
+  if (experienceText) {
+    const listedOnly = skills.filter(({ skill }) => countSkillMentions(experienceText, skill) === 0);
+    if (listedOnly.length > 0) {
+      const examples = listedOnly.slice(0, 3).map(({ skill }) => skill.name).join(', ');
+      deduct(deductions, Math.min(20, listedOnly.length * 2), `${pluralize(listedOnly.length, 'skill')} never mentioned in an experience section (${examples})`);
+    }
+  }
+
+  const stuffed = skills.filter(({ count }) => count > KEYWORD_STUFFING_MENTIONS);
+  for (const { skill, count } of stuffed.slice(0, 3)) {
+    deduct(deductions, 5, `"${skill.name}" is mentioned ${count} times`);
+  }
+
+  return toCategoryScore(deductions);
+}
+
+/**
+ * Scores readability: length, bullet size, quantified results and tone
+ * @param text - Resume text
+ * @param sections - Recognized sections
+ * @returns Readability score
+ */
+function scoreReadability(text: string, sections: ScoredSection[]): CategoryScore {
+  const deductions: ScoreDeduction[] = [];
+  const wordCount = countWords(text);
+
+  // Very short text loses points in proportion to what's missing, down to zero for an empty resume
+  if (wordCount < MIN_WORDS / 2) {
+    const points = Math.max(25, Math.round(100 * (1 - wordCount / (MIN_WORDS / 2))));
+    deduct(deductions, points, `Only ${wordCount} words; aim for ${MIN_WORDS}-${MAX_WORDS}`);
+  } else if (wordCount < MIN_WORDS) {
+    deduct(deductions, 10, `Only ${wordCount} words; aim for ${MIN_WORDS}-${MAX_WORDS}`);
+  } else if (wordCount > MAX_WORDS) {
+    deduct(deductions, wordCount > MAX_WORDS * 1.25 ? 15 : 5, `${wordCount} words; aim for ${MAX_WORDS} or fewer (about two pages)`);
+  }
+
+  const longLines = text.split('\n').filter(line => countWords(line) > MAX_BULLET_WORDS);
+  if (longLines.length > 0) {
+    deduct(deductions, Math.min(15, longLines.length * 3), `${pluralize(longLines.length, 'line')} over ${MAX_BULLET_WORDS} words; split long bullets`);
+  }
+
+  const bullets = sections
+    .filter(section => EXPERIENCE_SECTIONS.includes(section.title))
+    .flatMap(section => section.lines)
+    .filter(line => BULLET_PATTERN.test(line));
+  const quantified = bullets.filter(line => /\d/.test(line));
+  if (bullets.length >= 3 && quantified.length / bullets.length < MIN_QUANTIFIED_SHARE) {
+    deduct(deductions, 10, `Only ${quantified.length} of ${bullets.length} experience bullets include numbers; quantify results`);
+  }
+
+  const firstPerson = text.match(FIRST_PERSON_PATTERN) ?? [];
+  if (firstPerson.length > 0) {
+    deduct(deductions, Math.min(10, firstPerson.length * 2), `${pluralize(firstPerson.length, 'first-person pronoun')} ("I", "my"); start bullets with a verb instead`);
+  }
+
+  const weakPhrases = text.match(WEAK_PHRASE_PATTERN) ?? [];
+  if (weakPhrases.length > 0) {
+    const examples = [...new Set(weakPhrases.map(phrase => `"${phrase.toLowerCase()}"`))].slice(0, 3).join(', ');
+    deduct(deductions, Math.min(12, weakPhrases.length * 3), `${pluralize(weakPhrases.length, 'weak phrase')} (${examples}); lead with what you achieved`);
+  }
+
+  return toCategoryScore(deductions);
+}
+
+/**
+ * Splits resume lines at recognized section headings
+ * @param lines - Trimmed resume lines
+ * @param matchHeading - Section heading matcher for the resume's language
+ * @param localTitles - Standard section titles in the resume's language
+ * @returns Lines above the first heading and the recognized sections
+ */
+function splitSections(
+  lines: string[],
+  matchHeading: HeadingMatcher,
+  localTitles: Record<SectionKey, string>
+): { header: string[]; sections: ScoredSection[] } {
+  const header: string[] = [];
+  const sections: ScoredSection[] = [];
+
+  for (const line of lines) {
+    const match = isHeadingCandidate(line) ? matchHeading(line) : null;
+    if (match) {
+      sections.push({ heading: line, title: STANDARD_SECTIONS[match.section], localTitle: localTitles[match.section], lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+
+  return { header, sections };
+}
+
+/**
+ * Rules out lines that can't be headings: bullets, sentences and "Label: value" lines
+ * @param line - Trimmed line
+ * @returns Boolean indicating the line may be a heading
+ */
+function isHeadingCandidate(line: string): boolean {
+  if (!line || line.length > 50) return false;
+  return !BULLET_PATTERN.test(line) && !/[.,;]$/.test(line) && !/:\s*\S/.test(line);
+}
+
+/**
+ * Joins the text of the given sections
+ * @param sections - Recognized sections
+ * @param titles - Standard titles to include
+ * @returns Section text (empty when none of the sections exist)
+ */
+function sectionText(sections: ScoredSection[], titles: string[]): string {
+  return sections
+    .filter(section => titles.includes(section.title))
+    .flatMap(section => section.lines)
+    .join('\n');
+}
+
+/**
+ * Classifies how a date is written, for consistency checks
+ * @param date - Date text
+ * @returns Format name, or undefined for year-only dates, which fit any format
+ */
+function classifyDate(date: string): string | undefined {
+  if (/^\d{4}$/.test(date)) return undefined;
+  if (/^\d{4}[-/]/.test(date)) return 'year-first';
+  return /^\d/.test(date) ? 'numeric' : 'month-name';
+}
+
+/**
+ * Records a deduction
+ * @param deductions - Deductions so far
+ * @param points - Points to deduct
+ * @param reason - Why the points were lost
+ */
+function deduct(deductions: ScoreDeduction[], points: number, reason: string): void {
+  if (points > 0) deductions.push({ points, reason });
+}
+
+/**
+ * Turns deductions into a 0-100 score
+ * @param deductions - Deductions for the category
+ * @returns Category score with deductions sorted largest first
+ */
+function toCategoryScore(deductions: ScoreDeduction[]): CategoryScore {
+  const total = deductions.reduce((sum, deduction) => sum + deduction.points, 0);
+  return {
+    score: Math.max(0, 100 - total),
+    deductions: [...deductions].sort((a, b) => b.points - a.points)
+  };
+}
+
+/**
+ * Formats a count with a noun
+ * @param count - Number of items
+ * @param noun - Singular noun
+ * @param withCount - Whether to include the number
+ * @returns Text such as "3 headings"
+ */
+function pluralize(count: number, noun: string, withCount = true): string {
+  const word = count === 1 ? noun : `${noun}s`;
+  return withCount ? `${count} ${word}` : word;
+}
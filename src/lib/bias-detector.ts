@@ -0,0 +1,270 @@
+// Bias-sensitive content detection: personal attributes that invite discrimination and are best left out
+import type { SectionKey } from './section-headings';
+import { createLocaleHeadingMatcher, detectResumeLanguage, type ResumeLanguage } from './locales/resume-locale';
+
+export type PersonalAttribute =
+  | 'age'
+  | 'birth_date'
+  | 'marital_status'
+  | 'dependents'
+  | 'nationality'
+  | 'religion'
+  | 'gender'
+  | 'photo'
+  | 'national_id';
+
+export interface PersonalDetail {
+  attribute: PersonalAttribute;
+  text: string; // Field as written, e.g. "Marital status: Married"
+  line: number; // Index of the field's line in the checked text
+  start: number; // Span to delete to remove the field, with one adjacent separator or the line break
+  end: number;
+  customary: boolean; // Traditionally expected in resumes written in this language, so optional rather than advised against
+}
+
+export interface PersonalDetailOptions {
+  language?: ResumeLanguage; // Detected from the text when omitted
+}
+
+// Field labels in every supported language
+const ATTRIBUTE_LABELS: Record<PersonalAttribute, string[]> = {
+  age: ['age', 'alter', 'âge', 'edad', 'idade'],
+  birth_date: [
+    'date of birth', 'birth date', 'birthdate', 'birthday', 'dob', 'd\\.o\\.b\\.?', 'born(?: on)?', 'geburtsdatum',
+    'geboren(?: am)?', 'date de naissance', 'née? le', 'fecha de nacimiento', 'nacid[oa] el', 'data de nascimento',
+    'nascid[oa] em'
+  ],
+  marital_status: ['marital status', 'civil status', 'familienstand', 'état civil', 'situation familiale', 'estado civil'],
+  dependents: ['children', 'kids', 'dependents', 'kinder', 'enfants', 'hijos', 'filhos'],
+  nationality: [
+    'nationality', 'citizenship', 'staatsangehörigkeit', 'staatsbürgerschaft', 'nationalität', 'nationalité',
+    'nacionalidad', 'nacionalidade'
+  ],
+  religion: ['religion', 'religious affiliation', 'faith', 'konfession', 'religionszugehörigkeit', 'religión', 'religião'],
+  gender: ['gender', 'sex', 'geschlecht', 'sexe', 'sexo', 'género', 'gênero'],
+  photo: ['photo', 'photograph', 'picture', 'foto', 'lichtbild', 'bewerbungsfoto'],
+  national_id: [
+    'ssn', 'social security(?: number| no\\.?)?', 'national insurance(?: number)?', 'ni number', 'sozialversicherungsnummer',
+    'steuer-?id', 'steueridentifikationsnummer', 'numéro de sécurité sociale', 'número de identidad',
+    'número de identificação'
+  ]
+};
+
+// Details traditionally expected in CVs written in these languages; they're reported as optional
+const CUSTOMARY_ATTRIBUTES: Partial<Record<ResumeLanguage, PersonalAttribute[]>> = {
+  de: ['photo', 'birth_date', 'nationality', 'marital_status'],
+  es: ['photo', 'birth_date'],
+  fr: ['photo']
+};
+
+// Sections where unlabeled personal details ("Married", a photo's alt text) are read as such;
+// null stands for the header above the first heading
+const PERSONAL_SECTIONS: (SectionKey | null)[] = [null, 'PERSONAL_INFO', 'INTERESTS'];
+
+// Labels outside personal sections also head project and product lines ("Photo: gallery app"), and
+// labels this short are also abbreviations ("Age: 21 participants"); both count only in personal sections
+const SECTION_BOUND_ATTRIBUTES: PersonalAttribute[] = ['photo', 'dependents'];
+const MIN_UNBOUND_LABEL_LENGTH = 4;
+
+// Longest line (in words) read as a photo's alt text rather than a sentence
+const MAX_PHOTO_ALT_WORDS = 8;
+
+// Dates as written after a birth label: "12.03.1990", "1990-03-12", "12 March 1990", "March 12, 1990", "1990"
+const DATE_VALUE_SOURCE = '\\d{1,2}[./-]\\s?\\d{1,2}[./-]\\s?\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}\\.?\\s+(?:de\\s+)?\\p{L}+\\.?\\s+(?:de\\s+)?\\d{4}|\\p{L}+\\.?\\s+\\d{1,2},?\\s+\\d{4}|(?:19|20)\\d{2}\\b';
+
+const FIELD_SEPARATOR = /\s*[|•·]\s*|\t+/g;
+// "Married, 2 children. Non-smoker": clauses in a personal section are checked on their own
+const CLAUSE_SEPARATOR = /\s*[,;]\s*|(?<=[.!?])\s+/g;
+const BULLET_PATTERN = /^[•·▪◦‣*–-]\s+/;
+const LABELED_PATTERNS = (Object.keys(ATTRIBUTE_LABELS) as PersonalAttribute[]).map(attribute => ({
+  attribute,
+  pattern: createLabelPattern(ATTRIBUTE_LABELS[attribute]),
+  unbound: SECTION_BOUND_ATTRIBUTES.includes(attribute)
+    ? null
+    : createLabelPattern(ATTRIBUTE_LABELS[attribute].filter(label => label.length >= MIN_UNBOUND_LABEL_LENGTH))
+}));
+const AGE_PATTERN = /^(?:aged?\s+)?\d{2}\s*(?:years old|yrs old|y\/o|jahre(?: alt)?|ans|años|anos)$/i;
+const BIRTH_PATTERN = new RegExp(`^(?:born|geboren|née?|nacid[oa]|nascid[oa])(?:\\s+(?:on|am|le|el|em))?\\s+(?:${DATE_VALUE_SOURCE})`, 'iu');
+const MARITAL_PATTERN = /^(?:married|single|divorced|widowed|separated|verheiratet|ledig|geschieden|verwitwet|mariée?|célibataire|divorcée?|casad[oa]|solter[oa]|divorciad[oa]|solteir[oa])$/i;
+const DEPENDENTS_PATTERN = /^(?:\d+|one|two|three|four|five)\s+(?:children|kids|kinder|enfants|hijos|filhos)$|^(?:father|mother|parent) of (?:\d+|one|two|three|four|five)\b/i;
+const PHOTO_ALT_PATTERN = /\b(?:photo|photograph|headshot|portrait|avatar|profile (?:picture|image)|foto|bewerbungsfoto)\b/i;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/;
+
+// Values a label must be followed by to count; other labels take any value
+const LABEL_VALUE_PATTERNS: Partial<Record<PersonalAttribute, RegExp>> = {
+  age: /^\d{2}(?:\s*(?:years(?: old)?|yrs|y\/o|jahre(?: alt)?|ans|años|anos))?$/i,
+  birth_date: new RegExp(`^(?:${DATE_VALUE_SOURCE})`, 'iu'),
+  national_id: /\d/
+};
+
+interface Field {
+  text: string;
+  start: number; // Offset of the field in the line
+  end: number;
+}
+
+/**
+ * Scans resume text for personal attributes such as age, marital status, nationality, religion,
+ * photos and birth dates, which many regions and ATS pipelines advise leaving out
+ * @param text - Resume text, with headings on their own lines
+ * @param options - Resume language, which decides the details that are customary
+ * @returns One entry per flagged field, in document order
+ */
+export function detectPersonalDetails(text: string, options: PersonalDetailOptions = {}): PersonalDetail[] {
+  const language = options.language ?? detectResumeLanguage(text);
+  const matchHeading = createLocaleHeadingMatcher(language);
+  const customary = CUSTOMARY_ATTRIBUTES[language] ?? [];
+  const details: PersonalDetail[] = [];
+  let section: SectionKey | null = null;
+  let lineStart = 0;
+
+  text.split('\n').forEach((rawLine, index) => {
+    const offset = lineStart;
+    lineStart += rawLine.length + 1;
+
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const heading = isHeadingCandidate(line) ? matchHeading(line) : null;
+    if (heading) {
+      section = heading.section;
+      return;
+    }
+
+    const inPersonalSection = PERSONAL_SECTIONS.includes(section);
+    const fields = splitFields(rawLine);
+
+    const addDetail = (attribute: PersonalAttribute, value: string, [start, end]: [number, number]) => {
+      details.push({
+        attribute,
+        text: value,
+        line: index,
+        start: offset + start,
+        end: offset + end,
+        customary: customary.includes(attribute)
+      });
+    };
+
+    fields.forEach((field, fieldIndex) => {
+      const value = field.text.replace(BULLET_PATTERN, '');
+      const attribute = classifyField(value, inPersonalSection && fields.length === 1 ? rawLine : null, inPersonalSection);
+
+      if (attribute) {
+        // A field alone on its line goes with the whole line
+        addDetail(attribute, value, fields.length === 1
+          ? [0, Math.min(rawLine.length + 1, text.length - offset)]
+          : removalSpan(fields, fieldIndex));
+        return;
+      }
+      if (!inPersonalSection) return;
+
+      const clauses = splitFields(rawLine.slice(0, field.end), CLAUSE_SEPARATOR, field.start);
+      if (clauses.length < 2) return;
+      clauses.forEach((clause, clauseIndex) => {
+        const clauseValue = clause.text.replace(BULLET_PATTERN, '');
+        const clauseAttribute = classifyField(clauseValue, null, true);
+        if (clauseAttribute) addDetail(clauseAttribute, clauseValue, removalSpan(clauses, clauseIndex));
+      });
+    });
+  });
+
+  return details;
+}
+
+/**
+ * Decides which personal attribute, if any, a field discloses
+ * @param value - Field text without a bullet marker
+ * @param wholeLine - The field's line when it stands alone in a personal section, for photo alt text
+ * @param inPersonalSection - Whether unlabeled values are read as personal details
+ * @returns Attribute disclosed, or null
+ */
+function classifyField(value: string, wholeLine: string | null, inPersonalSection: boolean): PersonalAttribute | null {
+  for (const { attribute, pattern, unbound } of LABELED_PATTERNS) {
+    const label = (inPersonalSection ? pattern : unbound)?.exec(value);
+    if (label && (LABEL_VALUE_PATTERNS[attribute]?.test(value.slice(label[0].length)) ?? true)) return attribute;
+  }
+
+  if (SSN_PATTERN.test(value)) return 'national_id';
+  if (!inPersonalSection) return null;
+
+  // Unlabeled details may end a sentence ("Married, 2 children.")
+  const bare = value.replace(/[.!]+$/, '');
+  if (AGE_PATTERN.test(bare)) return 'age';
+  if (BIRTH_PATTERN.test(bare)) return 'birth_date';
+  if (DEPENDENTS_PATTERN.test(bare)) return 'dependents';
+  if (MARITAL_PATTERN.test(bare)) return 'marital_status';
+  if (wholeLine && PHOTO_ALT_PATTERN.test(wholeLine) && wholeLine.trim().split(/\s+/).length <= MAX_PHOTO_ALT_WORDS) {
+    return 'photo';
+  }
+  return null;
+}
+
+/**
+ * Builds the pattern for a field that starts with one of the labels
+ * @param labels - Label patterns
+ * @returns Pattern matching a label and its separator, or null without labels
+ */
+function createLabelPattern(labels: string[]): RegExp | null {
+  if (labels.length === 0) return null;
+  // A dash needs a space before it, so "Age-appropriate" isn't read as a label
+  return new RegExp(`^(?:${labels.join('|')})(?:\\s*:|\\s+[-–])\\s*(?=\\S)`, 'i');
+}
+
+/**
+ * Finds the span that removes a field with one separator beside it
+ * @param fields - Fields of the line, in order
+ * @param index - Index of the removed field
+ * @returns Start and end offsets in the line
+ */
+function removalSpan(fields: Field[], index: number): [number, number] {
+  return index === 0
+    ? [fields[0].start, fields[1].start]
+    : [fields[index - 1].end, fields[index].end];
+}
+
+/**
+ * Splits a line into fields at separators
+ * @param line - Text line
+ * @param separator - Field separator, pipes, bullets and tabs by default
+ * @param from - Offset where the first field starts
+ * @returns Non-empty fields with their offsets in the line
+ */
+function splitFields(line: string, separator: RegExp = FIELD_SEPARATOR, from = 0): Field[] {
+  const fields: Field[] = [];
+  let start = from;
+
+  for (const match of line.slice(from).matchAll(separator)) {
+    const index = from + (match.index ?? 0);
+    // A leading bullet marks the line, not a field boundary
+    if (index > from && line.slice(start, index).trim()) {
+      fields.push(trimField(line, start, index));
+    }
+    if (index > from) start = index + match[0].length;
+  }
+  if (line.slice(start).trim()) fields.push(trimField(line, start, line.length));
+
+  return fields;
+}
+
+/**
+ * Trims a field's surrounding whitespace, adjusting its offsets
+ * @param line - Text line
+ * @param start - Field start in the line
+ * @param end - Field end in the line
+ * @returns Trimmed field
+ */
+function trimField(line: string, start: number, end: number): Field {
+  const raw = line.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const text = raw.trim();
+  return { text, start: start + leading, end: start + leading + text.length };
+}
+
+/**
+ * Checks whether a line could be a section heading
+ * @param line - Trimmed line
+ * @returns Boolean indicating a short line without sentence punctuation or a "Label: value" pair
+ */
+function isHeadingCandidate(line: string): boolean {
+  return line.length <= 50 && !/[.,;]$/.test(line) && !/:\s*\S/.test(line);
+}
@@ -0,0 +1,317 @@
+// Bullet quality analysis: action verbs, weak phrases, passive voice, metrics, tense and length
+import type { SectionKey } from './section-headings';
+import { createLocaleHeadingMatcher, detectResumeLanguage, type ResumeLanguage } from './locales/resume-locale';
+import { parseWorkExperience } from './resume/resume-extractor';
+import { countWords } from './parsers/text-utils';
+
+export type BulletIssueType = 'action_verb' | 'weak_phrase' | 'passive_voice' | 'no_metric' | 'tense' | 'length';
+
+export interface BulletIssue {
+  type: BulletIssueType;
+  message: string;
+}
+
+export interface BulletAnalysis {
+  text: string; // Bullet text without its marker
+  line: number; // Index of the bullet's line in the analyzed text
+  section: SectionKey;
+  current?: boolean; // Whether the role above is ongoing; undefined when it has no dates
+  issues: BulletIssue[]; // Empty for a bullet that passes every check
+}
+
+export interface BulletAnalysisOptions {
+  language?: ResumeLanguage; // Detected from the text when omitted
+}
+
+// Sections whose bullets describe work the candidate did
+const BULLET_SECTIONS: SectionKey[] = [
+  'WORK_EXPERIENCE',
+  'PROJECTS',
+  'LEADERSHIP',
+  'RESEARCH',
+  'TEACHING',
+  'CLINICAL',
+  'VOLUNTEER'
+];
+
+// Bullets longer than this are hard to scan
+const MAX_BULLET_WORDS = 35;
+
+// Action verbs in their base form; the past and third-person forms are derived
+const ACTION_VERBS = [
+  'accelerate', 'achieve', 'administer', 'advise', 'analyze', 'architect', 'assess', 'audit', 'author', 'automate',
+  'build', 'champion', 'coach', 'collaborate', 'conduct', 'configure', 'consolidate', 'coordinate', 'create',
+  'debug', 'define', 'deliver', 'deploy', 'design', 'develop', 'diagnose', 'direct', 'document', 'drive',
+  'eliminate', 'enable', 'engineer', 'establish', 'evaluate', 'examine', 'execute', 'expand', 'facilitate',
+  'forecast', 'found', 'generate', 'grow', 'guide', 'identify', 'implement', 'improve', 'increase', 'initiate',
+  'integrate', 'introduce', 'launch', 'lead', 'lecture', 'maintain', 'manage', 'mentor', 'migrate', 'model',
+  'modernize', 'monitor', 'negotiate', 'optimize', 'orchestrate', 'organize', 'oversee', 'own', 'partner',
+  'perform', 'pilot', 'plan', 'prepare', 'present', 'prioritize', 'produce', 'prototype', 'publish', 'raise',
+  'recruit', 'redesign', 'reduce', 'refactor', 'research', 'resolve', 'restructure', 'review', 'run', 'save',
+  'scale', 'secure', 'sell', 'ship', 'simplify', 'spearhead', 'streamline', 'strengthen', 'supervise', 'support',
+  'teach', 'test', 'train', 'transform', 'translate', 'treat', 'troubleshoot', 'tutor', 'upgrade', 'win', 'write'
+];
+
+// Past tenses the spelling rules in toPastTense don't produce
+const IRREGULAR_PAST: Record<string, string> = {
+  build: 'built',
+  debug: 'debugged',
+  drive: 'drove',
+  grow: 'grew',
+  lead: 'led',
+  oversee: 'oversaw',
+  plan: 'planned',
+  run: 'ran',
+  sell: 'sold',
+  ship: 'shipped',
+  teach: 'taught',
+  win: 'won',
+  write: 'wrote'
+};
+
+// Weak openers and the stronger wording to use instead
+const WEAK_PHRASES: Record<string, string> = {
+  'responsible for': 'a verb that shows ownership, such as "Led", "Managed" or "Owned"',
+  'duties included': 'the duty itself, starting with a verb',
+  'worked on': 'what you did, such as "Built", "Developed" or "Delivered"',
+  'helped with': 'the part you did yourself, such as "Supported" or "Contributed"',
+  'helped to': 'the part you did yourself, such as "Supported" or "Contributed"',
+  'assisted with': 'the part you did yourself, such as "Supported" or "Contributed"',
+  'in charge of': '"Led", "Directed" or "Oversaw"',
+  'tasked with': 'what you delivered, such as "Delivered" or "Completed"',
+  'involved in': 'your role, such as "Drove" or "Contributed"',
+  'participated in': 'your role, such as "Drove" or "Contributed"'
+};
+
+// Participles that complete a passive verb besides regular "-ed" forms
+const IRREGULAR_PARTICIPLES = [
+  'brought', 'built', 'done', 'driven', 'given', 'grown', 'held', 'known', 'led', 'made', 'overseen', 'rebuilt',
+  'run', 'seen', 'shown', 'sold', 'taught', 'won', 'written'
+];
+
+// Passive forms that are the normal way to state an honor ("Was promoted to Lead Engineer")
+const PASSIVE_EXCEPTIONS = new Set([
+  'awarded', 'elected', 'hired', 'invited', 'named', 'nominated', 'promoted', 'recognized', 'selected'
+]);
+
+const BULLET_PATTERN = /^[•·▪◦‣*–-]\s+/;
+const WEAK_PHRASE_PATTERN = new RegExp(`\\b(${Object.keys(WEAK_PHRASES).join('|')})\\b`, 'i');
+const PASSIVE_PATTERN = new RegExp(`\\b(?:am|is|are|was|were|been|being|be)\\s+(?:[a-z]+ly\\s+)?([a-z]+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`, 'gi');
+const METRIC_PATTERN = /\d|[%$€£]|\b(?:dozens?|hundreds?|thousands?|millions?|billions?|double[ds]?|doubling|tripled?|halved?|one|two|three|four|five|six|seven|eight|nine|ten|twelve|twenty|fifty)\b/i;
+
+type VerbForm = 'base' | 'past' | 'participle';
+
+interface VerbInfo {
+  word: string; // As written
+  form: VerbForm;
+  base?: string; // Base form, when the verb is in ACTION_VERBS
+}
+
+// Every written form of the action verbs, mapped to the base and the tense it carries
+const VERB_FORMS = buildVerbForms();
+
+/**
+ * Analyzes experience and project bullets for wording that weakens them
+ * @param text - Resume text, with headings on their own lines and bullets marked
+ * @param options - Resume language; the checks apply to English resumes only
+ * @returns One analysis per bullet in experience-like sections, in document order
+ */
+export function analyzeBullets(text: string, options: BulletAnalysisOptions = {}): BulletAnalysis[] {
+  const language = options.language ?? detectResumeLanguage(text);
+  // Verb lists and passive-voice rules are English
+  if (language !== 'en') return [];
+
+  const matchHeading = createLocaleHeadingMatcher(language);
+  const sections: { section: SectionKey; lines: { text: string; index: number }[] }[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const heading = !BULLET_PATTERN.test(line) && isHeadingCandidate(line) ? matchHeading(line) : null;
+    if (heading) {
+      sections.push({ section: heading.section, lines: [] });
+    } else {
+      sections[sections.length - 1]?.lines.push({ text: line, index });
+    }
+  });
+
+  return sections
+    .filter(({ section }) => BULLET_SECTIONS.includes(section))
+    .flatMap(({ section, lines }) => {
+      const roles = findBulletRoles(lines.map(line => line.text).join('\n'));
+      return lines
+        .filter(line => BULLET_PATTERN.test(line.text))
+        .map((line, position) => {
+          const bullet = line.text.replace(BULLET_PATTERN, '');
+          const current = roles[position];
+          return { text: bullet, line: line.index, section, current, issues: checkBullet(bullet, current) };
+        });
+    });
+}
+
+/**
+ * Reads from the section's parsed roles whether each bullet belongs to an ongoing role
+ * @param content - Section content
+ * @returns One entry per bullet line, in order: true for current roles, false for ended ones, undefined when undated
+ */
+function findBulletRoles(content: string): (boolean | undefined)[] {
+  // The parser turns every bullet line into exactly one bullet, so positions line up
+  return parseWorkExperience(content).flatMap(entry => {
+    const current = entry.current ? true : entry.endDate ? false : undefined;
+    return entry.bullets.map(() => current);
+  });
+}
+
+/**
+ * Runs every bullet check
+ * @param bullet - Bullet text without its marker
+ * @param current - Whether the bullet's role is ongoing, if known
+ * @returns Issues found, in check order
+ */
+function checkBullet(bullet: string, current: boolean | undefined): BulletIssue[] {
+  const issues: BulletIssue[] = [];
+  const verb = findLeadingVerb(bullet);
+  const weakPhrase = bullet.match(WEAK_PHRASE_PATTERN);
+  const hasMetric = METRIC_PATTERN.test(bullet);
+
+  // A weak opener is reported once, as a weak phrase
+  const opensWeakly = weakPhrase?.index !== undefined && bullet.slice(0, weakPhrase.index).trim().split(/\s+/).length <= 1;
+  if (!verb && !opensWeakly) {
+    const word = bullet.split(/\s+/)[0];
+    issues.push({
+      type: 'action_verb',
+      message: `Start with an action verb such as "${current ? 'Lead' : 'Led'}", "${current ? 'Build' : 'Built'}" or "${current ? 'Improve' : 'Improved'}" instead of "${word}"`
+    });
+  }
+
+  if (weakPhrase) {
+    const phrase = weakPhrase[1].toLowerCase();
+    issues.push({ type: 'weak_phrase', message: `Replace "${weakPhrase[1]}" with ${WEAK_PHRASES[phrase]}` });
+  }
+
+  // "Was tasked with" is already reported as a weak phrase
+  const passive = [...bullet.matchAll(PASSIVE_PATTERN)]
+    .map(match => ({ phrase: match[0], participle: match[1].toLowerCase() }))
+    .find(({ participle }) => !PASSIVE_EXCEPTIONS.has(participle) && !weakPhrase?.[1].toLowerCase().startsWith(participle));
+  if (passive) {
+    issues.push({ type: 'passive_voice', message: `Passive voice ("${passive.phrase}"); say what you did, starting with the verb` });
+  }
+
+  if (!hasMetric) {
+    issues.push({ type: 'no_metric', message: 'Add a number that shows scale or results (%, $, users, time saved)' });
+  }
+
+  const tense = verb && checkTense(verb, current);
+  if (tense) issues.push({ type: 'tense', message: tense });
+
+  const words = countWords(bullet);
+  if (words > MAX_BULLET_WORDS) {
+    issues.push({ type: 'length', message: `${words} words; keep bullets under ${MAX_BULLET_WORDS} words or split this one in two` });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks the leading verb's tense against the role's dates
+ * @param verb - Leading verb
+ * @param current - Whether the role is ongoing, if known
+ * @returns Issue message, or null when the tense fits
+ */
+function checkTense(verb: VerbInfo, current: boolean | undefined): string | null {
+  if (verb.form === 'participle') {
+    return `Start with a past- or present-tense verb rather than "${verb.word}"`;
+  }
+  if (current === undefined) return null;
+
+  if (!current && verb.form === 'base') {
+    const past = verb.base ? ` ("${capitalize(toPastTense(verb.base))}" instead of "${verb.word}")` : '';
+    return `Use past tense for a role that has ended${past}`;
+  }
+
+  if (current && verb.form === 'past') {
+    const base = verb.base ? ` ("${capitalize(verb.base)}" instead of "${verb.word}")` : '';
+    return `Use present tense for ongoing work in your current role${base}`;
+  }
+
+  return null;
+}
+
+/**
+ * Finds the verb a bullet opens with, skipping a leading adverb ("Successfully led ...")
+ * @param bullet - Bullet text without its marker
+ * @returns Verb and its form, or null when the bullet doesn't open with a verb
+ */
+function findLeadingVerb(bullet: string): VerbInfo | null {
+  const words = bullet.match(/^([A-Za-z][A-Za-z'-]*)(?:\s+([A-Za-z][A-Za-z'-]*))?/);
+  if (!words) return null;
+
+  const word = words[1].toLowerCase().endsWith('ly') && words[2] ? words[2] : words[1];
+  const lower = word.toLowerCase();
+
+  const known = VERB_FORMS.get(lower);
+  if (known) return { word, ...known };
+
+  // Unlisted verbs are still recognizable by their endings
+  if (lower.length > 4 && lower.endsWith('ed')) return { word, form: 'past' };
+  if (lower.length > 5 && lower.endsWith('ing')) return { word, form: 'participle' };
+  return null;
+}
+
+/**
+ * Indexes the base, third-person and past forms of the action verbs
+ * @returns Map from each lowercase form to its base and tense
+ */
+function buildVerbForms(): Map<string, Omit<VerbInfo, 'word'>> {
+  const forms = new Map<string, Omit<VerbInfo, 'word'>>();
+
+  for (const base of ACTION_VERBS) {
+    forms.set(base, { form: 'base', base });
+    forms.set(toThirdPerson(base), { form: 'base', base });
+    forms.set(toPastTense(base), { form: 'past', base });
+  }
+
+  return forms;
+}
+
+/**
+ * Forms the simple past of an action verb
+ * @param base - Base form
+ * @returns Past tense ("managed", "identified", "led")
+ */
+function toPastTense(base: string): string {
+  if (IRREGULAR_PAST[base]) return IRREGULAR_PAST[base];
+  if (base.endsWith('e')) return `${base}d`;
+  if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ied`;
+  return `${base}ed`;
+}
+
+/**
+ * Forms the third-person present of an action verb
+ * @param base - Base form
+ * @returns Third-person form ("manages", "identifies", "leads")
+ */
+function toThirdPerson(base: string): string {
+  if (/(s|sh|ch|x|z)$/.test(base)) return `${base}es`;
+  if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ies`;
+  return `${base}s`;
+}
+
+/**
+ * Rules out lines that can't be headings: sentences and "Label: value" lines
+ * @param line - Trimmed line that isn't a bullet
+ * @returns Boolean indicating the line may be a heading
+ */
+function isHeadingCandidate(line: string): boolean {
+  return line.length <= 50 && !/[.,;]$/.test(line) && !/:\s*\S/.test(line);
+}
+
+/**
+ * Capitalizes the first letter of a word
+ * @param word - Word to capitalize
+ * @returns Word with an uppercase first letter
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
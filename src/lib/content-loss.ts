@@ -0,0 +1,295 @@
+// Content-loss guard: aligns original and optimized tokens to find text the optimization dropped or altered
+
+export interface ContentChange {
+  type: 'dropped' | 'altered';
+  original: string; // Original phrase
+  optimized?: string; // What an altered phrase became
+}
+
+export interface ContentLossReport {
+  originalWords: number;
+  lostWords: number; // Original words missing from the optimized text
+  lossRatio: number; // lostWords / originalWords, 0-1
+  changes: ContentChange[];
+  exceedsThreshold: boolean;
+}
+
+// An intended rewrite, such as a heading replaced by its standard title
+export interface ExpectedReplacement {
+  before: string;
+  after: string;
+}
+
+export interface ContentLossOptions {
+  expectedReplacements?: ExpectedReplacement[];
+  threshold?: number; // Defaults to CONTENT_LOSS_THRESHOLD
+}
+
+// Share of original words that may go missing before the result is flagged
+export const CONTENT_LOSS_THRESHOLD = 0.02;
+
+// Changes listed in a report; the loss ratio counts all of them
+const MAX_REPORTED_CHANGES = 20;
+
+// Longest phrase quoted in a change; longer ones are shortened
+const MAX_PHRASE_LENGTH = 120;
+
+// Edit distance above which token alignment falls back to comparing word counts
+const MAX_EDIT_DISTANCE = 2000;
+
+// Phone numbers are compared by their last digits, so "+1 (512) 555-0100" matches "+15125550100"
+const PHONE_KEY_DIGITS = 7;
+
+const TOKEN_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d|[\p{L}\p{N}]+/gu;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Typographic characters the optimizer replaces, mapped one-to-one so offsets are kept
+const TYPOGRAPHY_REPLACEMENTS: Record<string, string> = {
+  '–': '-', '—': '-', '‘': "'", '’': "'", '‚': "'", '“': '"', '”': '"', '„': '"', '…': '.'
+};
+
+interface Token {
+  key: string; // Normalized form used for comparison
+  start: number;
+  end: number;
+}
+
+interface DiffHunk {
+  deleted: Token[]; // Original tokens with no counterpart at this position
+  inserted: Token[]; // Optimized tokens with no counterpart at this position
+}
+
+/**
+ * Compares original and optimized text and reports content that went missing
+ * @param originalText - Text extracted from the uploaded resume
+ * @param optimizedText - Optimized text
+ * @param options - Intended rewrites to ignore and the loss threshold
+ * @returns Lost-word count and ratio, the dropped or altered phrases, and whether the threshold is exceeded
+ */
+export function checkContentLoss(
+  originalText: string,
+  optimizedText: string,
+  options: ContentLossOptions = {}
+): ContentLossReport {
+  const original = normalizeTypography(applyExpectedReplacements(originalText, options.expectedReplacements ?? []));
+  const optimized = normalizeTypography(optimizedText);
+  const originalTokens = tokenize(original);
+  const optimizedTokens = tokenize(optimized);
+
+  const hunks = diffTokens(originalTokens, optimizedTokens) ?? compareWordCounts(originalTokens, optimizedTokens);
+
+  // Text moved elsewhere (e.g. contact details gathered at the top) isn't lost
+  const movedKeys = countKeys(hunks.flatMap(hunk => hunk.inserted));
+  const changes: ContentChange[] = [];
+  let lostWords = 0;
+
+  for (const hunk of hunks) {
+    const lost = hunk.deleted.filter(token => {
+      const available = movedKeys.get(token.key) ?? 0;
+      if (available > 0) movedKeys.set(token.key, available - 1);
+      return available === 0;
+    });
+    if (lost.length === 0) continue;
+
+    lostWords += lost.length;
+    const phrase = quote(original, lost);
+    changes.push(hunk.inserted.length > 0
+      ? { type: 'altered', original: phrase, optimized: quote(optimized, hunk.inserted) }
+      : { type: 'dropped', original: phrase });
+  }
+
+  const lossRatio = originalTokens.length > 0 ? lostWords / originalTokens.length : 0;
+
+  return {
+    originalWords: originalTokens.length,
+    lostWords,
+    lossRatio,
+    changes: changes.slice(0, MAX_REPORTED_CHANGES),
+    exceedsThreshold: lossRatio > (options.threshold ?? CONTENT_LOSS_THRESHOLD)
+  };
+}
+
+/**
+ * Applies intended rewrites to whole lines of the original text
+ * @param text - Original text
+ * @param replacements - Rewrites, each applied to the first line matching it
+ * @returns Text as it should read after the intended rewrites
+ */
+function applyExpectedReplacements(text: string, replacements: ExpectedReplacement[]): string {
+  const lines = text.split('\n');
+  for (const { before, after } of replacements) {
+    const index = lines.findIndex(line => line.trim() === before.trim());
+    if (index !== -1) lines[index] = after;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Replaces typographic quotes, dashes and ellipses with plain characters
+ * @param text - Text to normalize
+ * @returns Text of the same length with plain punctuation
+ */
+function normalizeTypography(text: string): string {
+  return text.replace(/[–—‘’‚“”„…]/g, char => TYPOGRAPHY_REPLACEMENTS[char]);
+}
+
+/**
+ * Splits text into comparable tokens: words, and phone numbers as single tokens
+ * @param text - Text to tokenize
+ * @returns Tokens with their offsets in the text
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const digits = match[0].replace(/\D/g, '');
+
+    if (/^[\p{L}\p{N}]+$/u.test(match[0])) {
+      tokens.push({ key: match[0].toLowerCase(), start, end: start + match[0].length });
+    } else if (digits.length >= PHONE_KEY_DIGITS) {
+      tokens.push({ key: `#${digits.slice(-PHONE_KEY_DIGITS)}`, start, end: start + match[0].length });
+    } else {
+      // Short number runs such as "(2019)" are ordinary words
+      for (const word of match[0].matchAll(WORD_PATTERN)) {
+        const wordStart = start + (word.index ?? 0);
+        tokens.push({ key: word[0].toLowerCase(), start: wordStart, end: wordStart + word[0].length });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Aligns two token sequences with the Myers shortest-edit algorithm
+ * @param a - Original tokens
+ * @param b - Optimized tokens
+ * @returns Runs of unmatched tokens, or null when the texts differ too much to align
+ */
+function diffTokens(a: Token[], b: Token[]): DiffHunk[] | null {
+  // Common leading and trailing tokens need no alignment
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].key === b[prefix].key) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].key === b[b.length - 1 - suffix].key) suffix++;
+
+  const x0 = a.slice(prefix, a.length - suffix);
+  const y0 = b.slice(prefix, b.length - suffix);
+  const n = x0.length;
+  const m = y0.length;
+  const limit = Math.min(n + m, MAX_EDIT_DISTANCE);
+
+  // trace[d] holds the furthest x per diagonal k in [-d - 1, d + 1] before round d
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= limit && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && x0[x].key === y0[y].key) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk the edit path backwards, collecting deletions and insertions between matches
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk = { deleted: [], inserted: [] };
+  const closeHunk = () => {
+    if (current.deleted.length > 0 || current.inserted.length > 0) {
+      current.deleted.reverse();
+      current.inserted.reverse();
+      hunks.unshift(current);
+      current = { deleted: [], inserted: [] };
+    }
+  };
+
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    if (x > prevX && y > prevY) closeHunk();
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) current.inserted.push(y0[prevY]);
+      else current.deleted.push(x0[prevX]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  closeHunk();
+
+  return hunks;
+}
+
+/**
+ * Compares word counts when the texts can't be aligned
+ * @param a - Original tokens
+ * @param b - Optimized tokens
+ * @returns One hunk per run of original tokens missing from the optimized text
+ */
+function compareWordCounts(a: Token[], b: Token[]): DiffHunk[] {
+  const available = countKeys(b);
+  const hunks: DiffHunk[] = [];
+  let run: Token[] = [];
+
+  for (const token of a) {
+    const count = available.get(token.key) ?? 0;
+    if (count > 0) {
+      available.set(token.key, count - 1);
+      if (run.length > 0) hunks.push({ deleted: run, inserted: [] });
+      run = [];
+    } else {
+      run.push(token);
+    }
+  }
+  if (run.length > 0) hunks.push({ deleted: run, inserted: [] });
+
+  return hunks;
+}
+
+/**
+ * Quotes the text spanned by a run of tokens
+ * @param text - Text the tokens come from
+ * @param tokens - Consecutive tokens
+ * @returns The phrase, shortened with an ellipsis when long
+ */
+function quote(text: string, tokens: Token[]): string {
+  const phrase = text.slice(tokens[0].start, tokens[tokens.length - 1].end).replace(/\s+/g, ' ');
+  return phrase.length > MAX_PHRASE_LENGTH ? `${phrase.slice(0, MAX_PHRASE_LENGTH).trimEnd()}…` : phrase;
+}
+
+/**
+ * Counts tokens per normalized key
+ * @param tokens - Tokens to count
+ * @returns Count per key
+ */
+function countKeys(tokens: Token[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token.key, (counts.get(token.key) ?? 0) + 1));
+  return counts;
+}
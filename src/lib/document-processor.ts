@@ -1,10 +1,15 @@
 // Document processing service that orchestrates parsing and ATS optimization
 import { parseDocumentEnhanced } from './parsers/document-parser';
-import { optimizeForATS, generateOptimizationSummary } from './ats-optimizer';
-import { generateDOCX, isDOCXGenerationSupported } from './docx-generator';
-import type { UploadedFile } from '@/types/file-upload';
+import { runProcessingPipeline, createCancelledError } from './processing-pipeline';
+import { createUploadError } from './file-validation';
+import { lazyLoader } from './performance/lazy-loader';
+import { UPLOAD_ERROR_CODES, type UploadedFile, type UploadErrorCode } from '@/types/file-upload';
 import type { ParsedDocument } from './parsers/pdf-parser';
 import type { ATSOptimizedDocument } from './ats-optimizer';
+import type { HeadingMapping } from './section-headings';
+import type { ResumeLanguage } from './locales/resume-locale';
+import type { RedactionReport } from './redaction';
+import type { DocumentWorkerRequest, DocumentWorkerResponse } from './workers/document-worker-protocol';
 
 export interface ProcessingResult {
   originalDocument: ParsedDocument & { htmlContent?: string };
@@ -15,201 +20,171 @@ export interface ProcessingResult {
 }
 
 export interface DownloadOption {
-  format: 'txt' | 'docx';
+  format: 'txt' | 'docx' | 'json';
   label: string;
   description: string;
   content: string | Uint8Array;
   filename: string;
   size: number;
   mimeType: string;
+  redaction?: RedactionReport; // What was masked, for the anonymized download
 }
 
 export interface ProcessingProgress {
   stage: 'parsing' | 'optimizing' | 'generating' | 'complete';
   progress: number;
   message: string;
+  page?: {
+    current: number;
+    total: number;
+  };
+}
+
+export interface ProcessingOptions {
+  password?: string;
+  enableOCR?: boolean;
+  headingMappings?: HeadingMapping[];
+  language?: ResumeLanguage; // Detected from the document text when omitted
+  redactOrganizations?: boolean; // Also mask school and employer names in the anonymized download
+  signal?: AbortSignal;
 }
 
 /**
  * Main document processing function that handles complete workflow
  * @param uploadedFile - File to process
  * @param onProgress - Optional progress callback
+ * @param options - Optional processing settings (PDF password, OCR for scanned PDFs, custom heading mappings, redaction, cancellation signal)
  * @returns Promise resolving to complete processing result
  */
 export async function processDocument(
   uploadedFile: UploadedFile,
-  onProgress?: (progress: ProcessingProgress) => void
+  onProgress?: (progress: ProcessingProgress) => void,
+  options: ProcessingOptions = {}
 ): Promise<ProcessingResult> {
   // Ensure we're running in browser environment
   if (typeof window === 'undefined') {
     throw new Error('Document processing is only available in browser environment');
   }
-  
-  const startTime = Date.now();
-  
+
+  if (options.signal?.aborted) {
+    throw createCancelledError(uploadedFile.metadata.name);
+  }
+
+  // OCR renders pages to a DOM canvas, so those runs stay on the main thread
+  // (Tesseract still recognizes text in its own worker)
+  if (typeof Worker === 'undefined' || options.enableOCR) {
+    return runProcessingPipeline(uploadedFile, onProgress, options);
+  }
+
+  let worker: Worker;
   try {
-    // Stage 1: Parse document
-    onProgress?.({
-      stage: 'parsing',
-      progress: 10,
-      message: 'Extracting text from document...'
-    });
-    
-    const originalDocument = await parseDocumentEnhanced(uploadedFile);
-    
-    onProgress?.({
-      stage: 'parsing',
-      progress: 30,
-      message: 'Document parsed successfully'
-    });
-    
-    // Stage 2: Optimize for ATS
-    onProgress?.({
-      stage: 'optimizing',
-      progress: 50,
-      message: 'Applying ATS optimizations...'
-    });
-    
-    const optimizedDocument = optimizeForATS(originalDocument);
-    
-    onProgress?.({
-      stage: 'optimizing',
-      progress: 70,
-      message: 'ATS optimization complete'
-    });
-    
-    // Stage 3: Generate download options
-    onProgress?.({
-      stage: 'generating',
-      progress: 85,
-      message: 'Preparing download formats...'
-    });
-    
-    const downloadOptions = await generateDownloadOptions(optimizedDocument, uploadedFile.metadata.name);
-    const summary = generateOptimizationSummary(optimizedDocument);
-    
-    onProgress?.({
-      stage: 'complete',
-      progress: 100,
-      message: 'Processing complete!'
-    });
-    
-    const processingTime = Date.now() - startTime;
-    
-    return {
-      originalDocument,
-      optimizedDocument,
-      summary,
-      downloadOptions,
-      processingTime
-    };
-    
+    worker = new Worker(new URL('./workers/document.worker.ts', import.meta.url));
   } catch (error) {
-    throw new Error(`Document processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.warn('Processing worker unavailable, processing on the main thread:', error);
+    return runProcessingPipeline(uploadedFile, onProgress, options);
   }
+
+  return processInWorker(worker, uploadedFile, onProgress, options);
 }
 
 /**
- * Generates download options for the optimized document
- * @param optimizedDocument - ATS optimized document
- * @param originalFilename - Original filename for naming
- * @returns Promise resolving to array of download options
+ * Runs the processing pipeline in a dedicated worker, forwarding progress and honoring cancellation
+ * @param worker - Freshly created processing worker (terminated when the run settles)
+ * @param uploadedFile - File to process
+ * @param onProgress - Optional progress callback
+ * @param options - Processing settings
+ * @returns Promise resolving to complete processing result
  */
-async function generateDownloadOptions(
-  optimizedDocument: ATSOptimizedDocument,
-  originalFilename: string
-): Promise<DownloadOption[]> {
-  const baseName = originalFilename.replace(/\.[^/.]+$/, ''); // Remove extension
-  const content = optimizedDocument.content;
-  
-  const options: DownloadOption[] = [];
-  
-  // TXT format (always available)
-  const txtContent = content;
-  options.push({
-    format: 'txt',
-    label: 'Plain Text (.txt)',
-    description: 'Universal format compatible with all ATS systems',
-    content: txtContent,
-    filename: `${baseName}_ATS_optimized.txt`,
-    size: new Blob([txtContent]).size,
-    mimeType: 'text/plain'
-  });
-  
-  // DOCX format - generate real Microsoft Word document
-  if (isDOCXGenerationSupported()) {
-    try {
-      const { buffer, filename } = await generateDOCX(optimizedDocument, originalFilename);
-      options.push({
-        format: 'docx',
-        label: 'Microsoft Word (.docx)',
-        description: 'Professional DOCX file ready for any application',
-        content: buffer,
-        filename,
-        size: buffer.length,
-        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-      });
-    } catch (error) {
-      console.warn('DOCX generation failed, providing fallback text format:', error);
-      // Fallback to formatted text
-      const formattedContent = formatForWord(content, optimizedDocument.sections);
-      options.push({
-        format: 'docx',
-        label: 'Word-ready Text (.txt)',
-        description: 'Formatted text ready to copy into Microsoft Word',
-        content: formattedContent,
-        filename: `${baseName}_Word_ready.txt`,
-        size: new Blob([formattedContent]).size,
-        mimeType: 'text/plain'
-      });
-    }
-  } else {
-    // Fallback for unsupported environments
-    const formattedContent = formatForWord(content, optimizedDocument.sections);
-    options.push({
-      format: 'docx',
-      label: 'Word-ready Text (.txt)',
-      description: 'Formatted text ready to copy into Microsoft Word',
-      content: formattedContent,
-      filename: `${baseName}_Word_ready.txt`,
-      size: new Blob([formattedContent]).size,
-      mimeType: 'text/plain'
+function processInWorker(
+  worker: Worker,
+  uploadedFile: UploadedFile,
+  onProgress: ((progress: ProcessingProgress) => void) | undefined,
+  options: ProcessingOptions
+): Promise<ProcessingResult> {
+  const { signal, ...workerOptions } = options;
+
+  return new Promise<ProcessingResult>((resolve, reject) => {
+    let settled = false;
+    let started = false;
+
+    // One worker per run: terminating it frees the file data and stops any in-flight work
+    const finish = () => {
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      if (settled) return;
+      finish();
+      reject(createCancelledError(uploadedFile.metadata.name));
+    };
+
+    worker.addEventListener('message', (event: MessageEvent<DocumentWorkerResponse>) => {
+      if (settled) return;
+      started = true;
+      const message = event.data;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'pdf-worker-status':
+          lazyLoader.reportPDFWorkerStatus(message.status);
+          break;
+        case 'result':
+          finish();
+          resolve(message.result);
+          break;
+        case 'error':
+          finish();
+          reject(message.error.code
+            ? createUploadError(message.error.code as UploadErrorCode, message.error.message, message.error.file)
+            : new Error(message.error.message));
+          break;
+      }
     });
-  }
-  
-  return options;
-}
 
-/**
- * Formats content for easy copying into Microsoft Word
- * @param content - Optimized content
- * @param sections - Detected sections
- * @returns Formatted content
- */
-function formatForWord(content: string, sections: { standardTitle: string }[]): string {
-  let formatted = content;
-  
-  // Add formatting instructions at the top
-  const instructions = `=== WORD FORMATTING INSTRUCTIONS ===
-1. Copy and paste this content into Microsoft Word
-2. Select section headings and make them bold
-3. Use Arial or Calibri font, size 11-12
-4. Set margins to 0.5-1 inch on all sides
-5. Save as .docx format
+    worker.addEventListener('error', (event) => {
+      if (settled) return;
+      finish();
 
-=== YOUR ATS-OPTIMIZED RESUME ===
+      // The worker script failed to load; process on the main thread instead
+      if (!started) {
+        console.warn('Processing worker failed to start, processing on the main thread:', event.message);
+        runProcessingPipeline(uploadedFile, onProgress, options).then(resolve, reject);
+        return;
+      }
 
-`;
-  
-  formatted = instructions + formatted;
-  
-  // Add extra spacing around section headings for easier formatting
-  sections.forEach(section => {
-    const headingPattern = new RegExp(`^${section.standardTitle}$`, 'gm');
-    formatted = formatted.replace(headingPattern, `\n${section.standardTitle}\n`);
+      reject(new Error(`Document processing failed: ${event.message || 'Worker error'}`));
+    });
+
+    worker.addEventListener('messageerror', () => {
+      if (settled) return;
+      finish();
+      reject(createUploadError(
+        UPLOAD_ERROR_CODES.PROCESSING_ERROR,
+        'Document processing failed: the processing result could not be read.',
+        uploadedFile.metadata.name
+      ));
+    });
+
+    signal?.addEventListener('abort', handleAbort);
+
+    const request: DocumentWorkerRequest = {
+      type: 'process',
+      uploadedFile,
+      options: workerOptions
+    };
+    try {
+      worker.postMessage(request);
+    } catch (error) {
+      // The file couldn't be cloned into the worker; process on the main thread instead
+      finish();
+      console.warn('Could not hand the file to the processing worker, processing on the main thread:', error);
+      runProcessingPipeline(uploadedFile, onProgress, options).then(resolve, reject);
+    }
   });
-  
-  return formatted;
 }
 
 /**
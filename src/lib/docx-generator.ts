@@ -25,35 +25,58 @@ export async function generateDOCX(
 
   // Split content by sections for better formatting
   const sections = optimizedDocument.sections;
+  // Documents with only a preamble have no headings and are formatted from the full content below
+  const hasHeadings = sections.some(section => section.kind !== 'preamble');
 
   // Process each section
-  for (const section of sections) {
-    // Add section heading
-    children.push(
-      new Paragraph({
-        children: [
-          new TextRun({
-            text: section.standardTitle,
-            bold: true,
-            size: 24, // 12pt font
-          }),
-        ],
-        heading: HeadingLevel.HEADING_2,
-        spacing: {
-          before: 240, // 12pt before
-          after: 120,  // 6pt after
-        },
-      })
-    );
+  for (const section of hasHeadings ? sections : []) {
+    // Add section heading; the preamble has none and opens with the candidate's name
+    const isPreamble = section.kind === 'preamble';
+    if (!isPreamble) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: section.standardTitle,
+              bold: true,
+              size: 24, // 12pt font
+            }),
+          ],
+          heading: HeadingLevel.HEADING_2,
+          spacing: {
+            before: 240, // 12pt before
+            after: 120,  // 6pt after
+          },
+        })
+      );
+    }
 
     // Add section content
     const sectionContent = section.content;
     const sectionLines = sectionContent.split('\n').filter(line => line.trim().length > 0);
 
-    for (const line of sectionLines) {
+    for (const [lineIndex, line] of sectionLines.entries()) {
       const trimmedLine = line.trim();
       if (trimmedLine.length === 0) continue;
 
+      if (isPreamble && lineIndex === 0) {
+        children.push(
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: trimmedLine,
+                bold: true,
+                size: 28, // 14pt font
+              }),
+            ],
+            spacing: {
+              after: 120, // 6pt after
+            },
+          })
+        );
+        continue;
+      }
+
       // Check if line is a bullet point
       const isBulletPoint = trimmedLine.startsWith('•') || trimmedLine.startsWith('-') || trimmedLine.startsWith('*');
       
@@ -105,8 +128,8 @@ export async function generateDOCX(
     );
   }
 
-  // If no sections detected, format the entire content
-  if (sections.length === 0) {
+  // If no section headings detected, format the entire content
+  if (!hasHeadings) {
     const lines = optimizedDocument.content.split('\n');
     
     for (const line of lines) {
@@ -256,6 +279,6 @@ export async function generateDOCX(
  * @returns boolean indicating support
  */
 export function isDOCXGenerationSupported(): boolean {
-  // DOCX generation works in browser environments
-  return typeof window !== 'undefined';
+  // DOCX generation works in browser windows and web workers
+  return typeof self !== 'undefined';
 }
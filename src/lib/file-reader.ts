@@ -5,10 +5,10 @@ import {
   UploadProgress, 
   UPLOAD_ERROR_CODES
 } from '@/types/file-upload';
-import { validateFile, createUploadError } from './file-validation';
+import { validateFile, validateFileContent, createUploadError } from './file-validation';
 
 /**
- * Reads file as ArrayBuffer for processing by pdf-parse or mammoth.js
+ * Reads file as ArrayBuffer for processing by the document parsers
  * @param file - File to read
  * @param onProgress - Optional progress callback
  * @returns Promise resolving to UploadedFile with buffer
@@ -107,11 +107,16 @@ export async function processUploadedFile(
 ): Promise<UploadedFile> {
   try {
     // First validate the file according to PRD requirements
-    validateFile(file);
+    const fileType = validateFile(file);
     
     // Read the file as buffer for parsing
     const uploadedFile = await readFileAsBuffer(file, onProgress);
     
+    // Confirm the contents match the extension before handing off to the parsers
+    if (uploadedFile.buffer) {
+      validateFileContent(uploadedFile.buffer, fileType, file.name);
+    }
+    
     return uploadedFile;
   } catch (error) {
     if (error && typeof error === 'object' && 'code' in error) {
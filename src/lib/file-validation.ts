@@ -11,26 +11,30 @@ import {
 export { UPLOAD_ERROR_CODES } from '@/types/file-upload';
 
 /**
- * Validates file type against supported formats (.pdf, .docx)
+ * Validates file type against supported formats (.pdf, .docx, .doc, .rtf, .odt, .txt, .md, .json)
  * @param file - File to validate
  * @returns SupportedFileType or throws UploadError
  */
 export function validateFileType(file: File): SupportedFileType {
   const mimeType = file.type;
   const extension = getFileExtension(file.name);
+  const extensionType = extension in FILE_UPLOAD_CONFIG.EXTENSION_TYPES
+    ? FILE_UPLOAD_CONFIG.EXTENSION_TYPES[extension as keyof typeof FILE_UPLOAD_CONFIG.EXTENSION_TYPES]
+    : undefined;
 
   // Check MIME type first
   if (mimeType in FILE_UPLOAD_CONFIG.SUPPORTED_TYPES) {
-    return FILE_UPLOAD_CONFIG.SUPPORTED_TYPES[mimeType as keyof typeof FILE_UPLOAD_CONFIG.SUPPORTED_TYPES];
+    const mimeFileType = FILE_UPLOAD_CONFIG.SUPPORTED_TYPES[mimeType as keyof typeof FILE_UPLOAD_CONFIG.SUPPORTED_TYPES];
+    // Many systems report Markdown as text/plain
+    return mimeFileType === 'txt' && extensionType === 'md' ? 'md' : mimeFileType;
   }
 
   // Fallback to extension check for cases where MIME type might be missing
-  if (extension === '.pdf') return 'pdf';
-  if (extension === '.docx') return 'docx';
+  if (extensionType) return extensionType;
 
   throw createUploadError(
     UPLOAD_ERROR_CODES.INVALID_FILE_TYPE,
-    `Unsupported file type. Please upload a PDF or DOCX file. Received: ${mimeType || 'unknown'} (${extension})`,
+    `Unsupported file type. Please upload a PDF, Word (DOCX), RTF, ODT, plain text or JSON Resume file. Received: ${mimeType || 'unknown'} (${extension})`,
     file.name
   );
 }
@@ -88,7 +92,7 @@ export function validateFile(file: File): SupportedFileType {
   if (!file) {
     throw createUploadError(
       UPLOAD_ERROR_CODES.NO_FILE_SELECTED,
-      'No file selected. Please choose a PDF or DOCX file to upload.'
+      'No file selected. Please choose a PDF, Word, RTF, ODT or text file to upload.'
     );
   }
 
@@ -98,6 +102,233 @@ export function validateFile(file: File): SupportedFileType {
   return validateFileType(file);
 }
 
+/**
+ * Checks file contents against the declared type using format signatures (magic bytes).
+ * Runs on the raw buffer so bad files are rejected before any parsing library loads.
+ * @param buffer - File contents
+ * @param declaredType - Type derived from MIME type and extension
+ * @param filename - File name for error context
+ * @returns The type to parse the file as (legacy .doc uploads may really be RTF or DOCX)
+ * @throws UploadError if the contents are truncated or don't match the declared type
+ */
+export function validateFileContent(
+  buffer: ArrayBuffer,
+  declaredType: SupportedFileType,
+  filename: string
+): SupportedFileType {
+  const bytes = new Uint8Array(buffer);
+  const detected = detectContentType(bytes);
+
+  if (detected.truncated) {
+    throw createUploadError(
+      UPLOAD_ERROR_CODES.FILE_TRUNCATED,
+      `This ${CONTENT_LABELS[detected.type]} file appears to be incomplete (it may not have finished downloading or copying). Please re-save or re-download it and try again.`,
+      filename
+    );
+  }
+
+  if (detected.type === 'encrypted-office') {
+    throw createUploadError(
+      UPLOAD_ERROR_CODES.PROCESSING_ERROR,
+      'Password-protected Word documents are not supported. Please remove the password in Word and upload the file again.',
+      filename
+    );
+  }
+
+  if (detected.type === declaredType) {
+    return declaredType;
+  }
+
+  // Word saves RTF and DOCX content under .doc names; Markdown and JSON are plain text
+  if (declaredType === 'doc' && (detected.type === 'rtf' || detected.type === 'docx')) {
+    return detected.type;
+  }
+  if ((declaredType === 'txt' || declaredType === 'md' || declaredType === 'json') && detected.type === 'text') {
+    return declaredType;
+  }
+
+  const extension = getFileExtension(filename) || declaredType;
+  throw createUploadError(
+    UPLOAD_ERROR_CODES.FILE_TYPE_MISMATCH,
+    `This file is named ${extension} but its contents look like ${withArticle(CONTENT_LABELS[detected.type])} file. Please check that you selected the right file, or re-export it in its real format.`,
+    filename
+  );
+}
+
+type DetectedContentType = SupportedFileType | 'text' | 'encrypted-office' | 'office-other' | 'zip' | 'unknown';
+
+// Human-readable names used in content validation errors
+const CONTENT_LABELS: Record<DetectedContentType, string> = {
+  pdf: 'PDF',
+  docx: 'Word (DOCX)',
+  doc: 'legacy Word (.doc)',
+  rtf: 'RTF',
+  odt: 'OpenDocument text',
+  txt: 'plain text',
+  md: 'Markdown',
+  json: 'JSON Resume',
+  text: 'plain text',
+  'encrypted-office': 'password-protected Office',
+  'office-other': 'spreadsheet or presentation',
+  zip: 'ZIP archive',
+  unknown: 'unrecognized binary'
+};
+
+const PDF_HEADER_SEARCH_BYTES = 1024; // PDF readers accept the %PDF- header within the first 1KB
+const PDF_EOF_SEARCH_BYTES = 4096; // Tolerates trailing whitespace or padding after %%EOF
+const ZIP_EOCD_MAX_SEARCH = 22 + 65535; // End-of-central-directory record plus maximum comment
+const TEXT_SNIFF_BYTES = 8192;
+
+/**
+ * Identifies a file's format from its leading bytes and checks it is complete
+ * @param bytes - File contents
+ * @returns Detected content type and whether the file appears truncated
+ */
+function detectContentType(bytes: Uint8Array): { type: DetectedContentType; truncated: boolean } {
+  if (indexOfAscii(bytes, '%PDF-', 0, PDF_HEADER_SEARCH_BYTES) !== -1) {
+    const eofStart = Math.max(0, bytes.length - PDF_EOF_SEARCH_BYTES);
+    return { type: 'pdf', truncated: indexOfAscii(bytes, '%%EOF', eofStart) === -1 };
+  }
+
+  if (startsWithBytes(bytes, [0x50, 0x4b, 0x03, 0x04])) {
+    return detectZipContent(bytes);
+  }
+
+  if (startsWithBytes(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    // Encrypted DOCX files are stored in an OLE container with an EncryptedPackage stream
+    const encrypted = indexOfAscii(bytes, 'E\0n\0c\0r\0y\0p\0t\0e\0d\0P\0a\0c\0k\0a\0g\0e', 0) !== -1;
+    return { type: encrypted ? 'encrypted-office' : 'doc', truncated: bytes.length < 1536 };
+  }
+
+  if (indexOfAscii(bytes, '{\\rtf', 0, 5) === 0) {
+    // A complete RTF document ends with the closing brace of its outer group
+    const tail = String.fromCharCode(...bytes.subarray(Math.max(0, bytes.length - 64))).replace(/[\s\0]+$/, '');
+    return { type: 'rtf', truncated: !tail.endsWith('}') };
+  }
+
+  return { type: looksLikeText(bytes) ? 'text' : 'unknown', truncated: false };
+}
+
+/**
+ * Classifies a ZIP-based file by its entry names (read from the central directory)
+ * @param bytes - File contents starting with a ZIP local file header
+ * @returns Detected content type and whether the central directory is missing
+ */
+function detectZipContent(bytes: Uint8Array): { type: DetectedContentType; truncated: boolean } {
+  const names = readZipEntryNames(bytes);
+  if (!names) {
+    // The central directory sits at the end of the archive; without it the file was cut off
+    const header = String.fromCharCode(...bytes.subarray(0, 128));
+    const type = header.includes('[Content_Types].xml') || header.includes('word/') ? 'docx'
+      : header.includes('opendocument.text') ? 'odt'
+      : 'zip';
+    return { type, truncated: true };
+  }
+
+  if (names.has('[Content_Types].xml')) {
+    return { type: names.has('word/document.xml') ? 'docx' : 'office-other', truncated: false };
+  }
+
+  if (names.has('mimetype') && names.has('content.xml')) {
+    // ODF stores its mimetype entry first and uncompressed
+    const isText = indexOfAscii(bytes, 'application/vnd.oasis.opendocument.text', 0, 128) !== -1;
+    return { type: isText ? 'odt' : 'office-other', truncated: false };
+  }
+
+  return { type: 'zip', truncated: false };
+}
+
+/**
+ * Reads entry names from a ZIP central directory
+ * @param bytes - ZIP file contents
+ * @returns Entry names, or null when the central directory is missing or out of bounds
+ */
+function readZipEntryNames(bytes: Uint8Array): Set<string> | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const searchStart = Math.max(0, bytes.length - ZIP_EOCD_MAX_SEARCH);
+
+  let eocd = -1;
+  for (let offset = bytes.length - 22; offset >= searchStart; offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const directorySize = view.getUint32(eocd + 12, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (directoryOffset + directorySize > eocd) return null;
+
+  const names = new Set<string>();
+  let offset = directoryOffset;
+  while (offset + 46 <= eocd && view.getUint32(offset, true) === 0x02014b50) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    names.add(new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength)));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return names;
+}
+
+/**
+ * Heuristically checks that data is text (no NUL bytes unless UTF-16 with a BOM)
+ * @param bytes - File contents
+ * @returns Boolean indicating text content
+ */
+function looksLikeText(bytes: Uint8Array): boolean {
+  if (startsWithBytes(bytes, [0xff, 0xfe]) || startsWithBytes(bytes, [0xfe, 0xff])) {
+    return true;
+  }
+  return !bytes.subarray(0, TEXT_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Checks whether data begins with the given bytes
+ * @param bytes - Data to check
+ * @param signature - Expected leading bytes
+ * @returns Boolean indicating a match
+ */
+function startsWithBytes(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((value, index) => bytes[index] === value);
+}
+
+/**
+ * Finds an ASCII string in binary data
+ * @param bytes - Data to search
+ * @param needle - ASCII string to find
+ * @param start - Offset to start searching from
+ * @param limit - Optional number of bytes to search
+ * @returns Offset of the first match, or -1
+ */
+function indexOfAscii(bytes: Uint8Array, needle: string, start: number, limit?: number): number {
+  const end = Math.min(bytes.length, limit !== undefined ? start + limit : bytes.length) - needle.length;
+
+  for (let offset = start; offset <= end; offset++) {
+    let matches = true;
+    for (let i = 0; i < needle.length; i++) {
+      if (bytes[offset + i] !== needle.charCodeAt(i)) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) return offset;
+  }
+
+  return -1;
+}
+
+/**
+ * Prefixes a label with "a" or "an"
+ * @param label - Noun phrase
+ * @returns Phrase with its indefinite article
+ */
+function withArticle(label: string): string {
+  return /^[aeiou]/i.test(label) ? `an ${label}` : `a ${label}`;
+}
+
 /**
  * Extracts file extension from filename
  * @param filename - Name of the file
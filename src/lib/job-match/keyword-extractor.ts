@@ -0,0 +1,262 @@
+// Job description keyword extraction: dictionary skills, repeated phrases and frequent terms
+import { SKILL_DICTIONARY, countSkillMentions, type SkillDefinition } from './skill-dictionary';
+
+export type JobKeywordKind = 'skill' | 'phrase' | 'keyword';
+export type JobKeywordImportance = 'required' | 'preferred';
+
+export interface JobKeyword {
+  term: string;
+  kind: JobKeywordKind;
+  importance: JobKeywordImportance;
+  frequency: number; // Mentions in the job description
+  weight: number; // Relative importance used for coverage
+  skill?: SkillDefinition; // Set for dictionary skills
+  stems?: string[]; // Stemmed words, set for phrases and keywords
+}
+
+// Keep the list focused; long tails of one-off words drown out the real requirements
+const MAX_KEYWORDS = 30;
+
+// Phrases and single words must repeat to count; dictionary skills count from one mention
+const MIN_TERM_FREQUENCY = 2;
+
+// Mentions beyond this add no extra weight
+const MAX_COUNTED_FREQUENCY = 3;
+
+const KIND_WEIGHTS: Record<JobKeywordKind, number> = {
+  skill: 3,
+  phrase: 2,
+  keyword: 1
+};
+
+const REQUIRED_MULTIPLIER = 1.5;
+
+// Headings that introduce required vs. nice-to-have qualifications
+const PREFERRED_HEADING_PATTERN = /\b(preferred|nice[- ]to[- ]haves?|bonus|desired|good[- ]to[- ]haves?|pluses|extra credit)\b/i;
+const REQUIRED_HEADING_PATTERN = /\b(requirements?|required|qualifications|must[- ]haves?|what you('ll| will)? (need|bring)|who you are|you have|responsibilities|what you('ll| will)? do|the role)\b/i;
+
+// Cues within a single line
+const PREFERRED_LINE_PATTERN = /\b(preferred|a plus|is a plus|nice to have|bonus|ideally|desirable|familiarity with)\b/i;
+const REQUIRED_LINE_PATTERN = /\b(required|must|minimum|mandatory|essential)\b/i;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'down', 'during', 'each', 'either', 'etc', 'every', 'few', 'for', 'from', 'further', 'had', 'has',
+  'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'itself', 'just', 'like', 'may', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'no', 'nor', 'not', 'of',
+  'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'per', 'same', 'shall',
+  'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'upon', 'us', 'very', 'via', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'within', 'without',
+  'would', 'you', 'your', 'yours', 'yourself'
+]);
+
+// Words every posting uses that say nothing about the role itself
+const GENERIC_JOB_WORDS = new Set([
+  'ability', 'able', 'apply', 'based', 'benefits', 'candidate', 'candidates', 'company', 'degree', 'demonstrated',
+  'desired', 'environment', 'equivalent', 'excellent', 'experience', 'experienced', 'familiar', 'familiarity', 'field',
+  'good', 'great', 'highly', 'ideal', 'ideally', 'including', 'join', 'job', 'knowledge', 'looking', 'minimum', 'new',
+  'opportunity', 'plus', 'position', 'preferred', 'proficiency', 'proficient', 'proven', 'qualifications', 'related',
+  'required', 'requirements', 'responsibilities', 'role', 'salary', 'skill', 'skills', 'strong', 'team', 'teams',
+  'understanding', 'using', 'well', 'work', 'working', 'year', 'years'
+]);
+
+interface TermCandidate {
+  words: string[];
+  stems: string[];
+  count: number;
+  required: boolean;
+}
+
+/**
+ * Extracts the skills, phrases and terms a job description asks for
+ * @param jobDescription - Job posting text
+ * @returns Keywords ordered by weight, most important first
+ */
+export function extractJobKeywords(jobDescription: string): JobKeyword[] {
+  const skills = new Map<SkillDefinition, { count: number; required: boolean }>();
+  const terms = new Map<string, TermCandidate>();
+  let headingImportance: JobKeywordImportance = 'required';
+
+  for (const rawLine of jobDescription.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (isJobHeading(line)) {
+      if (PREFERRED_HEADING_PATTERN.test(line)) headingImportance = 'preferred';
+      else if (REQUIRED_HEADING_PATTERN.test(line)) headingImportance = 'required';
+      continue;
+    }
+
+    const required = PREFERRED_LINE_PATTERN.test(line)
+      ? false
+      : REQUIRED_LINE_PATTERN.test(line) || headingImportance === 'required';
+
+    for (const skill of SKILL_DICTIONARY) {
+      const count = countSkillMentions(line, skill);
+      if (count === 0) continue;
+      const existing = skills.get(skill) ?? { count: 0, required: false };
+      skills.set(skill, { count: existing.count + count, required: existing.required || required });
+    }
+
+    for (const clause of splitClauses(line)) {
+      collectTerms(clause, required, terms);
+    }
+  }
+
+  const keywords: JobKeyword[] = [...skills].map(([skill, { count, required }]) =>
+    createKeyword(skill.name, 'skill', required, count, { skill })
+  );
+
+  // Phrases first, so single words already covered by a chosen phrase can be dropped
+  const candidates = [...terms.values()]
+    .filter(candidate => candidate.count >= MIN_TERM_FREQUENCY)
+    .filter(candidate => ![...skills.keys()].some(skill => countSkillMentions(candidate.words.join(' '), skill) > 0))
+    .sort((a, b) => b.words.length - a.words.length || b.count - a.count);
+
+  const chosenPhrases: TermCandidate[] = [];
+  for (const candidate of candidates) {
+    const coveredBy = chosenPhrases.find(phrase => containsSequence(phrase.stems, candidate.stems));
+    if (coveredBy && coveredBy.count >= candidate.count) continue;
+
+    if (candidate.words.length > 1) chosenPhrases.push(candidate);
+    keywords.push(createKeyword(
+      candidate.words.join(' '),
+      candidate.words.length > 1 ? 'phrase' : 'keyword',
+      candidate.required,
+      candidate.count,
+      { stems: candidate.stems }
+    ));
+  }
+
+  return keywords
+    .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term))
+    .slice(0, MAX_KEYWORDS);
+}
+
+/**
+ * Splits text into lowercase words, keeping technical spellings ("c++", "node.js", "ci/cd") whole
+ * @param text - Text to split
+ * @returns Words containing at least one letter
+ */
+export function tokenizeWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#]*(?:[.'/-][a-z0-9+#]+)*/g) ?? [])
+    .filter(word => /[a-z]/.test(word));
+}
+
+/**
+ * Reduces a word to a rough stem so "managed", "manages" and "managing" match
+ * @param word - Lowercase word
+ * @returns Stemmed word (short words are returned unchanged)
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 4 || !/^[a-z]+$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  return word.replace(/(?:ing|ed|es)$|([^s])s$/, '$1').replace(/e$/, '');
+}
+
+/**
+ * Counts occurrences of a stem sequence in a list of stems
+ * @param stems - Stemmed words of the text
+ * @param sequence - Stemmed words of the term
+ * @returns Number of occurrences
+ */
+export function countSequence(stems: string[], sequence: string[]): number {
+  let count = 0;
+  for (let index = 0; index + sequence.length <= stems.length; index++) {
+    if (sequence.every((stem, offset) => stems[index + offset] === stem)) count++;
+  }
+  return count;
+}
+
+/**
+ * Adds the single words, bigrams and trigrams of a clause to the candidate counts
+ * @param clause - Text without sentence punctuation
+ * @param required - Whether the clause states a requirement
+ * @param terms - Candidate counts keyed by stem sequence
+ */
+function collectTerms(clause: string, required: boolean, terms: Map<string, TermCandidate>): void {
+  // Stopwords and generic words end a run, so n-grams never straddle them
+  const runs: string[][] = [[]];
+  for (const word of tokenizeWords(clause)) {
+    if (STOPWORDS.has(word) || GENERIC_JOB_WORDS.has(word)) {
+      if (runs[runs.length - 1].length > 0) runs.push([]);
+    } else {
+      runs[runs.length - 1].push(word);
+    }
+  }
+
+  for (const run of runs) {
+    for (let size = 1; size <= 3; size++) {
+      for (let index = 0; index + size <= run.length; index++) {
+        const words = run.slice(index, index + size);
+        if (size === 1 && words[0].length < 4) continue;
+
+        const stems = words.map(stemWord);
+        const key = stems.join(' ');
+        const existing = terms.get(key);
+        if (existing) {
+          existing.count++;
+          existing.required = existing.required || required;
+        } else {
+          terms.set(key, { words, stems, count: 1, required });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Builds a weighted keyword
+ * @param term - Display text
+ * @param kind - Keyword kind
+ * @param required - Whether any mention was a requirement
+ * @param frequency - Mentions in the job description
+ * @param extra - Skill or stems for matching
+ * @returns Keyword
+ */
+function createKeyword(
+  term: string,
+  kind: JobKeywordKind,
+  required: boolean,
+  frequency: number,
+  extra: Pick<JobKeyword, 'skill' | 'stems'>
+): JobKeyword {
+  const weight = KIND_WEIGHTS[kind] * Math.min(frequency, MAX_COUNTED_FREQUENCY) * (required ? REQUIRED_MULTIPLIER : 1);
+  return { term, kind, importance: required ? 'required' : 'preferred', frequency, weight, ...extra };
+}
+
+/**
+ * Detects section headings in a job posting ("Requirements:", "Nice to have")
+ * @param line - Trimmed line
+ * @returns Boolean indicating a heading
+ */
+function isJobHeading(line: string): boolean {
+  if (line.length > 60 || /^[-*•\d]/.test(line)) return false;
+  const text = line.replace(/:$/, '');
+  if (/[.,;!?]/.test(text)) return false;
+  if (line.endsWith(':') || (text === text.toUpperCase() && /[A-Z]/.test(text))) return true;
+
+  // Short lines without punctuation are headings only when they name a section
+  return text.split(/\s+/).length <= 5 && (PREFERRED_HEADING_PATTERN.test(text) || REQUIRED_HEADING_PATTERN.test(text));
+}
+
+/**
+ * Splits a line at punctuation that separates ideas
+ * @param line - Line of text
+ * @returns Clauses
+ */
+function splitClauses(line: string): string[] {
+  return line.split(/[,;:!?()[\]{}"•|–—]|\.(?![a-z0-9])|\s-\s/i);
+}
+
+/**
+ * Checks whether one stem sequence contains another
+ * @param haystack - Longer sequence
+ * @param needle - Shorter sequence
+ * @returns Boolean indicating containment
+ */
+function containsSequence(haystack: string[], needle: string[]): boolean {
+  return haystack.length > needle.length && countSequence(haystack, needle) > 0;
+}
@@ -0,0 +1,196 @@
+// Job description matching: keyword coverage per resume section with placement suggestions
+import { countSkillMentions } from './skill-dictionary';
+import { countSequence, extractJobKeywords, stemWord, tokenizeWords, type JobKeyword } from './keyword-extractor';
+
+export type KeywordStatus = 'matched' | 'missing' | 'overused';
+
+export interface KeywordMatch {
+  keyword: JobKeyword;
+  status: KeywordStatus;
+  count: number; // Mentions in the resume
+  sections: string[]; // Resume sections mentioning the keyword, in resume order
+  suggestion?: string;
+}
+
+export interface SectionCoverage {
+  section: string;
+  matched: number; // Job keywords mentioned in the section
+  coverage: number; // Percentage of the job's keyword weight found in the section
+}
+
+export interface JobMatchResult {
+  coverage: number; // Percentage of the job's keyword weight found in the resume
+  requiredCoverage: number; // Same, for required keywords only
+  matched: KeywordMatch[];
+  missing: KeywordMatch[];
+  overused: KeywordMatch[];
+  sections: SectionCoverage[];
+}
+
+interface ResumeSection {
+  title: string;
+  text: string;
+  stems: string[];
+}
+
+// More mentions than this reads as keyword stuffing to recruiters and some ATS
+const OVERUSE_THRESHOLD = 5;
+
+// Name for the lines above the first section heading
+const HEADER_SECTION = 'Header';
+
+const SUMMARY_SECTION = 'Professional Summary';
+const EXPERIENCE_SECTION = 'Work Experience';
+const SKILLS_SECTION = 'Skills';
+
+/**
+ * Matches a job description against a resume
+ * @param jobDescription - Job posting text
+ * @param resumeText - Resume text
+ * @param headings - Section headings used in the resume text (e.g. the standardized titles)
+ * @returns Coverage, matched/missing/over-used keywords and per-section coverage
+ */
+export function matchJobDescription(jobDescription: string, resumeText: string, headings: string[]): JobMatchResult {
+  const keywords = extractJobKeywords(jobDescription);
+  const sections = splitResumeSections(resumeText, headings);
+  const sectionTitles = new Set(sections.map(section => section.title));
+
+  const matches = keywords.map(keyword => {
+    const counts = sections.map(section => countKeyword(section, keyword));
+    const count = counts.reduce((sum, sectionCount) => sum + sectionCount, 0);
+    const mentionedIn = sections.filter((_, index) => counts[index] > 0).map(section => section.title);
+    const status: KeywordStatus = count === 0 ? 'missing' : count > OVERUSE_THRESHOLD ? 'overused' : 'matched';
+
+    return {
+      keyword,
+      status,
+      count,
+      sections: mentionedIn,
+      suggestion: suggestPlacement(keyword, status, count, mentionedIn, sectionTitles)
+    };
+  });
+
+  const totalWeight = sumWeights(keywords);
+  const required = keywords.filter(keyword => keyword.importance === 'required');
+  const found = matches.filter(match => match.status !== 'missing');
+
+  return {
+    coverage: toPercentage(sumWeights(found.map(match => match.keyword)), totalWeight),
+    requiredCoverage: toPercentage(
+      sumWeights(found.filter(match => match.keyword.importance === 'required').map(match => match.keyword)),
+      sumWeights(required)
+    ),
+    matched: matches.filter(match => match.status === 'matched'),
+    missing: matches.filter(match => match.status === 'missing'),
+    overused: matches.filter(match => match.status === 'overused'),
+    sections: sections
+      .map(section => {
+        const inSection = found.filter(match => match.sections.includes(section.title)).map(match => match.keyword);
+        return {
+          section: section.title,
+          matched: inSection.length,
+          coverage: toPercentage(sumWeights(inSection), totalWeight)
+        };
+      })
+      .filter(section => section.matched > 0)
+  };
+}
+
+/**
+ * Splits resume text into sections at heading lines
+ * @param text - Resume text
+ * @param headings - Known section headings
+ * @returns Sections in document order, starting with the header
+ */
+function splitResumeSections(text: string, headings: string[]): ResumeSection[] {
+  const headingSet = new Set(headings.map(heading => heading.toLowerCase()));
+  const sections: { title: string; lines: string[] }[] = [{ title: HEADER_SECTION, lines: [] }];
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (headingSet.has(trimmed.toLowerCase())) {
+      sections.push({ title: trimmed, lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  // A heading can appear twice after merging; keep one section per title
+  const merged = new Map<string, string[]>();
+  for (const section of sections) {
+    merged.set(section.title, [...(merged.get(section.title) ?? []), ...section.lines]);
+  }
+
+  return [...merged].map(([title, lines]) => {
+    const sectionText = lines.join('\n');
+    return { title, text: sectionText, stems: tokenizeWords(sectionText).map(stemWord) };
+  });
+}
+
+/**
+ * Counts mentions of a keyword in a resume section
+ * @param section - Resume section
+ * @param keyword - Job keyword
+ * @returns Number of mentions
+ */
+function countKeyword(section: ResumeSection, keyword: JobKeyword): number {
+  if (keyword.skill) return countSkillMentions(section.text, keyword.skill);
+  return keyword.stems ? countSequence(section.stems, keyword.stems) : 0;
+}
+
+/**
+ * Suggests where a keyword belongs in the resume
+ * @param keyword - Job keyword
+ * @param status - Match status
+ * @param count - Mentions in the resume
+ * @param mentionedIn - Sections mentioning the keyword
+ * @param sectionTitles - Sections present in the resume
+ * @returns Suggestion, or undefined when the keyword is well placed
+ */
+function suggestPlacement(
+  keyword: JobKeyword,
+  status: KeywordStatus,
+  count: number,
+  mentionedIn: string[],
+  sectionTitles: Set<string>
+): string | undefined {
+  if (status === 'overused') {
+    return `Mentioned ${count} times. Trim repeats or vary the wording; keyword stuffing is flagged by recruiters and some ATS.`;
+  }
+
+  if (status === 'matched') {
+    // Skills listed without context carry less weight than skills shown in use
+    if (keyword.kind === 'skill' && mentionedIn.length === 1 && mentionedIn[0] === SKILLS_SECTION && sectionTitles.has(EXPERIENCE_SECTION)) {
+      return `Only listed in ${SKILLS_SECTION}. Back it up with a ${EXPERIENCE_SECTION} bullet showing how you used it.`;
+    }
+    return undefined;
+  }
+
+  if (keyword.kind === 'skill') {
+    return sectionTitles.has(SKILLS_SECTION)
+      ? `If you have this skill, add it to ${SKILLS_SECTION} and mention it in a ${EXPERIENCE_SECTION} bullet.`
+      : `If you have this skill, add a ${SKILLS_SECTION} section listing it and mention it in a ${EXPERIENCE_SECTION} bullet.`;
+  }
+
+  const target = sectionTitles.has(SUMMARY_SECTION) ? `your ${SUMMARY_SECTION} or a ${EXPERIENCE_SECTION} bullet` : `a ${EXPERIENCE_SECTION} bullet`;
+  return `If it reflects your background, work "${keyword.term}" into ${target}.`;
+}
+
+/**
+ * Sums keyword weights
+ * @param keywords - Keywords
+ * @returns Total weight
+ */
+function sumWeights(keywords: JobKeyword[]): number {
+  return keywords.reduce((sum, keyword) => sum + keyword.weight, 0);
+}
+
+/**
+ * Converts a weight ratio to a whole percentage
+ * @param part - Matched weight
+ * @param total - Total weight
+ * @returns Percentage (0 when there is nothing to match)
+ */
+function toPercentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 100) : 0;
+}
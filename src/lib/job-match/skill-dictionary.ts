@@ -0,0 +1,201 @@
+// Skill dictionary used to recognize skills in job descriptions and resumes
+
+export type SkillCategory =
+  | 'language'
+  | 'framework'
+  | 'database'
+  | 'cloud'
+  | 'tool'
+  | 'data'
+  | 'practice'
+  | 'business'
+  | 'soft';
+
+export interface SkillDefinition {
+  name: string; // Canonical display name
+  category: SkillCategory;
+  aliases: string[]; // Other spellings, matched case-insensitively
+  caseSensitiveAliases?: string[]; // Spellings that are ordinary words in lowercase ("Go", "React")
+  related?: string[]; // Terms that imply the skill without naming it ("Jest" for unit testing); never used as a rename
+}
+
+export const SKILL_DICTIONARY: SkillDefinition[] = [
+  // Programming languages
+  { name: 'JavaScript', category: 'language', aliases: ['javascript', 'js', 'ecmascript', 'es6'] },
+  { name: 'TypeScript', category: 'language', aliases: ['typescript'] },
+  { name: 'Python', category: 'language', aliases: ['python'] },
+  { name: 'Java', category: 'language', aliases: [], caseSensitiveAliases: ['Java', 'JAVA'] },
+  { name: 'C#', category: 'language', aliases: ['c#', 'c sharp'] },
+  { name: 'C++', category: 'language', aliases: ['c++', 'cpp'] },
+  { name: 'Go', category: 'language', aliases: ['golang'], caseSensitiveAliases: ['Go'] },
+  { name: 'Rust', category: 'language', aliases: [], caseSensitiveAliases: ['Rust'] },
+  { name: 'Ruby', category: 'language', aliases: [], caseSensitiveAliases: ['Ruby'] },
+  { name: 'PHP', category: 'language', aliases: ['php'] },
+  { name: 'Kotlin', category: 'language', aliases: ['kotlin'] },
+  { name: 'Swift', category: 'language', aliases: [], caseSensitiveAliases: ['Swift'] },
+  { name: 'Scala', category: 'language', aliases: ['scala'] },
+  { name: 'SQL', category: 'language', aliases: ['sql'] },
+  { name: 'HTML', category: 'language', aliases: ['html', 'html5'] },
+  { name: 'CSS', category: 'language', aliases: ['css', 'css3'] },
+  { name: 'Bash', category: 'language', aliases: ['bash', 'shell scripting'] },
+
+  // Frameworks and libraries
+  { name: 'React', category: 'framework', aliases: ['react.js', 'reactjs'], caseSensitiveAliases: ['React'] },
+  { name: 'Angular', category: 'framework', aliases: ['angularjs'], caseSensitiveAliases: ['Angular'] },
+  { name: 'Vue.js', category: 'framework', aliases: ['vue.js', 'vuejs'], caseSensitiveAliases: ['Vue'] },
+  { name: 'Next.js', category: 'framework', aliases: ['next.js', 'nextjs'] },
+  { name: 'Node.js', category: 'framework', aliases: ['node.js', 'nodejs'], caseSensitiveAliases: ['Node'] },
+  { name: 'Express', category: 'framework', aliases: ['express.js', 'expressjs'] },
+  { name: 'Django', category: 'framework', aliases: ['django'] },
+  { name: 'Flask', category: 'framework', aliases: ['flask'] },
+  { name: 'FastAPI', category: 'framework', aliases: ['fastapi'] },
+  { name: 'Spring Boot', category: 'framework', aliases: ['spring boot', 'spring framework'] },
+  { name: 'Ruby on Rails', category: 'framework', aliases: ['ruby on rails', 'rails'] },
+  { name: '.NET', category: 'framework', aliases: ['.net', 'dotnet', '.net core'], related: ['asp.net'] },
+  { name: 'GraphQL', category: 'framework', aliases: ['graphql'] },
+  { name: 'REST APIs', category: 'framework', aliases: ['rest api', 'rest apis', 'restful', 'restful apis'] },
+  { name: 'Tailwind CSS', category: 'framework', aliases: ['tailwind', 'tailwind css', 'tailwindcss'] },
+  { name: 'Redux', category: 'framework', aliases: ['redux'] },
+  { name: 'jQuery', category: 'framework', aliases: ['jquery'] },
+
+  // Databases
+  { name: 'PostgreSQL', category: 'database', aliases: ['postgresql', 'postgres'] },
+  { name: 'MySQL', category: 'database', aliases: ['mysql'] },
+  { name: 'MongoDB', category: 'database', aliases: ['mongodb', 'mongo'] },
+  { name: 'Redis', category: 'database', aliases: ['redis'] },
+  { name: 'Elasticsearch', category: 'database', aliases: ['elasticsearch', 'elastic search'] },
+  { name: 'DynamoDB', category: 'database', aliases: ['dynamodb'] },
+  { name: 'SQL Server', category: 'database', aliases: ['sql server', 'mssql'] },
+  { name: 'Oracle', category: 'database', aliases: ['oracle database'], caseSensitiveAliases: ['Oracle'] },
+  { name: 'NoSQL', category: 'database', aliases: ['nosql'] },
+
+  // Cloud and infrastructure
+  { name: 'AWS', category: 'cloud', aliases: ['aws', 'amazon web services'] },
+  { name: 'Azure', category: 'cloud', aliases: ['azure', 'microsoft azure'] },
+  { name: 'Google Cloud', category: 'cloud', aliases: ['google cloud', 'gcp', 'google cloud platform'] },
+  { name: 'Docker', category: 'cloud', aliases: ['docker'] },
+  { name: 'Kubernetes', category: 'cloud', aliases: ['kubernetes', 'k8s'] },
+  { name: 'Terraform', category: 'cloud', aliases: ['terraform'] },
+  { name: 'CI/CD', category: 'cloud', aliases: ['ci/cd', 'continuous integration', 'continuous delivery', 'continuous deployment'] },
+  { name: 'Linux', category: 'cloud', aliases: ['linux'], related: ['unix'] },
+  { name: 'Serverless', category: 'cloud', aliases: ['serverless'], related: ['aws lambda', 'lambda functions'] },
+  { name: 'Microservices', category: 'cloud', aliases: ['microservices', 'microservice architecture'] },
+
+  // Tools
+  { name: 'Git', category: 'tool', aliases: ['git'], related: ['github', 'gitlab', 'bitbucket'] },
+  { name: 'Jira', category: 'tool', aliases: ['jira'] },
+  { name: 'Confluence', category: 'tool', aliases: ['confluence'] },
+  { name: 'Jenkins', category: 'tool', aliases: ['jenkins'] },
+  { name: 'Figma', category: 'tool', aliases: ['figma'] },
+  { name: 'Salesforce', category: 'tool', aliases: ['salesforce', 'sfdc'] },
+  { name: 'SAP', category: 'tool', aliases: [], caseSensitiveAliases: ['SAP'] },
+  { name: 'Excel', category: 'tool', aliases: ['microsoft excel', 'ms excel'], caseSensitiveAliases: ['Excel'] },
+  { name: 'Tableau', category: 'tool', aliases: ['tableau'] },
+  { name: 'Power BI', category: 'tool', aliases: ['power bi', 'powerbi'] },
+  { name: 'Google Analytics', category: 'tool', aliases: ['google analytics'] },
+  { name: 'HubSpot', category: 'tool', aliases: ['hubspot'] },
+  { name: 'Adobe Creative Suite', category: 'tool', aliases: ['adobe creative suite', 'adobe creative cloud'], related: ['photoshop', 'illustrator', 'indesign'] },
+
+  // Data and machine learning
+  { name: 'Machine Learning', category: 'data', aliases: ['machine learning', 'ml'] },
+  { name: 'Deep Learning', category: 'data', aliases: ['deep learning'] },
+  { name: 'Natural Language Processing', category: 'data', aliases: ['natural language processing', 'nlp'] },
+  { name: 'Data Analysis', category: 'data', aliases: ['data analysis', 'data analytics'] },
+  { name: 'Data Visualization', category: 'data', aliases: ['data visualization', 'data visualisation'] },
+  { name: 'Statistics', category: 'data', aliases: ['statistics', 'statistical analysis'] },
+  { name: 'TensorFlow', category: 'data', aliases: ['tensorflow'] },
+  { name: 'PyTorch', category: 'data', aliases: ['pytorch'] },
+  { name: 'pandas', category: 'data', aliases: ['pandas'] },
+  { name: 'Spark', category: 'data', aliases: ['apache spark', 'pyspark'], caseSensitiveAliases: ['Spark'] },
+  { name: 'ETL', category: 'data', aliases: ['etl'], related: ['data pipelines', 'data pipeline'] },
+  { name: 'Snowflake', category: 'data', aliases: ['snowflake'] },
+  { name: 'A/B Testing', category: 'data', aliases: ['a/b testing', 'ab testing', 'split testing'] },
+
+  // Engineering practices
+  { name: 'Agile', category: 'practice', aliases: ['agile'] },
+  { name: 'Scrum', category: 'practice', aliases: ['scrum'] },
+  { name: 'Kanban', category: 'practice', aliases: ['kanban'] },
+  { name: 'Test-Driven Development', category: 'practice', aliases: ['test-driven development', 'test driven development', 'tdd'] },
+  { name: 'Unit Testing', category: 'practice', aliases: ['unit testing', 'unit tests'], related: ['jest', 'pytest', 'junit'] },
+  { name: 'DevOps', category: 'practice', aliases: ['devops'] },
+  { name: 'System Design', category: 'practice', aliases: ['system design'], related: ['distributed systems', 'software architecture'] },
+  { name: 'Code Review', category: 'practice', aliases: ['code review', 'code reviews'] },
+  { name: 'Accessibility', category: 'practice', aliases: ['accessibility', 'a11y'], related: ['wcag'] },
+  { name: 'Security', category: 'practice', aliases: ['application security', 'cybersecurity', 'information security'] },
+
+  // Business and domain skills
+  { name: 'Project Management', category: 'business', aliases: ['project management'], related: ['pmp'] },
+  { name: 'Product Management', category: 'business', aliases: ['product management'], related: ['product roadmap', 'roadmapping'] },
+  { name: 'Stakeholder Management', category: 'business', aliases: ['stakeholder management', 'stakeholder engagement'] },
+  { name: 'Budgeting', category: 'business', aliases: ['budgeting', 'budget management'], related: ['forecasting'] },
+  { name: 'Financial Analysis', category: 'business', aliases: ['financial analysis', 'financial modeling', 'financial modelling'] },
+  { name: 'Digital Marketing', category: 'business', aliases: ['digital marketing', 'online marketing'] },
+  { name: 'SEO', category: 'business', aliases: ['seo', 'search engine optimization'] },
+  { name: 'Content Strategy', category: 'business', aliases: ['content strategy'], related: ['content marketing'] },
+  { name: 'Customer Service', category: 'business', aliases: ['customer service', 'customer support'], related: ['customer success'] },
+  { name: 'Sales', category: 'business', aliases: ['sales'], related: ['business development', 'lead generation'] },
+  { name: 'CRM', category: 'business', aliases: ['crm', 'customer relationship management'] },
+  { name: 'Supply Chain', category: 'business', aliases: ['supply chain', 'supply chain management'], related: ['logistics', 'procurement'] },
+  { name: 'Recruiting', category: 'business', aliases: ['recruiting', 'recruitment', 'talent acquisition'] },
+  { name: 'UX Design', category: 'business', aliases: ['ux design', 'user experience', 'ui/ux'], related: ['ux research', 'user research'] },
+
+  // Soft skills
+  { name: 'Communication', category: 'soft', aliases: ['communication skills', 'written communication', 'verbal communication', 'communication'] },
+  { name: 'Leadership', category: 'soft', aliases: ['leadership', 'team leadership'] },
+  { name: 'Mentoring', category: 'soft', aliases: ['mentoring', 'mentorship'], related: ['coaching'] },
+  { name: 'Problem Solving', category: 'soft', aliases: ['problem solving', 'problem-solving'] },
+  { name: 'Collaboration', category: 'soft', aliases: ['collaboration'], related: ['teamwork', 'cross-functional'] },
+  { name: 'Time Management', category: 'soft', aliases: ['time management'], related: ['prioritization'] },
+  { name: 'Attention to Detail', category: 'soft', aliases: ['attention to detail', 'detail-oriented', 'detail oriented'] }
+];
+
+const skillPatterns = new Map<SkillDefinition, RegExp[]>();
+
+/**
+ * Counts how often a skill is mentioned, under any of its spellings
+ * @param text - Text to search (original casing)
+ * @param skill - Skill to look for
+ * @returns Number of mentions
+ */
+export function countSkillMentions(text: string, skill: SkillDefinition): number {
+  let patterns = skillPatterns.get(skill);
+  if (!patterns) {
+    patterns = [
+      ...[skill.name.toLowerCase(), ...skill.aliases, ...(skill.related ?? [])].map(alias => buildAliasPattern(alias, 'gi')),
+      ...(skill.caseSensitiveAliases ?? []).map(alias => buildAliasPattern(alias, 'g'))
+    ];
+    skillPatterns.set(skill, patterns);
+  }
+
+  // Spellings can overlap ("Node.js" and "Node"), so count distinct positions
+  const positions = new Set<number>();
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      positions.add(match.index ?? 0);
+    }
+  }
+  return positions.size;
+}
+
+/**
+ * Finds the dictionary skills mentioned in a text
+ * @param text - Text to search
+ * @returns Skills with their mention counts, most mentioned first
+ */
+export function findSkills(text: string): { skill: SkillDefinition; count: number }[] {
+  return SKILL_DICTIONARY
+    .map(skill => ({ skill, count: countSkillMentions(text, skill) }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Builds a whole-word pattern for a skill spelling (which may contain "+", "#", "." or "/")
+ * @param alias - Skill spelling
+ * @param flags - Regular expression flags
+ * @returns Pattern matching the spelling as a standalone term
+ */
+function buildAliasPattern(alias: string, flags: string): RegExp {
+  const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\w+#./-])${escaped}(?![\\w+#]|\\.\\w)`, flags);
+}
@@ -0,0 +1,127 @@
+// German resume locale
+import type { ResumeLocale } from './resume-locale';
+
+export const GERMAN_LOCALE: ResumeLocale = {
+  language: 'de',
+  name: 'Deutsch',
+  titles: {
+    PERSONAL_INFO: 'Kontaktdaten',
+    PROFESSIONAL_SUMMARY: 'Profil',
+    WORK_EXPERIENCE: 'Berufserfahrung',
+    EDUCATION: 'Ausbildung',
+    SKILLS: 'Kenntnisse',
+    CERTIFICATIONS: 'Zertifikate',
+    PROJECTS: 'Projekte',
+    LEADERSHIP: 'Führungserfahrung',
+    RESEARCH: 'Forschungserfahrung',
+    TEACHING: 'Lehrerfahrung',
+    CLINICAL: 'Klinische Erfahrung',
+    VOLUNTEER: 'Ehrenamtliches Engagement',
+    AWARDS: 'Auszeichnungen',
+    PUBLICATIONS: 'Publikationen',
+    LANGUAGES: 'Sprachen',
+    INTERESTS: 'Weitere Informationen'
+  },
+  dictionary: {
+    PERSONAL_INFO: ['kontaktdaten', 'kontakt', 'persönliche daten', 'persönliche angaben', 'kontaktinformationen'],
+    PROFESSIONAL_SUMMARY: ['profil', 'kurzprofil', 'zusammenfassung', 'über mich', 'berufliches profil', 'persönliches profil'],
+    WORK_EXPERIENCE: [
+      'berufserfahrung', 'beruflicher werdegang', 'berufliche erfahrung', 'berufspraxis', 'werdegang',
+      'praktische erfahrung', 'beschäftigungsverlauf', 'erfahrung'
+    ],
+    EDUCATION: ['ausbildung', 'bildungsweg', 'bildung', 'studium', 'schulbildung', 'akademischer werdegang', 'aus und weiterbildung'],
+    SKILLS: [
+      'kenntnisse', 'fähigkeiten', 'kompetenzen', 'fachkenntnisse', 'it kenntnisse', 'edv kenntnisse',
+      'fähigkeiten und kenntnisse', 'qualifikationen'
+    ],
+    CERTIFICATIONS: ['zertifikate', 'zertifizierungen', 'weiterbildungen', 'lizenzen'],
+    PROJECTS: ['projekte', 'projekterfahrung', 'ausgewählte projekte'],
+    LEADERSHIP: ['führungserfahrung', 'führung'],
+    RESEARCH: ['forschungserfahrung', 'forschung'],
+    TEACHING: ['lehrerfahrung', 'lehre', 'lehrtätigkeit'],
+    CLINICAL: ['klinische erfahrung', 'klinische praxis', 'famulaturen', 'praktisches jahr'],
+    VOLUNTEER: ['ehrenamtliches engagement', 'ehrenamt', 'soziales engagement', 'engagement'],
+    AWARDS: ['auszeichnungen', 'preise', 'ehrungen', 'erfolge'],
+    PUBLICATIONS: ['publikationen', 'veröffentlichungen'],
+    LANGUAGES: ['sprachen', 'sprachkenntnisse', 'fremdsprachen'],
+    INTERESTS: ['weitere informationen', 'interessen', 'hobbys', 'hobbies', 'sonstiges', 'freizeit']
+  },
+  markers: ['und', 'der', 'die', 'das', 'mit', 'für', 'von', 'bei', 'im', 'zur', 'zum', 'sowie', 'als', 'auf', 'ich'],
+  currentDateWords: ['heute', 'bis heute', 'aktuell', 'derzeit', 'jetzt', 'laufend', 'dato'],
+  jobTitles: [
+    'entwickler', 'ingenieur', 'leiter', 'berater', 'referent', 'sachbearbeiter', 'architekt', 'werkstudent',
+    'praktikant', 'geschäftsführer', 'kaufmann', 'kauffrau', 'techniker', 'projektmanager', 'produktmanager',
+    'teamleiter', 'mitarbeiter', 'assistent', 'wissenschaftler'
+  ],
+  skillGroups: {
+    languages: 'Programmiersprachen',
+    frameworks: 'Frameworks & Bibliotheken',
+    tools: 'Tools & Plattformen',
+    data: 'Daten & Machine Learning',
+    professional: 'Fachkompetenzen',
+    soft: 'Soziale Kompetenzen',
+    other: 'Weitere Kenntnisse'
+  },
+  contactLabels: {
+    email: 'E-Mail',
+    phone: 'Telefon',
+    location: 'Wohnort',
+    portfolio: 'Portfolio',
+    website: 'Website'
+  },
+  personalAttributes: {
+    age: 'Alter',
+    birth_date: 'Geburtsdatum',
+    marital_status: 'Familienstand',
+    dependents: 'Kinder',
+    nationality: 'Staatsangehörigkeit',
+    religion: 'Religion',
+    gender: 'Geschlecht',
+    photo: 'Foto',
+    national_id: 'Ausweis- oder Steuernummer'
+  },
+  messages: {
+    shortResume: 'Der Lebenslauf ist sehr kurz. Mehr Details verbessern die ATS-Bewertung.',
+    missingSection: title => `Wichtiger Abschnitt fehlt: ${title}`,
+    customSection: heading =>
+      `Unbekannte Abschnittsüberschrift unverändert übernommen: „${heading}“. Verwenden Sie eine Standardüberschrift oder legen Sie eine eigene Zuordnung an, damit ATS den Abschnitt einordnen können.`,
+    ocrLowConfidence: confidence =>
+      `Der Text wurde mit geringer Sicherheit (${confidence} %) aus einem gescannten PDF erkannt. Prüfen Sie Namen, Daten und Zahlen sorgfältig oder laden Sie eine textbasierte Version hoch.`,
+    ocrReview: confidence =>
+      `Der Text wurde aus einem gescannten PDF erkannt (Sicherheit ${confidence} %). Prüfen Sie den Inhalt auf Erkennungsfehler.`,
+    personalDetail: (attribute, text) =>
+      `Persönliche Angabe, die zu Benachteiligung führen kann (${attribute}): „${text}“. Viele Arbeitgeber raten davon ab; entfernen Sie sie, sofern die Stelle sie nicht verlangt.`,
+    customaryPersonalDetail: (attribute, text) =>
+      `Freiwillige persönliche Angabe (${attribute}): „${text}“. Lassen Sie sie bei Bewerbungen im Ausland oder bei anonymisierten Verfahren weg.`,
+    noName: 'Kein Name oben im Lebenslauf erkannt. Schreiben Sie Ihren vollständigen Namen in die erste Zeile.',
+    noEmail: 'Keine E-Mail-Adresse erkannt. Achten Sie darauf, Ihre Kontaktdaten anzugeben.',
+    noPhone: 'Keine Telefonnummer erkannt. Geben Sie eine an, damit Personalverantwortliche Sie erreichen können.',
+    noLocation: 'Kein Wohnort erkannt. Geben Sie Stadt und Land an; viele ATS filtern Bewerbungen nach Ort.',
+    noLinkedIn: 'Keine LinkedIn-Profil-URL erkannt. Die meisten Recruiter suchen danach.',
+    multipleEmails: emails =>
+      `Mehrere E-Mail-Adressen gefunden (${emails}). Behalten Sie eine, damit ATS die richtige Adresse speichern.`,
+    multiplePhones: phones =>
+      `Mehrere Telefonnummern gefunden (${phones}). Behalten Sie die Nummer, unter der Sie erreichbar sein möchten.`,
+    multipleProfiles: (network, urls) => `Mehrere ${network}-Profile gefunden (${urls}). Behalten Sie eines.`,
+    phoneWithoutCountryCode: phone =>
+      `Die Telefonnummer „${phone}“ hat keine Ländervorwahl. Ergänzen Sie eine (z. B. +49), damit sie international lesbar ist.`,
+    unreadableDates: (role, dates) =>
+      `Berufserfahrung: Die Daten von ${role} konnten nicht gelesen werden (${dates}). Verwenden Sie ein Format wie „01/2020 - heute“.`,
+    reversedDates: (role, end, start) =>
+      `Berufserfahrung: ${role} endet (${end}), bevor es beginnt (${start}). Prüfen Sie die Reihenfolge der Daten.`,
+    undatedRoles: roles =>
+      `Berufserfahrung: Keine Daten gefunden für ${roles}. ATS berechnen die Berufsjahre aus den Beschäftigungszeiträumen.`,
+    overlappingRoles: (role, roleDates, other, otherDates, duration) =>
+      `Berufserfahrung: ${role} (${roleDates}) und ${other} (${otherDates}) überschneiden sich für einen Zeitraum von ${duration}. Wenn Sie beide Stellen gleichzeitig hatten, machen Sie das deutlich.`,
+    employmentGap: (duration, role, ended, other, started) =>
+      `Berufserfahrung: Lücke von ${duration} zwischen ${role} (Ende ${ended}) und ${other} (Beginn ${started}). Erklären Sie sie gegebenenfalls kurz.`,
+    role: (title, company) => (company ? `„${title}“ bei ${company}` : `„${title}“`),
+    untitledRole: 'Stelle ohne Titel',
+    present: 'heute',
+    monthNames: ['Jan.', 'Feb.', 'März', 'Apr.', 'Mai', 'Juni', 'Juli', 'Aug.', 'Sept.', 'Okt.', 'Nov.', 'Dez.'],
+    duration: (years, months) => [
+      years > 0 ? `${years} ${years === 1 ? 'Jahr' : 'Jahren'}` : '',
+      months > 0 ? `${months} ${months === 1 ? 'Monat' : 'Monaten'}` : ''
+    ].filter(Boolean).join(' und ')
+  }
+};
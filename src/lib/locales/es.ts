@@ -0,0 +1,124 @@
+// Spanish resume locale
+import type { ResumeLocale } from './resume-locale';
+
+export const SPANISH_LOCALE: ResumeLocale = {
+  language: 'es',
+  name: 'Español',
+  titles: {
+    PERSONAL_INFO: 'Información de contacto',
+    PROFESSIONAL_SUMMARY: 'Perfil profesional',
+    WORK_EXPERIENCE: 'Experiencia laboral',
+    EDUCATION: 'Educación',
+    SKILLS: 'Habilidades',
+    CERTIFICATIONS: 'Certificaciones',
+    PROJECTS: 'Proyectos',
+    LEADERSHIP: 'Experiencia de liderazgo',
+    RESEARCH: 'Experiencia en investigación',
+    TEACHING: 'Experiencia docente',
+    CLINICAL: 'Experiencia clínica',
+    VOLUNTEER: 'Voluntariado',
+    AWARDS: 'Premios y reconocimientos',
+    PUBLICATIONS: 'Publicaciones',
+    LANGUAGES: 'Idiomas',
+    INTERESTS: 'Información adicional'
+  },
+  dictionary: {
+    PERSONAL_INFO: ['información de contacto', 'contacto', 'datos personales', 'datos de contacto'],
+    PROFESSIONAL_SUMMARY: [
+      'perfil profesional', 'perfil', 'resumen', 'resumen profesional', 'sobre mí', 'objetivo', 'objetivo profesional', 'extracto'
+    ],
+    WORK_EXPERIENCE: ['experiencia laboral', 'experiencia profesional', 'experiencia', 'trayectoria profesional', 'historial laboral'],
+    EDUCATION: ['educación', 'formación', 'formación académica', 'estudios', 'títulos'],
+    SKILLS: ['habilidades', 'competencias', 'aptitudes', 'conocimientos', 'habilidades técnicas', 'conocimientos técnicos'],
+    CERTIFICATIONS: ['certificaciones', 'certificados', 'licencias'],
+    PROJECTS: ['proyectos', 'proyectos destacados'],
+    LEADERSHIP: ['experiencia de liderazgo', 'liderazgo'],
+    RESEARCH: ['experiencia en investigación', 'investigación'],
+    TEACHING: ['experiencia docente', 'docencia', 'enseñanza'],
+    CLINICAL: ['experiencia clínica', 'rotaciones clínicas', 'prácticas clínicas'],
+    VOLUNTEER: ['voluntariado', 'experiencia de voluntariado', 'trabajo voluntario'],
+    AWARDS: ['premios y reconocimientos', 'premios', 'reconocimientos', 'logros', 'distinciones'],
+    PUBLICATIONS: ['publicaciones'],
+    LANGUAGES: ['idiomas', 'lenguas'],
+    INTERESTS: ['información adicional', 'intereses', 'aficiones', 'pasatiempos', 'otros datos', 'otros']
+  },
+  markers: ['y', 'el', 'los', 'las', 'del', 'con', 'una', 'por', 'como', 'al', 'mediante', 'yo'],
+  currentDateWords: ['actualidad', 'presente', 'actual', 'hoy', 'la fecha'],
+  jobTitles: [
+    'desarrollador', 'desarrolladora', 'ingeniero', 'ingeniera', 'jefe', 'jefa', 'gerente', 'director', 'directora',
+    'consultor', 'consultora', 'analista', 'responsable', 'becario', 'becaria', 'técnico', 'técnica', 'arquitecto',
+    'arquitecta', 'coordinador', 'coordinadora'
+  ],
+  skillGroups: {
+    languages: 'Lenguajes de programación',
+    frameworks: 'Frameworks y bibliotecas',
+    tools: 'Herramientas y plataformas',
+    data: 'Datos y aprendizaje automático',
+    professional: 'Competencias profesionales',
+    soft: 'Habilidades interpersonales',
+    other: 'Otras habilidades'
+  },
+  contactLabels: {
+    email: 'Correo electrónico',
+    phone: 'Teléfono',
+    location: 'Ubicación',
+    portfolio: 'Portafolio',
+    website: 'Sitio web'
+  },
+  personalAttributes: {
+    age: 'Edad',
+    birth_date: 'Fecha de nacimiento',
+    marital_status: 'Estado civil',
+    dependents: 'Hijos',
+    nationality: 'Nacionalidad',
+    religion: 'Religión',
+    gender: 'Sexo',
+    photo: 'Foto',
+    national_id: 'Número de identificación'
+  },
+  messages: {
+    shortResume: 'El currículum parece muy corto. Añade más detalles para mejorar la puntuación ATS.',
+    missingSection: title => `Falta una sección esencial: ${title}`,
+    customSection: heading =>
+      `Encabezado de sección no reconocido conservado tal cual: «${heading}». Usa un encabezado estándar o añade una correspondencia personalizada para que los ATS puedan clasificarlo.`,
+    ocrLowConfidence: confidence =>
+      `El texto se reconoció en un PDF escaneado con baja confianza (${confidence} %). Revisa con cuidado nombres, fechas y cifras, o sube una versión con texto.`,
+    ocrReview: confidence =>
+      `El texto se reconoció en un PDF escaneado (confianza ${confidence} %). Revisa el contenido por si hay errores de reconocimiento.`,
+    personalDetail: (attribute, text) =>
+      `Dato personal que puede dar lugar a sesgos (${attribute}): «${text}». Muchas empresas y regiones recomiendan omitirlo; elimínalo salvo que el puesto lo exija.`,
+    customaryPersonalDetail: (attribute, text) =>
+      `Dato personal opcional (${attribute}): «${text}». Omítelo en candidaturas al extranjero o en procesos de selección anónimos.`,
+    noName: 'No se ha detectado ningún nombre al principio del CV. Escribe tu nombre completo en la primera línea.',
+    noEmail: 'No se ha detectado ninguna dirección de correo electrónico. Asegúrate de incluir tus datos de contacto.',
+    noPhone: 'No se ha detectado ningún número de teléfono. Añade uno para que los reclutadores puedan contactarte.',
+    noLocation:
+      'No se ha detectado ninguna ubicación. Añade tu ciudad y país; muchos ATS filtran candidatos por ubicación.',
+    noLinkedIn: 'No se ha detectado la URL de un perfil de LinkedIn. La mayoría de los reclutadores la buscan.',
+    multipleEmails: emails =>
+      `Se han encontrado varias direcciones de correo (${emails}). Conserva una para que los ATS guarden la correcta.`,
+    multiplePhones: phones =>
+      `Se han encontrado varios números de teléfono (${phones}). Conserva aquel en el que quieras recibir llamadas.`,
+    multipleProfiles: (network, urls) => `Se han encontrado varios perfiles de ${network} (${urls}). Conserva uno.`,
+    phoneWithoutCountryCode: phone =>
+      `El número «${phone}» no tiene prefijo internacional. Añade uno (p. ej., +34) para que se pueda leer desde otros países.`,
+    unreadableDates: (role, dates) =>
+      `Experiencia laboral: no se pudieron leer las fechas de ${role} (${dates}). Usa un formato como «01/2020 - actualidad».`,
+    reversedDates: (role, end, start) =>
+      `Experiencia laboral: ${role} termina (${end}) antes de empezar (${start}). Revisa el orden de las fechas.`,
+    undatedRoles: roles =>
+      `Experiencia laboral: no se encontraron fechas para ${roles}. Los ATS usan las fechas de empleo para calcular los años de experiencia.`,
+    overlappingRoles: (role, roleDates, other, otherDates, duration) =>
+      `Experiencia laboral: ${role} (${roleDates}) y ${other} (${otherDates}) se solapan durante ${duration}. Si ocupaste ambos puestos a la vez, déjalo claro.`,
+    employmentGap: (duration, role, ended, other, started) =>
+      `Experiencia laboral: periodo de ${duration} sin empleo entre ${role} (finalizó ${ended}) y ${other} (empezó ${started}). Considera explicarlo brevemente.`,
+    role: (title, company) => (company ? `«${title}» en ${company}` : `«${title}»`),
+    untitledRole: 'Puesto sin título',
+    present: 'actualidad',
+    monthNames: ['ene.', 'feb.', 'mar.', 'abr.', 'may.', 'jun.', 'jul.', 'ago.', 'sept.', 'oct.', 'nov.', 'dic.'],
+    duration: (years, months) => [
+      years > 0 ? `${years} ${years === 1 ? 'año' : 'años'}` : '',
+      months > 0 ? `${months} ${months === 1 ? 'mes' : 'meses'}` : ''
+    ].filter(Boolean).join(' y ')
+  }
+};
@@ -0,0 +1,129 @@
+// French resume locale
+import type { ResumeLocale } from './resume-locale';
+
+export const FRENCH_LOCALE: ResumeLocale = {
+  language: 'fr',
+  name: 'Français',
+  titles: {
+    PERSONAL_INFO: 'Coordonnées',
+    PROFESSIONAL_SUMMARY: 'Profil professionnel',
+    WORK_EXPERIENCE: 'Expérience professionnelle',
+    EDUCATION: 'Formation',
+    SKILLS: 'Compétences',
+    CERTIFICATIONS: 'Certifications',
+    PROJECTS: 'Projets',
+    LEADERSHIP: 'Expérience en leadership',
+    RESEARCH: 'Expérience de recherche',
+    TEACHING: "Expérience d'enseignement",
+    CLINICAL: 'Expérience clinique',
+    VOLUNTEER: 'Bénévolat',
+    AWARDS: 'Prix et distinctions',
+    PUBLICATIONS: 'Publications',
+    LANGUAGES: 'Langues',
+    INTERESTS: 'Informations complémentaires'
+  },
+  dictionary: {
+    PERSONAL_INFO: ['coordonnées', 'contact', 'informations personnelles', 'état civil'],
+    PROFESSIONAL_SUMMARY: [
+      'profil professionnel', 'profil', 'résumé', 'synthèse', 'à propos', 'objectif', 'objectif professionnel'
+    ],
+    WORK_EXPERIENCE: [
+      'expérience professionnelle', 'expériences professionnelles', 'expérience', 'expériences',
+      'parcours professionnel', 'emplois'
+    ],
+    EDUCATION: ['formation', 'formations', 'études', 'diplômes', 'parcours académique', 'formation académique'],
+    SKILLS: [
+      'compétences', 'compétences techniques', 'compétences clés', 'compétences informatiques', 'savoir faire', 'aptitudes'
+    ],
+    CERTIFICATIONS: ['certifications', 'certificats', 'habilitations'],
+    PROJECTS: ['projets', 'projets personnels', 'réalisations'],
+    LEADERSHIP: ['expérience en leadership', 'leadership', 'activités extrascolaires'],
+    RESEARCH: ['expérience de recherche', 'recherche', 'travaux de recherche'],
+    TEACHING: ['expérience d enseignement', 'enseignement'],
+    CLINICAL: ['expérience clinique', 'stages cliniques', 'stages hospitaliers'],
+    VOLUNTEER: ['bénévolat', 'engagement associatif', 'vie associative', 'activités bénévoles'],
+    AWARDS: ['prix et distinctions', 'prix', 'distinctions', 'récompenses'],
+    PUBLICATIONS: ['publications'],
+    LANGUAGES: ['langues', 'langues étrangères', 'compétences linguistiques'],
+    INTERESTS: ['informations complémentaires', 'centres d intérêt', 'centres d intérêts', 'intérêts', 'loisirs', 'divers']
+  },
+  markers: ['et', 'le', 'les', 'des', 'du', 'au', 'aux', 'pour', 'avec', 'une', 'dans', 'sur', 'chez', 'je'],
+  currentDateWords: ['aujourd\'hui', 'aujourd’hui', 'présent', 'actuel', 'actuelle', 'en cours', 'ce jour'],
+  jobTitles: [
+    'développeur', 'développeuse', 'ingénieur', 'ingénieure', 'chef de projet', 'responsable', 'directeur',
+    'directrice', 'consultant', 'consultante', 'chargé', 'chargée', 'stagiaire', 'analyste', 'technicien',
+    'technicienne', 'architecte', 'alternant', 'alternante'
+  ],
+  skillGroups: {
+    languages: 'Langages de programmation',
+    frameworks: 'Frameworks et bibliothèques',
+    tools: 'Outils et plateformes',
+    data: 'Données et apprentissage automatique',
+    professional: 'Compétences professionnelles',
+    soft: 'Savoir-être',
+    other: 'Autres compétences'
+  },
+  contactLabels: {
+    email: 'E-mail',
+    phone: 'Téléphone',
+    location: 'Localisation',
+    portfolio: 'Portfolio',
+    website: 'Site web'
+  },
+  personalAttributes: {
+    age: 'Âge',
+    birth_date: 'Date de naissance',
+    marital_status: 'Situation familiale',
+    dependents: 'Enfants',
+    nationality: 'Nationalité',
+    religion: 'Religion',
+    gender: 'Sexe',
+    photo: 'Photo',
+    national_id: 'Numéro d’identification'
+  },
+  messages: {
+    shortResume: 'Le CV semble très court. Ajoutez plus de détails pour améliorer le score ATS.',
+    missingSection: title => `Section essentielle manquante : ${title}`,
+    customSection: heading =>
+      `Titre de section non reconnu conservé tel quel : « ${heading} ». Utilisez un titre standard ou ajoutez une correspondance personnalisée pour que les ATS puissent le classer.`,
+    ocrLowConfidence: confidence =>
+      `Le texte a été reconnu dans un PDF numérisé avec une faible confiance (${confidence} %). Vérifiez attentivement les noms, dates et chiffres, ou importez une version texte.`,
+    ocrReview: confidence =>
+      `Le texte a été reconnu dans un PDF numérisé (confiance ${confidence} %). Vérifiez le contenu pour corriger d'éventuelles erreurs de reconnaissance.`,
+    personalDetail: (attribute, text) =>
+      `Information personnelle pouvant entraîner une discrimination (${attribute}) : « ${text} ». De nombreux employeurs recommandent de l'omettre ; supprimez-la sauf si le poste l'exige.`,
+    customaryPersonalDetail: (attribute, text) =>
+      `Information personnelle facultative (${attribute}) : « ${text} ». Omettez-la pour les candidatures à l'étranger ou les recrutements anonymes.`,
+    noName: 'Aucun nom détecté en haut du CV. Indiquez votre nom complet sur la première ligne.',
+    noEmail: 'Aucune adresse e-mail détectée. Vérifiez que vos coordonnées figurent sur le CV.',
+    noPhone: 'Aucun numéro de téléphone détecté. Ajoutez-en un pour que les recruteurs puissent vous joindre.',
+    noLocation:
+      'Aucune localisation détectée. Indiquez votre ville et votre pays ; de nombreux ATS filtrent les candidats par lieu.',
+    noLinkedIn: 'Aucune URL de profil LinkedIn détectée. La plupart des recruteurs en recherchent une.',
+    multipleEmails: emails =>
+      `Plusieurs adresses e-mail trouvées (${emails}). Gardez-en une pour que les ATS enregistrent la bonne adresse.`,
+    multiplePhones: phones =>
+      `Plusieurs numéros de téléphone trouvés (${phones}). Gardez celui sur lequel vous souhaitez être appelé.`,
+    multipleProfiles: (network, urls) => `Plusieurs profils ${network} trouvés (${urls}). Gardez-en un.`,
+    phoneWithoutCountryCode: phone =>
+      `Le numéro « ${phone} » n'a pas d'indicatif pays. Ajoutez-en un (par ex. +33) pour qu'il soit lisible à l'international.`,
+    unreadableDates: (role, dates) =>
+      `Expérience professionnelle : impossible de lire les dates de ${role} (${dates}). Utilisez un format comme « 01/2020 - aujourd'hui ».`,
+    reversedDates: (role, end, start) =>
+      `Expérience professionnelle : ${role} se termine (${end}) avant de commencer (${start}). Vérifiez l'ordre des dates.`,
+    undatedRoles: roles =>
+      `Expérience professionnelle : aucune date trouvée pour ${roles}. Les ATS utilisent les dates d'emploi pour calculer les années d'expérience.`,
+    overlappingRoles: (role, roleDates, other, otherDates, duration) =>
+      `Expérience professionnelle : ${role} (${roleDates}) et ${other} (${otherDates}) se chevauchent de ${duration}. Si vous avez occupé les deux postes en même temps, précisez-le.`,
+    employmentGap: (duration, role, ended, other, started) =>
+      `Expérience professionnelle : interruption de ${duration} entre ${role} (fin ${ended}) et ${other} (début ${started}). Pensez à l'expliquer brièvement.`,
+    role: (title, company) => (company ? `« ${title} » chez ${company}` : `« ${title} »`),
+    untitledRole: 'Poste sans titre',
+    present: "aujourd'hui",
+    monthNames: ['janv.', 'févr.', 'mars', 'avr.', 'mai', 'juin', 'juil.', 'août', 'sept.', 'oct.', 'nov.', 'déc.'],
+    duration: (years, months) => [
+      years > 0 ? `${years} ${years === 1 ? 'an' : 'ans'}` : '',
+      months > 0 ? `${months} mois` : ''
+    ].filter(Boolean).join(' et ')
+  }
+};
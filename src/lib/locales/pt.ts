@@ -0,0 +1,127 @@
+// Portuguese resume locale
+import type { ResumeLocale } from './resume-locale';
+
+export const PORTUGUESE_LOCALE: ResumeLocale = {
+  language: 'pt',
+  name: 'Português',
+  titles: {
+    PERSONAL_INFO: 'Informações de contato',
+    PROFESSIONAL_SUMMARY: 'Resumo profissional',
+    WORK_EXPERIENCE: 'Experiência profissional',
+    EDUCATION: 'Formação acadêmica',
+    SKILLS: 'Competências',
+    CERTIFICATIONS: 'Certificações',
+    PROJECTS: 'Projetos',
+    LEADERSHIP: 'Experiência de liderança',
+    RESEARCH: 'Experiência em pesquisa',
+    TEACHING: 'Experiência docente',
+    CLINICAL: 'Experiência clínica',
+    VOLUNTEER: 'Voluntariado',
+    AWARDS: 'Prêmios e reconhecimentos',
+    PUBLICATIONS: 'Publicações',
+    LANGUAGES: 'Idiomas',
+    INTERESTS: 'Informações adicionais'
+  },
+  dictionary: {
+    PERSONAL_INFO: ['informações de contato', 'contato', 'contacto', 'contactos', 'dados pessoais', 'informações pessoais'],
+    PROFESSIONAL_SUMMARY: [
+      'resumo profissional', 'resumo', 'perfil', 'perfil profissional', 'objetivo', 'objetivo profissional', 'sobre mim'
+    ],
+    WORK_EXPERIENCE: [
+      'experiência profissional', 'experiência', 'experiências', 'experiência de trabalho', 'histórico profissional',
+      'trajetória profissional'
+    ],
+    EDUCATION: ['formação acadêmica', 'formação académica', 'formação', 'educação', 'escolaridade', 'habilitações literárias'],
+    SKILLS: ['competências', 'habilidades', 'conhecimentos', 'competências técnicas', 'qualificações'],
+    CERTIFICATIONS: ['certificações', 'certificados', 'cursos e certificações'],
+    PROJECTS: ['projetos', 'projectos'],
+    LEADERSHIP: ['experiência de liderança', 'liderança'],
+    RESEARCH: ['experiência em pesquisa', 'pesquisa', 'investigação'],
+    TEACHING: ['experiência docente', 'docência', 'ensino'],
+    CLINICAL: ['experiência clínica', 'estágios clínicos', 'rodízios clínicos'],
+    VOLUNTEER: ['voluntariado', 'trabalho voluntário'],
+    AWARDS: ['prêmios e reconhecimentos', 'prêmios', 'prémios', 'reconhecimentos', 'conquistas'],
+    PUBLICATIONS: ['publicações'],
+    LANGUAGES: ['idiomas', 'línguas'],
+    INTERESTS: ['informações adicionais', 'outras informações', 'interesses', 'hobbies']
+  },
+  markers: ['e', 'o', 'os', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'com', 'uma', 'pelo', 'pela', 'ao'],
+  currentDateWords: ['atual', 'atualmente', 'presente', 'hoje', 'o momento'],
+  jobTitles: [
+    'desenvolvedor', 'desenvolvedora', 'engenheiro', 'engenheira', 'gerente', 'diretor', 'diretora', 'consultor',
+    'consultora', 'analista', 'coordenador', 'coordenadora', 'estagiário', 'estagiária', 'técnico', 'técnica',
+    'arquiteto', 'arquiteta', 'supervisor', 'supervisora'
+  ],
+  skillGroups: {
+    languages: 'Linguagens de programação',
+    frameworks: 'Frameworks e bibliotecas',
+    tools: 'Ferramentas e plataformas',
+    data: 'Dados e aprendizado de máquina',
+    professional: 'Competências profissionais',
+    soft: 'Competências comportamentais',
+    other: 'Outras competências'
+  },
+  contactLabels: {
+    email: 'E-mail',
+    phone: 'Telefone',
+    location: 'Localização',
+    portfolio: 'Portfólio',
+    website: 'Site'
+  },
+  personalAttributes: {
+    age: 'Idade',
+    birth_date: 'Data de nascimento',
+    marital_status: 'Estado civil',
+    dependents: 'Filhos',
+    nationality: 'Nacionalidade',
+    religion: 'Religião',
+    gender: 'Gênero',
+    photo: 'Foto',
+    national_id: 'Número de identificação'
+  },
+  messages: {
+    shortResume: 'O currículo parece muito curto. Adicione mais detalhes para melhorar a pontuação ATS.',
+    missingSection: title => `Seção essencial ausente: ${title}`,
+    customSection: heading =>
+      `Título de seção não reconhecido mantido como está: "${heading}". Use um título padrão ou adicione um mapeamento personalizado para que os ATS possam classificá-lo.`,
+    ocrLowConfidence: confidence =>
+      `O texto foi reconhecido a partir de um PDF digitalizado com baixa confiança (${confidence}%). Revise com atenção nomes, datas e números, ou envie uma versão em texto.`,
+    ocrReview: confidence =>
+      `O texto foi reconhecido a partir de um PDF digitalizado (confiança ${confidence}%). Revise o conteúdo para corrigir erros de reconhecimento.`,
+    personalDetail: (attribute, text) =>
+      `Dado pessoal que pode gerar viés (${attribute}): "${text}". Muitos empregadores e regiões recomendam omiti-lo; remova-o, a menos que a vaga o exija.`,
+    customaryPersonalDetail: (attribute, text) =>
+      `Dado pessoal opcional (${attribute}): "${text}". Omita-o em candidaturas no exterior ou em processos seletivos anônimos.`,
+    noName: 'Nenhum nome detectado no topo do currículo. Coloque seu nome completo na primeira linha.',
+    noEmail: 'Nenhum endereço de e-mail detectado. Certifique-se de incluir seus dados de contato.',
+    noPhone: 'Nenhum número de telefone detectado. Adicione um para que os recrutadores possam entrar em contato.',
+    noLocation:
+      'Nenhuma localização detectada. Adicione sua cidade e país; muitos ATS filtram candidatos por localização.',
+    noLinkedIn: 'Nenhuma URL de perfil do LinkedIn detectada. A maioria dos recrutadores procura uma.',
+    multipleEmails: emails =>
+      `Vários endereços de e-mail encontrados (${emails}). Mantenha um para que o ATS armazene o endereço certo.`,
+    multiplePhones: phones =>
+      `Vários números de telefone encontrados (${phones}). Mantenha aquele em que deseja ser chamado.`,
+    multipleProfiles: (network, urls) => `Vários perfis do ${network} encontrados (${urls}). Mantenha um.`,
+    phoneWithoutCountryCode: phone =>
+      `O telefone "${phone}" não tem código do país. Adicione um (por exemplo, +55) para que possa ser lido internacionalmente.`,
+    unreadableDates: (role, dates) =>
+      `Experiência profissional: não foi possível ler as datas de ${role} (${dates}). Use um formato como "01/2020 - atual".`,
+    reversedDates: (role, end, start) =>
+      `Experiência profissional: ${role} termina (${end}) antes de começar (${start}). Verifique a ordem das datas.`,
+    undatedRoles: roles =>
+      `Experiência profissional: nenhuma data encontrada para ${roles}. Os ATS usam as datas de emprego para calcular os anos de experiência.`,
+    overlappingRoles: (role, roleDates, other, otherDates, duration) =>
+      `Experiência profissional: ${role} (${roleDates}) e ${other} (${otherDates}) se sobrepõem em ${duration}. Se você ocupou os dois cargos ao mesmo tempo, deixe isso claro.`,
+    employmentGap: (duration, role, ended, other, started) =>
+      `Experiência profissional: intervalo de ${duration} entre ${role} (terminou em ${ended}) e ${other} (começou em ${started}). Considere explicá-lo brevemente.`,
+    role: (title, company) => (company ? `"${title}" em ${company}` : `"${title}"`),
+    untitledRole: 'Cargo sem título',
+    present: 'atual',
+    monthNames: ['jan.', 'fev.', 'mar.', 'abr.', 'mai.', 'jun.', 'jul.', 'ago.', 'set.', 'out.', 'nov.', 'dez.'],
+    duration: (years, months) => [
+      years > 0 ? `${years} ${years === 1 ? 'ano' : 'anos'}` : '',
+      months > 0 ? `${months} ${months === 1 ? 'mês' : 'meses'}` : ''
+    ].filter(Boolean).join(' e ')
+  }
+};
@@ -0,0 +1,221 @@
+// Resume languages: detection, localized section titles, heading dictionaries and optimizer messages
+import {
+  STANDARD_SECTIONS,
+  DEFAULT_HEADING_DICTIONARY,
+  createHeadingMatcher,
+  normalizeHeading,
+  type SectionKey,
+  type HeadingDictionary,
+  type HeadingMapping,
+  type HeadingMatcher
+} from '../section-headings';
+import type { SkillGroupKey } from '../resume/skill-normalizer';
+import type { PersonalAttribute } from '../bias-detector';
+import type { ContactLabel } from '../resume/contact-info';
+import { GERMAN_LOCALE } from './de';
+import { FRENCH_LOCALE } from './fr';
+import { SPANISH_LOCALE } from './es';
+import { PORTUGUESE_LOCALE } from './pt';
+
+export type ResumeLanguage = 'en' | 'de' | 'fr' | 'es' | 'pt';
+
+// Warnings the optimizer writes in the resume's language
+export interface OptimizerMessages {
+  shortResume: string;
+  missingSection: (title: string) => string;
+  customSection: (heading: string) => string;
+  ocrLowConfidence: (confidence: number) => string;
+  ocrReview: (confidence: number) => string;
+  personalDetail: (attribute: string, text: string) => string;
+  customaryPersonalDetail: (attribute: string, text: string) => string; // For details expected in this language's CVs
+  noName: string;
+  noEmail: string;
+  noPhone: string;
+  noLocation: string;
+  noLinkedIn: string;
+  multipleEmails: (emails: string) => string;
+  multiplePhones: (phones: string) => string;
+  multipleProfiles: (network: string, urls: string) => string;
+  phoneWithoutCountryCode: (phone: string) => string;
+  unreadableDates: (role: string, dates: string) => string;
+  reversedDates: (role: string, end: string, start: string) => string;
+  undatedRoles: (roles: string) => string;
+  overlappingRoles: (role: string, roleDates: string, other: string, otherDates: string, duration: string) => string;
+  employmentGap: (duration: string, role: string, ended: string, other: string, started: string) => string;
+  role: (title: string, company?: string) => string; // How a role is named in timeline warnings
+  untitledRole: string;
+  present: string; // End date shown for current roles
+  monthNames: string[]; // Short month names, January first, for dates shown in warnings
+  duration: (years: number, months: number) => string;
+}
+
+export interface ResumeLocale {
+  language: ResumeLanguage;
+  name: string; // Language name in the language itself
+  titles: Record<SectionKey, string>; // Standard section titles written into the output
+  dictionary: HeadingDictionary; // Heading synonyms in normalized form
+  markers: string[]; // Common words that identify the language in running text
+  currentDateWords: string[]; // End dates of an ongoing role, as in "2019 - Present"
+  jobTitles: string[]; // Job title words beyond the English ones every resume is checked for; compounds ending in one count
+  skillGroups: Record<SkillGroupKey, string>; // Group labels in a normalized Skills section
+  contactLabels: Record<ContactLabel, string>; // Labels in the canonical contact block
+  personalAttributes: Record<PersonalAttribute, string>; // Names of bias-sensitive personal details
+  messages: OptimizerMessages;
+}
+
+const ENGLISH_LOCALE: ResumeLocale = {
+  language: 'en',
+  name: 'English',
+  titles: STANDARD_SECTIONS,
+  dictionary: DEFAULT_HEADING_DICTIONARY,
+  markers: ['the', 'and', 'with', 'for', 'of', 'to', 'in', 'on', 'at', 'by', 'from', 'as'],
+  currentDateWords: ['present', 'current', 'now', 'today', 'ongoing'],
+  jobTitles: [],
+  skillGroups: {
+    languages: 'Programming Languages',
+    frameworks: 'Frameworks & Libraries',
+    tools: 'Tools & Platforms',
+    data: 'Data & Machine Learning',
+    professional: 'Professional Skills',
+    soft: 'Soft Skills',
+    other: 'Other Skills'
+  },
+  contactLabels: {
+    email: 'Email',
+    phone: 'Phone',
+    location: 'Location',
+    portfolio: 'Portfolio',
+    website: 'Website'
+  },
+  personalAttributes: {
+    age: 'Age',
+    birth_date: 'Date of birth',
+    marital_status: 'Marital status',
+    dependents: 'Children',
+    nationality: 'Nationality',
+    religion: 'Religion',
+    gender: 'Gender',
+    photo: 'Photo',
+    national_id: 'National ID number'
+  },
+  messages: {
+    shortResume: 'Resume appears very short. Consider adding more detail to improve ATS scoring.',
+    missingSection: title => `Missing essential section: ${title}`,
+    customSection: heading =>
+      `Unrecognized section heading kept as written: "${heading}". Rename it to a standard heading or add a custom heading mapping so ATS can categorize it.`,
+    ocrLowConfidence: confidence =>
+      `Text was recognized from a scanned PDF with low confidence (${confidence}%). Carefully review names, dates and numbers, or upload a text-based version.`,
+    ocrReview: confidence =>
+      `Text was recognized from a scanned PDF (confidence ${confidence}%). Review the content for recognition errors.`,
+    personalDetail: (attribute, text) =>
+      `Personal detail that can invite bias (${attribute}): "${text}". Many employers and regions advise leaving it out; remove it unless the job requires it.`,
+    customaryPersonalDetail: (attribute, text) =>
+      `Optional personal detail (${attribute}): "${text}". Leave it out for applications abroad or to employers that review anonymously.`,
+    noName: 'No name detected at the top of the resume. Put your full name on the first line.',
+    noEmail: 'No email address detected. Ensure contact information is included.',
+    noPhone: 'No phone number detected. Add one so recruiters can reach you.',
+    noLocation: 'No location detected. Add your city and state or country; many ATS filter candidates by location.',
+    noLinkedIn: 'No LinkedIn profile URL detected. Most recruiters look for one.',
+    multipleEmails: emails => `Multiple email addresses found (${emails}). Keep one so ATS store the right address.`,
+    multiplePhones: phones => `Multiple phone numbers found (${phones}). Keep the one you want to be called on.`,
+    multipleProfiles: (network, urls) => `Multiple ${network} profiles found (${urls}). Keep one.`,
+    phoneWithoutCountryCode: phone =>
+      `Phone number "${phone}" has no country code. Add one (e.g. +44) so it can be read internationally.`,
+    unreadableDates: (role, dates) =>
+      `Work Experience: couldn't read the dates of ${role} (${dates}). Use a format like "Jan 2020 - Present".`,
+    reversedDates: (role, end, start) =>
+      `Work Experience: ${role} ends (${end}) before it starts (${start}). Check the order of the dates.`,
+    undatedRoles: roles =>
+      `Work Experience: no dates found for ${roles}. ATS use employment dates to calculate years of experience.`,
+    overlappingRoles: (role, roleDates, other, otherDates, duration) =>
+      `Work Experience: ${role} (${roleDates}) and ${other} (${otherDates}) overlap by ${duration}. If you held both roles at once, make that clear.`,
+    employmentGap: (duration, role, ended, other, started) =>
+      `Work Experience: ${duration} gap between ${role} (ended ${ended}) and ${other} (started ${started}). Consider explaining it briefly.`,
+    role: (title, company) => (company ? `"${title}" at ${company}` : `"${title}"`),
+    untitledRole: 'Untitled role',
+    present: 'Present',
+    monthNames: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+    duration: (years, months) => [
+      years > 0 ? `${years} year${years === 1 ? '' : 's'}` : '',
+      months > 0 ? `${months} month${months === 1 ? '' : 's'}` : ''
+    ].filter(Boolean).join(' ')
+  }
+};
+
+export const RESUME_LOCALES: Record<ResumeLanguage, ResumeLocale> = {
+  en: ENGLISH_LOCALE,
+  de: GERMAN_LOCALE,
+  fr: FRENCH_LOCALE,
+  es: SPANISH_LOCALE,
+  pt: PORTUGUESE_LOCALE
+};
+
+// A line that is exactly a localized heading counts as this many marker words
+const HEADING_EVIDENCE_WEIGHT = 5;
+
+// Below this much evidence the text is treated as English, the default
+const MIN_LANGUAGE_EVIDENCE = 5;
+
+/**
+ * Detects the language a resume is written in
+ * @param text - Resume text
+ * @returns Detected language, or 'en' when no other language stands out
+ */
+export function detectResumeLanguage(text: string): ResumeLanguage {
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const headings = new Set(
+    text.split('\n')
+      .map(line => line.trim())
+      .filter(line => line && line.length <= 50)
+      .map(normalizeHeading)
+  );
+
+  let best: ResumeLanguage = 'en';
+  let bestScore = MIN_LANGUAGE_EVIDENCE - 1;
+
+  for (const locale of Object.values(RESUME_LOCALES)) {
+    const markers = new Set(locale.markers);
+    const markerCount = words.filter(word => markers.has(word)).length;
+    const headingCount = Object.values(locale.dictionary).flat().filter(synonym => headings.has(synonym)).length;
+    const score = markerCount + headingCount * HEADING_EVIDENCE_WEIGHT;
+
+    // Ties go to the language listed first, so English wins by default
+    if (score > bestScore) {
+      best = locale.language;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Builds a heading matcher for a resume language
+ * @param language - Resume language
+ * @param customMappings - User's own heading mappings
+ * @returns Matcher that accepts localized and English headings and reports localized titles as exact
+ */
+export function createLocaleHeadingMatcher(language: ResumeLanguage, customMappings?: HeadingMapping[]): HeadingMatcher {
+  const locale = RESUME_LOCALES[language];
+
+  return createHeadingMatcher({
+    // Resumes in other languages often keep some English headings ("Skills", "Projects")
+    dictionary: language === 'en' ? locale.dictionary : mergeDictionaries(locale.dictionary, DEFAULT_HEADING_DICTIONARY),
+    titles: locale.titles,
+    customMappings
+  });
+}
+
+/**
+ * Combines two heading dictionaries
+ * @param primary - Dictionary whose synonyms are checked first
+ * @param secondary - Dictionary adding further synonyms
+ * @returns Dictionary with the synonyms of both per section
+ */
+function mergeDictionaries(primary: HeadingDictionary, secondary: HeadingDictionary): HeadingDictionary {
+  const merged = { ...primary };
+  (Object.keys(secondary) as SectionKey[]).forEach(section => {
+    merged[section] = [...primary[section], ...secondary[section]];
+  });
+  return merged;
+}
@@ -1,27 +1,44 @@
 // Universal document parser that routes to appropriate parsing engine
-import { validateFile } from '@/lib/file-validation';
+import { validateFile, validateFileContent, createUploadError, UPLOAD_ERROR_CODES } from '@/lib/file-validation';
 import { parsePDF, validatePDFContent } from './pdf-parser';
 import { parseDOCX, validateDOCXContent, parseEnhancedDOCX } from './docx-parser';
-import type { UploadedFile } from '@/types/file-upload';
-import type { ParsedDocument } from './pdf-parser';
+import { parseRTF } from './rtf-parser';
+import { parseODT } from './odt-parser';
+import { parsePlainText } from './text-parser';
+import { parseJSONResume } from './json-resume-parser';
+import type { SupportedFileType, UploadedFile, UploadError } from '@/types/file-upload';
+import type { ParsedDocument, ParseOptions } from './pdf-parser';
 
-export type { ParsedDocument };
+export type { ParsedDocument, ParseOptions };
+
+const MIN_WORD_COUNT = 50;
+
+// Display names used in content errors
+const FORMAT_LABELS: Record<Exclude<SupportedFileType, 'pdf' | 'docx'>, string> = {
+  doc: 'Word document',
+  rtf: 'RTF',
+  odt: 'ODT',
+  txt: 'Text file',
+  md: 'Markdown file',
+  json: 'JSON Resume'
+};
 
 /**
  * Main parsing function that routes to appropriate parser based on file type
  * @param uploadedFile - File to parse
+ * @param options - Optional parser settings (e.g. OCR for image-only PDFs)
  * @returns Promise resolving to ParsedDocument
  */
-export async function parseDocument(uploadedFile: UploadedFile): Promise<ParsedDocument> {
+export async function parseDocument(uploadedFile: UploadedFile, options: ParseOptions = {}): Promise<ParsedDocument> {
   // Validate file first
-  const fileType = validateFile(uploadedFile.file);
+  const fileType = resolveFileType(uploadedFile);
   
   let parsedDocument: ParsedDocument;
   
   // Route to appropriate parser
   switch (fileType) {
     case 'pdf':
-      parsedDocument = await parsePDF(uploadedFile);
+      parsedDocument = await parsePDF(uploadedFile, options);
       
       if (!validatePDFContent(parsedDocument)) {
         throw new Error(`PDF contains insufficient content (${parsedDocument.metadata.wordCount} words). Please ensure your resume has at least 50 words.`);
@@ -37,7 +54,7 @@ export async function parseDocument(uploadedFile: UploadedFile): Promise<ParsedD
       break;
       
     default:
-      throw new Error(`Unsupported file type: ${fileType}`);
+      parsedDocument = await parseOtherFormat(uploadedFile, fileType);
   }
   
   return parsedDocument;
@@ -46,14 +63,18 @@ export async function parseDocument(uploadedFile: UploadedFile): Promise<ParsedD
 /**
  * Enhanced parsing with additional structure extraction for DOCX files
  * @param uploadedFile - File to parse
+ * @param options - Optional parser settings (e.g. OCR for image-only PDFs)
  * @returns Promise resolving to ParsedDocument with optional HTML content
  */
-export async function parseDocumentEnhanced(uploadedFile: UploadedFile): Promise<ParsedDocument & { htmlContent?: string }> {
-  const fileType = validateFile(uploadedFile.file);
+export async function parseDocumentEnhanced(
+  uploadedFile: UploadedFile,
+  options: ParseOptions = {}
+): Promise<ParsedDocument & { htmlContent?: string }> {
+  const fileType = resolveFileType(uploadedFile);
   
   switch (fileType) {
     case 'pdf':
-      return await parsePDF(uploadedFile);
+      return await parsePDF(uploadedFile, options);
       
     case 'docx':
       const enhanced = await parseEnhancedDOCX(uploadedFile);
@@ -65,17 +86,82 @@ export async function parseDocumentEnhanced(uploadedFile: UploadedFile): Promise
       return enhanced;
       
     default:
-      throw new Error(`Unsupported file type: ${fileType}`);
+      return await parseOtherFormat(uploadedFile, fileType);
   }
 }
 
+/**
+ * Validates the file and its contents, returning the type to parse it as
+ * @param uploadedFile - File to check
+ * @returns File type confirmed by the content signature
+ */
+function resolveFileType(uploadedFile: UploadedFile): SupportedFileType {
+  const declaredType = validateFile(uploadedFile.file);
+  
+  // Signature checks run on the raw bytes, before any parsing library is loaded
+  return uploadedFile.buffer
+    ? validateFileContent(uploadedFile.buffer, declaredType, uploadedFile.metadata.name)
+    : declaredType;
+}
+
+/**
+ * Parses the formats beyond PDF and DOCX (legacy Word, RTF, ODT, plain text, Markdown, JSON Resume)
+ * @param uploadedFile - File to parse
+ * @param fileType - Detected file type
+ * @returns Promise resolving to ParsedDocument
+ */
+async function parseOtherFormat(
+  uploadedFile: UploadedFile,
+  fileType: Exclude<SupportedFileType, 'pdf' | 'docx'>
+): Promise<ParsedDocument> {
+  let parsedDocument: ParsedDocument;
+  
+  switch (fileType) {
+    case 'doc':
+      throw createLegacyWordError(uploadedFile);
+    case 'rtf':
+      parsedDocument = await parseRTF(uploadedFile);
+      break;
+    case 'odt':
+      parsedDocument = await parseODT(uploadedFile);
+      break;
+    case 'txt':
+    case 'md':
+      parsedDocument = await parsePlainText(uploadedFile, fileType);
+      break;
+    case 'json':
+      parsedDocument = await parseJSONResume(uploadedFile);
+      break;
+  }
+  
+  if (parsedDocument.metadata.wordCount < MIN_WORD_COUNT) {
+    throw new Error(`${FORMAT_LABELS[fileType]} contains insufficient content (${parsedDocument.metadata.wordCount} words). Please ensure your resume has at least ${MIN_WORD_COUNT} words.`);
+  }
+  
+  return parsedDocument;
+}
+
+/**
+ * Builds the error for binary Word 97-2003 files, which cannot be read in the browser
+ * (.doc uploads that really contain RTF or DOCX are routed by content before this)
+ * @param uploadedFile - File being parsed
+ * @returns UploadError with a dedicated legacy format code
+ */
+function createLegacyWordError(uploadedFile: UploadedFile): UploadError {
+  return createUploadError(
+    UPLOAD_ERROR_CODES.LEGACY_DOC_UNSUPPORTED,
+    'Legacy Word (.doc) files can\'t be read in your browser. Open the file in Word, Google Docs or LibreOffice, save it as .docx or PDF, and upload it again.',
+    uploadedFile.metadata.name
+  );
+}
+
 /**
  * Quick document analysis without full parsing (for preview/validation)
  * @param uploadedFile - File to analyze
  * @returns Basic document information
  */
 export async function analyzeDocument(uploadedFile: UploadedFile): Promise<{
-  fileType: 'pdf' | 'docx';
+  fileType: SupportedFileType;
   estimatedWords: number;
   canProcess: boolean;
   issues: string[];
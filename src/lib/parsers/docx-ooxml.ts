@@ -0,0 +1,819 @@
+// OOXML package reader for DOCX files: paragraphs, styles, numbering, tables, text boxes and headers/footers
+import { loadLibrary } from '@/lib/performance/lazy-loader';
+import type JSZip from 'jszip';
+import {
+  parseXML,
+  findChild,
+  findChildren,
+  findDescendants,
+  getTextContent,
+  type XmlElement
+} from './xml-utils';
+
+export type DocxParagraphSource = 'body' | 'table' | 'textbox' | 'header' | 'footer';
+
+export interface DocxParagraph {
+  text: string;
+  styleId?: string;
+  styleName?: string;
+  headingLevel?: number;
+  list?: {
+    numId: string;
+    level: number;
+    ordered: boolean;
+    label: string;
+  };
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  source: DocxParagraphSource;
+  table?: {
+    id: number;
+    row: number;
+    cell: number;
+  };
+}
+
+export interface DocxPackage {
+  paragraphs: DocxParagraph[];
+  structure: {
+    tables: number;
+    textBoxes: number;
+    headerFooterParagraphs: number;
+  };
+  properties: {
+    title?: string;
+    author?: string;
+    created?: Date;
+    modified?: Date;
+    pages?: number;
+  };
+}
+
+interface RunProperties {
+  bold?: boolean;
+  italic?: boolean;
+  fontSize?: number;
+}
+
+interface DocxStyle extends RunProperties {
+  id: string;
+  name?: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  numbering?: { numId: string; level: number };
+}
+
+interface NumberingLevel {
+  format: string;
+  text: string;
+  start: number;
+}
+
+interface DocxContext {
+  styles: Map<string, DocxStyle>;
+  defaultStyleId?: string;
+  defaultRun: Required<RunProperties>;
+  numbering: Map<string, Map<number, NumberingLevel>>;
+  listCounters: Map<string, number[]>;
+  tableCount: number;
+  textBoxCount: number;
+}
+
+type TableCellPosition = NonNullable<DocxParagraph['table']>;
+
+interface RunText {
+  text: string;
+  properties: Required<RunProperties>;
+}
+
+const DOCX_DEFAULT_FONT_SIZE = 10; // Word's built-in default when docDefaults omit w:sz
+const MAX_STYLE_DEPTH = 16; // Guards against cyclic w:basedOn chains
+const STYLE_EMPHASIS_SHARE = 0.6; // Share of characters that must be bold/italic to style the paragraph
+
+// Header/footer lines that only carry a page number field (the cached result may be missing)
+const PAGE_NUMBER_LINE = /^page(\s*\d*(\s*(of|\/)\s*\d*)?)?$|^\d+(\s*(of|\/)\s*\d+)?$/i;
+
+// Wrapper elements whose children are read as if they were inline in the paragraph
+const INLINE_CONTAINERS = new Set([
+  'w:hyperlink', 'w:ins', 'w:moveTo', 'w:smartTag', 'w:customXml', 'w:fldSimple', 'w:sdtContent', 'w:dir', 'w:bdo'
+]);
+
+/**
+ * Reads a DOCX package and returns its paragraphs in reading order
+ * @param buffer - DOCX file contents
+ * @returns Structured paragraphs and document properties
+ */
+export async function readDocxPackage(buffer: ArrayBuffer): Promise<DocxPackage> {
+  const zipLibrary = await loadLibrary.jszip() as typeof JSZip;
+  const zip = await zipLibrary.loadAsync(buffer);
+
+  const documentXml = await readPart(zip, 'word/document.xml');
+  if (!documentXml) {
+    throw new Error('Missing word/document.xml part');
+  }
+
+  const [stylesXml, numberingXml, relationshipsXml, appXml, coreXml] = await Promise.all([
+    readPart(zip, 'word/styles.xml'),
+    readPart(zip, 'word/numbering.xml'),
+    readPart(zip, 'word/_rels/document.xml.rels'),
+    readPart(zip, 'docProps/app.xml'),
+    readPart(zip, 'docProps/core.xml')
+  ]);
+
+  const context: DocxContext = {
+    ...parseStyles(stylesXml),
+    numbering: parseNumbering(numberingXml),
+    listCounters: new Map(),
+    tableCount: 0,
+    textBoxCount: 0
+  };
+
+  const body = findChild(findChild(parseXML(documentXml), 'w:document'), 'w:body');
+  const paragraphs: DocxParagraph[] = [];
+  if (body) {
+    readBlockContent(body, 'body', context, paragraphs);
+  }
+
+  // Header content (often the name and contact line) leads; footer content trails
+  const partTargets = parseHeaderFooterTargets(body, relationshipsXml);
+  const bodyTexts = new Set(paragraphs.map(paragraph => normalizeParagraphKey(paragraph.text)));
+  const [headerParagraphs, footerParagraphs] = await Promise.all(
+    (['header', 'footer'] as const).map(async source => {
+      const parts = await Promise.all(partTargets[source].map(path => readPart(zip, path)));
+      return readHeaderFooterParts(parts, source, context, bodyTexts);
+    })
+  );
+
+  return {
+    paragraphs: [...headerParagraphs, ...paragraphs, ...footerParagraphs],
+    structure: {
+      tables: context.tableCount,
+      textBoxes: context.textBoxCount,
+      headerFooterParagraphs: headerParagraphs.length + footerParagraphs.length
+    },
+    properties: parseProperties(appXml, coreXml)
+  };
+}
+
+/**
+ * Reads a package part as text
+ * @param zip - Loaded package
+ * @param path - Part path inside the package
+ * @returns Part contents, or null when the part is absent
+ */
+async function readPart(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async('string') : null;
+}
+
+/**
+ * Resolves the header and footer parts referenced by the document's sections
+ * @param body - w:body element
+ * @param relationshipsXml - word/_rels/document.xml.rels contents
+ * @returns Package paths of header and footer parts in reference order
+ */
+function parseHeaderFooterTargets(
+  body: XmlElement | undefined,
+  relationshipsXml: string | null
+): Record<'header' | 'footer', string[]> {
+  const targets: Record<'header' | 'footer', string[]> = { header: [], footer: [] };
+  if (!body || !relationshipsXml) return targets;
+
+  const relationships = new Map<string, string>();
+  const root = findChild(parseXML(relationshipsXml), 'Relationships');
+  for (const relationship of root ? findChildren(root, 'Relationship') : []) {
+    const target = relationship.attributes['Target'];
+    if (!relationship.attributes['Id'] || !target) continue;
+    relationships.set(
+      relationship.attributes['Id'],
+      target.startsWith('/') ? target.slice(1) : `word/${target}`
+    );
+  }
+
+  for (const source of ['header', 'footer'] as const) {
+    for (const reference of findDescendants(body, `w:${source}Reference`)) {
+      const path = relationships.get(reference.attributes['r:id']);
+      if (path && !targets[source].includes(path)) {
+        targets[source].push(path);
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Reads header or footer parts, dropping page numbers and repeats of body text
+ * @param parts - Part contents in reference order
+ * @param source - Whether the parts are headers or footers
+ * @param context - Resolved styles and numbering
+ * @param seenTexts - Normalized texts already emitted (updated in place)
+ * @returns Unique header/footer paragraphs
+ */
+function readHeaderFooterParts(
+  parts: (string | null)[],
+  source: 'header' | 'footer',
+  context: DocxContext,
+  seenTexts: Set<string>
+): DocxParagraph[] {
+  const paragraphs: DocxParagraph[] = [];
+
+  for (const xml of parts) {
+    if (!xml) continue;
+
+    const root = findChild(parseXML(xml), source === 'header' ? 'w:hdr' : 'w:ftr');
+    if (!root) continue;
+
+    const partParagraphs: DocxParagraph[] = [];
+    readBlockContent(root, source, context, partParagraphs);
+
+    // First-page, even and default variants usually repeat the same lines
+    for (const paragraph of partParagraphs) {
+      const key = normalizeParagraphKey(paragraph.text);
+      if (PAGE_NUMBER_LINE.test(key) || seenTexts.has(key)) continue;
+      seenTexts.add(key);
+      paragraphs.push({ ...paragraph, source });
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Normalizes paragraph text for duplicate detection
+ * @param text - Paragraph text
+ * @returns Comparison key
+ */
+function normalizeParagraphKey(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Walks block-level content (body, table cell, text box, content control) in document order
+ * @param container - Element holding paragraphs and tables
+ * @param source - Where the content lives in the document
+ * @param context - Resolved styles and numbering
+ * @param paragraphs - Output list
+ * @param tableCell - Table position when the container is a table cell
+ */
+function readBlockContent(
+  container: XmlElement,
+  source: DocxParagraphSource,
+  context: DocxContext,
+  paragraphs: DocxParagraph[],
+  tableCell?: TableCellPosition
+): void {
+  for (const child of container.children) {
+    if (typeof child === 'string') continue;
+
+    switch (child.name) {
+      case 'w:p': {
+        const paragraph = readParagraph(child, source, context);
+        if (paragraph) {
+          paragraphs.push(tableCell ? { ...paragraph, table: tableCell } : paragraph);
+        }
+
+        // Text boxes are anchored inside a paragraph; their content follows the anchor
+        for (const textBox of findTextBoxContent(child)) {
+          const before = paragraphs.length;
+          readBlockContent(textBox, 'textbox', context, paragraphs);
+          if (paragraphs.length > before) context.textBoxCount++;
+        }
+        break;
+      }
+      case 'w:tbl':
+        readTable(child, source, context, paragraphs);
+        break;
+      case 'w:sdt':
+      case 'w:customXml': {
+        const content = child.name === 'w:sdt' ? findChild(child, 'w:sdtContent') : child;
+        if (content) readBlockContent(content, source, context, paragraphs, tableCell);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Reads a table cell by cell in row-major order
+ * @param table - w:tbl element
+ * @param source - Where the table lives (tables inside headers stay header content)
+ * @param context - Resolved styles and numbering
+ * @param paragraphs - Output list
+ */
+function readTable(
+  table: XmlElement,
+  source: DocxParagraphSource,
+  context: DocxContext,
+  paragraphs: DocxParagraph[]
+): void {
+  const id = ++context.tableCount;
+  const before = paragraphs.length;
+  const cellSource = source === 'body' ? 'table' : source;
+
+  findChildren(table, 'w:tr').forEach((row, rowIndex) => {
+    findChildren(row, 'w:tc').forEach((cell, cellIndex) => {
+      readBlockContent(cell, cellSource, context, paragraphs, { id, row: rowIndex, cell: cellIndex });
+    });
+  });
+
+  // Layout tables without text don't count as linearized content
+  if (paragraphs.length === before) context.tableCount--;
+}
+
+/**
+ * Finds text box contents anchored in a paragraph (DrawingML and legacy VML)
+ * @param element - Paragraph or nested element
+ * @returns w:txbxContent elements in document order
+ */
+function findTextBoxContent(element: XmlElement): XmlElement[] {
+  const matches: XmlElement[] = [];
+
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+
+    if (child.name === 'w:txbxContent') {
+      // Nested text boxes are read when this one is walked
+      matches.push(child);
+    } else if (child.name === 'mc:AlternateContent') {
+      // Choice and Fallback hold the same text box twice; read only one of them
+      const choice = findChild(child, 'mc:Choice');
+      const choiceMatches = choice ? findTextBoxContent(choice) : [];
+      const fallback = findChild(child, 'mc:Fallback');
+      matches.push(...(choiceMatches.length > 0 || !fallback ? choiceMatches : findTextBoxContent(fallback)));
+    } else if (child.name !== 'w:pPr' && child.name !== 'w:rPr') {
+      matches.push(...findTextBoxContent(child));
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Converts a w:p element into a structured paragraph
+ * @param element - Paragraph element
+ * @param source - Where the paragraph lives in the document
+ * @param context - Resolved styles and numbering
+ * @returns Paragraph, or null when it carries no text
+ */
+function readParagraph(
+  element: XmlElement,
+  source: DocxParagraphSource,
+  context: DocxContext
+): DocxParagraph | null {
+  const paragraphProperties = findChild(element, 'w:pPr');
+  const styleId = findChild(paragraphProperties, 'w:pStyle')?.attributes['w:val'] ?? context.defaultStyleId;
+  const styleChain = resolveStyleChain(styleId, context.styles);
+
+  // Paragraph-style run properties apply to every run unless overridden
+  const paragraphRun: Required<RunProperties> = { ...context.defaultRun };
+  for (const style of [...styleChain].reverse()) {
+    applyRunProperties(paragraphRun, style);
+  }
+
+  const runs: RunText[] = [];
+  collectRuns(element, paragraphRun, context, runs);
+
+  const text = runs.map(run => run.text).join('').replace(/[ \t]+$/gm, '').trim();
+  if (text.length === 0) return null;
+
+  const outlineLevel = readOutlineLevel(paragraphProperties)
+    ?? styleChain.find(style => style.outlineLevel !== undefined)?.outlineLevel;
+
+  const emphasis = measureEmphasis(runs);
+
+  return {
+    text,
+    styleId,
+    styleName: styleChain[0]?.name,
+    headingLevel: getHeadingLevel(styleChain, outlineLevel),
+    list: resolveListItem(paragraphProperties, styleChain, context),
+    ...emphasis,
+    source
+  };
+}
+
+/**
+ * Collects run text from a paragraph, descending into hyperlinks, insertions and content controls
+ * @param element - Paragraph or inline container
+ * @param paragraphRun - Run properties inherited from the paragraph style
+ * @param context - Resolved styles
+ * @param runs - Output list
+ */
+function collectRuns(
+  element: XmlElement,
+  paragraphRun: Required<RunProperties>,
+  context: DocxContext,
+  runs: RunText[]
+): void {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+
+    if (child.name === 'w:r') {
+      const text = readRunText(child);
+      if (text.length === 0) continue;
+
+      const runProperties = findChild(child, 'w:rPr');
+      const properties = { ...paragraphRun };
+      const runStyleId = findChild(runProperties, 'w:rStyle')?.attributes['w:val'];
+      for (const style of resolveStyleChain(runStyleId, context.styles).reverse()) {
+        applyRunProperties(properties, style);
+      }
+      applyRunProperties(properties, readRunProperties(runProperties));
+
+      runs.push({ text, properties });
+    } else if (INLINE_CONTAINERS.has(child.name) || child.name === 'w:sdt') {
+      collectRuns(child.name === 'w:sdt' ? findChild(child, 'w:sdtContent') ?? child : child, paragraphRun, context, runs);
+    }
+    // w:del, w:moveFrom and w:pPr hold no visible text
+  }
+}
+
+/**
+ * Reads the visible text of a w:r element
+ * @param run - Run element
+ * @returns Text including tabs and line breaks
+ */
+function readRunText(run: XmlElement): string {
+  let text = '';
+
+  for (const child of run.children) {
+    if (typeof child === 'string') continue;
+
+    switch (child.name) {
+      case 'w:t':
+        text += getTextContent(child);
+        break;
+      case 'w:tab':
+      case 'w:ptab':
+        text += '\t';
+        break;
+      case 'w:br':
+        // Page and column breaks separate content but are not line breaks within it
+        text += child.attributes['w:type'] === 'page' || child.attributes['w:type'] === 'column' ? ' ' : '\n';
+        break;
+      case 'w:cr':
+        text += '\n';
+        break;
+      case 'w:noBreakHyphen':
+        text += '-';
+        break;
+      // Field codes (w:instrText), deleted text and drawings are not part of the visible text
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Weights run font size and emphasis by character count
+ * @param runs - Runs of one paragraph
+ * @returns Dominant font size and bold/italic flags
+ */
+function measureEmphasis(runs: RunText[]): { fontSize: number; bold: boolean; italic: boolean } {
+  const sizeWeights = new Map<number, number>();
+  let totalChars = 0;
+  let boldChars = 0;
+  let italicChars = 0;
+
+  for (const run of runs) {
+    const chars = run.text.replace(/\s/g, '').length;
+    totalChars += chars;
+    if (run.properties.bold) boldChars += chars;
+    if (run.properties.italic) italicChars += chars;
+    sizeWeights.set(run.properties.fontSize, (sizeWeights.get(run.properties.fontSize) || 0) + chars);
+  }
+
+  let fontSize = runs[0]?.properties.fontSize ?? DOCX_DEFAULT_FONT_SIZE;
+  let maxWeight = -1;
+  sizeWeights.forEach((weight, size) => {
+    if (weight > maxWeight) {
+      maxWeight = weight;
+      fontSize = size;
+    }
+  });
+
+  return {
+    fontSize,
+    bold: totalChars > 0 && boldChars / totalChars >= STYLE_EMPHASIS_SHARE,
+    italic: totalChars > 0 && italicChars / totalChars >= STYLE_EMPHASIS_SHARE
+  };
+}
+
+/**
+ * Derives a heading level from Word's Heading N styles or the paragraph outline level
+ * @param styleChain - Paragraph style followed by the styles it is based on
+ * @param outlineLevel - Zero-based outline level, if any
+ * @returns Heading level 1-6, or undefined for body text
+ */
+function getHeadingLevel(styleChain: DocxStyle[], outlineLevel?: number): number | undefined {
+  for (const style of styleChain) {
+    const match = style.name?.match(/^heading\s*([1-9])$/i);
+    if (match) return Math.min(6, Number(match[1]));
+  }
+
+  // Outline level 9 is Word's "body text" level
+  if (outlineLevel !== undefined && outlineLevel >= 0 && outlineLevel < 9) {
+    return Math.min(6, outlineLevel + 1);
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves list numbering for a paragraph and advances its counters
+ * @param paragraphProperties - w:pPr element
+ * @param styleChain - Paragraph style chain (numbering may come from a list style)
+ * @param context - Numbering definitions and counters
+ * @returns List info, or undefined when the paragraph is not numbered
+ */
+function resolveListItem(
+  paragraphProperties: XmlElement | undefined,
+  styleChain: DocxStyle[],
+  context: DocxContext
+): DocxParagraph['list'] {
+  const numberingProperties = findChild(paragraphProperties, 'w:numPr');
+  const styleNumbering = styleChain.find(style => style.numbering)?.numbering;
+
+  const numId = findChild(numberingProperties, 'w:numId')?.attributes['w:val'] ?? styleNumbering?.numId;
+  const levelValue = findChild(numberingProperties, 'w:ilvl')?.attributes['w:val'];
+  const level = levelValue !== undefined ? Number(levelValue) : styleNumbering?.level ?? 0;
+
+  // numId 0 explicitly removes numbering
+  if (!numId || numId === '0' || !Number.isFinite(level)) return undefined;
+
+  const definition = context.numbering.get(numId)?.get(level);
+  const format = definition?.format ?? 'bullet';
+  if (format === 'none') return undefined;
+
+  // Advance this level and restart deeper levels
+  const counters = context.listCounters.get(numId) || [];
+  for (let i = 0; i <= level; i++) {
+    if (counters[i] === undefined) {
+      counters[i] = (context.numbering.get(numId)?.get(i)?.start ?? 1) - 1;
+    }
+  }
+  counters[level] += 1;
+  counters.length = level + 1;
+  context.listCounters.set(numId, counters);
+
+  const ordered = format !== 'bullet';
+  const label = ordered
+    ? (definition?.text ?? `%${level + 1}.`).replace(/%([1-9])/g, (_, index: string) => {
+        const levelIndex = Number(index) - 1;
+        const levelFormat = context.numbering.get(numId)?.get(levelIndex)?.format ?? 'decimal';
+        return formatListNumber(counters[levelIndex] ?? 1, levelFormat);
+      })
+    : '•';
+
+  return { numId, level, ordered, label };
+}
+
+/**
+ * Formats a list counter in the given Word number format
+ * @param value - Counter value
+ * @param format - w:numFmt value
+ * @returns Formatted number
+ */
+function formatListNumber(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter':
+      return toLetters(value).toLowerCase();
+    case 'upperLetter':
+      return toLetters(value);
+    case 'lowerRoman':
+      return toRoman(value).toLowerCase();
+    case 'upperRoman':
+      return toRoman(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Converts a counter to Word-style letters (A, B, ... Z, AA, BB, ...)
+ * @param value - Counter value (1-based)
+ * @returns Letter label
+ */
+function toLetters(value: number): string {
+  const letter = String.fromCharCode(65 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+/**
+ * Converts a counter to Roman numerals
+ * @param value - Counter value (1-based)
+ * @returns Roman numeral label
+ */
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+    [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+  ];
+  let remaining = Math.max(1, value);
+  let result = '';
+
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parses styles.xml into a style map plus document defaults
+ * @param stylesXml - styles.xml contents
+ * @returns Style definitions, default paragraph style and default run properties
+ */
+function parseStyles(stylesXml: string | null): Pick<DocxContext, 'styles' | 'defaultStyleId' | 'defaultRun'> {
+  const styles = new Map<string, DocxStyle>();
+  const defaultRun: Required<RunProperties> = { bold: false, italic: false, fontSize: DOCX_DEFAULT_FONT_SIZE };
+  let defaultStyleId: string | undefined;
+
+  if (!stylesXml) {
+    return { styles, defaultStyleId, defaultRun };
+  }
+
+  const root = findChild(parseXML(stylesXml), 'w:styles');
+  if (!root) {
+    return { styles, defaultStyleId, defaultRun };
+  }
+
+  const docDefaults = findChild(findChild(findChild(root, 'w:docDefaults'), 'w:rPrDefault'), 'w:rPr');
+  applyRunProperties(defaultRun, readRunProperties(docDefaults));
+
+  for (const element of findChildren(root, 'w:style')) {
+    const id = element.attributes['w:styleId'];
+    if (!id) continue;
+
+    const paragraphProperties = findChild(element, 'w:pPr');
+    const numberingProperties = findChild(paragraphProperties, 'w:numPr');
+    const numId = findChild(numberingProperties, 'w:numId')?.attributes['w:val'];
+
+    styles.set(id, {
+      id,
+      name: findChild(element, 'w:name')?.attributes['w:val'],
+      basedOn: findChild(element, 'w:basedOn')?.attributes['w:val'],
+      outlineLevel: readOutlineLevel(paragraphProperties),
+      numbering: numId
+        ? { numId, level: Number(findChild(numberingProperties, 'w:ilvl')?.attributes['w:val'] ?? 0) }
+        : undefined,
+      ...readRunProperties(findChild(element, 'w:rPr'))
+    });
+
+    const isDefault = element.attributes['w:default'] === '1' || element.attributes['w:default'] === 'true';
+    if (isDefault && element.attributes['w:type'] === 'paragraph') {
+      defaultStyleId = id;
+    }
+  }
+
+  return { styles, defaultStyleId, defaultRun };
+}
+
+/**
+ * Parses numbering.xml into level definitions keyed by numId
+ * @param numberingXml - numbering.xml contents
+ * @returns Map of numId to level definitions
+ */
+function parseNumbering(numberingXml: string | null): Map<string, Map<number, NumberingLevel>> {
+  const numbering = new Map<string, Map<number, NumberingLevel>>();
+  if (!numberingXml) return numbering;
+
+  const root = findChild(parseXML(numberingXml), 'w:numbering');
+  if (!root) return numbering;
+
+  const abstractLevels = new Map<string, Map<number, NumberingLevel>>();
+  for (const abstractNum of findChildren(root, 'w:abstractNum')) {
+    const levels = new Map<number, NumberingLevel>();
+    for (const level of findChildren(abstractNum, 'w:lvl')) {
+      levels.set(Number(level.attributes['w:ilvl'] ?? 0), {
+        format: findChild(level, 'w:numFmt')?.attributes['w:val'] ?? 'decimal',
+        text: findChild(level, 'w:lvlText')?.attributes['w:val'] ?? '',
+        start: Number(findChild(level, 'w:start')?.attributes['w:val'] ?? 1)
+      });
+    }
+    abstractLevels.set(abstractNum.attributes['w:abstractNumId'], levels);
+  }
+
+  for (const num of findChildren(root, 'w:num')) {
+    const abstractId = findChild(num, 'w:abstractNumId')?.attributes['w:val'];
+    const levels = abstractId !== undefined ? abstractLevels.get(abstractId) : undefined;
+    if (levels) {
+      numbering.set(num.attributes['w:numId'], levels);
+    }
+  }
+
+  return numbering;
+}
+
+/**
+ * Reads document properties from docProps/app.xml and docProps/core.xml
+ * @param appXml - Extended properties
+ * @param coreXml - Core properties
+ * @returns Title, author, dates and Word's last recorded page count
+ */
+function parseProperties(appXml: string | null, coreXml: string | null): DocxPackage['properties'] {
+  const properties: DocxPackage['properties'] = {};
+
+  if (appXml) {
+    const pages = Number(getTextContent(findChild(findChild(parseXML(appXml), 'Properties'), 'Pages')));
+    if (Number.isFinite(pages) && pages > 0) properties.pages = pages;
+  }
+
+  if (coreXml) {
+    const core = findChild(parseXML(coreXml), 'cp:coreProperties');
+    const title = getTextContent(findChild(core, 'dc:title')).trim();
+    const author = getTextContent(findChild(core, 'dc:creator')).trim();
+    if (title) properties.title = title;
+    if (author) properties.author = author;
+    properties.created = parseDate(getTextContent(findChild(core, 'dcterms:created')));
+    properties.modified = parseDate(getTextContent(findChild(core, 'dcterms:modified')));
+  }
+
+  return properties;
+}
+
+/**
+ * Parses a W3CDTF date from core properties
+ * @param value - Date string
+ * @returns Date, or undefined when missing or invalid
+ */
+function parseDate(value: string): Date | undefined {
+  if (!value.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Returns a style followed by the styles it is based on
+ * @param styleId - Starting style id
+ * @param styles - Style map
+ * @returns Style chain, most specific first
+ */
+function resolveStyleChain(styleId: string | undefined, styles: Map<string, DocxStyle>): DocxStyle[] {
+  const chain: DocxStyle[] = [];
+  let current = styleId ? styles.get(styleId) : undefined;
+
+  while (current && chain.length < MAX_STYLE_DEPTH && !chain.includes(current)) {
+    chain.push(current);
+    current = current.basedOn ? styles.get(current.basedOn) : undefined;
+  }
+
+  return chain;
+}
+
+/**
+ * Reads bold, italic and size from a w:rPr element
+ * @param runProperties - w:rPr element
+ * @returns Explicitly set run properties
+ */
+function readRunProperties(runProperties: XmlElement | undefined): RunProperties {
+  const properties: RunProperties = {};
+  if (!runProperties) return properties;
+
+  const bold = findChild(runProperties, 'w:b');
+  const italic = findChild(runProperties, 'w:i');
+  const size = findChild(runProperties, 'w:sz')?.attributes['w:val'];
+
+  if (bold) properties.bold = isToggleOn(bold);
+  if (italic) properties.italic = isToggleOn(italic);
+  // w:sz is measured in half-points
+  if (size && Number.isFinite(Number(size))) properties.fontSize = Number(size) / 2;
+
+  return properties;
+}
+
+/**
+ * Copies explicitly set run properties onto a target
+ * @param target - Properties to update
+ * @param source - Properties to apply
+ */
+function applyRunProperties(target: Required<RunProperties>, source: RunProperties): void {
+  if (source.bold !== undefined) target.bold = source.bold;
+  if (source.italic !== undefined) target.italic = source.italic;
+  if (source.fontSize !== undefined) target.fontSize = source.fontSize;
+}
+
+/**
+ * Reads a zero-based outline level from paragraph properties
+ * @param paragraphProperties - w:pPr element
+ * @returns Outline level, or undefined when not set
+ */
+function readOutlineLevel(paragraphProperties: XmlElement | undefined): number | undefined {
+  const value = findChild(paragraphProperties, 'w:outlineLvl')?.attributes['w:val'];
+  return value !== undefined && Number.isFinite(Number(value)) ? Number(value) : undefined;
+}
+
+/**
+ * Evaluates an OOXML on/off property such as w:b
+ * @param element - Toggle element
+ * @returns False only when explicitly switched off
+ */
+function isToggleOn(element: XmlElement): boolean {
+  const value = element.attributes['w:val'];
+  return value === undefined || !['0', 'false', 'off'].includes(value.toLowerCase());
+}
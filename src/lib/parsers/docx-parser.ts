@@ -1,9 +1,9 @@
-// DOCX parsing engine using mammoth.js library for client-side processing
+// DOCX parsing engine that reads the OOXML package directly for client-side processing
 import { createUploadError, UPLOAD_ERROR_CODES } from '@/lib/file-validation';
-import { loadLibrary } from '@/lib/performance/lazy-loader';
 import { memoryManager } from '@/lib/performance/memory-manager';
 import type { UploadedFile } from '@/types/file-upload';
-import type { ParsedDocument } from './pdf-parser';
+import type { ParsedDocument, TextBlock } from './pdf-parser';
+import { readDocxPackage, type DocxParagraph } from './docx-ooxml';
 
 /**
  * Parses DOCX file and extracts text content for ATS optimization
@@ -11,6 +11,38 @@ import type { ParsedDocument } from './pdf-parser';
  * @returns Promise resolving to ParsedDocument
  */
 export async function parseDOCX(uploadedFile: UploadedFile): Promise<ParsedDocument> {
+  const { parsedDocument } = await readDOCX(uploadedFile);
+  return parsedDocument;
+}
+
+/**
+ * Enhanced DOCX parsing with HTML structure preservation for better ATS optimization
+ * @param uploadedFile - File with ArrayBuffer ready for parsing
+ * @returns Promise resolving to ParsedDocument with enhanced structure
+ */
+export async function parseEnhancedDOCX(uploadedFile: UploadedFile): Promise<ParsedDocument & { htmlContent?: string }> {
+  if (uploadedFile.buffer) {
+    // Store file in memory manager for potential reuse
+    memoryManager.storeFileData(`docx-${uploadedFile.metadata.name}`, uploadedFile.buffer, 'docx');
+  }
+
+  const { parsedDocument, paragraphs } = await readDOCX(uploadedFile);
+
+  return {
+    ...parsedDocument,
+    htmlContent: paragraphsToHTML(paragraphs)
+  };
+}
+
+/**
+ * Reads the DOCX package and builds the parsed document from its paragraphs
+ * @param uploadedFile - File with ArrayBuffer ready for parsing
+ * @returns Parsed document plus the structured paragraphs it was built from
+ */
+async function readDOCX(uploadedFile: UploadedFile): Promise<{
+  parsedDocument: ParsedDocument;
+  paragraphs: DocxParagraph[];
+}> {
   try {
     if (!uploadedFile.buffer) {
       throw createUploadError(
@@ -20,13 +52,11 @@ export async function parseDOCX(uploadedFile: UploadedFile): Promise<ParsedDocum
       );
     }
 
-    // Load mammoth.js library dynamically
-    const mammoth = await loadLibrary.mammoth() as typeof import('mammoth');
-    
-    // Parse DOCX using mammoth.js with text extraction
-    const result = await mammoth.extractRawText({ arrayBuffer: uploadedFile.buffer });
+    const docxPackage = await readDocxPackage(uploadedFile.buffer);
+    const paragraphs = linearizeTableRows(docxPackage.paragraphs);
+    const cleanedText = cleanDOCXText(paragraphsToText(paragraphs));
 
-    if (!result.value || result.value.trim().length === 0) {
+    if (cleanedText.length === 0) {
       throw createUploadError(
         UPLOAD_ERROR_CODES.FILE_CORRUPTED,
         'No text content found in DOCX file. The file may be empty or corrupted.',
@@ -34,52 +64,50 @@ export async function parseDOCX(uploadedFile: UploadedFile): Promise<ParsedDocum
       );
     }
 
-    // Log warnings if any (for debugging in development)
-    if (result.messages && result.messages.length > 0) {
-      console.warn('DOCX parsing warnings:', result.messages);
-    }
+    const { properties, structure } = docxPackage;
 
-    // Clean and normalize the extracted text
-    const cleanedText = cleanDOCXText(result.value);
-    
-    // Calculate word count
-    const wordCount = countWords(cleanedText);
-
-    // Create parsed document object
-    const parsedDocument: ParsedDocument = {
-      text: cleanedText,
-      metadata: {
-        // DOCX files don't provide metadata through mammoth.js raw text extraction
-        pages: estimatePageCount(cleanedText),
-        wordCount
+    return {
+      parsedDocument: {
+        text: cleanedText,
+        blocks: buildTextBlocks(paragraphs),
+        metadata: {
+          title: properties.title,
+          author: properties.author,
+          creationDate: properties.created,
+          modificationDate: properties.modified,
+          // Word records the page count of the last save; estimate when it is missing
+          pages: properties.pages ?? estimatePageCount(cleanedText),
+          wordCount: countWords(cleanedText)
+        },
+        linearizedStructures: structure,
+        source: 'docx',
+        originalFileName: uploadedFile.metadata.name
       },
-      source: 'docx',
-      originalFileName: uploadedFile.metadata.name
+      paragraphs
     };
 
-    return parsedDocument;
-
   } catch (error) {
     // Handle our custom UploadError
     if (error && typeof error === 'object' && 'code' in error) {
       throw error;
     }
 
-    // Handle mammoth.js specific errors
+    // Handle package (zip/XML) errors
     if (error instanceof Error) {
-      if (error.message.includes('not a valid zip file') || 
-          error.message.includes('invalid signature')) {
+      if (error.message.includes('password') || error.message.includes('ncrypted')) {
         throw createUploadError(
-          UPLOAD_ERROR_CODES.FILE_CORRUPTED,
-          'Invalid DOCX file. Please ensure the file is not corrupted and try again.',
+          UPLOAD_ERROR_CODES.PROCESSING_ERROR,
+          'Password-protected DOCX files are not supported. Please upload an unprotected version.',
           uploadedFile.metadata.name
         );
       }
-      
-      if (error.message.includes('password') || error.message.includes('encrypted')) {
+
+      if (error.message.includes('zip') ||
+          error.message.includes('central directory') ||
+          error.message.includes('word/document.xml')) {
         throw createUploadError(
-          UPLOAD_ERROR_CODES.PROCESSING_ERROR,
-          'Password-protected DOCX files are not supported. Please upload an unprotected version.',
+          UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+          'Invalid DOCX file. Please ensure the file is not corrupted and try again.',
           uploadedFile.metadata.name
         );
       }
@@ -95,65 +123,147 @@ export async function parseDOCX(uploadedFile: UploadedFile): Promise<ParsedDocum
 }
 
 /**
- * Enhanced DOCX parsing with HTML structure preservation for better ATS optimization
- * @param uploadedFile - File with ArrayBuffer ready for parsing
- * @returns Promise resolving to ParsedDocument with enhanced structure
+ * Collapses grid-like table rows (one paragraph per cell) into a single line
+ * @param paragraphs - Paragraphs in reading order, table cells in row-major order
+ * @returns Paragraphs with each grid row merged, other cells left as separate paragraphs
  */
-export async function parseEnhancedDOCX(uploadedFile: UploadedFile): Promise<ParsedDocument & { htmlContent?: string }> {
-  try {
-    if (!uploadedFile.buffer) {
-      throw createUploadError(
-        UPLOAD_ERROR_CODES.FILE_READ_ERROR,
-        'File buffer is missing. Please try uploading the file again.',
-        uploadedFile.metadata.name
-      );
+function linearizeTableRows(paragraphs: DocxParagraph[]): DocxParagraph[] {
+  const result: DocxParagraph[] = [];
+  let index = 0;
+
+  while (index < paragraphs.length) {
+    const first = paragraphs[index];
+    let end = index + 1;
+
+    if (first.table) {
+      while (
+        end < paragraphs.length &&
+        paragraphs[end].table?.id === first.table.id &&
+        paragraphs[end].table?.row === first.table.row
+      ) {
+        end++;
+      }
     }
 
-              // Load mammoth.js library dynamically
-          const mammoth = await loadLibrary.mammoth() as typeof import('mammoth');
-          
-          // Store file in memory manager for potential reuse
-          memoryManager.storeFileData(`docx-${uploadedFile.metadata.name}`, uploadedFile.buffer, 'docx');
+    const row = paragraphs.slice(index, end);
+    const cells = new Set(row.map(paragraph => paragraph.table?.cell));
+    const isGridRow = row.length > 1 &&
+      cells.size === row.length &&
+      row.every(paragraph => !paragraph.list && !paragraph.text.includes('\n'));
 
-          // Extract both raw text and HTML for better structure understanding
-          const [textResult, htmlResult] = await Promise.all([
-            mammoth.extractRawText({ arrayBuffer: uploadedFile.buffer }),
-            mammoth.convertToHtml({ arrayBuffer: uploadedFile.buffer })
-          ]);
+    if (isGridRow) {
+      result.push({ ...first, text: row.map(paragraph => paragraph.text).join(' | ') });
+    } else {
+      result.push(...row);
+    }
+    index = end;
+  }
 
-    if (!textResult.value || textResult.value.trim().length === 0) {
-      throw createUploadError(
-        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
-        'No text content found in DOCX file. The file may be empty or corrupted.',
-        uploadedFile.metadata.name
-      );
+  return result;
+}
+
+/**
+ * Joins paragraphs into plain text, keeping list markers and list item grouping
+ * @param paragraphs - Paragraphs in reading order
+ * @returns Text with blank lines between paragraphs and single breaks within lists
+ */
+function paragraphsToText(paragraphs: DocxParagraph[]): string {
+  let text = '';
+
+  paragraphs.forEach((paragraph, index) => {
+    if (index > 0) {
+      const previous = paragraphs[index - 1];
+      text += previous.list && paragraph.list ? '\n' : '\n\n';
     }
+    text += formatParagraphText(paragraph);
+  });
 
-    const cleanedText = cleanDOCXText(textResult.value);
-    const wordCount = countWords(cleanedText);
+  return text;
+}
 
-    return {
-      text: cleanedText,
-      htmlContent: htmlResult.value,
-      metadata: {
-        pages: estimatePageCount(cleanedText),
-        wordCount
-      },
-      source: 'docx',
-      originalFileName: uploadedFile.metadata.name
-    };
+/**
+ * Returns a paragraph's text with its list marker
+ * @param paragraph - Structured paragraph
+ * @returns Display text
+ */
+function formatParagraphText(paragraph: DocxParagraph): string {
+  return paragraph.list ? `${paragraph.list.label} ${paragraph.text}` : paragraph.text;
+}
 
-  } catch (error) {
-    if (error && typeof error === 'object' && 'code' in error) {
-      throw error;
+/**
+ * Builds style-annotated text blocks from DOCX paragraphs
+ * @param paragraphs - Paragraphs in reading order
+ * @returns Text blocks carrying Word's own heading styles and run sizes
+ */
+function buildTextBlocks(paragraphs: DocxParagraph[]): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  for (const paragraph of paragraphs) {
+    const text = cleanDOCXText(formatParagraphText(paragraph));
+    if (text.length === 0) continue;
+
+    blocks.push({
+      text,
+      fontSize: paragraph.fontSize,
+      bold: paragraph.bold,
+      italic: paragraph.italic,
+      page: 1,
+      order: blocks.length,
+      headingLevel: paragraph.headingLevel,
+      styleName: paragraph.styleName
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Renders paragraphs as simple semantic HTML (headings, paragraphs and lists)
+ * @param paragraphs - Paragraphs in reading order
+ * @returns HTML content
+ */
+function paragraphsToHTML(paragraphs: DocxParagraph[]): string {
+  const html: string[] = [];
+  let openList: 'ul' | 'ol' | null = null;
+
+  for (const paragraph of paragraphs) {
+    const listTag = paragraph.list ? (paragraph.list.ordered ? 'ol' : 'ul') : null;
+    if (openList && openList !== listTag) {
+      html.push(`</${openList}>`);
+      openList = null;
     }
 
-    throw createUploadError(
-      UPLOAD_ERROR_CODES.PROCESSING_ERROR,
-      `Failed to parse DOCX: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      uploadedFile.metadata.name
-    );
+    const content = escapeHTML(paragraph.text).replace(/\n/g, '<br />');
+
+    if (listTag) {
+      if (!openList) {
+        html.push(`<${listTag}>`);
+        openList = listTag;
+      }
+      html.push(`<li>${content}</li>`);
+    } else if (paragraph.headingLevel) {
+      html.push(`<h${paragraph.headingLevel}>${content}</h${paragraph.headingLevel}>`);
+    } else {
+      html.push(`<p>${content}</p>`);
+    }
   }
+
+  if (openList) html.push(`</${openList}>`);
+
+  return html.join('');
+}
+
+/**
+ * Escapes text for inclusion in HTML
+ * @param text - Plain text
+ * @returns Escaped text
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
 /**
@@ -172,12 +282,7 @@ function cleanDOCXText(rawText: string): string {
   
   // Remove DOCX-specific artifacts
   cleaned = cleaned.replace(/\f/g, '\n'); // Replace form feeds
-  cleaned = cleaned.replace(/[\u0000-\u001F\u007F-\u009F]/g, ''); // Remove control characters
-  
-  // Fix spacing issues common in DOCX extraction
-  cleaned = cleaned.replace(/([a-z])([A-Z])/g, '$1 $2'); // Add space between cases
-  cleaned = cleaned.replace(/(\d)([A-Za-z])/g, '$1 $2'); // Add space between numbers and letters
-  cleaned = cleaned.replace(/([A-Za-z])(\d)/g, '$1 $2'); // Add space between letters and numbers
+  cleaned = cleaned.replace(/[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g, ''); // Remove control characters (keeps tabs and line breaks)
   
   // Standardize bullet points
   cleaned = cleaned.replace(/[•·▪▫■□‣⁃]/g, '•');
@@ -240,7 +345,7 @@ export function validateDOCXContent(parsedDocument: ParsedDocument): boolean {
 
 /**
  * Extracts section headings from DOCX HTML content
- * @param htmlContent - HTML content from mammoth.js
+ * @param htmlContent - HTML content built from the DOCX paragraphs
  * @returns Array of detected section headings
  */
 export function extractSectionHeadings(htmlContent: string): string[] {
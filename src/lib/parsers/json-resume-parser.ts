@@ -0,0 +1,187 @@
+// JSON Resume import: reads the structured model and renders it as resume text
+import { createUploadError, UPLOAD_ERROR_CODES } from '@/lib/file-validation';
+import { fromJSONResume } from '@/lib/resume/json-resume';
+import { formatResumeDate } from '@/lib/resume/resume-dates';
+import type { UploadedFile } from '@/types/file-upload';
+import type { ResumeData } from '@/types/resume';
+import type { ParsedDocument, TextBlock } from './pdf-parser';
+import { normalizeExtractedText, countWords, estimatePageCount } from './text-utils';
+
+// Nominal sizes so rendered headings stand out to the heading scorer
+const JSON_RESUME_BODY_FONT_SIZE = 11;
+const JSON_RESUME_HEADING_FONT_SIZE = 14;
+
+/**
+ * Parses a JSON Resume file, keeping its structured data alongside rendered text
+ * @param uploadedFile - File with ArrayBuffer ready for parsing
+ * @returns Promise resolving to ParsedDocument with the resume model attached
+ */
+export async function parseJSONResume(uploadedFile: UploadedFile): Promise<ParsedDocument> {
+  try {
+    if (!uploadedFile.buffer) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_READ_ERROR,
+        'File buffer is missing. Please try uploading the file again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(new TextDecoder('utf-8').decode(uploadedFile.buffer));
+    } catch {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'This file is not valid JSON. Please check that it was exported correctly and try again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    let resume: ResumeData;
+    try {
+      resume = fromJSONResume(json);
+    } catch (error) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        `This JSON file is not a JSON Resume document: ${error instanceof Error ? error.message : 'Unknown error'}.`,
+        uploadedFile.metadata.name
+      );
+    }
+
+    const { text: renderedText, blocks } = renderResume(resume);
+    const text = normalizeExtractedText(renderedText);
+    if (text.length === 0) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'No resume content found in the JSON Resume file.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    return {
+      text,
+      blocks,
+      metadata: {
+        title: resume.basics.name,
+        pages: estimatePageCount(text),
+        wordCount: countWords(text)
+      },
+      resume,
+      source: 'json',
+      originalFileName: uploadedFile.metadata.name
+    };
+
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      throw error;
+    }
+
+    throw createUploadError(
+      UPLOAD_ERROR_CODES.PROCESSING_ERROR,
+      `Failed to read JSON Resume: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      uploadedFile.metadata.name
+    );
+  }
+}
+
+/**
+ * Renders the resume model as plain text with standard section headings
+ * @param resume - Structured resume data
+ * @returns Resume text and style-annotated blocks (headings marked for detection)
+ */
+function renderResume(resume: ResumeData): { text: string; blocks: TextBlock[] } {
+  const { basics } = resume;
+  const location = [basics.location?.city, basics.location?.region].filter(Boolean).join(', ');
+
+  // Each section is a list of entries; each entry is a list of lines
+  const sections: [string, (string | undefined)[][]][] = [
+    ['Professional Summary', basics.summary ? [basics.summary.split('\n')] : []],
+    ['Work Experience', resume.work.map(work => [
+      joinFields(work.title, work.company, work.location),
+      formatDateRange(work.startDate, work.current ? 'Present' : work.endDate),
+      work.summary,
+      ...work.bullets.map(bullet => `• ${bullet}`)
+    ])],
+    ['Education', resume.education.map(education => [
+      joinFields(
+        education.area ? `${education.studyType ?? 'Degree'} in ${education.area}` : education.studyType,
+        education.institution,
+        education.location
+      ),
+      formatDateRange(education.startDate, education.endDate),
+      education.score && `GPA: ${education.score}`,
+      ...education.details.map(detail => `• ${detail}`)
+    ])],
+    ['Skills', [resume.skills.map(group =>
+      group.name ? `${group.name}: ${group.keywords.join(', ')}` : group.keywords.join(', ')
+    )]],
+    ['Certifications', [resume.certifications.map(certification =>
+      joinFields(certification.name, certification.issuer, certification.date && formatResumeDate(certification.date))
+    )]],
+    ['Projects', resume.projects.map(project => [
+      joinFields(project.name, project.url),
+      formatDateRange(project.startDate, project.endDate),
+      project.description,
+      ...project.bullets.map(bullet => `• ${bullet}`)
+    ])],
+    ['Languages', [[resume.languages
+      .map(language => language.fluency ? `${language.language} (${language.fluency})` : language.language)
+      .join(', ')]]]
+  ];
+
+  const lines: string[] = [];
+  const blocks: TextBlock[] = [];
+  const addLine = (line: string, headingLevel?: number) => {
+    lines.push(line);
+    blocks.push({
+      text: line,
+      fontSize: headingLevel ? JSON_RESUME_HEADING_FONT_SIZE : JSON_RESUME_BODY_FONT_SIZE,
+      bold: !!headingLevel,
+      italic: false,
+      page: 1,
+      order: blocks.length,
+      headingLevel
+    });
+  };
+
+  [basics.name, basics.label].forEach(line => line && addLine(line));
+  const contact = joinFields(basics.email, basics.phone, location, basics.url, ...basics.profiles.map(profile => profile.url));
+  if (contact) addLine(contact);
+
+  for (const [title, entries] of sections) {
+    const filledEntries = entries
+      .map(entry => entry.filter((line): line is string => !!line))
+      .filter(entry => entry.length > 0);
+    if (filledEntries.length === 0) continue;
+
+    lines.push('');
+    addLine(title, 1);
+    filledEntries.forEach((entry, index) => {
+      if (index > 0) lines.push('');
+      entry.forEach(line => addLine(line));
+    });
+  }
+
+  return { text: lines.join('\n'), blocks };
+}
+
+/**
+ * Joins the present fields of a header line
+ * @param fields - Header fields, possibly undefined
+ * @returns Fields separated by pipes
+ */
+function joinFields(...fields: (string | undefined)[]): string {
+  return fields.filter((field): field is string => !!field).join(' | ');
+}
+
+/**
+ * Formats a start/end pair as a display range
+ * @param start - ISO start date
+ * @param end - ISO end date, or "Present"
+ * @returns Range text, a single date, or an empty string
+ */
+function formatDateRange(start?: string, end?: string): string {
+  const [from, to] = [start, end].map(date => date && formatResumeDate(date));
+  if (from && to) return `${from} - ${to}`;
+  return from ?? to ?? '';
+}
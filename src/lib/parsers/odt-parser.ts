@@ -0,0 +1,582 @@
+// ODT (OpenDocument Text) parsing engine using JSZip for client-side processing
+import { createUploadError, UPLOAD_ERROR_CODES } from '@/lib/file-validation';
+import { loadLibrary } from '@/lib/performance/lazy-loader';
+import type JSZip from 'jszip';
+import type { UploadedFile } from '@/types/file-upload';
+import type { ParsedDocument, TextBlock } from './pdf-parser';
+import {
+  parseXML,
+  findChild,
+  findChildren,
+  getTextContent,
+  type XmlElement
+} from './xml-utils';
+import { normalizeExtractedText, countWords, estimatePageCount } from './text-utils';
+
+interface ODTTextStyle {
+  parent?: string;
+  bold?: boolean;
+  italic?: boolean;
+  fontSize?: number;
+}
+
+interface ODTParagraph {
+  text: string;
+  headingLevel?: number;
+  listItem: boolean;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+}
+
+interface ODTContext {
+  styles: Map<string, ODTTextStyle>;
+  tables: number;
+  textBoxes: number;
+}
+
+interface StyledText {
+  text: string;
+  style: Required<Omit<ODTTextStyle, 'parent'>>;
+}
+
+const ODT_DEFAULT_FONT_SIZE = 12; // LibreOffice's default paragraph size
+const ODT_CELL_SEPARATOR = ' | ';
+const STYLE_EMPHASIS_SHARE = 0.6; // Share of characters that must be bold/italic to style the paragraph
+const MAX_STYLE_DEPTH = 16; // Guards against cyclic parent-style chains
+
+// Header/footer lines that only carry a page number field
+const PAGE_NUMBER_LINE = /^page(\s*\d*(\s*(of|\/)\s*\d*)?)?$|^\d+(\s*(of|\/)\s*\d+)?$/i;
+
+/**
+ * Parses ODT file and extracts text content for ATS optimization
+ * @param uploadedFile - File with ArrayBuffer ready for parsing
+ * @returns Promise resolving to ParsedDocument
+ */
+export async function parseODT(uploadedFile: UploadedFile): Promise<ParsedDocument> {
+  try {
+    if (!uploadedFile.buffer) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_READ_ERROR,
+        'File buffer is missing. Please try uploading the file again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    const zipLibrary = await loadLibrary.jszip() as typeof JSZip;
+    const zip = await zipLibrary.loadAsync(uploadedFile.buffer);
+
+    const [contentXml, stylesXml, metaXml] = await Promise.all([
+      readPart(zip, 'content.xml'),
+      readPart(zip, 'styles.xml'),
+      readPart(zip, 'meta.xml')
+    ]);
+
+    if (!contentXml) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'Invalid ODT file. Please ensure the file is not corrupted and try again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    const contentRoot = findChild(parseXML(contentXml), 'office:document-content');
+    const stylesRoot = stylesXml ? findChild(parseXML(stylesXml), 'office:document-styles') : undefined;
+
+    const context: ODTContext = {
+      styles: new Map([
+        ...parseTextStyles(findChild(stylesRoot, 'office:styles')),
+        ...parseTextStyles(findChild(stylesRoot, 'office:automatic-styles')),
+        ...parseTextStyles(findChild(contentRoot, 'office:automatic-styles'))
+      ]),
+      tables: 0,
+      textBoxes: 0
+    };
+
+    const body = findChild(findChild(contentRoot, 'office:body'), 'office:text');
+    const bodyParagraphs: ODTParagraph[] = [];
+    if (body) readBlocks(body, context, bodyParagraphs, false);
+
+    // Header content (often the name and contact line) leads; footer content trails
+    const seenTexts = new Set(bodyParagraphs.map(paragraph => normalizeKey(paragraph.text)));
+    const headerParagraphs = readMasterPageContent(stylesRoot, 'header', context, seenTexts);
+    const footerParagraphs = readMasterPageContent(stylesRoot, 'footer', context, seenTexts);
+    const paragraphs = [...headerParagraphs, ...bodyParagraphs, ...footerParagraphs];
+
+    const cleanedText = normalizeExtractedText(paragraphsToText(paragraphs));
+    if (cleanedText.length === 0) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'No text content found in ODT file. The file may be empty or corrupted.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    const properties = parseMeta(metaXml);
+    const headerFooterParagraphs = headerParagraphs.length + footerParagraphs.length;
+
+    return {
+      text: cleanedText,
+      blocks: buildTextBlocks(paragraphs),
+      metadata: {
+        ...properties,
+        pages: properties.pages ?? estimatePageCount(cleanedText),
+        wordCount: countWords(cleanedText)
+      },
+      linearizedStructures: context.tables + context.textBoxes + headerFooterParagraphs > 0
+        ? { tables: context.tables, textBoxes: context.textBoxes, headerFooterParagraphs }
+        : undefined,
+      source: 'odt',
+      originalFileName: uploadedFile.metadata.name
+    };
+
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      throw error;
+    }
+
+    if (error instanceof Error && (error.message.includes('zip') || error.message.includes('central directory'))) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'Invalid ODT file. Please ensure the file is not corrupted and try again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    throw createUploadError(
+      UPLOAD_ERROR_CODES.PROCESSING_ERROR,
+      `Failed to parse ODT: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      uploadedFile.metadata.name
+    );
+  }
+}
+
+/**
+ * Reads a package part as text
+ * @param zip - Loaded package
+ * @param path - Part path inside the package
+ * @returns Part contents, or null when the part is absent
+ */
+async function readPart(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  return file ? file.async('string') : null;
+}
+
+/**
+ * Walks block-level content (paragraphs, headings, lists, tables, sections) in document order
+ * @param container - Element holding block content
+ * @param context - Resolved styles and structure counters
+ * @param paragraphs - Output list
+ * @param inList - Whether the content belongs to a list item
+ */
+function readBlocks(
+  container: XmlElement,
+  context: ODTContext,
+  paragraphs: ODTParagraph[],
+  inList: boolean
+): void {
+  for (const child of container.children) {
+    if (typeof child === 'string') continue;
+
+    switch (child.name) {
+      case 'text:p':
+      case 'text:h': {
+        const paragraph = readParagraph(child, context, inList);
+        if (paragraph) paragraphs.push(paragraph);
+
+        // Frames are anchored inside a paragraph; their text boxes follow the anchor
+        for (const textBox of findTextBoxes(child)) {
+          const before = paragraphs.length;
+          readBlocks(textBox, context, paragraphs, false);
+          if (paragraphs.length > before) context.textBoxes++;
+        }
+        break;
+      }
+      case 'text:list':
+        for (const item of child.children) {
+          if (typeof item !== 'string' && (item.name === 'text:list-item' || item.name === 'text:list-header')) {
+            readBlocks(item, context, paragraphs, item.name === 'text:list-item');
+          }
+        }
+        break;
+      case 'table:table':
+        readTable(child, context, paragraphs);
+        break;
+      case 'text:section':
+      case 'draw:text-box':
+        readBlocks(child, context, paragraphs, inList);
+        break;
+      // Tables of contents, tracked changes and sequence declarations are not resume content
+    }
+  }
+}
+
+/**
+ * Reads a table in row-major order, collapsing grid rows (one paragraph per cell) into one line
+ * @param table - table:table element
+ * @param context - Resolved styles and structure counters
+ * @param paragraphs - Output list
+ */
+function readTable(table: XmlElement, context: ODTContext, paragraphs: ODTParagraph[]): void {
+  const before = paragraphs.length;
+
+  for (const row of collectTableRows(table)) {
+    const cells = findChildren(row, 'table:table-cell').map(cell => {
+      const cellParagraphs: ODTParagraph[] = [];
+      readBlocks(cell, context, cellParagraphs, false);
+      return cellParagraphs;
+    });
+
+    const filled = cells.filter(cell => cell.length > 0);
+    const isGridRow = filled.length > 1 &&
+      filled.every(cell => cell.length === 1 && !cell[0].listItem && !cell[0].text.includes('\n'));
+
+    if (isGridRow) {
+      paragraphs.push({ ...filled[0][0], text: filled.map(cell => cell[0].text).join(ODT_CELL_SEPARATOR) });
+    } else {
+      filled.forEach(cell => paragraphs.push(...cell));
+    }
+  }
+
+  // Layout tables without text don't count as linearized content
+  if (paragraphs.length > before) context.tables++;
+}
+
+/**
+ * Collects table rows, including those nested in header rows and row groups
+ * @param element - Table or row group element
+ * @returns Row elements in document order
+ */
+function collectTableRows(element: XmlElement): XmlElement[] {
+  const rows: XmlElement[] = [];
+
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+
+    if (child.name === 'table:table-row') {
+      rows.push(child);
+    } else if (['table:table-header-rows', 'table:table-rows', 'table:table-row-group'].includes(child.name)) {
+      rows.push(...collectTableRows(child));
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Converts a text:p or text:h element into a paragraph
+ * @param element - Paragraph element
+ * @param context - Resolved styles
+ * @param listItem - Whether the paragraph belongs to a list item
+ * @returns Paragraph, or null when it carries no text
+ */
+function readParagraph(element: XmlElement, context: ODTContext, listItem: boolean): ODTParagraph | null {
+  const paragraphStyle = resolveStyle(element.attributes['text:style-name'], context.styles);
+  const segments: StyledText[] = [];
+  collectInlineText(element, paragraphStyle, context, segments);
+
+  const text = segments.map(segment => segment.text).join('').replace(/[ \t]+$/gm, '').trim();
+  if (text.length === 0) return null;
+
+  const outlineLevel = Number(element.attributes['text:outline-level'] ?? 1);
+
+  return {
+    text,
+    headingLevel: element.name === 'text:h' ? Math.min(6, Math.max(1, outlineLevel || 1)) : undefined,
+    listItem,
+    ...measureEmphasis(segments)
+  };
+}
+
+/**
+ * Collects inline text, expanding ODF whitespace elements and skipping notes and frames
+ * @param element - Paragraph or span element
+ * @param style - Style in effect for this element
+ * @param context - Resolved styles
+ * @param segments - Output list
+ */
+function collectInlineText(
+  element: XmlElement,
+  style: StyledText['style'],
+  context: ODTContext,
+  segments: StyledText[]
+): void {
+  for (const child of element.children) {
+    if (typeof child === 'string') {
+      // ODF collapses whitespace in text content; explicit spaces use text:s
+      segments.push({ text: child.replace(/\s+/g, ' '), style });
+      continue;
+    }
+
+    switch (child.name) {
+      case 'text:s':
+        segments.push({ text: ' '.repeat(Math.max(1, Number(child.attributes['text:c'] ?? 1))), style });
+        break;
+      case 'text:tab':
+        segments.push({ text: '\t', style });
+        break;
+      case 'text:line-break':
+        segments.push({ text: '\n', style });
+        break;
+      case 'text:note':
+      case 'office:annotation':
+      case 'draw:frame':
+      case 'draw:a':
+        // Footnotes and comments are not body text; frames are read as text boxes
+        break;
+      case 'text:span': {
+        const spanStyle = { ...style };
+        applyStyle(spanStyle, resolveStyle(child.attributes['text:style-name'], context.styles));
+        collectInlineText(child, spanStyle, context, segments);
+        break;
+      }
+      default:
+        // Links, fields and metadata wrappers carry their visible text as children
+        collectInlineText(child, style, context, segments);
+    }
+  }
+}
+
+/**
+ * Finds text boxes inside frames anchored in a paragraph
+ * @param element - Paragraph or nested element
+ * @returns draw:text-box elements in document order
+ */
+function findTextBoxes(element: XmlElement): XmlElement[] {
+  const matches: XmlElement[] = [];
+
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+
+    if (child.name === 'draw:text-box') {
+      // Nested text boxes are read when this one is walked
+      matches.push(child);
+    } else {
+      matches.push(...findTextBoxes(child));
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Reads header or footer content from the master pages in styles.xml
+ * @param stylesRoot - office:document-styles element
+ * @param kind - Header or footer
+ * @param context - Resolved styles and structure counters
+ * @param seenTexts - Normalized texts already emitted (updated in place)
+ * @returns Unique header/footer paragraphs
+ */
+function readMasterPageContent(
+  stylesRoot: XmlElement | undefined,
+  kind: 'header' | 'footer',
+  context: ODTContext,
+  seenTexts: Set<string>
+): ODTParagraph[] {
+  const masterStyles = findChild(stylesRoot, 'office:master-styles');
+  if (!masterStyles) return [];
+
+  const paragraphs: ODTParagraph[] = [];
+  const variants = [`style:${kind}`, `style:${kind}-first`, `style:${kind}-left`];
+
+  for (const masterPage of findChildren(masterStyles, 'style:master-page')) {
+    for (const variant of variants) {
+      const content = findChild(masterPage, variant);
+      if (!content) continue;
+
+      const partParagraphs: ODTParagraph[] = [];
+      readBlocks(content, context, partParagraphs, false);
+
+      for (const paragraph of partParagraphs) {
+        const key = normalizeKey(paragraph.text);
+        if (PAGE_NUMBER_LINE.test(key) || seenTexts.has(key)) continue;
+        seenTexts.add(key);
+        paragraphs.push(paragraph);
+      }
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Joins paragraphs into plain text, keeping list items together
+ * @param paragraphs - Paragraphs in reading order
+ * @returns Text with blank lines between paragraphs and single breaks within lists
+ */
+function paragraphsToText(paragraphs: ODTParagraph[]): string {
+  return paragraphs
+    .map((paragraph, index) => {
+      const separator = index === 0 ? '' : paragraph.listItem && paragraphs[index - 1].listItem ? '\n' : '\n\n';
+      return separator + formatParagraphText(paragraph);
+    })
+    .join('');
+}
+
+/**
+ * Returns a paragraph's text with its list marker
+ * @param paragraph - Paragraph
+ * @returns Display text
+ */
+function formatParagraphText(paragraph: ODTParagraph): string {
+  return paragraph.listItem ? `• ${paragraph.text}` : paragraph.text;
+}
+
+/**
+ * Builds style-annotated text blocks from ODT paragraphs
+ * @param paragraphs - Paragraphs in reading order
+ * @returns Text blocks carrying heading outline levels and font sizes
+ */
+function buildTextBlocks(paragraphs: ODTParagraph[]): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  for (const paragraph of paragraphs) {
+    const text = normalizeExtractedText(formatParagraphText(paragraph));
+    if (text.length === 0) continue;
+
+    blocks.push({
+      text,
+      fontSize: paragraph.fontSize,
+      bold: paragraph.bold,
+      italic: paragraph.italic,
+      page: 1,
+      order: blocks.length,
+      headingLevel: paragraph.headingLevel
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Weights font size and emphasis by character count
+ * @param segments - Styled text of one paragraph
+ * @returns Dominant font size and bold/italic flags
+ */
+function measureEmphasis(segments: StyledText[]): { fontSize: number; bold: boolean; italic: boolean } {
+  const sizeWeights = new Map<number, number>();
+  let totalChars = 0;
+  let boldChars = 0;
+  let italicChars = 0;
+
+  for (const segment of segments) {
+    const chars = segment.text.replace(/\s/g, '').length;
+    totalChars += chars;
+    if (segment.style.bold) boldChars += chars;
+    if (segment.style.italic) italicChars += chars;
+    sizeWeights.set(segment.style.fontSize, (sizeWeights.get(segment.style.fontSize) || 0) + chars);
+  }
+
+  let fontSize = ODT_DEFAULT_FONT_SIZE;
+  let maxWeight = -1;
+  sizeWeights.forEach((weight, size) => {
+    if (weight > maxWeight) {
+      maxWeight = weight;
+      fontSize = size;
+    }
+  });
+
+  return {
+    fontSize,
+    bold: totalChars > 0 && boldChars / totalChars >= STYLE_EMPHASIS_SHARE,
+    italic: totalChars > 0 && italicChars / totalChars >= STYLE_EMPHASIS_SHARE
+  };
+}
+
+/**
+ * Parses text properties of named and automatic styles
+ * @param container - office:styles or office:automatic-styles element
+ * @returns Map of style name to text properties
+ */
+function parseTextStyles(container: XmlElement | undefined): Map<string, ODTTextStyle> {
+  const styles = new Map<string, ODTTextStyle>();
+  if (!container) return styles;
+
+  for (const element of findChildren(container, 'style:style')) {
+    const name = element.attributes['style:name'];
+    if (!name) continue;
+
+    const properties = findChild(element, 'style:text-properties');
+    const weight = properties?.attributes['fo:font-weight'];
+    const fontStyle = properties?.attributes['fo:font-style'];
+    const size = properties?.attributes['fo:font-size']?.match(/^([\d.]+)pt$/);
+
+    styles.set(name, {
+      parent: element.attributes['style:parent-style-name'],
+      bold: weight ? weight === 'bold' || Number(weight) >= 600 : undefined,
+      italic: fontStyle ? fontStyle === 'italic' || fontStyle === 'oblique' : undefined,
+      fontSize: size ? Number(size[1]) : undefined
+    });
+  }
+
+  return styles;
+}
+
+/**
+ * Resolves a style's effective text properties through its parent chain
+ * @param name - Style name
+ * @param styles - Style map
+ * @returns Effective bold, italic and size
+ */
+function resolveStyle(name: string | undefined, styles: Map<string, ODTTextStyle>): StyledText['style'] {
+  const chain: ODTTextStyle[] = [];
+  let current = name ? styles.get(name) : undefined;
+
+  while (current && chain.length < MAX_STYLE_DEPTH && !chain.includes(current)) {
+    chain.push(current);
+    current = current.parent ? styles.get(current.parent) : undefined;
+  }
+
+  const resolved = { bold: false, italic: false, fontSize: ODT_DEFAULT_FONT_SIZE };
+  for (const style of chain.reverse()) {
+    applyStyle(resolved, style);
+  }
+  return resolved;
+}
+
+/**
+ * Copies explicitly set text properties onto a target
+ * @param target - Properties to update
+ * @param source - Properties to apply
+ */
+function applyStyle(target: StyledText['style'], source: ODTTextStyle): void {
+  if (source.bold !== undefined) target.bold = source.bold;
+  if (source.italic !== undefined) target.italic = source.italic;
+  if (source.fontSize !== undefined) target.fontSize = source.fontSize;
+}
+
+/**
+ * Reads document properties from meta.xml
+ * @param metaXml - meta.xml contents
+ * @returns Title, author, dates and the last recorded page count
+ */
+function parseMeta(metaXml: string | null): Partial<ParsedDocument['metadata']> {
+  const meta = metaXml
+    ? findChild(findChild(parseXML(metaXml), 'office:document-meta'), 'office:meta')
+    : undefined;
+  if (!meta) return {};
+
+  const properties: Partial<ParsedDocument['metadata']> = {};
+  const title = getTextContent(findChild(meta, 'dc:title')).trim();
+  const author = getTextContent(findChild(meta, 'meta:initial-creator') ?? findChild(meta, 'dc:creator')).trim();
+  const created = new Date(getTextContent(findChild(meta, 'meta:creation-date')).trim());
+  const modified = new Date(getTextContent(findChild(meta, 'dc:date')).trim());
+  const pages = Number(findChild(meta, 'meta:document-statistic')?.attributes['meta:page-count']);
+
+  if (title) properties.title = title;
+  if (author) properties.author = author;
+  if (!isNaN(created.getTime())) properties.creationDate = created;
+  if (!isNaN(modified.getTime())) properties.modificationDate = modified;
+  if (Number.isFinite(pages) && pages > 0) properties.pages = pages;
+
+  return properties;
+}
+
+/**
+ * Normalizes paragraph text for duplicate detection
+ * @param text - Paragraph text
+ * @returns Comparison key
+ */
+function normalizeKey(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
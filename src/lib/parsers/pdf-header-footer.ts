@@ -0,0 +1,195 @@
+// Header/footer detection for multi-page PDFs (PRD Principle 7.1.4)
+import type { LayoutLine, PageLayout } from './pdf-layout';
+
+export interface RemovedPageArtifact {
+  text: string;
+  position: 'header' | 'footer';
+  kind: 'repeated' | 'page_number';
+  pages: number[];
+}
+
+export interface PageArtifacts {
+  relocatedContent: string[];
+  removed: RemovedPageArtifact[];
+}
+
+const MARGIN_BAND_RATIO = 0.1; // Top/bottom 10% of the page is treated as header/footer territory
+const MAX_BAND_LINES = 3; // Only the outermost lines of each band are candidates
+const MIN_REPEAT_SHARE = 0.5; // A line must repeat on at least half the pages
+const MIN_PAGE_SEQUENCE = 2; // Bare numbers must count the pages on at least this many pages to be page numbers
+
+// Page number phrasing, matched against text with digits normalized to '#'
+const PAGE_NUMBER_LINE = /^[-–—\s]*(page\s*)?#(\s*(of|\/)\s*#)?[-–—\s]*$/i;
+// "Page 2" and "2 of 5" are page numbers on their own; a bare "2" could be any figure
+const EXPLICIT_PAGE_NUMBER = /page|#\s*(of|\/)\s*#/i;
+const PAGE_NUMBER_FRAGMENT = /[\s|•·,–—-]*\bpage\s*\d+(\s*(of|\/)\s*\d+)?\b[\s|•·,–—-]*/gi;
+
+/**
+ * Removes repeated page headers/footers and page numbers from page layouts
+ * @param pages - Page layouts in document order
+ * @returns Cleaned pages plus a record of what was removed or should be relocated
+ */
+export function extractHeadersAndFooters(pages: PageLayout[]): {
+  pages: PageLayout[];
+  artifacts: PageArtifacts;
+} {
+  const artifacts: PageArtifacts = { relocatedContent: [], removed: [] };
+  const removedLines = new Set<LayoutLine>();
+
+  // Collect candidate lines from each page's top and bottom bands
+  const candidates = new Map<string, {
+    position: 'header' | 'footer';
+    lines: LayoutLine[];
+    pages: Set<number>;
+  }>();
+  const pageNumberLines: {
+    line: LayoutLine;
+    page: number;
+    position: 'header' | 'footer';
+    explicit: boolean;
+    offset: number; // Printed number minus page number, constant along a page sequence
+  }[] = [];
+
+  for (const page of pages) {
+    for (const { line, position } of getBandLines(page)) {
+      const key = normalizeArtifactKey(line.text);
+
+      if (PAGE_NUMBER_LINE.test(key)) {
+        pageNumberLines.push({
+          line,
+          page: page.pageNumber,
+          position,
+          explicit: EXPLICIT_PAGE_NUMBER.test(key),
+          offset: Number(line.text.match(/\d+/)?.[0]) - page.pageNumber
+        });
+        continue;
+      }
+
+      const candidateKey = `${position}:${key}`;
+      const candidate = candidates.get(candidateKey) || { position, lines: [], pages: new Set<number>() };
+      candidate.lines.push(line);
+      candidate.pages.add(page.pageNumber);
+      candidates.set(candidateKey, candidate);
+    }
+  }
+
+  // Explicit page numbers are dropped everywhere; bare numbers only where they count the pages
+  // (a cover page may shift the count), so a lone "2024" or "3" in the margin stays
+  if (pageNumberLines.length > 0) {
+    for (const position of ['header', 'footer'] as const) {
+      const entries = pageNumberLines.filter(entry => entry.position === position);
+      const offsetCounts = new Map<number, number>();
+      entries
+        .filter(entry => !entry.explicit)
+        .forEach(entry => offsetCounts.set(entry.offset, (offsetCounts.get(entry.offset) ?? 0) + 1));
+
+      const matches = entries.filter(entry =>
+        entry.explicit || (offsetCounts.get(entry.offset) ?? 0) >= MIN_PAGE_SEQUENCE
+      );
+      if (matches.length === 0) continue;
+
+      matches.forEach(entry => removedLines.add(entry.line));
+      artifacts.removed.push({
+        text: matches[0].line.text,
+        position,
+        kind: 'page_number',
+        pages: matches.map(entry => entry.page)
+      });
+    }
+  }
+
+  // Lines repeated across pages are removed; their unique content is kept once for relocation
+  if (pages.length >= 2) {
+    const minPages = Math.max(2, Math.ceil(pages.length * MIN_REPEAT_SHARE));
+
+    // Headers first so relocated content keeps top-of-page order
+    const ordered = [...candidates.values()].sort((a, b) =>
+      a.position === b.position ? 0 : a.position === 'header' ? -1 : 1
+    );
+
+    ordered.forEach(candidate => {
+      if (candidate.pages.size < minPages) return;
+
+      candidate.lines.forEach(line => removedLines.add(line));
+      artifacts.removed.push({
+        text: candidate.lines[0].text,
+        position: candidate.position,
+        kind: 'repeated',
+        pages: [...candidate.pages]
+      });
+
+      const content = stripPageNumbers(candidate.lines[0].text);
+      const alreadyKept = artifacts.relocatedContent.some(
+        existing => existing.toLowerCase() === content.toLowerCase()
+      );
+      if (content.length > 0 && !alreadyKept) {
+        artifacts.relocatedContent.push(content);
+      }
+    });
+  }
+
+  if (removedLines.size === 0) {
+    return { pages, artifacts };
+  }
+
+  const cleanedPages = pages.map(page => {
+    const lines = page.lines.filter(line => !removedLines.has(line));
+    // The first remaining line always opens a paragraph
+    if (lines.length > 0 && lines[0] !== page.lines[0]) {
+      lines[0] = { ...lines[0], paragraphStart: true };
+    }
+    return { ...page, lines };
+  });
+
+  return { pages: cleanedPages, artifacts };
+}
+
+/**
+ * Picks the outermost lines in a page's top and bottom margin bands
+ * @param page - Page layout to inspect
+ * @returns Candidate lines tagged with their band
+ */
+function getBandLines(page: PageLayout): { line: LayoutLine; position: 'header' | 'footer' }[] {
+  const topLimit = page.height * (1 - MARGIN_BAND_RATIO);
+  const bottomLimit = page.height * MARGIN_BAND_RATIO;
+
+  const headerLines = page.lines
+    .filter(line => line.y >= topLimit)
+    .sort((a, b) => b.y - a.y)
+    .slice(0, MAX_BAND_LINES);
+  const footerLines = page.lines
+    .filter(line => line.y <= bottomLimit)
+    .sort((a, b) => a.y - b.y)
+    .slice(0, MAX_BAND_LINES);
+
+  return [
+    ...headerLines.map(line => ({ line, position: 'header' as const })),
+    ...footerLines.map(line => ({ line, position: 'footer' as const }))
+  ];
+}
+
+/**
+ * Normalizes header/footer text so lines differing only by page number compare equal
+ * @param text - Line text
+ * @returns Comparison key
+ */
+function normalizeArtifactKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\d+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Removes "Page X of Y" fragments and dangling separators from a header/footer line
+ * @param text - Line text
+ * @returns Text without page numbering
+ */
+function stripPageNumbers(text: string): string {
+  return text
+    .replace(PAGE_NUMBER_FRAGMENT, ' ')
+    .replace(/^[\s|•·,–—-]+|[\s|•·,–—-]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,422 @@
+// Layout reconstruction for PDF text content using glyph coordinates (PRD Principle 7.1.1)
+
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontName?: string;
+}
+
+export interface FontStyle {
+  bold: boolean;
+  italic: boolean;
+}
+
+export type ColumnPosition = 'full' | 'left' | 'right';
+
+export interface LayoutLine {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  column: ColumnPosition;
+  paragraphStart: boolean;
+  runs: PositionedText[];
+}
+
+export interface PageLayout {
+  pageNumber: number;
+  width: number;
+  height: number;
+  columnCount: 1 | 2;
+  lines: LayoutLine[];
+}
+
+// Tuning constants expressed relative to font height or page width
+const LINE_TOLERANCE_RATIO = 0.5; // Baselines closer than half a glyph height share a line
+const WORD_GAP_RATIO = 0.15; // Horizontal gap that implies a missing space
+const PARAGRAPH_GAP_RATIO = 1.6; // Vertical gap (vs. typical line spacing) that starts a paragraph
+const INDENT_RATIO = 1.5; // First-line indent (vs. glyph height) that starts a paragraph
+const MIN_COLUMN_GAP_RATIO = 0.03; // Minimum empty vertical band to count as a column gutter
+const COLUMN_SEARCH_START = 0.2; // Gutter must lie between 20% ...
+const COLUMN_SEARCH_END = 0.8; // ... and 80% of the page width
+const MIN_COLUMN_SHARE = 0.15; // Each column must hold at least 15% of the text runs
+const WIDE_RUN_RATIO = 0.6; // Runs wider than this share of the page are treated as full-width
+
+/**
+ * Converts PDF.js text content items into positioned text runs
+ * @param items - Items from page.getTextContent()
+ * @returns Array of runs with baseline coordinates (PDF units, origin bottom-left)
+ */
+export function extractPositionedText(items: unknown[]): PositionedText[] {
+  const runs: PositionedText[] = [];
+
+  for (const item of items) {
+    if (!isTextItem(item)) continue;
+    if (item.str.trim().length === 0) continue;
+
+    const [scaleX, skewY, , scaleY, x, y] = item.transform;
+    // Glyph height comes from the text matrix when PDF.js reports zero height
+    const height = item.height > 0 ? item.height : Math.hypot(scaleY, skewY) || Math.abs(scaleX) || 10;
+
+    runs.push({
+      text: item.str,
+      x,
+      y,
+      width: item.width,
+      height,
+      fontName: item.fontName
+    });
+  }
+
+  return runs;
+}
+
+/**
+ * Rebuilds lines, paragraphs and reading order for a single page
+ * @param runs - Positioned text runs for the page
+ * @param pageWidth - Page width in PDF units
+ * @param pageHeight - Page height in PDF units
+ * @param pageNumber - 1-based page number
+ * @returns Page layout with lines in single-column reading order
+ */
+export function buildPageLayout(
+  runs: PositionedText[],
+  pageWidth: number,
+  pageHeight: number,
+  pageNumber: number
+): PageLayout {
+  const gutter = detectColumnGutter(runs, pageWidth);
+
+  if (gutter === null) {
+    const lines = groupIntoLines(runs, 'full');
+    markParagraphs(lines);
+
+    return { pageNumber, width: pageWidth, height: pageHeight, columnCount: 1, lines };
+  }
+
+  // Split runs by which side of the gutter they sit on; runs crossing it span both columns
+  const full: PositionedText[] = [];
+  const left: PositionedText[] = [];
+  const right: PositionedText[] = [];
+
+  for (const run of runs) {
+    if (run.x < gutter.start && run.x + run.width > gutter.end) {
+      full.push(run);
+    } else if (run.x + run.width / 2 < (gutter.start + gutter.end) / 2) {
+      left.push(run);
+    } else {
+      right.push(run);
+    }
+  }
+
+  const fullLines = groupIntoLines(full, 'full');
+  const leftLines = groupIntoLines(left, 'left');
+  const rightLines = groupIntoLines(right, 'right');
+
+  markParagraphs(fullLines);
+  markParagraphs(leftLines);
+  markParagraphs(rightLines);
+
+  const lines = mergeReadingOrder(fullLines, leftLines, rightLines);
+
+  return { pageNumber, width: pageWidth, height: pageHeight, columnCount: 2, lines };
+}
+
+/**
+ * Serializes page layouts into plain text with line and paragraph breaks
+ * @param pages - Page layouts in document order
+ * @returns Linearized single-column text
+ */
+export function layoutToText(pages: PageLayout[]): string {
+  return pages
+    .map(page => page.lines
+      .map((line, index) => (index > 0 && line.paragraphStart ? '\n' : '') + line.text)
+      .join('\n'))
+    .filter(pageText => pageText.trim().length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Summarizes the dominant font size and weight of a line, weighted by character count
+ * @param line - Layout line to describe
+ * @param fontStyles - Resolved styles keyed by PDF.js font name
+ * @returns Font size and style flags for the line
+ */
+export function describeLineStyle(
+  line: LayoutLine,
+  fontStyles: Map<string, FontStyle>
+): { fontSize: number; bold: boolean; italic: boolean } {
+  let totalChars = 0;
+  let boldChars = 0;
+  let italicChars = 0;
+  let weightedSize = 0;
+
+  for (const run of line.runs) {
+    const chars = run.text.trim().length;
+    const style = run.fontName ? fontStyles.get(run.fontName) : undefined;
+
+    totalChars += chars;
+    weightedSize += run.height * chars;
+    if (style?.bold) boldChars += chars;
+    if (style?.italic) italicChars += chars;
+  }
+
+  if (totalChars === 0) {
+    return { fontSize: Math.round(line.height * 2) / 2, bold: false, italic: false };
+  }
+
+  return {
+    fontSize: Math.round((weightedSize / totalChars) * 2) / 2,
+    bold: boldChars / totalChars >= 0.6,
+    italic: italicChars / totalChars >= 0.6
+  };
+}
+
+/**
+ * Infers bold/italic flags from a PDF font name such as "ABCDEF+Arial-BoldItalicMT"
+ * @param fontName - Font name reported by the PDF
+ * @returns Font style flags
+ */
+export function inferFontStyle(fontName: string): FontStyle {
+  return {
+    bold: /bold|black|heavy|semibold|demi|[-,]b(d|old)?$/i.test(fontName),
+    italic: /italic|oblique|[-,]it$/i.test(fontName)
+  };
+}
+
+/**
+ * Finds an empty vertical band that separates two text columns
+ * @param runs - Positioned text runs for the page
+ * @param pageWidth - Page width in PDF units
+ * @returns Gutter bounds or null for single-column pages
+ */
+function detectColumnGutter(
+  runs: PositionedText[],
+  pageWidth: number
+): { start: number; end: number } | null {
+  if (runs.length < 10 || pageWidth <= 0) return null;
+
+  // Full-width runs (names, headers, rules) would hide the gutter, so ignore them
+  const candidates = runs.filter(run => run.width < pageWidth * WIDE_RUN_RATIO);
+  if (candidates.length < 10) return null;
+
+  // Build a one-unit coverage histogram across the page width
+  const bins = Math.ceil(pageWidth);
+  const coverage = new Uint16Array(bins + 1);
+  for (const run of candidates) {
+    const from = Math.max(0, Math.floor(run.x));
+    const to = Math.min(bins, Math.ceil(run.x + run.width));
+    for (let i = from; i <= to; i++) coverage[i]++;
+  }
+
+  const searchStart = Math.floor(pageWidth * COLUMN_SEARCH_START);
+  const searchEnd = Math.ceil(pageWidth * COLUMN_SEARCH_END);
+  let best: { start: number; end: number } | null = null;
+  let runStart = -1;
+
+  for (let i = searchStart; i <= searchEnd; i++) {
+    if (coverage[i] === 0) {
+      if (runStart === -1) runStart = i;
+      continue;
+    }
+    if (runStart !== -1) {
+      if (!best || i - runStart > best.end - best.start) {
+        best = { start: runStart, end: i };
+      }
+      runStart = -1;
+    }
+  }
+  if (runStart !== -1 && (!best || searchEnd - runStart > best.end - best.start)) {
+    best = { start: runStart, end: searchEnd };
+  }
+
+  if (!best || best.end - best.start < pageWidth * MIN_COLUMN_GAP_RATIO) return null;
+
+  // Both sides need a meaningful amount of text to be real columns
+  const gutter = best;
+  const leftCount = candidates.filter(run => run.x + run.width <= gutter.start).length;
+  const rightCount = candidates.filter(run => run.x >= gutter.end).length;
+  const minCount = candidates.length * MIN_COLUMN_SHARE;
+
+  if (leftCount < minCount || rightCount < minCount) return null;
+
+  return gutter;
+}
+
+/**
+ * Groups runs sharing a baseline into lines, ordered top to bottom
+ * @param runs - Runs belonging to one column region
+ * @param column - Column the runs belong to
+ * @returns Lines with runs joined left to right
+ */
+function groupIntoLines(runs: PositionedText[], column: ColumnPosition): LayoutLine[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: PositionedText[][] = [];
+
+  for (const run of sorted) {
+    const current = groups[groups.length - 1];
+    if (current) {
+      const anchor = current[0];
+      const tolerance = Math.max(anchor.height, run.height) * LINE_TOLERANCE_RATIO;
+      if (Math.abs(anchor.y - run.y) <= tolerance) {
+        current.push(run);
+        continue;
+      }
+    }
+    groups.push([run]);
+  }
+
+  return groups.map(group => {
+    const lineRuns = group.sort((a, b) => a.x - b.x);
+    const x = lineRuns[0].x;
+    const lastRun = lineRuns[lineRuns.length - 1];
+
+    return {
+      text: joinRuns(lineRuns),
+      x,
+      y: Math.max(...lineRuns.map(run => run.y)),
+      width: lastRun.x + lastRun.width - x,
+      height: Math.max(...lineRuns.map(run => run.height)),
+      column,
+      paragraphStart: false,
+      runs: lineRuns
+    };
+  });
+}
+
+/**
+ * Joins runs on one line, inserting spaces where glyph gaps imply them
+ * @param runs - Runs sorted left to right
+ * @returns Line text
+ */
+function joinRuns(runs: PositionedText[]): string {
+  let text = '';
+  let previous: PositionedText | null = null;
+
+  for (const run of runs) {
+    if (previous) {
+      const gap = run.x - (previous.x + previous.width);
+      const needsSpace = gap > Math.max(previous.height, run.height) * WORD_GAP_RATIO;
+      if (needsSpace && !text.endsWith(' ') && !run.text.startsWith(' ')) {
+        text += ' ';
+      }
+    }
+    text += run.text;
+    previous = run;
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Flags lines that start a new paragraph based on vertical gaps and indentation
+ * @param lines - Lines of one column region, top to bottom
+ */
+function markParagraphs(lines: LayoutLine[]): void {
+  if (lines.length === 0) return;
+
+  const gaps: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    gaps.push(lines[i - 1].y - lines[i].y);
+  }
+  const typicalGap = median(gaps.filter(gap => gap > 0));
+  const leftMargin = Math.min(...lines.map(line => line.x));
+
+  lines[0].paragraphStart = true;
+
+  for (let i = 1; i < lines.length; i++) {
+    const previous = lines[i - 1];
+    const line = lines[i];
+    const gap = previous.y - line.y;
+
+    const largeGap = typicalGap > 0 && gap > typicalGap * PARAGRAPH_GAP_RATIO;
+    const indented = line.x - leftMargin > line.height * INDENT_RATIO &&
+      previous.x - leftMargin <= previous.height * INDENT_RATIO &&
+      !isBulletLine(previous.text);
+
+    line.paragraphStart = largeGap || indented;
+  }
+}
+
+/**
+ * Interleaves column lines into reading order: full-width lines act as
+ * separators, and each band between them is read left column first
+ * @param fullLines - Lines spanning the gutter
+ * @param leftLines - Lines in the left column
+ * @param rightLines - Lines in the right column
+ * @returns Lines in single-column reading order
+ */
+function mergeReadingOrder(
+  fullLines: LayoutLine[],
+  leftLines: LayoutLine[],
+  rightLines: LayoutLine[]
+): LayoutLine[] {
+  const ordered: LayoutLine[] = [];
+  let leftIndex = 0;
+  let rightIndex = 0;
+
+  const flushBand = (lowerBound: number) => {
+    const bandStart = ordered.length;
+    while (leftIndex < leftLines.length && leftLines[leftIndex].y > lowerBound) {
+      ordered.push(leftLines[leftIndex++]);
+    }
+    const rightStart = ordered.length;
+    while (rightIndex < rightLines.length && rightLines[rightIndex].y > lowerBound) {
+      ordered.push(rightLines[rightIndex++]);
+    }
+    // Switching columns always begins a new paragraph
+    if (rightStart > bandStart && rightStart < ordered.length) {
+      ordered[rightStart].paragraphStart = true;
+    }
+  };
+
+  for (const fullLine of fullLines) {
+    flushBand(fullLine.y);
+    ordered.push(fullLine);
+  }
+  flushBand(-Infinity);
+
+  return ordered;
+}
+
+/**
+ * Checks whether a line starts with a bullet or list marker
+ * @param text - Line text
+ * @returns Boolean indicating a bullet line
+ */
+function isBulletLine(text: string): boolean {
+  return /^[•·▪▫■□‣⁃○◦\-*]\s*/.test(text);
+}
+
+/**
+ * Computes the median of a list of numbers
+ * @param values - Numbers to summarize
+ * @returns Median value, or 0 for an empty list
+ */
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Type guard for PDF.js TextItem objects
+ * @param item - Item from text content
+ * @returns Boolean indicating a positioned text item
+ */
+function isTextItem(item: unknown): item is {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  fontName?: string;
+} {
+  return typeof item === 'object' && item !== null &&
+    'str' in item && typeof (item as { str: unknown }).str === 'string' &&
+    'transform' in item && Array.isArray((item as { transform: unknown }).transform);
+}
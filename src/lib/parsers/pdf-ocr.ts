@@ -0,0 +1,150 @@
+// In-browser OCR fallback for image-only PDFs using a bundled Tesseract.js engine
+import { loadLibrary } from '@/lib/performance/lazy-loader';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+export interface OCRResult {
+  text: string;
+  confidence: number;
+  pageConfidences: number[];
+}
+
+export type OCRPageProgressCallback = (page: number, totalPages: number, pageProgress: number) => void;
+
+// Engine assets are emitted by the bundler, so nothing is fetched from a CDN
+const OCR_WORKER_URL = new URL('tesseract.js/dist/worker.min.js', import.meta.url).toString();
+const OCR_CORE_SIMD_URL = new URL('tesseract.js-core/tesseract-core-simd-lstm.wasm.js', import.meta.url).toString();
+const OCR_CORE_URL = new URL('tesseract.js-core/tesseract-core-lstm.wasm.js', import.meta.url).toString();
+const OCR_LANGUAGE_URL = new URL('@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz', import.meta.url).toString();
+
+const OCR_TARGET_SCALE = 2.5; // Roughly 180 DPI for US Letter/A4 pages
+const OCR_MAX_DIMENSION = 3000; // Cap canvas size to keep memory use predictable
+
+// Smallest module using a SIMD instruction (same probe as wasm-feature-detect)
+const WASM_SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11
+]);
+
+/**
+ * Renders each PDF page to a canvas and recognizes its text locally
+ * @param pdf - Loaded PDF.js document
+ * @param onPageProgress - Optional per-page progress callback (pageProgress 0-1)
+ * @returns Recognized text and mean confidence (0-100)
+ */
+export async function recognizePDFPages(
+  pdf: PDFDocumentProxy,
+  onPageProgress?: OCRPageProgressCallback
+): Promise<OCRResult> {
+  const tesseract = await loadLibrary.ocr() as typeof import('tesseract.js');
+  const languageData = await loadLanguageData();
+
+  let currentPage = 1;
+  const worker = await tesseract.createWorker(
+    [{ code: 'eng', data: languageData }],
+    tesseract.OEM.LSTM_ONLY,
+    {
+      workerPath: OCR_WORKER_URL,
+      corePath: supportsWasmSimd() ? OCR_CORE_SIMD_URL : OCR_CORE_URL,
+      workerBlobURL: false,
+      // Never persist language data or results in IndexedDB
+      cacheMethod: 'none',
+      logger: message => {
+        if (message.status === 'recognizing text') {
+          onPageProgress?.(currentPage, pdf.numPages, message.progress);
+        }
+      }
+    }
+  );
+
+  const pageTexts: string[] = [];
+  const pageConfidences: number[] = [];
+
+  try {
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      currentPage = pageNum;
+      onPageProgress?.(pageNum, pdf.numPages, 0);
+
+      const canvas = await renderPageToCanvas(pdf, pageNum);
+      try {
+        const { data } = await worker.recognize(canvas);
+        pageTexts.push(data.text.trim());
+        pageConfidences.push(data.confidence);
+      } finally {
+        // Release the bitmap memory immediately
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+
+      onPageProgress?.(pageNum, pdf.numPages, 1);
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  const confidence = pageConfidences.length > 0
+    ? pageConfidences.reduce((sum, value) => sum + value, 0) / pageConfidences.length
+    : 0;
+
+  return {
+    text: pageTexts.filter(text => text.length > 0).join('\n\n'),
+    confidence: Math.round(confidence),
+    pageConfidences
+  };
+}
+
+/**
+ * Renders a PDF page onto an offscreen canvas at OCR-friendly resolution
+ * @param pdf - Loaded PDF.js document
+ * @param pageNum - 1-based page number
+ * @returns Canvas containing the rendered page
+ */
+async function renderPageToCanvas(pdf: PDFDocumentProxy, pageNum: number): Promise<HTMLCanvasElement> {
+  const page = await pdf.getPage(pageNum);
+  const baseViewport = page.getViewport({ scale: 1 });
+  const scale = Math.min(
+    OCR_TARGET_SCALE,
+    OCR_MAX_DIMENSION / Math.max(baseViewport.width, baseViewport.height)
+  );
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas rendering is not supported in this browser');
+  }
+
+  // White background so transparent scans don't OCR as black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvasContext: context, canvas, viewport }).promise;
+  page.cleanup();
+
+  return canvas;
+}
+
+/**
+ * Loads the bundled English traineddata file
+ * @returns Gzipped language data
+ */
+async function loadLanguageData(): Promise<Uint8Array> {
+  const response = await fetch(OCR_LANGUAGE_URL);
+  if (!response.ok) {
+    throw new Error(`OCR language data could not be loaded (status ${response.status})`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Detects WebAssembly SIMD support to pick the faster OCR core
+ * @returns Boolean indicating SIMD support
+ */
+function supportsWasmSimd(): boolean {
+  try {
+    return typeof WebAssembly === 'object' && WebAssembly.validate(WASM_SIMD_PROBE);
+  } catch {
+    return false;
+  }
+}
@@ -4,13 +4,46 @@ import type { UploadedFile } from '@/types/file-upload';
 
 // Use performance-optimized lazy loader
 import { loadLibrary } from '@/lib/performance/lazy-loader';
+import {
+  extractPositionedText,
+  buildPageLayout,
+  layoutToText,
+  describeLineStyle,
+  inferFontStyle,
+  type FontStyle,
+  type PageLayout,
+  type PositionedText
+} from './pdf-layout';
+import { extractHeadersAndFooters, type PageArtifacts } from './pdf-header-footer';
+import { recognizePDFPages, type OCRPageProgressCallback } from './pdf-ocr';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { ResumeData } from '@/types/resume';
 
 async function loadPDFJS() {
   return loadLibrary.pdfjs();
 }
 
+// PDF.js PasswordResponses.INCORRECT_PASSWORD
+const PDF_INCORRECT_PASSWORD = 2;
+
+export interface TextBlock {
+  text: string;
+  fontSize: number;
+  bold: boolean;
+  italic: boolean;
+  page: number;
+  order: number;
+  headingLevel?: number;
+  styleName?: string;
+  position?: {
+    x: number;
+    y: number;
+  };
+}
+
 export interface ParsedDocument {
   text: string;
+  blocks?: TextBlock[];
   metadata: {
     title?: string;
     author?: string;
@@ -20,17 +53,37 @@ export interface ParsedDocument {
     modificationDate?: Date;
     pages: number;
     wordCount: number;
+    multiColumnPages?: number;
   };
-  source: 'pdf' | 'docx';
+  pageArtifacts?: PageArtifacts;
+  linearizedStructures?: {
+    tables: number;
+    textBoxes: number;
+    headerFooterParagraphs: number;
+  };
+  ocr?: {
+    confidence: number;
+    pageConfidences: number[];
+  };
+  // Structured data supplied by the file itself (JSON Resume imports)
+  resume?: ResumeData;
+  source: 'pdf' | 'docx' | 'rtf' | 'odt' | 'txt' | 'md' | 'json';
   originalFileName: string;
 }
 
+export interface ParseOptions {
+  password?: string;
+  enableOCR?: boolean;
+  onOCRProgress?: OCRPageProgressCallback;
+}
+
 /**
  * Parses PDF file and extracts text content for ATS optimization
  * @param uploadedFile - File with ArrayBuffer ready for parsing
+ * @param options - Optional password and OCR settings
  * @returns Promise resolving to ParsedDocument
  */
-export async function parsePDF(uploadedFile: UploadedFile): Promise<ParsedDocument> {
+export async function parsePDF(uploadedFile: UploadedFile, options: ParseOptions = {}): Promise<ParsedDocument> {
   try {
     if (!uploadedFile.buffer) {
       throw createUploadError(
@@ -44,35 +97,58 @@ export async function parsePDF(uploadedFile: UploadedFile): Promise<ParsedDocume
     const pdfjs = await loadPDFJS() as typeof import('pdfjs-dist');
 
     // Load PDF document using pdfjs-dist
-    const pdf = await pdfjs.getDocument({ data: uploadedFile.buffer }).promise;
+    // PDF.js transfers the data to its worker, so pass a copy to keep the buffer reusable for retries
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(uploadedFile.buffer.slice(0)),
+      password: options.password,
+      // Inside the processing worker there is no document to register font faces on
+      disableFontFace: typeof document === 'undefined'
+    }).promise;
     
-    let allText = '';
-    const pageTexts: string[] = [];
+    const pageLayouts: PageLayout[] = [];
+    const fontStyles = new Map<string, FontStyle>();
 
-    // Extract text from all pages
+    // Rebuild lines, paragraphs and reading order from glyph coordinates
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
       const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: 1 });
       const textContent = await page.getTextContent();
       
-      const pageText = textContent.items
-        .map((item: unknown) => 
-          typeof item === 'object' && item !== null && 'str' in item 
-            ? String((item as { str: string }).str) 
-            : ''
-        )
-        .filter((text: string) => text.length > 0)
-        .join(' ');
-      
-      pageTexts.push(pageText);
-      allText += pageText + '\n';
+      const runs = extractPositionedText(textContent.items);
+      pageLayouts.push(buildPageLayout(runs, viewport.width, viewport.height, pageNum));
+
+      await resolveFontStyles(page, runs, textContent.styles, fontStyles);
     }
 
+    // Strip repeated page headers/footers and page numbers before linearizing
+    const { pages: bodyLayouts, artifacts: pageArtifacts } = extractHeadersAndFooters(pageLayouts);
+    let allText = layoutToText(bodyLayouts);
+    let ocr: ParsedDocument['ocr'];
+
     if (!allText || allText.trim().length === 0) {
-      throw createUploadError(
-        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
-        'No text content found in PDF. The file may be image-based or corrupted.',
-        uploadedFile.metadata.name
-      );
+      if (!options.enableOCR) {
+        throw createUploadError(
+          UPLOAD_ERROR_CODES.IMAGE_ONLY_PDF,
+          'No text content found in PDF. The file appears to be image-based (scanned). You can run on-device text recognition (OCR) to extract it.',
+          uploadedFile.metadata.name
+        );
+      }
+
+      // Scanned resume: recognize text from rendered pages without leaving the browser
+      const ocrResult = await recognizePDFPages(pdf, options.onOCRProgress);
+      allText = ocrResult.text;
+      ocr = {
+        confidence: ocrResult.confidence,
+        pageConfidences: ocrResult.pageConfidences
+      };
+
+      if (allText.trim().length === 0) {
+        throw createUploadError(
+          UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+          'No text could be recognized in this PDF. The scan may be too low quality or the file may be corrupted.',
+          uploadedFile.metadata.name
+        );
+      }
     }
 
     // Extract metadata
@@ -85,9 +161,13 @@ export async function parsePDF(uploadedFile: UploadedFile): Promise<ParsedDocume
     // Calculate word count
     const wordCount = countWords(cleanedText);
 
+    // Carry font size and weight per line for heading detection (not available for OCR text)
+    const blocks = ocr ? undefined : buildTextBlocks(bodyLayouts, fontStyles);
+
     // Create parsed document object
     const parsedDocument: ParsedDocument = {
       text: cleanedText,
+      blocks,
       metadata: {
         title: typeof info.Title === 'string' ? info.Title : undefined,
         author: typeof info.Author === 'string' ? info.Author : undefined,
@@ -96,8 +176,11 @@ export async function parsePDF(uploadedFile: UploadedFile): Promise<ParsedDocume
         creationDate: typeof info.CreationDate === 'string' ? new Date(info.CreationDate) : undefined,
         modificationDate: typeof info.ModDate === 'string' ? new Date(info.ModDate) : undefined,
         pages: pdf.numPages,
-        wordCount
+        wordCount,
+        multiColumnPages: pageLayouts.filter(layout => layout.columnCount > 1).length
       },
+      pageArtifacts,
+      ocr,
       source: 'pdf',
       originalFileName: uploadedFile.metadata.name
     };
@@ -120,10 +203,14 @@ export async function parsePDF(uploadedFile: UploadedFile): Promise<ParsedDocume
         );
       }
       
-      if (error.message.includes('password') || error.message.includes('encrypted')) {
+      if (error.name === 'PasswordException' || error.message.includes('password') || error.message.includes('encrypted')) {
+        const isIncorrect = (error as Error & { code?: number }).code === PDF_INCORRECT_PASSWORD;
+        
         throw createUploadError(
-          UPLOAD_ERROR_CODES.PROCESSING_ERROR,
-          'Password-protected PDFs are not supported. Please upload an unprotected version.',
+          isIncorrect ? UPLOAD_ERROR_CODES.INCORRECT_PASSWORD : UPLOAD_ERROR_CODES.PASSWORD_REQUIRED,
+          isIncorrect
+            ? 'Incorrect password. Please check the password and try again.'
+            : 'This PDF is password-protected. Enter the password to unlock it in your browser.',
           uploadedFile.metadata.name
         );
       }
@@ -138,6 +225,117 @@ export async function parsePDF(uploadedFile: UploadedFile): Promise<ParsedDocume
   }
 }
 
+/**
+ * Resolves bold/italic flags for the fonts used on a page, loading the page's operator list
+ * only for fonts the text content leaves ambiguous
+ * @param page - PDF.js page proxy
+ * @param runs - The page's positioned text runs
+ * @param textStyles - Text styles reported by getTextContent()
+ * @param fontStyles - Shared map to fill, keyed by font name
+ */
+async function resolveFontStyles(
+  page: PDFPageProxy,
+  runs: PositionedText[],
+  textStyles: Record<string, { fontFamily?: string }>,
+  fontStyles: Map<string, FontStyle>
+): Promise<void> {
+  const charCounts = new Map<string, number>();
+  runs.forEach(run => {
+    if (run.fontName && !fontStyles.has(run.fontName)) {
+      charCounts.set(run.fontName, (charCounts.get(run.fontName) ?? 0) + run.text.length);
+    }
+  });
+  if (charCounts.size === 0) return;
+
+  // Fonts loaded for an earlier page, or named after their weight, need no operator list
+  const ambiguous: string[] = [];
+  for (const name of charCounts.keys()) {
+    const loaded = readLoadedFontStyle(page, name);
+    const inferred = inferFontStyle(textStyles[name]?.fontFamily || name);
+    if (loaded || inferred.bold || inferred.italic) {
+      fontStyles.set(name, loaded ?? inferred);
+    } else {
+      ambiguous.push(name);
+    }
+  }
+  if (ambiguous.length === 0) return;
+
+  // The page's most used font is body text; only other fonts can mark headings
+  const bodyFont = [...charCounts.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+  if (ambiguous.every(name => name === bodyFont)) {
+    fontStyles.set(bodyFont, { bold: false, italic: false });
+    return;
+  }
+
+  // Font objects (with their real PostScript names) are only loaded by the operator list
+  try {
+    await page.getOperatorList();
+  } catch {
+    // Fall back to the font family reported with the text content
+  }
+
+  for (const name of ambiguous) {
+    fontStyles.set(name, readLoadedFontStyle(page, name) ?? { bold: false, italic: false });
+  }
+}
+
+/**
+ * Reads bold/italic flags from a font object the operator list has loaded
+ * @param page - PDF.js page proxy
+ * @param name - Font name referenced by the text runs
+ * @returns Font style flags, or null when the font isn't loaded
+ */
+function readLoadedFontStyle(page: PDFPageProxy, name: string): FontStyle | null {
+  let fontObject: { name?: string; bold?: boolean; italic?: boolean } | null = null;
+  try {
+    if (page.commonObjs.has(name)) {
+      fontObject = page.commonObjs.get(name);
+    }
+  } catch {
+    fontObject = null;
+  }
+  if (!fontObject) return null;
+
+  const inferred = inferFontStyle(fontObject.name || name);
+  return {
+    bold: !!fontObject.bold || inferred.bold,
+    italic: !!fontObject.italic || inferred.italic
+  };
+}
+
+/**
+ * Converts page layouts into style-annotated text blocks, one per line
+ * @param pages - Page layouts in document order
+ * @param fontStyles - Resolved font styles keyed by font name
+ * @returns Text blocks in reading order
+ */
+function buildTextBlocks(pages: PageLayout[], fontStyles: Map<string, FontStyle>): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  for (const page of pages) {
+    for (const line of page.lines) {
+      const text = cleanPDFText(line.text);
+      if (text.length === 0) continue;
+
+      const style = describeLineStyle(line, fontStyles);
+      blocks.push({
+        text,
+        fontSize: style.fontSize,
+        bold: style.bold,
+        italic: style.italic,
+        page: page.pageNumber,
+        order: blocks.length,
+        position: {
+          x: line.x,
+          y: line.y
+        }
+      });
+    }
+  }
+
+  return blocks;
+}
+
 /**
  * Cleans and normalizes PDF text content for ATS optimization
  * @param rawText - Raw text extracted from PDF
@@ -154,20 +352,17 @@ function cleanPDFText(rawText: string): string {
   
   // Remove common PDF artifacts
   cleaned = cleaned.replace(/\f/g, '\n'); // Replace form feeds with line breaks
-  cleaned = cleaned.replace(/[\u0000-\u001F\u007F-\u009F]/g, ''); // Remove control characters except \n and \t
+  cleaned = cleaned.replace(/[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g, ''); // Remove control characters except \n and \t
   
-  // Fix common OCR/PDF extraction issues
-  cleaned = cleaned.replace(/([a-z])([A-Z])/g, '$1 $2'); // Add space between lowercase and uppercase letters
-  cleaned = cleaned.replace(/(\d)([A-Za-z])/g, '$1 $2'); // Add space between numbers and letters
-  cleaned = cleaned.replace(/([A-Za-z])(\d)/g, '$1 $2'); // Add space between letters and numbers
+  // Word spacing comes from glyph gaps in the layout pass, so words like "iOS" or "B2B" are left intact
   
   // Clean up bullet points and list markers
   cleaned = cleaned.replace(/[•·▪▫■□‣⁃]/g, '•'); // Standardize bullet points
   cleaned = cleaned.replace(/^\s*[○◦‣⁃]\s*/gm, '• '); // Convert various bullet styles to standard
   
-  // Remove page numbers and headers/footers patterns
+  // Remove page numbers and headers/footers patterns; bare numbers are left to the per-page
+  // header/footer pass, since a standalone line may be a year
   cleaned = cleaned.replace(/^\s*Page\s+\d+\s*$/gim, ''); // Remove "Page X" lines
-  cleaned = cleaned.replace(/^\s*\d+\s*$/gm, ''); // Remove standalone numbers (likely page numbers)
   
   // Trim each line and remove empty lines at start/end
   cleaned = cleaned
@@ -205,24 +400,3 @@ export function validatePDFContent(parsedDocument: ParsedDocument): boolean {
   
   return parsedDocument.metadata.wordCount >= MIN_WORD_COUNT;
 }
-
-/**
- * Extracts contact information patterns from PDF text
- * @param text - Text content to search
- * @returns Object with potential contact information
- */
-export function extractContactInfo(text: string): {
-  emails: string[];
-  phones: string[];
-  urls: string[];
-} {
-  const emailRegex = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
-  const phoneRegex = /(?:\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}\b/g;
-  const urlRegex = /https?:\/\/[^\s]+|www\.[^\s]+/g;
-
-  return {
-    emails: text.match(emailRegex) || [],
-    phones: text.match(phoneRegex) || [],
-    urls: text.match(urlRegex) || []
-  };
-}
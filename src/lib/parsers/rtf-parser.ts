@@ -0,0 +1,340 @@
+// RTF parsing engine using a lightweight tokenizer for client-side processing
+import { createUploadError, UPLOAD_ERROR_CODES } from '@/lib/file-validation';
+import type { UploadedFile } from '@/types/file-upload';
+import type { ParsedDocument } from './pdf-parser';
+import { normalizeExtractedText, countWords, estimatePageCount } from './text-utils';
+
+// Destinations whose content is never visible text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'objdata', 'themedata',
+  'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'listtable', 'listoverridetable',
+  'rsidtbl', 'generator', 'filetbl', 'revtbl', 'fldinst', 'bkmkstart', 'bkmkend', 'mmathPr',
+  'pgdsctbl', 'footnote', 'annotation', 'atnid', 'atnauthor', 'nonshppict', 'sp', 'pn', 'falt'
+]);
+
+// Ignorable (\*) destinations that still hold visible text
+const RTF_TEXT_DESTINATIONS = new Set(['shpinst', 'shptxt']);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' '
+};
+
+const RTF_CELL_SEPARATOR = ' | ';
+
+// Windows code pages that are not named windows-NNNN in the Encoding Standard
+const RTF_CODE_PAGE_LABELS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  65001: 'utf-8'
+};
+
+interface RTFGroupState {
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+/**
+ * Parses RTF file and extracts text content for ATS optimization
+ * @param uploadedFile - File with ArrayBuffer ready for parsing
+ * @returns Promise resolving to ParsedDocument
+ */
+export async function parseRTF(uploadedFile: UploadedFile): Promise<ParsedDocument> {
+  try {
+    if (!uploadedFile.buffer) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_READ_ERROR,
+        'File buffer is missing. Please try uploading the file again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    const bytes = new Uint8Array(uploadedFile.buffer);
+    if (!isRTF(bytes)) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'Invalid RTF file. Please ensure the file is not corrupted and try again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    const { text, tables } = extractRTFText(bytes);
+    const cleanedText = normalizeExtractedText(text);
+
+    if (cleanedText.length === 0) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'No text content found in RTF file. The file may be empty or corrupted.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    return {
+      text: cleanedText,
+      metadata: {
+        pages: estimatePageCount(cleanedText),
+        wordCount: countWords(cleanedText)
+      },
+      linearizedStructures: tables > 0
+        ? { tables, textBoxes: 0, headerFooterParagraphs: 0 }
+        : undefined,
+      source: 'rtf',
+      originalFileName: uploadedFile.metadata.name
+    };
+
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      throw error;
+    }
+
+    throw createUploadError(
+      UPLOAD_ERROR_CODES.PROCESSING_ERROR,
+      `Failed to parse RTF: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      uploadedFile.metadata.name
+    );
+  }
+}
+
+/**
+ * Checks for the RTF signature
+ * @param bytes - File contents
+ * @returns Boolean indicating the data starts with {\rtf
+ */
+function isRTF(bytes: Uint8Array): boolean {
+  return String.fromCharCode(...bytes.subarray(0, 5)) === '{\\rtf';
+}
+
+/**
+ * Walks RTF groups and control words, collecting visible text
+ * @param bytes - RTF file contents
+ * @returns Plain text (table cells joined per row) and the number of tables found
+ */
+function extractRTFText(bytes: Uint8Array): { text: string; tables: number } {
+  let output = '';
+  let state: RTFGroupState = { skip: false, unicodeSkip: 1 };
+  const stack: RTFGroupState[] = [];
+
+  let decoder = getCodePageDecoder(1252);
+  let pendingBytes: number[] = [];
+  let fallbackToSkip = 0; // Characters to drop after a \u escape
+  let groupStart = false;
+
+  let tables = 0;
+  let inTableParagraph = false;
+  let afterRow = false;
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      if (!state.skip) output += decoder.decode(Uint8Array.from(pendingBytes));
+      pendingBytes = [];
+    }
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) output += text;
+  };
+
+  const handleControlWord = (word: string, param: number | null) => {
+    const isDestination = groupStart;
+    groupStart = false;
+
+    if (isDestination && RTF_SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      return;
+    }
+    if (RTF_TEXT_DESTINATIONS.has(word)) {
+      // Visible unless the enclosing group is itself skipped
+      state.skip = stack[stack.length - 1]?.skip ?? false;
+      return;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        if (param !== null) decoder = getCodePageDecoder(param);
+        break;
+      case 'uc':
+        state.unicodeSkip = param ?? 1;
+        break;
+      case 'u':
+        if (param !== null) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          fallbackToSkip = state.unicodeSkip;
+        }
+        break;
+      case 'par':
+      case 'line':
+      case 'sect':
+      case 'page':
+        if (!inTableParagraph && !state.skip) afterRow = false;
+        emit('\n');
+        break;
+      case 'tab':
+        emit('\t');
+        break;
+      case 'cell':
+      case 'nestcell':
+        emit(RTF_CELL_SEPARATOR);
+        break;
+      case 'row':
+      case 'nestrow':
+        flushBytes();
+        if (!state.skip) {
+          output = output.replace(/[ |]+$/, '') + '\n';
+          afterRow = true;
+        }
+        break;
+      case 'trowd':
+        // A row definition not directly following another row starts a new table
+        if (!afterRow && !state.skip) tables++;
+        afterRow = true;
+        break;
+      case 'intbl':
+        inTableParagraph = true;
+        break;
+      case 'pard':
+        inTableParagraph = false;
+        break;
+      default:
+        if (word in RTF_SYMBOLS) emit(RTF_SYMBOLS[word]);
+    }
+  };
+
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    if (byte === 0x7b) { // {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      i++;
+      continue;
+    }
+
+    if (byte === 0x7d) { // }
+      flushBytes();
+      state = stack.pop() ?? state;
+      groupStart = false;
+      i++;
+      continue;
+    }
+
+    if (byte === 0x5c) { // backslash
+      const next = bytes[i + 1];
+
+      if (isLetter(next)) {
+        let end = i + 1;
+        while (end < bytes.length && isLetter(bytes[end])) end++;
+        const word = String.fromCharCode(...bytes.subarray(i + 1, end));
+
+        let paramEnd = end;
+        if (bytes[paramEnd] === 0x2d) paramEnd++; // -
+        while (paramEnd < bytes.length && bytes[paramEnd] >= 0x30 && bytes[paramEnd] <= 0x39) paramEnd++;
+        const paramText = String.fromCharCode(...bytes.subarray(end, paramEnd));
+        const param = /\d/.test(paramText) ? Number(paramText) : null;
+
+        // A single space delimits the control word and is not part of the text
+        i = bytes[paramEnd] === 0x20 ? paramEnd + 1 : paramEnd;
+
+        if (word === 'bin') {
+          // Raw binary data follows; skip it entirely
+          i += Math.max(0, param ?? 0);
+          continue;
+        }
+
+        if (fallbackToSkip > 0 && word !== 'u') {
+          fallbackToSkip = 0;
+        }
+        handleControlWord(word, param);
+        continue;
+      }
+
+      groupStart = false;
+
+      if (next === 0x27) { // \'hh
+        const hex = String.fromCharCode(bytes[i + 2], bytes[i + 3]);
+        i += 4;
+        if (fallbackToSkip > 0) {
+          fallbackToSkip--;
+          continue;
+        }
+        const value = parseInt(hex, 16);
+        if (!isNaN(value)) pendingBytes.push(value);
+        continue;
+      }
+
+      i += 2;
+      switch (next) {
+        case 0x2a: // \* marks an ignorable destination
+          state.skip = true;
+          groupStart = true;
+          break;
+        case 0x7e: // \~ non-breaking space
+          emit(' ');
+          break;
+        case 0x5f: // \_ non-breaking hyphen
+          emit('-');
+          break;
+        case 0x2d: // \- optional hyphen
+          break;
+        case 0x0a:
+        case 0x0d:
+          emit('\n');
+          break;
+        default:
+          if (next !== undefined) emit(String.fromCharCode(next));
+      }
+      continue;
+    }
+
+    groupStart = false;
+    i++;
+
+    // Raw line breaks in RTF source are not significant
+    if (byte === 0x0a || byte === 0x0d) continue;
+
+    if (fallbackToSkip > 0) {
+      fallbackToSkip--;
+      continue;
+    }
+    pendingBytes.push(byte);
+  }
+  flushBytes();
+
+  return { text: output, tables };
+}
+
+/**
+ * Creates a decoder for an RTF \ansicpg code page
+ * @param codePage - Windows code page number
+ * @returns Decoder, falling back to windows-1252 for unsupported pages
+ */
+function getCodePageDecoder(codePage: number): TextDecoder {
+  const label = RTF_CODE_PAGE_LABELS[codePage] ?? `windows-${codePage}`;
+  try {
+    return new TextDecoder(label);
+  } catch {
+    return new TextDecoder('windows-1252');
+  }
+}
+
+/**
+ * Checks whether a byte is an ASCII letter
+ * @param byte - Byte to check
+ * @returns Boolean indicating an ASCII letter
+ */
+function isLetter(byte: number | undefined): boolean {
+  return byte !== undefined && ((byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a));
+}
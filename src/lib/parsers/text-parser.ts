@@ -0,0 +1,197 @@
+// Plain text and Markdown parsing engine for client-side processing
+import { createUploadError, UPLOAD_ERROR_CODES } from '@/lib/file-validation';
+import type { UploadedFile } from '@/types/file-upload';
+import type { ParsedDocument, TextBlock } from './pdf-parser';
+import { normalizeExtractedText, countWords, estimatePageCount } from './text-utils';
+
+// Nominal sizes so Markdown headings stand out to the heading scorer
+const MARKDOWN_BODY_FONT_SIZE = 11;
+const MARKDOWN_HEADING_FONT_SIZES: Record<number, number> = {
+  1: 16,
+  2: 14,
+  3: 13,
+  4: 12,
+  5: 12,
+  6: 12
+};
+
+/**
+ * Parses a plain text or Markdown file for ATS optimization
+ * @param uploadedFile - File with ArrayBuffer ready for parsing
+ * @param format - 'txt' for plain text, 'md' to strip Markdown syntax
+ * @returns Promise resolving to ParsedDocument
+ */
+export async function parsePlainText(uploadedFile: UploadedFile, format: 'txt' | 'md'): Promise<ParsedDocument> {
+  try {
+    if (!uploadedFile.buffer) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_READ_ERROR,
+        'File buffer is missing. Please try uploading the file again.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    const rawText = decodeText(new Uint8Array(uploadedFile.buffer));
+    const { text, blocks } = format === 'md'
+      ? convertMarkdown(rawText)
+      : { text: rawText, blocks: undefined };
+
+    const cleanedText = normalizeExtractedText(text);
+    if (cleanedText.length === 0) {
+      throw createUploadError(
+        UPLOAD_ERROR_CODES.FILE_CORRUPTED,
+        'No text content found in the file. The file may be empty.',
+        uploadedFile.metadata.name
+      );
+    }
+
+    return {
+      text: cleanedText,
+      blocks,
+      metadata: {
+        pages: estimatePageCount(cleanedText),
+        wordCount: countWords(cleanedText)
+      },
+      source: format,
+      originalFileName: uploadedFile.metadata.name
+    };
+
+  } catch (error) {
+    if (error && typeof error === 'object' && 'code' in error) {
+      throw error;
+    }
+
+    throw createUploadError(
+      UPLOAD_ERROR_CODES.PROCESSING_ERROR,
+      `Failed to read text file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      uploadedFile.metadata.name
+    );
+  }
+}
+
+/**
+ * Decodes text using its byte order mark, then UTF-8, then Windows-1252
+ * @param bytes - File contents
+ * @returns Decoded text
+ */
+function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+
+  try {
+    // TextDecoder strips a UTF-8 BOM itself
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    // Not valid UTF-8; most legacy text files are Windows-1252
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Converts Markdown to plain text, keeping headings as blocks for heading detection
+ * @param markdown - Markdown source
+ * @returns Plain text and style-annotated blocks
+ */
+function convertMarkdown(markdown: string): { text: string; blocks: TextBlock[] } {
+  const lines: string[] = [];
+  const blocks: TextBlock[] = [];
+  let inCodeFence = false;
+
+  const sourceLines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  sourceLines.forEach((rawLine, index) => {
+    // Code fences: drop the markers, keep the content
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCodeFence = !inCodeFence;
+      return;
+    }
+    if (inCodeFence) {
+      lines.push(rawLine);
+      return;
+    }
+
+    // Setext underlines belong to the previous line's heading
+    const nextLine = sourceLines[index + 1] ?? '';
+    const setextLevel = rawLine.trim().length > 0 && /^\s*(=+|-+)\s*$/.test(nextLine)
+      ? (nextLine.trim().startsWith('=') ? 1 : 2)
+      : undefined;
+    if (/^\s*(=+|-+)\s*$/.test(rawLine) && index > 0 && sourceLines[index - 1].trim().length > 0) {
+      return;
+    }
+
+    // Horizontal rules and table separator rows carry no text
+    if (/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*\|?\s*$/.test(rawLine)) {
+      return;
+    }
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(rawLine)) {
+      lines.push('');
+      return;
+    }
+
+    const atxHeading = rawLine.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const headingLevel = atxHeading ? atxHeading[1].length : setextLevel;
+    let line = atxHeading ? atxHeading[2] : rawLine;
+
+    line = line
+      .replace(/^\s*>\s?/, '') // Blockquotes
+      .replace(/^(\s*)[-*+]\s+\[[ xX]\]\s+/, '$1• ') // Task list items
+      .replace(/^(\s*)[-*+]\s+/, '$1• ') // Bullets
+      .replace(/^\s*\|(.*)\|\s*$/, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join(' | '));
+
+    line = stripInlineMarkdown(line);
+
+    if (headingLevel && line.trim().length > 0) {
+      // Keep headings separated from surrounding content
+      lines.push('', line.trim(), '');
+      blocks.push({
+        text: line.trim(),
+        fontSize: MARKDOWN_HEADING_FONT_SIZES[headingLevel],
+        bold: true,
+        italic: false,
+        page: 1,
+        order: blocks.length,
+        headingLevel
+      });
+      return;
+    }
+
+    lines.push(line);
+    if (line.trim().length > 0) {
+      blocks.push({
+        text: line.trim(),
+        fontSize: MARKDOWN_BODY_FONT_SIZE,
+        bold: false,
+        italic: false,
+        page: 1,
+        order: blocks.length
+      });
+    }
+  });
+
+  return { text: lines.join('\n'), blocks };
+}
+
+/**
+ * Removes inline Markdown syntax (emphasis, code, links, images, HTML tags)
+ * @param line - Markdown line
+ * @returns Plain text line
+ */
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images keep their alt text
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) =>
+      label === url || url.startsWith('#') ? label : `${label} (${url.replace(/^mailto:/, '')})`
+    )
+    .replace(/<(https?:\/\/[^>]+|[^@\s>]+@[^>\s]+)>/g, '$1') // Autolinks
+    .replace(/<\/?[a-z][^>]*>/gi, '') // Inline HTML tags
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?!\s)([^*]+?)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w])_(?!\s)([^_]+?)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, '$1'); // Escaped characters
+}
@@ -0,0 +1,49 @@
+// Shared text helpers for the RTF, ODT and plain text parsers
+
+const WORDS_PER_PAGE = 250; // Conservative estimate for resume content
+
+/**
+ * Normalizes extracted text: line endings, control characters, bullets and blank lines
+ * @param rawText - Text produced by a parser
+ * @returns Cleaned text suitable for ATS processing
+ */
+export function normalizeExtractedText(rawText: string): string {
+  return rawText
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n')
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g, '') // Keep tabs and line breaks
+    .replace(/\u00A0/g, ' ') // Non-breaking spaces
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[•·▪▫■□‣⁃]/g, '•')
+    .replace(/•\t+/g, '• ') // Bullets separated from their text by a tab
+    .replace(/^\s*[○◦]\s*/gm, '• ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+/, '')
+    .replace(/\n+$/, '');
+}
+
+/**
+ * Counts words in text content
+ * @param text - Text to count words in
+ * @returns Number of words
+ */
+export function countWords(text: string): number {
+  if (!text || text.trim().length === 0) return 0;
+
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(word => word.length > 0).length;
+}
+
+/**
+ * Estimates page count based on text content (roughly 250 words per page)
+ * @param text - Text content to analyze
+ * @returns Estimated number of pages
+ */
+export function estimatePageCount(text: string): number {
+  return Math.max(1, Math.ceil(countWords(text) / WORDS_PER_PAGE));
+}
@@ -0,0 +1,139 @@
+// Minimal XML reader for office document parts (works without DOMParser, e.g. in Web Workers)
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const XML_TOKEN_PATTERN = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+const XML_ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses an XML string into a lightweight element tree
+ * @param xml - XML source
+ * @returns Synthetic root element whose children are the top-level nodes
+ */
+export function parseXML(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const pattern = new RegExp(XML_TOKEN_PATTERN.source, 'g');
+  let match;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    const [token, cdata, closing, name, rawAttributes, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      parent.children.push(decodeXMLEntities(text));
+    } else if (cdata !== undefined) {
+      parent.children.push(cdata);
+    } else if (name === undefined || token.startsWith('<!') || token.startsWith('<?')) {
+      // Comments, processing instructions and doctype carry no content
+      continue;
+    } else if (closing) {
+      // Tolerate mismatched closing tags by unwinding to the matching element
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+    } else {
+      const element: XmlElement = { name, attributes: parseAttributes(rawAttributes), children: [] };
+      parent.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Returns the direct child elements with the given qualified name
+ * @param element - Parent element
+ * @param name - Qualified element name (e.g. 'w:p')
+ * @returns Matching child elements in document order
+ */
+export function findChildren(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && child.name === name
+  );
+}
+
+/**
+ * Returns the first direct child element with the given qualified name
+ * @param element - Parent element
+ * @param name - Qualified element name
+ * @returns Matching element or undefined
+ */
+export function findChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  if (!element) return undefined;
+  return element.children.find(
+    (child): child is XmlElement => typeof child !== 'string' && child.name === name
+  );
+}
+
+/**
+ * Returns all descendant elements with the given qualified name
+ * @param element - Element to search within
+ * @param name - Qualified element name
+ * @returns Matching elements in document order
+ */
+export function findDescendants(element: XmlElement, name: string): XmlElement[] {
+  const matches: XmlElement[] = [];
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (child.name === name) matches.push(child);
+    matches.push(...findDescendants(child, name));
+  }
+  return matches;
+}
+
+/**
+ * Returns the concatenated text content of an element and its descendants
+ * @param element - Element to read
+ * @returns Text content
+ */
+export function getTextContent(element: XmlElement | undefined): string {
+  if (!element) return '';
+  return element.children
+    .map(child => (typeof child === 'string' ? child : getTextContent(child)))
+    .join('');
+}
+
+/**
+ * Decodes the predefined XML entities and numeric character references
+ * @param text - Escaped text
+ * @returns Decoded text
+ */
+export function decodeXMLEntities(text: string): string {
+  return text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[0-9a-f]+);/gi, (entity, body: string) => {
+    switch (body.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'amp': return '&';
+    }
+    const codePoint = body[1] === 'x' || body[1] === 'X'
+      ? parseInt(body.slice(2), 16)
+      : parseInt(body.slice(1), 10);
+    return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+  });
+}
+
+/**
+ * Parses the attribute list of a start tag
+ * @param rawAttributes - Text between the tag name and the closing bracket
+ * @returns Attribute map keyed by qualified name
+ */
+function parseAttributes(rawAttributes: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = new RegExp(XML_ATTRIBUTE_PATTERN.source, 'g');
+  let match;
+
+  while ((match = pattern.exec(rawAttributes)) !== null) {
+    attributes[match[1]] = decodeXMLEntities(match[2] ?? match[3] ?? '');
+  }
+
+  return attributes;
+}
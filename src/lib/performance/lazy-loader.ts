@@ -1,5 +1,16 @@
 // Lazy loading utilities for performance optimization
-export type LibraryName = 'pdfjs' | 'mammoth' | 'docx' | 'dnd';
+export type LibraryName = 'pdfjs' | 'docx' | 'dnd' | 'ocr' | 'jszip' | 'dictionary';
+
+export interface PDFWorkerStatus {
+  state: 'idle' | 'starting' | 'ready' | 'failed';
+  error?: string;
+}
+
+// PDF.js's worker is emitted with the static export, so PDF parsing never reaches a CDN.
+// pdfjs-dist is pinned in package.json; update the version and hash together when upgrading.
+const PDFJS_WORKER_URL = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+const PDFJS_WORKER_VERSION = '5.4.54';
+const PDFJS_WORKER_INTEGRITY = 'sha384-azNj0zE/auAq9Rt4eczZnrQ5fyey8zyacRPhFGOnL7zoxHIPsonfGyYBn/BJxnNK';
 
 interface LibraryModule {
   loaded: boolean;
@@ -9,10 +20,11 @@ interface LibraryModule {
 
 class LazyLibraryLoader {
   private libraries = new Map<LibraryName, LibraryModule>();
+  private pdfWorkerStatus: PDFWorkerStatus = { state: 'idle' };
 
   constructor() {
     // Initialize library states
-    const libraryNames: LibraryName[] = ['pdfjs', 'mammoth', 'docx', 'dnd'];
+    const libraryNames: LibraryName[] = ['pdfjs', 'docx', 'dnd', 'ocr', 'jszip', 'dictionary'];
     libraryNames.forEach(name => {
       this.libraries.set(name, {
         loaded: false,
@@ -27,15 +39,16 @@ class LazyLibraryLoader {
    */
   async loadPDFJS() {
     return this.loadLibrary('pdfjs', async () => {
-      if (typeof window === 'undefined') {
+      // Also runs inside the document processing worker, where there is no window
+      if (typeof self === 'undefined') {
         throw new Error('PDF.js is only available in browser environment');
       }
 
       const pdfjs = await import('pdfjs-dist');
       
-      // Configure worker only on client side
+      // Configure PDF.js's own worker only on client side
       if (!pdfjs.GlobalWorkerOptions.workerSrc) {
-        pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
+        await this.startPDFWorker(pdfjs);
       }
 
       console.log('✅ PDF.js loaded successfully');
@@ -44,14 +57,47 @@ class LazyLibraryLoader {
   }
 
   /**
-   * Load Mammoth.js library dynamically
+   * Verify the bundled PDF.js worker and confirm it starts
    */
-  async loadMammoth() {
-    return this.loadLibrary('mammoth', async () => {
-      const mammoth = await import('mammoth');
-      console.log('✅ Mammoth.js loaded successfully');
-      return mammoth;
-    });
+  private async startPDFWorker(pdfjs: typeof import('pdfjs-dist')) {
+    this.pdfWorkerStatus = { state: 'starting' };
+    let workerSrc: string | null = null;
+
+    try {
+      if (pdfjs.version !== PDFJS_WORKER_VERSION) {
+        throw new Error(`PDF.js ${pdfjs.version} is installed but the worker hash is pinned for ${PDFJS_WORKER_VERSION}`);
+      }
+
+      // The browser rejects the response if it doesn't match the pinned hash
+      const response = await fetch(PDFJS_WORKER_URL, { integrity: PDFJS_WORKER_INTEGRITY });
+      if (!response.ok) {
+        throw new Error(`worker script returned HTTP ${response.status}`);
+      }
+
+      // Run exactly the bytes that were verified
+      const script = await response.blob();
+      workerSrc = URL.createObjectURL(new Blob([script], { type: 'text/javascript' }));
+      pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+      const probe = new pdfjs.PDFWorker();
+      try {
+        await probe.promise;
+      } finally {
+        probe.destroy();
+      }
+
+      this.pdfWorkerStatus = { state: 'ready' };
+      console.log('✅ PDF.js worker verified and started');
+    } catch (error) {
+      pdfjs.GlobalWorkerOptions.workerSrc = '';
+      if (workerSrc) URL.revokeObjectURL(workerSrc);
+
+      const reason = error instanceof TypeError
+        ? 'the bundled worker script is missing or failed its integrity check'
+        : error instanceof Error ? error.message : 'Unknown error';
+      this.pdfWorkerStatus = { state: 'failed', error: reason };
+      throw new Error(`PDF.js worker failed to start: ${reason}`);
+    }
   }
 
   /**
@@ -76,6 +122,43 @@ class LazyLibraryLoader {
     });
   }
 
+  /**
+   * Load JSZip dynamically (used to read DOCX packages)
+   */
+  async loadJSZip() {
+    return this.loadLibrary('jszip', async () => {
+      const jszip = await import('jszip');
+      console.log('✅ JSZip loaded successfully');
+      return jszip.default;
+    });
+  }
+
+  /**
+   * Load Tesseract.js OCR engine dynamically (only needed for image-only PDFs)
+   */
+  async loadOCR() {
+    return this.loadLibrary('ocr', async () => {
+      if (typeof window === 'undefined') {
+        throw new Error('OCR is only available in browser environment');
+      }
+
+      const tesseract = await import('tesseract.js');
+      console.log('✅ OCR engine loaded successfully');
+      return tesseract;
+    });
+  }
+
+  /**
+   * Load the spell checker's English word list dynamically (only needed in the editor)
+   */
+  async loadDictionary() {
+    return this.loadLibrary('dictionary', async () => {
+      const { ENGLISH_WORDS } = await import('../spelling/english-words');
+      console.log('✅ Spelling dictionary loaded successfully');
+      return ENGLISH_WORDS;
+    });
+  }
+
   /**
    * Generic library loader with caching
    */
@@ -140,7 +223,7 @@ class LazyLibraryLoader {
     try {
       await Promise.all([
         this.loadPDFJS(),
-        this.loadMammoth()
+        this.loadJSZip()
       ]);
       console.log('✅ Core parsing libraries preloaded');
     } catch (error) {
@@ -200,6 +283,20 @@ class LazyLibraryLoader {
     return status;
   }
 
+  /**
+   * Get PDF.js worker status for UI indicators
+   */
+  getPDFWorkerStatus(): PDFWorkerStatus {
+    return this.pdfWorkerStatus;
+  }
+
+  /**
+   * Record PDF.js worker status reported by the document processing worker
+   */
+  reportPDFWorkerStatus(status: PDFWorkerStatus) {
+    this.pdfWorkerStatus = status;
+  }
+
   /**
    * Force cleanup of all libraries (for privacy)
    */
@@ -226,7 +323,9 @@ export const preloadLibraries = {
 // Library loaders
 export const loadLibrary = {
   pdfjs: () => lazyLoader.loadPDFJS(),
-  mammoth: () => lazyLoader.loadMammoth(),
   docx: () => lazyLoader.loadDOCX(),
-  dnd: () => lazyLoader.loadDND()
+  dnd: () => lazyLoader.loadDND(),
+  ocr: () => lazyLoader.loadOCR(),
+  jszip: () => lazyLoader.loadJSZip(),
+  dictionary: () => lazyLoader.loadDictionary()
 };
@@ -0,0 +1,285 @@
+// Parse → optimize → generate pipeline shared by the processing worker and the main-thread fallback
+import { parseDocumentEnhanced } from './parsers/document-parser';
+import { optimizeForATS, generateOptimizationSummary } from './ats-optimizer';
+import { generateDOCX, isDOCXGenerationSupported } from './docx-generator';
+import { toJSONResume } from './resume/json-resume';
+import { redactDocument, type RedactionOptions } from './redaction';
+import { createUploadError } from './file-validation';
+import { UPLOAD_ERROR_CODES, type UploadedFile, type UploadError } from '@/types/file-upload';
+import type { ATSOptimizedDocument } from './ats-optimizer';
+import type {
+  ProcessingResult,
+  ProcessingProgress,
+  ProcessingOptions,
+  DownloadOption
+} from './document-processor';
+
+/**
+ * Runs the complete parsing, optimization and generation workflow in the current thread
+ * @param uploadedFile - File to process
+ * @param onProgress - Optional progress callback
+ * @param options - Processing settings; a signal is checked between stages
+ * @returns Promise resolving to complete processing result
+ */
+export async function runProcessingPipeline(
+  uploadedFile: UploadedFile,
+  onProgress?: (progress: ProcessingProgress) => void,
+  options: ProcessingOptions = {}
+): Promise<ProcessingResult> {
+  const startTime = Date.now();
+  const throwIfCancelled = () => {
+    if (options.signal?.aborted) {
+      throw createCancelledError(uploadedFile.metadata.name);
+    }
+  };
+  
+  try {
+    throwIfCancelled();
+
+    // Stage 1: Parse document
+    onProgress?.({
+      stage: 'parsing',
+      progress: 10,
+      message: 'Extracting text from document...'
+    });
+    
+    const originalDocument = await parseDocumentEnhanced(uploadedFile, {
+      password: options.password,
+      enableOCR: options.enableOCR,
+      // OCR runs page by page within the parsing stage (10% - 30%)
+      onOCRProgress: (page, totalPages, pageProgress) => {
+        onProgress?.({
+          stage: 'parsing',
+          progress: Math.round(10 + 20 * ((page - 1 + pageProgress) / totalPages)),
+          message: `Recognizing text on page ${page} of ${totalPages}...`,
+          page: {
+            current: page,
+            total: totalPages
+          }
+        });
+      }
+    });
+    throwIfCancelled();
+    
+    onProgress?.({
+      stage: 'parsing',
+      progress: 30,
+      message: 'Document parsed successfully'
+    });
+    
+    // Stage 2: Optimize for ATS
+    onProgress?.({
+      stage: 'optimizing',
+      progress: 50,
+      message: 'Applying ATS optimizations...'
+    });
+    
+    const optimizedDocument = optimizeForATS(originalDocument, {
+      headingMappings: options.headingMappings,
+      language: options.language
+    });
+    throwIfCancelled();
+    
+    onProgress?.({
+      stage: 'optimizing',
+      progress: 70,
+      message: 'ATS optimization complete'
+    });
+    
+    // Stage 3: Generate download options
+    onProgress?.({
+      stage: 'generating',
+      progress: 85,
+      message: 'Preparing download formats...'
+    });
+    
+    const downloadOptions = await generateDownloadOptions(optimizedDocument, uploadedFile.metadata.name, {
+      maskOrganizations: options.redactOrganizations
+    });
+    const summary = generateOptimizationSummary(optimizedDocument);
+    throwIfCancelled();
+    
+    onProgress?.({
+      stage: 'complete',
+      progress: 100,
+      message: 'Processing complete!'
+    });
+    
+    const processingTime = Date.now() - startTime;
+    
+    return {
+      originalDocument,
+      optimizedDocument,
+      summary,
+      downloadOptions,
+      processingTime
+    };
+    
+  } catch (error) {
+    // Preserve UploadError codes so the UI can offer recovery (password prompt, OCR)
+    if (error && typeof error === 'object' && 'code' in error) {
+      throw error;
+    }
+    
+    throw new Error(`Document processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Creates the error reported when the user cancels processing
+ * @param filename - Name of the file being processed
+ * @returns UploadError with the PROCESSING_CANCELLED code
+ */
+export function createCancelledError(filename: string): UploadError {
+  return createUploadError(
+    UPLOAD_ERROR_CODES.PROCESSING_CANCELLED,
+    'Processing was cancelled.',
+    filename
+  );
+}
+
+/**
+ * Generates download options for the optimized document
+ * @param optimizedDocument - ATS optimized document
+ * @param originalFilename - Original filename for naming
+ * @param redactionOptions - Whether the anonymized download also masks school and employer names
+ * @returns Promise resolving to array of download options
+ */
+async function generateDownloadOptions(
+  optimizedDocument: ATSOptimizedDocument,
+  originalFilename: string,
+  redactionOptions: RedactionOptions = {}
+): Promise<DownloadOption[]> {
+  const baseName = originalFilename.replace(/\.[^/.]+$/, ''); // Remove extension
+  const content = optimizedDocument.content;
+  
+  const options: DownloadOption[] = [];
+  
+  // TXT format (always available)
+  const txtContent = content;
+  options.push({
+    format: 'txt',
+    label: 'Plain Text (.txt)',
+    description: 'Universal format compatible with all ATS systems',
+    content: txtContent,
+    filename: `${baseName}_ATS_optimized.txt`,
+    size: new Blob([txtContent]).size,
+    mimeType: 'text/plain'
+  });
+  
+  // DOCX format - generate real Microsoft Word document
+  if (isDOCXGenerationSupported()) {
+    try {
+      const { buffer, filename } = await generateDOCX(optimizedDocument, originalFilename);
+      options.push({
+        format: 'docx',
+        label: 'Microsoft Word (.docx)',
+        description: 'Professional DOCX file ready for any application',
+        content: buffer,
+        filename,
+        size: buffer.length,
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      });
+    } catch (error) {
+      console.warn('DOCX generation failed, providing fallback text format:', error);
+      // Fallback to formatted text
+      const formattedContent = formatForWord(content, optimizedDocument.sections);
+      options.push({
+        format: 'docx',
+        label: 'Word-ready Text (.txt)',
+        description: 'Formatted text ready to copy into Microsoft Word',
+        content: formattedContent,
+        filename: `${baseName}_Word_ready.txt`,
+        size: new Blob([formattedContent]).size,
+        mimeType: 'text/plain'
+      });
+    }
+  } else {
+    // Fallback for unsupported environments
+    const formattedContent = formatForWord(content, optimizedDocument.sections);
+    options.push({
+      format: 'docx',
+      label: 'Word-ready Text (.txt)',
+      description: 'Formatted text ready to copy into Microsoft Word',
+      content: formattedContent,
+      filename: `${baseName}_Word_ready.txt`,
+      size: new Blob([formattedContent]).size,
+      mimeType: 'text/plain'
+    });
+  }
+  
+  // JSON Resume export of the structured model, for resume builders and job sites
+  const jsonContent = JSON.stringify(toJSONResume(optimizedDocument.resume), null, 2);
+  options.push({
+    format: 'json',
+    label: 'JSON Resume (.json)',
+    description: 'Structured resume data for JSON Resume themes and tools',
+    content: jsonContent,
+    filename: `${baseName}_resume.json`,
+    size: new Blob([jsonContent]).size,
+    mimeType: 'application/json'
+  });
+
+  // Anonymized copy for blind review, with a report of what was masked
+  options.push(createAnonymizedDownload(optimizedDocument, redactionOptions));
+  
+  return options;
+}
+
+/**
+ * Creates the anonymized download of an optimized document
+ * @param optimizedDocument - ATS optimized document
+ * @param redactionOptions - Whether school and employer names are also masked
+ * @returns Download option carrying the redaction report
+ */
+export function createAnonymizedDownload(
+  optimizedDocument: ATSOptimizedDocument,
+  redactionOptions: RedactionOptions = {}
+): DownloadOption {
+  const { document: redactedDocument, report } = redactDocument(optimizedDocument, redactionOptions);
+
+  return {
+    format: 'txt',
+    label: 'Anonymized Text (.txt)',
+    description: 'Personal details masked for blind review',
+    content: redactedDocument.content,
+    // The original filename usually contains the candidate's name
+    filename: 'resume_anonymized.txt',
+    size: new Blob([redactedDocument.content]).size,
+    mimeType: 'text/plain',
+    redaction: report
+  };
+}
+
+/**
+ * Formats content for easy copying into Microsoft Word
+ * @param content - Optimized content
+ * @param sections - Detected sections
+ * @returns Formatted content
+ */
+function formatForWord(content: string, sections: { standardTitle: string }[]): string {
+  let formatted = content;
+  
+  // Add formatting instructions at the top
+  const instructions = `=== WORD FORMATTING INSTRUCTIONS ===
+1. Copy and paste this content into Microsoft Word
+2. Select section headings and make them bold
+3. Use Arial or Calibri font, size 11-12
+4. Set margins to 0.5-1 inch on all sides
+5. Save as .docx format
+
+=== YOUR ATS-OPTIMIZED RESUME ===
+
+`;
+  
+  formatted = instructions + formatted;
+  
+  // Add extra spacing around section headings for easier formatting (the preamble has none)
+  sections.filter(section => section.standardTitle).forEach(section => {
+    const escapedTitle = section.standardTitle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const headingPattern = new RegExp(`^${escapedTitle}$`, 'gm');
+    formatted = formatted.replace(headingPattern, `\n${section.standardTitle}\n`);
+  });
+  
+  return formatted;
+}
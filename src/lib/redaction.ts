@@ -0,0 +1,319 @@
+// PII redaction: masks personal details in an optimized resume so it can be shared for blind review
+import type { ATSOptimizedDocument } from './ats-optimizer';
+import { findPhones, findUrls, formatLocation, hasContactDetails } from './resume/contact-info';
+import { isJobTitle } from './resume/resume-extractor';
+import { RESUME_DATE_SOURCE, CURRENT_DATE_SOURCE } from './resume/resume-dates';
+import { RESUME_LOCALES } from './locales/resume-locale';
+
+export type RedactionCategory =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'address'
+  | 'url'
+  | 'birth_date'
+  | 'photo'
+  | 'school'
+  | 'employer';
+
+export interface RedactedItem {
+  category: RedactionCategory;
+  original: string; // Text as written in the resume
+  replacement: string; // Placeholder it was replaced with
+  occurrences: number; // Times it was masked in the resume text
+}
+
+export interface RedactionReport {
+  items: RedactedItem[];
+  maskedCount: number; // Total occurrences masked
+  organizationsMasked: boolean; // Whether school and employer names were masked
+}
+
+export interface RedactionOptions {
+  maskOrganizations?: boolean; // Also mask school and employer names; off by default
+}
+
+export interface RedactionResult {
+  document: ATSOptimizedDocument;
+  report: RedactionReport;
+}
+
+// Placeholders by category; schools and employers are numbered so different ones stay distinguishable
+const REDACTION_PLACEHOLDERS: Record<RedactionCategory, string> = {
+  name: '[NAME]',
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+  url: '[URL]',
+  birth_date: '[DATE OF BIRTH]',
+  photo: '[PHOTO]',
+  school: '[SCHOOL]',
+  employer: '[EMPLOYER]'
+};
+
+// Masking order: contact details first, so names inside emails and URLs go with them, and
+// organizations before places, so a city inside a school or employer name goes with it
+const CATEGORY_ORDER: RedactionCategory[] = [
+  'email', 'url', 'phone', 'birth_date', 'photo', 'school', 'employer', 'address', 'name'
+];
+
+// Photos sit in the header; their alt text is read from this many opening lines
+const PHOTO_SCAN_LINES = 10;
+
+// Longest line (in words) read as a photo's alt text rather than a sentence
+const MAX_PHOTO_ALT_WORDS = 8;
+
+// Shorter terms would match inside ordinary words
+const MIN_TERM_LENGTH = 2;
+
+// Fewest digits a number needs to be read as the contact phone written without its country code
+const MIN_NATIONAL_PHONE_DIGITS = 8;
+
+// Name parts are also ordinary words ("Will", "Mark", "Rose"), so they're masked only with the case they're written in
+const CASE_SENSITIVE_CATEGORIES = new Set<RedactionCategory>(['name']);
+
+// Work entry headers are short; longer lines are descriptions
+const MAX_WORK_HEADER_WORDS = 8;
+
+// Name suffixes and post-nominals that would mask degrees and titles elsewhere in the resume
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'phd', 'md', 'mba', 'cpa', 'pe']);
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+const STREET_ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[A-Z][\w.'-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\.?\s*[\w-]+)?/g;
+const ADDRESS_LABEL_PATTERN = /^\s*(?:address|adresse|dirección|direccion|endereço|endereco|anschrift)\s*[:\-–]\s*(.+)$/i;
+// Birth date labels in the supported resume languages; the value must hold a digit ("born leader" isn't one)
+const BIRTH_DATE_PATTERN = /\b(?:date of birth|birth ?date|d\.o\.b\.?|dob|born(?: on)?|geburtsdatum|geboren(?: am)?|date de naissance|née? le|fecha de nacimiento|data de nascimento)\s*[:\-–]?\s*([^|\n;]*\d[^|\n;]*)/gi;
+// A line holding only a place: "Berlin", "10115 Berlin", "Lyon, France", "Austin, TX 78701"
+const PLACE_LINE_PATTERN = /^(?:\d{4,5}\s+)?\p{Lu}[\p{Ll}'-]+(?:[\s-]\p{Lu}[\p{Ll}'-]+){0,2}(?:,\s*\p{Lu}[\p{L}'-]*(?:\s\p{Lu}[\p{L}'-]*){0,2})?(?:\s+\d{4,5})?$/u;
+// Work entry header fields are separated by pipes, bullets or spaced dashes ("Engineer | Acme | 2020 - 2022")
+const HEADER_FIELD_SEPARATOR = /\s+[|•·]\s+|\s+[–—-]\s+|\s*\|\s*|\t+/;
+const DATE_FIELD_PATTERN = new RegExp(`^\\(?(?:${RESUME_DATE_SOURCE}|${CURRENT_DATE_SOURCE})\\)?$`, 'i');
+const BULLET_PATTERN = /^[•·▪◦‣*–-]\s+/;
+const PHOTO_PATTERN = /\b(?:photo|photograph|headshot|portrait|avatar|profile (?:picture|image)|foto|bild|retrato)\b/i;
+
+interface RedactionTerm {
+  category: RedactionCategory;
+  text: string;
+  matchCase: boolean; // Match only as written rather than in any case
+  replacement: string;
+}
+
+/**
+ * Masks names, contact details, addresses, URLs, birth dates and photo alt text in an optimized
+ * resume, and optionally school and employer names
+ * @param document - Optimized document
+ * @param options - Whether to mask school and employer names
+ * @returns Redacted copy of the document and a report of what was masked
+ */
+export function redactDocument(document: ATSOptimizedDocument, options: RedactionOptions = {}): RedactionResult {
+  const terms = collectTerms(document, options);
+  const occurrences = new Map<RedactionTerm, number>();
+
+  // Occurrences are counted in the resume text; the rest of the document gets the same replacements
+  const content = applyTerms(document.content, terms, occurrences);
+  const redact = (text: string) => applyTerms(text, terms);
+
+  // The structured location is split into fields, so it's masked as a whole
+  const resume = redactStrings(document.resume, redact);
+  if (resume.basics.location) {
+    resume.basics = { ...resume.basics, location: { address: REDACTION_PLACEHOLDERS.address } };
+  }
+
+  const items: RedactedItem[] = terms
+    .filter(term => (occurrences.get(term) ?? 0) > 0)
+    .map(term => ({
+      category: term.category,
+      original: term.text,
+      replacement: term.replacement,
+      occurrences: occurrences.get(term) ?? 0
+    }));
+
+  return {
+    document: {
+      ...document,
+      content,
+      sections: redactStrings(document.sections, redact),
+      resume,
+      optimizations: redactStrings(document.optimizations, redact),
+      warnings: redactStrings(document.warnings, redact),
+      contentCheck: redactStrings(document.contentCheck, redact),
+      skills: redactStrings(document.skills, redact)
+    },
+    report: {
+      items,
+      maskedCount: items.reduce((sum, item) => sum + item.occurrences, 0),
+      organizationsMasked: options.maskOrganizations ?? false
+    }
+  };
+}
+
+/**
+ * Gathers the text to mask from the structured resume and the resume text
+ * @param document - Optimized document
+ * @param options - Whether to mask school and employer names
+ * @returns Terms in masking order, longest first within a category
+ */
+function collectTerms(document: ATSOptimizedDocument, options: RedactionOptions): RedactionTerm[] {
+  const { basics, work, education } = document.resume;
+  const lines = document.content.split('\n');
+  const found: Record<RedactionCategory, string[]> = {
+    name: [], email: [], phone: [], address: [], url: [], birth_date: [], photo: [], school: [], employer: []
+  };
+
+  found.name.push(...nameTerms(basics.name ?? ''));
+  found.email.push(basics.email ?? '', ...(document.content.match(EMAIL_PATTERN) ?? []));
+
+  // Numbers elsewhere in the resume ("1234567 orders", "2019 2020 2021") are only phones when they repeat the contact phone
+  const contactLines = new Set(findContactLines(document).map(line => line.trim()));
+  const contactPhone = basics.phone?.replace(/\D/g, '');
+  found.phone.push(basics.phone ?? '', ...lines.flatMap(line => findPhones(line).filter(phone => {
+    // Trunk prefixes ("030 …" for "+49 30 …") aren't part of the international number
+    const digits = phone.replace(/\D/g, '').replace(/^0+/, '');
+    return contactLines.has(line.trim())
+      || (!!contactPhone && digits.length >= MIN_NATIONAL_PHONE_DIGITS && contactPhone.endsWith(digits));
+  })));
+  found.url.push(
+    basics.url ?? '',
+    ...basics.profiles.flatMap(profile => [profile.url, profile.username ?? '']),
+    ...lines.flatMap(findUrls)
+  );
+
+  if (basics.location) {
+    found.address.push(basics.location.address ?? '', formatLocation(basics.location));
+  }
+  found.address.push(...(document.content.match(STREET_ADDRESS_PATTERN) ?? []));
+  lines.forEach(line => found.address.push(line.match(ADDRESS_LABEL_PATTERN)?.[1] ?? ''));
+
+  // A bare city line in the header isn't a detected location, so the line itself is masked
+  found.address.push(...[...contactLines].filter(line =>
+    line !== basics.name?.trim() && PLACE_LINE_PATTERN.test(line) && !hasContactDetails(line) && !isJobTitle(line)
+  ));
+
+  for (const match of document.content.matchAll(BIRTH_DATE_PATTERN)) {
+    found.birth_date.push(match[1]);
+  }
+
+  lines.slice(0, PHOTO_SCAN_LINES)
+    .filter(line => PHOTO_PATTERN.test(line) && line.trim().split(/\s+/).length <= MAX_PHOTO_ALT_WORDS)
+    .forEach(line => found.photo.push(line));
+
+  if (options.maskOrganizations) {
+    found.school.push(...education.map(entry => entry.institution ?? ''));
+    found.employer.push(...work.map(entry => entry.company ?? ''), ...findWorkHeaderEmployers(document));
+  }
+
+  const seen = new Set<string>();
+  return CATEGORY_ORDER.flatMap(category => {
+    const distinct = found[category]
+      .map(text => text.trim())
+      .filter(text => {
+        const key = CASE_SENSITIVE_CATEGORIES.has(category) ? text : text.toLowerCase();
+        if (text.length < MIN_TERM_LENGTH || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    // Numbering follows document order; masking goes longest first so "Acme Labs" wins over "Acme"
+    const numbered = category === 'school' || category === 'employer';
+    return distinct
+      .map((text, index) => ({
+        category,
+        text,
+        matchCase: CASE_SENSITIVE_CATEGORIES.has(category),
+        replacement: numbered
+          ? REDACTION_PLACEHOLDERS[category].replace(']', ` ${index + 1}]`)
+          : REDACTION_PLACEHOLDERS[category]
+      }))
+      .sort((a, b) => b.text.length - a.text.length);
+  });
+}
+
+/**
+ * Lists the full name and its parts, each also in title case for names written in capitals
+ * @param name - Full name from the resume
+ * @returns Name terms, full name first; particles ("de", "van") and suffixes ("Jr.", "PhD") are left out
+ */
+function nameTerms(name: string): string[] {
+  const parts = name.split(/\s+/)
+    .map(part => part.replace(/^[^\p{L}]+|[^\p{L}]+$/gu, ''))
+    .filter(part => /^\p{Lu}/u.test(part) && !NAME_SUFFIXES.has(part.toLowerCase()));
+  const terms = [name, ...parts];
+  return [...terms, ...terms.map(term => term.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, lead, letter) => lead + letter.toUpperCase()))];
+}
+
+/**
+ * Lists the lines of the header and Contact Information sections
+ * @param document - Optimized document
+ * @returns Trimmed lines as written in the resume text
+ */
+function findContactLines(document: ATSOptimizedDocument): string[] {
+  const contactTitle = RESUME_LOCALES[document.language].titles.PERSONAL_INFO;
+  return document.sections
+    .filter(section => section.kind === 'preamble' || section.standardTitle === contactTitle)
+    .flatMap(section => section.content.split('\n'));
+}
+
+/**
+ * Reads employer names from the header lines of work entries, so employers the structured
+ * resume missed are masked too: the first field that isn't a job title, date or work location,
+ * up to its first comma ("Beispiel GmbH, München")
+ * @param document - Optimized document
+ * @returns Employer names in document order
+ */
+function findWorkHeaderEmployers(document: ATSOptimizedDocument): string[] {
+  const workTitle = RESUME_LOCALES[document.language].titles.WORK_EXPERIENCE;
+  const locations = new Set(document.resume.work.map(entry => entry.location?.toLowerCase()));
+
+  return document.sections
+    .filter(section => section.standardTitle === workTitle)
+    .flatMap(section => section.content.split('\n'))
+    .map(line => line.trim())
+    .filter(line =>
+      line && !BULLET_PATTERN.test(line) && !/[.!?:]/.test(line.slice(-1)) && !line.includes(': ')
+      && line.split(/\s+/).length <= MAX_WORK_HEADER_WORDS
+    )
+    .flatMap(line => {
+      const employer = line.split(HEADER_FIELD_SEPARATOR)
+        .map(field => field.trim())
+        .find(field => field && !DATE_FIELD_PATTERN.test(field) && !isJobTitle(field) && !locations.has(field.toLowerCase()));
+      return employer ? [employer.split(',')[0]] : [];
+    });
+}
+
+/**
+ * Replaces every occurrence of the terms in a text, matching whole words and ignoring case
+ * @param text - Text to redact
+ * @param terms - Terms in masking order
+ * @param occurrences - Optional tally of replacements per term
+ * @returns Redacted text
+ */
+function applyTerms(text: string, terms: RedactionTerm[], occurrences?: Map<RedactionTerm, number>): string {
+  return terms.reduce((redacted, term) => {
+    const escaped = term.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const before = /^\w/.test(term.text) ? '(?<!\\w)' : '';
+    const after = /\w$/.test(term.text) ? '(?!\\w)' : '';
+    const pattern = new RegExp(`${before}${escaped}${after}`, term.matchCase ? 'g' : 'gi');
+
+    return redacted.replace(pattern, () => {
+      occurrences?.set(term, (occurrences.get(term) ?? 0) + 1);
+      return term.replacement;
+    });
+  }, text);
+}
+
+/**
+ * Applies a text transform to every string in a value, leaving other fields as they are
+ * @param value - Object, array or primitive (undefined is returned as is)
+ * @param redact - Text transform
+ * @returns Copy of the value with transformed strings
+ */
+function redactStrings<T>(value: T, redact: (text: string) => string): T {
+  if (typeof value === 'string') return redact(value) as T;
+  if (Array.isArray(value)) return value.map(item => redactStrings(item, redact)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, redactStrings(field, redact)])
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,399 @@
+// Contact details: extraction, E.164 phone normalization and the canonical contact block
+import type { ResumeLocation, ResumeProfile } from '@/types/resume';
+import { RESUME_LOCALES, type OptimizerMessages } from '../locales/resume-locale';
+
+export interface ContactInfo {
+  name?: string;
+  emails: string[];
+  phones: ContactPhone[];
+  location?: ResumeLocation;
+  profiles: ResumeProfile[]; // LinkedIn, GitHub and other networks, in document order
+  websites: string[]; // Personal URLs; the first is treated as the portfolio
+}
+
+export type ContactLabel = 'email' | 'phone' | 'location' | 'portfolio' | 'website';
+
+export interface ContactPhone {
+  text: string; // As written
+  e164?: string; // Undefined when the country can't be determined
+}
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(0\)[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{5,}\d(?:\s*(?:ext\.?|x)\s*\d{1,5})?/gi;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s|,;]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|dev|io|me|net|org|co|app|tech|site|xyz|info|design|page|us|uk|ca|de)(?:\/[^\s|,;]*)?(?=$|[\s|,;])/gi;
+const YEAR_RANGE_PATTERN = /^\d{4}\s*[-–—]\s*\d{4}$/;
+// Dates such as "01.02.1985", "01/02/1985" or "1985-02-01" have phone-like digit runs
+const DATE_SHAPED_PATTERN = /^(?:\d{1,2}([./-])\d{1,2}\1\d{2,4}|\d{4}([./-])\d{1,2}\2\d{1,2})$/;
+
+// Labels that introduce a phone number or an address, in every resume language
+const PHONE_LABELS = '(?:phone|tel(?:ephone|efon|éfono|efone)?|téléphone|mobile?|mobil|cell(?:ular)?|celular|handy|portable|móvil|telemóvel|whatsapp)';
+const LOCATION_LABELS = '(?:address|location|based in|adresse|anschrift|wohnort|localisation|dirección|ubicación|endereço|localização)';
+
+// Labels people put before contact details ("Email: ...", "Mobile - ..."), and the localized ones of the contact block
+const CONTACT_LABELS = `(?:e-?mail|${PHONE_LABELS}|linkedin|github|portfolio|website|web|url|${LOCATION_LABELS}|name|${
+  Object.values(RESUME_LOCALES).flatMap(locale => Object.values(locale.contactLabels)).join('|')
+})`;
+const CONTACT_LABEL_PATTERN = new RegExp(`^\\s*${CONTACT_LABELS}\\s*[:\\-–]\\s*`, 'i');
+const BARE_LABEL_PATTERN = new RegExp(`^${CONTACT_LABELS}$`, 'i');
+const FIELD_SEPARATOR = /\s*[|•·;]\s*|\s{2,}|\t+/;
+
+// A number right after a label is only a phone when the label says so ("Mobil: ..." but not "Geburtsdatum: ...")
+const FIELD_LABEL_PATTERN = /([\p{L}][\p{L} .-]*?)\s*:\s*$/u;
+const PHONE_LABEL_PATTERN = new RegExp(`^(?:${PHONE_LABELS}|phone number|mobile phone)\\.?$`, 'i');
+
+const LOCATION_PATTERN = /^(?:(.+?),\s*)?(\p{Lu}[\p{L} .'-]*[\p{Ll}.]),\s*(\p{Lu}[\p{L} .'-]+?)(?:\s+(\d{5}(?:-\d{4})?|[A-Z]\d[A-Z] ?\d[A-Z]\d))?$/u;
+
+// US states, territories and Canadian provinces (codes and names): phones there can be assumed to be +1
+const NORTH_AMERICAN_REGIONS = new Set([
+  'al', 'ak', 'az', 'ar', 'ca', 'co', 'ct', 'de', 'dc', 'fl', 'ga', 'hi', 'id', 'il', 'in', 'ia', 'ks', 'ky', 'la',
+  'me', 'md', 'ma', 'mi', 'mn', 'ms', 'mo', 'mt', 'ne', 'nv', 'nh', 'nj', 'nm', 'ny', 'nc', 'nd', 'oh', 'ok', 'or',
+  'pa', 'ri', 'sc', 'sd', 'tn', 'tx', 'ut', 'vt', 'va', 'wa', 'wv', 'wi', 'wy', 'pr',
+  'ab', 'bc', 'mb', 'nb', 'nl', 'ns', 'nt', 'nu', 'on', 'pe', 'qc', 'sk', 'yt',
+  'alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado', 'connecticut', 'delaware',
+  'district of columbia', 'florida', 'georgia', 'hawaii', 'idaho', 'illinois', 'indiana', 'iowa', 'kansas',
+  'kentucky', 'louisiana', 'maine', 'maryland', 'massachusetts', 'michigan', 'minnesota', 'mississippi',
+  'missouri', 'montana', 'nebraska', 'nevada', 'new hampshire', 'new jersey', 'new mexico', 'new york',
+  'north carolina', 'north dakota', 'ohio', 'oklahoma', 'oregon', 'pennsylvania', 'rhode island',
+  'south carolina', 'south dakota', 'tennessee', 'texas', 'utah', 'vermont', 'virginia', 'washington',
+  'west virginia', 'wisconsin', 'wyoming', 'puerto rico', 'alberta', 'british columbia', 'manitoba',
+  'new brunswick', 'newfoundland and labrador', 'nova scotia', 'ontario', 'prince edward island', 'quebec',
+  'saskatchewan', 'us', 'usa', 'united states', 'canada'
+]);
+
+// Countries accepted after a city ("Berlin, Germany"); two- and three-letter codes are accepted as well
+const COUNTRY_NAMES = new Set([
+  'mexico', 'brazil', 'argentina', 'chile', 'colombia', 'united kingdom', 'england', 'scotland', 'wales',
+  'ireland', 'germany', 'france', 'spain', 'portugal', 'italy', 'netherlands', 'belgium', 'switzerland',
+  'austria', 'sweden', 'norway', 'denmark', 'finland', 'poland', 'czech republic', 'greece', 'turkey', 'israel',
+  'united arab emirates', 'egypt', 'nigeria', 'kenya', 'south africa', 'india', 'pakistan', 'china', 'japan',
+  'south korea', 'singapore', 'philippines', 'vietnam', 'indonesia', 'malaysia', 'australia', 'new zealand',
+  // As written in German, French, Spanish and Portuguese resumes
+  'deutschland', 'österreich', 'schweiz', 'suisse', 'frankreich', 'spanien', 'espagne', 'españa', 'espanha',
+  'italien', 'italie', 'italia', 'niederlande', 'pays-bas', 'países bajos', 'belgien', 'belgique', 'bélgica',
+  'royaume-uni', 'reino unido', 'vereinigtes königreich', 'méxico', 'mexique', 'brasil', 'brésil', 'brasilien',
+  'états-unis', 'estados unidos', 'kanada', 'luxembourg', 'luxemburg', 'irland', 'irlande', 'irlanda'
+]);
+
+// "(555) 123-4567", "555-123-4567" and "555.123.4567" are North American even without a location
+const NANP_FORMAT_PATTERN = /^(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}$/;
+
+// The name is one of the first lines unless it is labeled
+const NAME_LINE_LIMIT = 3;
+
+const PROFILE_NETWORKS: { network: string; pattern: RegExp }[] = [
+  { network: 'LinkedIn', pattern: /linkedin\.com\/in\/([^/?#\s]+)/i },
+  { network: 'GitHub', pattern: /github\.com\/([^/?#\s]+)/i },
+  { network: 'GitLab', pattern: /gitlab\.com\/([^/?#\s]+)/i },
+  { network: 'Stack Overflow', pattern: /stackoverflow\.com\/users\/\d+\/([^/?#\s]+)/i },
+  { network: 'X', pattern: /(?:twitter|x)\.com\/([^/?#\s]+)/i },
+  { network: 'Medium', pattern: /medium\.com\/@([^/?#\s]+)/i },
+  { network: 'Behance', pattern: /behance\.net\/([^/?#\s]+)/i },
+  { network: 'Dribbble', pattern: /dribbble\.com\/([^/?#\s]+)/i },
+  { network: 'Kaggle', pattern: /kaggle\.com\/([^/?#\s]+)/i }
+];
+
+/**
+ * Extracts contact details from the opening lines of a resume
+ * @param lines - Preamble and Contact Information lines
+ * @returns Distinct contact details in document order
+ */
+export function extractContactInfo(lines: string[]): ContactInfo {
+  const info: ContactInfo = { emails: [], phones: [], profiles: [], websites: [] };
+
+  const nonEmptyLines = lines.map(line => line.trim()).filter(Boolean);
+
+  nonEmptyLines.forEach((line, index) => {
+    for (const email of line.match(EMAIL_PATTERN) ?? []) {
+      if (!info.emails.some(existing => existing.toLowerCase() === email.toLowerCase())) {
+        info.emails.push(email);
+      }
+    }
+
+    for (const url of findUrls(line)) {
+      const profile = toProfile(url);
+      if (profile) {
+        if (!info.profiles.some(existing => existing.url.toLowerCase() === profile.url.toLowerCase())) {
+          info.profiles.push(profile);
+        }
+      } else if (!info.websites.some(existing => existing.toLowerCase() === url.toLowerCase())) {
+        info.websites.push(url);
+      }
+    }
+
+    info.location ??= findLocation(line);
+    if (index < NAME_LINE_LIMIT || /^name\s*:/i.test(line)) {
+      info.name ??= findName(line);
+    }
+  });
+
+  // Phones last: the location decides whether numbers without a country code are North American
+  for (const line of nonEmptyLines) {
+    for (const text of findPhones(line)) {
+      const phone = { text, e164: toE164(text, info.location) };
+      const key = phone.e164 ?? text.replace(/\D/g, '');
+      if (!info.phones.some(existing => (existing.e164 ?? existing.text.replace(/\D/g, '')) === key)) {
+        info.phones.push(phone);
+      }
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Checks contact details for missing and duplicate items
+ * @param info - Extracted contact details
+ * @param messages - Warning text in the resume's language
+ * @returns Array of warnings
+ */
+export function checkContactInfo(info: ContactInfo, messages: OptimizerMessages): string[] {
+  const warnings: string[] = [];
+
+  if (!info.name) {
+    warnings.push(messages.noName);
+  }
+  if (info.emails.length === 0) {
+    warnings.push(messages.noEmail);
+  }
+  if (info.phones.length === 0) {
+    warnings.push(messages.noPhone);
+  }
+  if (!info.location) {
+    warnings.push(messages.noLocation);
+  }
+  if (!info.profiles.some(profile => profile.network === 'LinkedIn')) {
+    warnings.push(messages.noLinkedIn);
+  }
+
+  if (info.emails.length > 1) {
+    warnings.push(messages.multipleEmails(info.emails.join(', ')));
+  }
+  if (info.phones.length > 1) {
+    warnings.push(messages.multiplePhones(info.phones.map(phone => phone.text).join(', ')));
+  }
+  for (const network of new Set(info.profiles.map(profile => profile.network))) {
+    const urls = info.profiles.filter(profile => profile.network === network).map(profile => profile.url);
+    if (urls.length > 1) {
+      warnings.push(messages.multipleProfiles(network, urls.join(', ')));
+    }
+  }
+
+  for (const phone of info.phones.filter(phone => !phone.e164)) {
+    warnings.push(messages.phoneWithoutCountryCode(phone.text));
+  }
+
+  return warnings;
+}
+
+/**
+ * Removes contact details, their labels and the name from a line
+ * @param line - Text line
+ * @param info - Contact details extracted from the same lines
+ * @returns Remaining fields joined with pipes (empty when the line held only contact details)
+ */
+export function stripContactDetails(line: string, info: ContactInfo): string {
+  const trimmed = line.trim();
+  if (info.name && trimmed.replace(/^name\s*:\s*/i, '') === info.name) return '';
+
+  return trimmed
+    .split(FIELD_SEPARATOR)
+    .map(field => {
+      let rest = field.replace(EMAIL_PATTERN, ' ');
+      findPhones(rest).forEach(phone => (rest = rest.replace(phone, ' ')));
+      findUrls(rest).forEach(url => (rest = rest.replace(url, ' ')));
+      rest = rest.replace(CONTACT_LABEL_PATTERN, ' ').trim();
+      return findLocation(rest) || BARE_LABEL_PATTERN.test(rest) ? '' : rest;
+    })
+    .filter(field => field.replace(/[\s|•·;,:()\-–—]+/g, '').length > 0)
+    .join(' | ');
+}
+
+/**
+ * Checks whether a line carries an email, phone number or URL
+ * @param line - Text line
+ * @returns Boolean indicating contact details
+ */
+export function hasContactDetails(line: string): boolean {
+  return new RegExp(EMAIL_PATTERN.source).test(line) || findPhones(line).length > 0 || findUrls(line).length > 0;
+}
+
+/**
+ * Finds URLs (with or without a scheme) in a line, ignoring email domains
+ * @param line - Text line
+ * @returns URLs as written, without trailing punctuation
+ */
+export function findUrls(line: string): string[] {
+  return (line.replace(EMAIL_PATTERN, ' ').match(URL_PATTERN) ?? [])
+    .map(url => url.replace(/[.)]+$/, ''))
+    // Bare domains are written in lowercase; "ASP.NET" is a technology
+    .filter(url => /^(?:https?:\/\/|www\.)/i.test(url) || /(?:linkedin|github)\.com/i.test(url) || url === url.toLowerCase());
+}
+
+/**
+ * Finds phone numbers with a plausible digit count in a line, skipping dates and numbers
+ * labeled as something other than a phone
+ * @param line - Text line
+ * @returns Phone numbers as written
+ */
+export function findPhones(line: string): string[] {
+  // Emails are blanked out rather than removed so match offsets still point into the line
+  const text = line.replace(EMAIL_PATTERN, email => ' '.repeat(email.length));
+
+  return [...text.matchAll(PHONE_PATTERN)]
+    .filter(match => {
+      const label = text.slice(0, match.index).split(/[|•·;]/).pop()?.match(FIELD_LABEL_PATTERN)?.[1];
+      return !label || PHONE_LABEL_PATTERN.test(label.trim());
+    })
+    .map(match => match[0].trim())
+    .filter(match => {
+      const digits = match.replace(/\s*(?:ext\.?|x)\s*\d+$/i, '').replace(/\D/g, '');
+      // Year ranges ("2019 - 2021") and dates also look like digit runs
+      return digits.length >= 7 && digits.length <= 15 &&
+        !YEAR_RANGE_PATTERN.test(match) && !DATE_SHAPED_PATTERN.test(match);
+    });
+}
+
+/**
+ * Formats contact details as labeled lines for the Contact Information section
+ * @param info - Extracted contact details
+ * @param labels - Line labels in the resume's language; network names are kept as they are
+ * @returns One line per detail; repeated kinds keep every distinct value
+ */
+export function formatContactBlock(info: ContactInfo, labels: Record<ContactLabel, string>): string[] {
+  const lines: string[] = [];
+
+  info.emails.forEach(email => lines.push(`${labels.email}: ${email}`));
+  info.phones.forEach(phone => {
+    const extension = phone.text.match(/(?:ext\.?|x)\s*(\d+)$/i)?.[1];
+    lines.push(`${labels.phone}: ${phone.e164 ? `${phone.e164}${extension ? ` ext. ${extension}` : ''}` : phone.text}`);
+  });
+  if (info.location) lines.push(`${labels.location}: ${formatLocation(info.location)}`);
+  info.profiles.forEach(profile => lines.push(`${profile.network}: ${profile.url}`));
+  info.websites.forEach((website, index) =>
+    lines.push(`${index === 0 ? labels.portfolio : labels.website}: ${toAbsoluteUrl(website)}`));
+
+  return lines;
+}
+
+/**
+ * Formats a location for display
+ * @param location - Structured location
+ * @returns Text such as "Austin, TX 78701"
+ */
+export function formatLocation(location: ResumeLocation): string {
+  const place = [location.city, location.region ?? location.countryCode].filter(Boolean).join(', ');
+  return location.postalCode ? `${place} ${location.postalCode}` : place;
+}
+
+/**
+ * Converts a phone number to E.164
+ * @param phone - Phone number as written
+ * @param location - Candidate location, used for numbers without a country code
+ * @returns "+<country><number>", or undefined when the country can't be determined
+ */
+export function toE164(phone: string, location?: ResumeLocation): string | undefined {
+  const number = phone.replace(/\s*(?:ext\.?|x)\s*\d+$/i, '').replace(/\(0\)/, '');
+  const digits = number.replace(/\D/g, '');
+
+  if (/^\s*\+/.test(number)) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : undefined;
+  }
+  if (digits.startsWith('00')) {
+    const international = digits.slice(2);
+    return international.length >= 8 && international.length <= 15 ? `+${international}` : undefined;
+  }
+
+  // Without a country code, only North American numbers can be completed reliably
+  const northAmerican = location
+    ? [location.region, location.countryCode].some(value => value && isNorthAmericanRegion(value))
+    : NANP_FORMAT_PATTERN.test(number.trim());
+  if (!northAmerican) return undefined;
+
+  if (digits.length === 11 && /^1[2-9]\d{2}[2-9]/.test(digits)) return `+${digits}`;
+  if (digits.length === 10 && /^[2-9]\d{2}[2-9]/.test(digits)) return `+1${digits}`;
+  return undefined;
+}
+
+/**
+ * Checks for a US state, territory or Canadian province (or the countries themselves)
+ * @param region - Region code or name
+ * @returns Boolean indicating a North American region
+ */
+function isNorthAmericanRegion(region: string): boolean {
+  return NORTH_AMERICAN_REGIONS.has(region.trim().toLowerCase());
+}
+
+/**
+ * Finds a "City, Region" location among a line's fields
+ * @param line - Text line
+ * @returns Structured location, or undefined
+ */
+function findLocation(line: string): ResumeLocation | undefined {
+  const labeled = new RegExp(`^\\s*${LOCATION_LABELS}(?![\\p{L}])`, 'iu').test(line);
+
+  for (const field of line.split(FIELD_SEPARATOR)) {
+    const text = field.replace(CONTACT_LABEL_PATTERN, '').trim();
+    const match = text.match(LOCATION_PATTERN);
+    if (!match || text.split(/\s+/).length > 10 || hasContactDetails(text)) continue;
+
+    const [, address, city, region, postalCode] = match;
+    const isRegionCode = /^[A-Z]{2,3}$/.test(region);
+    if (!labeled && !isRegionCode && !isNorthAmericanRegion(region) && !COUNTRY_NAMES.has(region.toLowerCase())) continue;
+    // Street addresses start with a number; otherwise the first part belongs to the city
+    if (address && !labeled && !/^\d/.test(address)) continue;
+
+    const location: ResumeLocation = { city, region };
+    if (address) location.address = address;
+    if (postalCode) location.postalCode = postalCode;
+    return location;
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the candidate's name from a labeled or name-only line
+ * @param line - Text line
+ * @returns Name, or undefined when the line isn't a name
+ */
+function findName(line: string): string | undefined {
+  const text = line.replace(/^name\s*:\s*/i, '').trim();
+  const words = text.split(/\s+/);
+
+  const isName = words.length >= 2 && words.length <= 5 &&
+    !hasContactDetails(text) &&
+    !findLocation(text) &&
+    /^[\p{L}][\p{L}'’.\- ]+$/u.test(text) &&
+    words.every(word => /^[\p{Lu}]/u.test(word) || /^(de|da|del|der|van|von|la|le|di|du|bin|al)$/i.test(word));
+
+  return isName ? text : undefined;
+}
+
+/**
+ * Maps profile URLs (LinkedIn, GitHub, ...) to profiles with a normalized URL
+ * @param url - URL as written
+ * @returns Profile, or null for personal websites
+ */
+function toProfile(url: string): ResumeProfile | null {
+  const normalized = toAbsoluteUrl(url).replace(/\/+$/, '');
+
+  for (const { network, pattern } of PROFILE_NETWORKS) {
+    const match = normalized.match(pattern);
+    if (match) {
+      const host = normalized.match(/^https?:\/\/(?:www\.)?([^/]+)/i)?.[1].toLowerCase() ?? '';
+      const path = normalized.replace(/^https?:\/\/[^/]+/i, '');
+      return { network, username: match[1], url: `https://${host}${path}` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Adds the https scheme to URLs written without one
+ * @param url - URL as written
+ * @returns Absolute URL
+ */
+function toAbsoluteUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
@@ -0,0 +1,228 @@
+// Conversion between the resume model and the JSON Resume schema
+import { createEmptyResume, type ResumeData, type JSONResume } from '@/types/resume';
+import { normalizeResumeDate } from './resume-dates';
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+/**
+ * Exports the resume model as a JSON Resume document
+ * @param resume - Structured resume data
+ * @returns JSON Resume object ready for JSON.stringify
+ */
+export function toJSONResume(resume: ResumeData): JSONResume {
+  const { basics } = resume;
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: basics.name,
+      label: basics.label,
+      email: basics.email,
+      phone: basics.phone,
+      url: basics.url,
+      summary: basics.summary,
+      location: basics.location ? { ...basics.location } : undefined,
+      profiles: basics.profiles.map(profile => ({ ...profile }))
+    },
+    work: resume.work.map(work => ({
+      name: work.company,
+      position: work.title,
+      location: work.location,
+      startDate: work.startDate,
+      // JSON Resume marks current roles by omitting the end date
+      endDate: work.current ? undefined : work.endDate,
+      summary: work.summary,
+      highlights: [...work.bullets]
+    })),
+    education: resume.education.map(education => ({
+      institution: education.institution,
+      area: education.area,
+      studyType: education.studyType,
+      startDate: education.startDate,
+      endDate: education.endDate,
+      score: education.score,
+      courses: [...education.details]
+    })),
+    skills: resume.skills.flatMap(group => group.name
+      ? [{ name: group.name, keywords: [...group.keywords] }]
+      : group.keywords.map(keyword => ({ name: keyword }))
+    ),
+    certificates: resume.certifications.map(certification => ({
+      name: certification.name,
+      issuer: certification.issuer,
+      date: certification.date,
+      url: certification.url
+    })),
+    projects: resume.projects.map(project => ({
+      name: project.name,
+      description: project.description,
+      highlights: [...project.bullets],
+      url: project.url,
+      startDate: project.startDate,
+      endDate: project.endDate
+    })),
+    languages: resume.languages.map(language => ({ ...language })),
+    meta: {
+      version: 'v1.0.0',
+      lastModified: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Imports a JSON Resume document into the resume model
+ * @param input - Parsed JSON (validated here, since it comes from a user file)
+ * @returns Structured resume data
+ * @throws Error when the input is not a JSON Resume document
+ */
+export function fromJSONResume(input: unknown): ResumeData {
+  if (!isRecord(input)) {
+    throw new Error('JSON Resume must be an object');
+  }
+
+  const json = input;
+  const knownSections = ['basics', 'work', 'education', 'skills', 'certificates', 'projects', 'languages'];
+  if (!knownSections.some(section => section in json)) {
+    throw new Error('No JSON Resume sections (basics, work, education, ...) found');
+  }
+
+  const resume = createEmptyResume();
+  const basics: Record<string, unknown> = isRecord(json.basics) ? json.basics : {};
+  const location = isRecord(basics.location) ? basics.location : undefined;
+
+  resume.basics = {
+    name: text(basics.name),
+    label: text(basics.label),
+    email: text(basics.email),
+    phone: text(basics.phone),
+    url: text(basics.url),
+    summary: text(basics.summary),
+    location: location && {
+      address: text(location.address),
+      city: text(location.city),
+      region: text(location.region),
+      postalCode: text(location.postalCode),
+      countryCode: text(location.countryCode)
+    },
+    profiles: records(basics.profiles).flatMap(profile => {
+      const url = text(profile.url);
+      const network = text(profile.network);
+      return url && network ? [{ network, username: text(profile.username), url }] : [];
+    })
+  };
+
+  resume.work = records(json.work).map(work => {
+    const startDate = date(work.startDate);
+    const endDate = date(work.endDate);
+    return {
+      title: text(work.position),
+      company: text(work.name),
+      location: text(work.location),
+      startDate,
+      endDate,
+      current: !endDate && !!startDate,
+      summary: text(work.summary),
+      bullets: strings(work.highlights)
+    };
+  });
+
+  resume.education = records(json.education).map(education => ({
+    institution: text(education.institution),
+    studyType: text(education.studyType),
+    area: text(education.area),
+    startDate: date(education.startDate),
+    endDate: date(education.endDate),
+    score: text(education.score),
+    details: strings(education.courses)
+  }));
+
+  // Named skills with keywords become categories; bare names form one uncategorized group
+  const uncategorized: string[] = [];
+  for (const skill of records(json.skills)) {
+    const name = text(skill.name);
+    const keywords = strings(skill.keywords);
+    if (keywords.length > 0) {
+      resume.skills.push({ name, keywords });
+    } else if (name) {
+      uncategorized.push(name);
+    }
+  }
+  if (uncategorized.length > 0) {
+    resume.skills.push({ keywords: uncategorized });
+  }
+
+  resume.certifications = records(json.certificates).flatMap(certification => {
+    const name = text(certification.name);
+    return name ? [{
+      name,
+      issuer: text(certification.issuer),
+      date: date(certification.date),
+      url: text(certification.url)
+    }] : [];
+  });
+
+  resume.projects = records(json.projects).flatMap(project => {
+    const name = text(project.name);
+    return name ? [{
+      name,
+      description: text(project.description),
+      url: text(project.url),
+      startDate: date(project.startDate),
+      endDate: date(project.endDate),
+      bullets: strings(project.highlights)
+    }] : [];
+  });
+
+  resume.languages = records(json.languages).flatMap(language => {
+    const name = text(language.language);
+    return name ? [{ language: name, fluency: text(language.fluency) }] : [];
+  });
+
+  return resume;
+}
+
+/**
+ * Checks for a plain object
+ * @param value - Value to check
+ * @returns Boolean indicating a non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a non-empty trimmed string
+ * @param value - Value to read
+ * @returns String, or undefined for other types and blank strings
+ */
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+/**
+ * Reads an array of objects, skipping anything else
+ * @param value - Value to read
+ * @returns Object entries
+ */
+function records(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * Reads an array of non-empty strings, skipping anything else
+ * @param value - Value to read
+ * @returns String entries
+ */
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(text).filter((item): item is string => !!item) : [];
+}
+
+/**
+ * Reads a date, normalizing it to ISO 8601 when recognizable
+ * @param value - Value to read
+ * @returns ISO date, the text as written, or undefined for blanks
+ */
+function date(value: unknown): string | undefined {
+  const raw = text(value);
+  return raw && (normalizeResumeDate(raw) ?? raw);
+}
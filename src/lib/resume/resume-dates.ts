@@ -0,0 +1,119 @@
+// Resume date normalization: many written forms to ISO 8601 (YYYY-MM or YYYY)
+import { RESUME_LOCALES } from '../locales/resume-locale';
+
+// Display month names when no resume language is given
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Seasons map to the month they usually start in (academic terms, internships)
+const SEASON_MONTHS: Record<string, number> = {
+  winter: 1,
+  spring: 3,
+  summer: 6,
+  fall: 9,
+  autumn: 9
+};
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const SEASON = '(?:winter|spring|summer|fall|autumn)';
+
+// Source for embedding in larger patterns (no capture groups)
+export const RESUME_DATE_SOURCE = `(?:(?:${MONTH}|${SEASON})\\s+\\d{4}|\\d{1,2}[/.]\\d{4}|\\d{4}[-/]\\d{1,2}(?!\\d)|\\d{4})`;
+
+// "Present" and its synonyms in every resume language, longest first so "actual" doesn't cut "actualidad" short
+export const CURRENT_DATE_SOURCE = `(?:${[...new Set(Object.values(RESUME_LOCALES).flatMap(locale => locale.currentDateWords))]
+  .sort((a, b) => b.length - a.length)
+  .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  .join('|')})`;
+
+// Between the two dates of a range, with its surrounding whitespace ("2019 - 2021", "2019 bis 2021")
+export const DATE_RANGE_SEPARATOR_SOURCE = '(?:\\s*[-–—]\\s*|\\s+(?:to|until|bis|au|à|hasta|a|até)\\s+)';
+
+const MONTH_NAME_PATTERN = new RegExp(`^${MONTH}$`);
+const CURRENT_PATTERN = new RegExp(`^${CURRENT_DATE_SOURCE}$`, 'i');
+
+/**
+ * Converts a date as written in a resume to ISO 8601
+ * @param date - Date text such as "Jan 2020", "01/2020", "01.2020", "Spring 2019", "2020-01" or "2020"
+ * @returns "YYYY-MM" or "YYYY", or undefined when the text isn't a recognizable date
+ */
+export function normalizeResumeDate(date: string): string | undefined {
+  const value = date.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  const named = value.match(/^([a-z]+)\.? (\d{4})$/);
+  if (named) {
+    const month = SEASON_MONTHS[named[1]] ?? findMonth(named[1]);
+    return month ? toISO(Number(named[2]), month) : undefined;
+  }
+
+  const monthFirst = value.match(/^(\d{1,2})[/.](\d{4})$/);
+  if (monthFirst) return toISO(Number(monthFirst[2]), Number(monthFirst[1]));
+
+  const yearFirst = value.match(/^(\d{4})[-/](\d{1,2})(?:-\d{1,2})?$/);
+  if (yearFirst) return toISO(Number(yearFirst[1]), Number(yearFirst[2]));
+
+  const year = value.match(/^(\d{4})$/);
+  if (year) return toISO(Number(year[1]));
+
+  return undefined;
+}
+
+/**
+ * Checks for "Present" and its synonyms ("heute", "actualidad", ...) in a date range
+ * @param date - End date text
+ * @returns Boolean indicating an ongoing role
+ */
+export function isCurrentDate(date: string): boolean {
+  return CURRENT_PATTERN.test(date.trim());
+}
+
+/**
+ * Formats an ISO resume date for display
+ * @param date - ISO date ("2020-01" or "2020"); other text is returned unchanged
+ * @param monthNames - Short month names in the resume's language, January first; English by default
+ * @returns Display date such as "Jan 2020" or "März 2020"
+ */
+export function formatResumeDate(date: string, monthNames: string[] = MONTH_NAMES): string {
+  const iso = date.match(/^(\d{4})(?:-(\d{2}))?(?:-\d{2})?$/);
+  if (!iso) return date;
+
+  const month = iso[2] ? Number(iso[2]) : 0;
+  return month >= 1 && month <= 12 ? `${monthNames[month - 1]} ${iso[1]}` : iso[1];
+}
+
+/**
+ * Converts an ISO resume date to a month count for timeline arithmetic
+ * @param date - ISO date ("2020-01" or "2020")
+ * @returns Months since year 0, with year-only dates placed mid-year; undefined when not ISO
+ */
+export function toMonthIndex(date: string): number | undefined {
+  const iso = date.match(/^(\d{4})(?:-(\d{2}))?/);
+  if (!iso) return undefined;
+
+  // Mid-year keeps "2016 - 2019" followed by "2019 - 2021" from reading as an overlap or a gap
+  const month = iso[2] ? Number(iso[2]) : 6;
+  return Number(iso[1]) * 12 + (month - 1);
+}
+
+/**
+ * Finds the month number for a month name or abbreviation
+ * @param name - Lowercase month name
+ * @returns Month number (1-12), or undefined
+ */
+function findMonth(name: string): number | undefined {
+  if (!MONTH_NAME_PATTERN.test(name)) return undefined;
+  const index = MONTH_NAMES.findIndex(month => name.startsWith(month.toLowerCase()));
+  return index === -1 ? undefined : index + 1;
+}
+
+/**
+ * Builds an ISO date, rejecting impossible values
+ * @param year - Four-digit year
+ * @param month - Optional month number
+ * @returns ISO date, or undefined when out of range
+ */
+function toISO(year: number, month?: number): string | undefined {
+  if (year < 1900 || year > 2100) return undefined;
+  if (month === undefined) return String(year);
+  if (month < 1 || month > 12) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
@@ -0,0 +1,536 @@
+// Builds the structured resume model from detected section text
+import {
+  createEmptyResume,
+  type ResumeData,
+  type ResumeBasics,
+  type WorkEntry,
+  type EducationEntry,
+  type SkillGroup,
+  type CertificationEntry,
+  type ProjectEntry,
+  type LanguageEntry
+} from '@/types/resume';
+import {
+  RESUME_DATE_SOURCE,
+  CURRENT_DATE_SOURCE,
+  DATE_RANGE_SEPARATOR_SOURCE,
+  normalizeResumeDate,
+  isCurrentDate
+} from './resume-dates';
+import { extractContactInfo, hasContactDetails, findUrls } from './contact-info';
+import { RESUME_LOCALES } from '../locales/resume-locale';
+
+// Section text grouped by the part of the model it feeds
+export interface ResumeSectionText {
+  preamble: string; // Lines before the first detected heading (name, headline, contact details)
+  contact?: string;
+  summary?: string;
+  work?: string;
+  education?: string;
+  skills?: string;
+  certifications?: string;
+  projects?: string;
+  languages?: string;
+}
+
+interface RawEntry {
+  header: string[];
+  bullets: string[];
+  prose: string[];
+}
+
+const BULLET_PATTERN = /^[•·▪◦‣*–-]\s+/;
+
+const DATE_RANGE_PATTERN = new RegExp(`(${RESUME_DATE_SOURCE})${DATE_RANGE_SEPARATOR_SOURCE}(${RESUME_DATE_SOURCE}|${CURRENT_DATE_SOURCE})`, 'i');
+const SINGLE_DATE_PATTERN = new RegExp(`(?:^|\\s|\\()(${RESUME_DATE_SOURCE})(?=$|\\s|\\)|,)`, 'i');
+
+// Header fields are separated by pipes, bullets or spaced dashes ("Engineer | Acme | 2020 - 2022")
+const FIELD_SEPARATOR = /\s+[|•·]\s+|\s+[–—-]\s+|\s*\|\s*|\t+/;
+
+const JOB_TITLE_PATTERN = /\b(engineer|developer|manager|director|analyst|designer|consultant|specialist|intern|lead|officer|coordinator|assistant|associate|architect|scientist|administrator|representative|head|vp|vice president|president|founder|co-founder|owner|supervisor|technician|accountant|advisor|editor|writer|teacher|nurse|researcher|programmer|strategist|executive|principal|partner|agent|clerk|cashier|chef|fellow|trainee|apprentice|volunteer|contractor|freelancer)\b/i;
+// Localized titles may end a compound ("Softwareentwickler", "Projektleiterin")
+const LOCALIZED_JOB_TITLE_PATTERN = new RegExp(
+  `(?:${Object.values(RESUME_LOCALES).flatMap(locale => locale.jobTitles).join('|')})(?:in|innen)?(?![\\p{L}])`,
+  'iu'
+);
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic|conservatory|universit[éäà]t?|hochschule)\b/i;
+const DEGREE_PATTERN = /\b(bachelor|master|doctor|associate|diploma|certificate|ph\.?\s?d|mba|b\.?\s?[as]\.?c?|m\.?\s?[as]\.?c?|b\.?eng|m\.?eng|b\.?a|m\.?a|b\.?s|m\.?s|bsc|msc|ba|ma|bs|ms|jd|md|ged|high school)\b/i;
+const GPA_PATTERN = /\b(?:gpa|grade)\s*:?\s*(\d+(?:\.\d+)?(?:\s*\/\s*\d+(?:\.\d+)?)?)/i;
+const LOCATION_PATTERN = /^(?:[Rr]emote|[Hh]ybrid|\p{Lu}[\p{L} .'-]+,\s*(?:[A-Z]{2}|\p{Lu}[\p{L} .'-]+))$/u;
+// Legal forms anywhere in a field mark a company ("Muster AG, Berlin" isn't "City, Region")
+const COMPANY_SUFFIX_PATTERN = /\b(inc|corp|corporation|llc|llp|ltd|gmbh|ag|plc|co|sarl|sas|s\.?a|s\.?l|b\.?v|ltda)\b\.?/i;
+// A lone place name after a company's legal form ("Beispiel GmbH, München")
+const CITY_PATTERN = /^\p{Lu}[\p{L}.'-]*(?:\s+\p{Lu}[\p{L}.'-]*){0,2}$/u;
+// Region codes that end a "City, ST" location rather than an employer's city
+const REGION_CODE_PATTERN = /^[A-Z]{2}$/;
+
+
+/**
+ * Extracts a structured resume from section text
+ * @param sectionText - Preamble and section contents grouped by model field
+ * @returns Structured resume data (fields absent from the text are left empty)
+ */
+export function extractResumeData(sectionText: ResumeSectionText): ResumeData {
+  const resume = createEmptyResume();
+
+  resume.basics = extractBasics(sectionText.preamble, sectionText.contact ?? '');
+  if (sectionText.summary) {
+    resume.basics.summary = joinProse(sectionText.summary);
+  }
+
+  if (sectionText.work) resume.work = parseWorkExperience(sectionText.work);
+  if (sectionText.education) resume.education = extractEducation(sectionText.education);
+  if (sectionText.skills) resume.skills = extractSkills(sectionText.skills);
+  if (sectionText.certifications) resume.certifications = extractCertifications(sectionText.certifications);
+  if (sectionText.projects) resume.projects = extractProjects(sectionText.projects);
+  if (sectionText.languages) resume.languages = extractLanguages(sectionText.languages);
+
+  return resume;
+}
+
+/**
+ * Finds name, headline, contact details and profiles in the document opening
+ * @param preamble - Lines before the first section heading
+ * @param contact - Contact Information section content, if present
+ * @returns Basics with profiles
+ */
+function extractBasics(preamble: string, contact: string): ResumeBasics {
+  const lines = [...splitLines(preamble), ...splitLines(contact)];
+  const info = extractContactInfo(lines);
+  const phone = info.phones[0];
+
+  const basics: ResumeBasics = {
+    name: info.name,
+    email: info.emails[0],
+    phone: phone && (phone.e164 ?? phone.text),
+    url: info.websites[0],
+    location: info.location,
+    profiles: info.profiles
+  };
+
+  // A short plain line right after the name is the headline
+  const { name } = info;
+  const nameIndex = name ? lines.findIndex(line => line.includes(name)) : -1;
+  const next = nameIndex === -1 ? undefined : lines[nameIndex + 1];
+  if (next && !hasContactDetails(next) && !isLocation(next) && next.split(/\s+/).length <= 8) {
+    basics.label = next;
+  }
+
+  return basics;
+}
+
+/**
+ * Splits Work Experience content into roles with title, employer, location and normalized dates
+ * @param content - Section content
+ * @returns Work entries in document order
+ */
+export function parseWorkExperience(content: string): WorkEntry[] {
+  return groupEntries(content).map(entry => {
+    const { fields, location: trailingLocation, startDate, endDate, current } = parseHeader(entry.header);
+    const work: WorkEntry = { current, bullets: entry.bullets };
+
+    work.startDate = startDate;
+    work.endDate = endDate;
+    if (entry.prose.length > 0) work.summary = entry.prose.join(' ');
+
+    let location = trailingLocation ?? fields.find(isLocation);
+    let remaining = fields.filter(field => field !== location);
+
+    // "Google, Mountain View" reads as "City, Region"; when it's the only field left for the employer, it's "Company, City"
+    const employerFields = remaining.filter(field => !isJobTitle(field));
+    if (location && !trailingLocation && employerFields.length === 0) {
+      const comma = location.lastIndexOf(',');
+      const city = location.slice(comma + 1).trim();
+      if (comma > 0 && !REGION_CODE_PATTERN.test(city)) {
+        remaining = [...remaining, location.slice(0, comma).trim()];
+        location = city;
+      }
+    }
+
+    const titleIndex = remaining.findIndex(field => isJobTitle(field));
+
+    if (titleIndex !== -1) {
+      work.title = remaining[titleIndex];
+      work.company = remaining.find((_, index) => index !== titleIndex);
+    } else {
+      [work.company, work.title] = remaining;
+    }
+    work.location = location;
+
+    return work;
+  }).filter(work => work.title || work.company || work.bullets.length > 0);
+}
+
+/**
+ * Checks for a job title word in English or, as a word ending, in another resume language
+ * @param text - Candidate text
+ * @returns Boolean indicating a job title
+ */
+export function isJobTitle(text: string): boolean {
+  return JOB_TITLE_PATTERN.test(text) || LOCALIZED_JOB_TITLE_PATTERN.test(text);
+}
+
+/**
+ * Splits Education content into schools and degrees
+ * @param content - Section content
+ * @returns Education entries in document order
+ */
+function extractEducation(content: string): EducationEntry[] {
+  return groupEntries(content).map(entry => {
+    const gpaLine = [...entry.header, ...entry.bullets, ...entry.prose].find(line => GPA_PATTERN.test(line));
+    const header = entry.header.map(line => line.replace(GPA_PATTERN, '').replace(/[,;|\s]+$/, ''));
+    const { fields, startDate, endDate } = parseHeader(header);
+    const education: EducationEntry = {
+      details: [...entry.bullets, ...entry.prose]
+        .map(line => (line === gpaLine ? line.replace(GPA_PATTERN, '').replace(/^[\s,;|]+|[\s,;|]+$/g, '') : line))
+        .filter(Boolean)
+    };
+
+    education.startDate = startDate;
+    education.endDate = endDate;
+    education.score = gpaLine?.match(GPA_PATTERN)?.[1];
+
+    education.institution = fields.find(field => INSTITUTION_PATTERN.test(field));
+    const degree = fields.find(field => field !== education.institution && DEGREE_PATTERN.test(field));
+    if (degree) {
+      const [studyType, area] = splitDegree(degree);
+      education.studyType = studyType;
+      education.area = area;
+    }
+    education.location = fields.find(field => field !== education.institution && field !== degree && isLocation(field));
+
+    // Fall back to position when no keyword identified the school
+    if (!education.institution) {
+      education.institution = fields.find(field => field !== degree && field !== education.location);
+    }
+
+    return education;
+  }).filter(education => education.institution || education.studyType);
+}
+
+/**
+ * Splits a degree into its type and field of study
+ * @param degree - Degree text such as "Bachelor of Science in Computer Science"
+ * @returns Study type and optional area
+ */
+function splitDegree(degree: string): [string, string | undefined] {
+  const inMatch = degree.match(/^(.*?)\s+in\s+(.+)$/i);
+  if (inMatch) return [inMatch[1].trim(), inMatch[2].trim()];
+
+  const commaMatch = degree.match(/^([^,]+),\s*(.+)$/);
+  if (commaMatch) return [commaMatch[1].trim(), commaMatch[2].trim()];
+
+  // Abbreviated degrees are followed directly by the field ("B.S. Computer Science")
+  const abbreviated = degree.match(/^((?:[A-Z][a-z]?\.){2,}|[A-Z]{2,4})\s+(.+)$/);
+  if (abbreviated) return [abbreviated[1], abbreviated[2]];
+
+  return [degree, undefined];
+}
+
+/**
+ * Parses Skills content into categorized keyword groups
+ * @param content - Section content
+ * @returns Skill groups; uncategorized keywords share one group without a name
+ */
+function extractSkills(content: string): SkillGroup[] {
+  const groups: SkillGroup[] = [];
+  const uncategorized: string[] = [];
+
+  for (const line of splitLines(content).map(stripBullet)) {
+    const category = line.match(/^([^:]{1,40}):\s*(.+)$/);
+    if (category) {
+      groups.push({ name: category[1].trim(), keywords: splitList(category[2]) });
+    } else {
+      uncategorized.push(...splitList(line));
+    }
+  }
+
+  if (uncategorized.length > 0) {
+    groups.push({ keywords: [...new Set(uncategorized)] });
+  }
+
+  return groups.filter(group => group.keywords.length > 0);
+}
+
+/**
+ * Parses one certification per line
+ * @param content - Section content
+ * @returns Certifications with issuer and date when present
+ */
+function extractCertifications(content: string): CertificationEntry[] {
+  return splitLines(content).map(stripBullet).map(line => {
+    const dateMatch = line.match(SINGLE_DATE_PATTERN);
+    const withoutDate = dateMatch
+      ? line.replace(dateMatch[1], '').replace(/\(\s*\)/g, '').replace(/[\s,|–—-]+$/, '').trim()
+      : line;
+    const [name, ...rest] = withoutDate.split(/\s+[|–—-]\s+|,\s+/).map(part => part.trim()).filter(Boolean);
+
+    const certification: CertificationEntry = { name: name ?? withoutDate };
+    if (rest.length > 0) certification.issuer = rest.join(', ');
+    if (dateMatch) certification.date = toModelDate(dateMatch[1]);
+    return certification;
+  }).filter(certification => certification.name.length > 0);
+}
+
+/**
+ * Splits Projects content into projects
+ * @param content - Section content
+ * @returns Projects in document order
+ */
+function extractProjects(content: string): ProjectEntry[] {
+  return groupEntries(content).map(entry => {
+    const { fields, startDate, endDate } = parseHeader(entry.header);
+    const urlField = fields.find(field => findUrls(field).length > 0);
+    const nameFields = fields.filter(field => field !== urlField);
+
+    const project: ProjectEntry = {
+      name: nameFields[0] ?? '',
+      bullets: entry.bullets
+    };
+    const description = [...nameFields.slice(1), ...entry.prose].join(' ');
+    if (description) project.description = description;
+    if (urlField) project.url = urlField;
+    project.startDate = startDate;
+    project.endDate = endDate;
+    return project;
+  }).filter(project => project.name.length > 0);
+}
+
+/**
+ * Parses language names and proficiency levels
+ * @param content - Section content
+ * @returns Languages with fluency when stated
+ */
+function extractLanguages(content: string): LanguageEntry[] {
+  const items = splitLines(content)
+    .map(stripBullet)
+    .flatMap(line => line.split(/\s*[,;|•]\s*/))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+  return items.map(item => {
+    const match = item.match(/^(.+?)\s*(?:\(([^)]+)\)|[:–—-]\s*(.+))$/);
+    if (!match) return { language: item };
+    return { language: match[1].trim(), fluency: (match[2] ?? match[3]).trim() };
+  });
+}
+
+/**
+ * Groups section lines into entries: header lines, then bullets and descriptive prose
+ * @param content - Section content
+ * @returns Raw entries in document order
+ */
+function groupEntries(content: string): RawEntry[] {
+  const entries: RawEntry[] = [];
+  let current: RawEntry | null = null;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (BULLET_PATTERN.test(line)) {
+      if (!current) {
+        current = { header: [], bullets: [], prose: [] };
+        entries.push(current);
+      }
+      current.bullets.push(stripBullet(line));
+      continue;
+    }
+
+    // Wrapped lines continue the previous bullet or sentence
+    if (current && /^[a-z(]/.test(line)) {
+      if (current.bullets.length > 0) {
+        current.bullets[current.bullets.length - 1] += ` ${line}`;
+        continue;
+      }
+      if (current.prose.length > 0) {
+        current.prose[current.prose.length - 1] += ` ${line}`;
+        continue;
+      }
+    }
+
+    const startsNewEntry = !current || current.bullets.length > 0 || current.prose.length > 0;
+    if (startsNewEntry && !isProse(line)) {
+      current = { header: [line], bullets: [], prose: [] };
+      entries.push(current);
+    } else if (current && !isProse(line) && current.header.length < 3) {
+      current.header.push(line);
+    } else {
+      if (!current) {
+        current = { header: [], bullets: [], prose: [] };
+        entries.push(current);
+      }
+      current.prose.push(line);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Splits entry header lines into fields and pulls out the date range
+ * @param header - Header lines of an entry
+ * @returns Remaining fields, the location split off a field's end and the normalized dates
+ */
+function parseHeader(header: string[]): {
+  fields: string[];
+  location?: string;
+  startDate?: string;
+  endDate?: string;
+  current: boolean;
+} {
+  let startDate: string | undefined;
+  let endDate: string | undefined;
+  let current = false;
+  let location: string | undefined;
+  const fields: string[] = [];
+
+  for (const line of header) {
+    let text = line;
+
+    const range = text.match(DATE_RANGE_PATTERN);
+    if (range && !startDate) {
+      startDate = toModelDate(range[1]);
+      if (isCurrentDate(range[2])) {
+        current = true;
+      } else {
+        endDate = toModelDate(range[2]);
+      }
+      text = text.replace(range[0], ' ');
+    } else if (!startDate && !endDate) {
+      const single = text.match(SINGLE_DATE_PATTERN);
+      if (single) {
+        endDate = toModelDate(single[1]);
+        text = text.replace(single[1], ' ');
+      }
+    }
+
+    text = text.replace(/\(\s*\)/g, ' ');
+    const split = splitHeaderFields(text);
+    fields.push(...split.fields);
+    location ??= split.location;
+  }
+
+  return { fields, location, startDate, endDate, current };
+}
+
+/**
+ * Normalizes a matched date for the model
+ * @param date - Date as written
+ * @returns ISO date, or the text as written when it can't be normalized
+ */
+function toModelDate(date: string): string {
+  return normalizeResumeDate(date) ?? date;
+}
+
+/**
+ * Splits a header line on separators, " at ", "Title, Company" commas and trailing locations
+ * @param text - Header line with dates removed
+ * @returns Non-empty fields, and the location split off a field's end (also among the fields)
+ */
+function splitHeaderFields(text: string): { fields: string[]; location?: string } {
+  const parts = text.split(FIELD_SEPARATOR).map(part => part.trim().replace(/^[,;|]+|[,;|]+$/g, '').trim()).filter(Boolean);
+  let location: string | undefined;
+
+  const fields = parts.flatMap(part => {
+    // "Acme Corp, San Francisco, CA": a trailing location goes into its own field
+    const trailing = findTrailingLocation(part);
+    if (trailing) {
+      const head = splitHeaderFields(part.slice(0, part.lastIndexOf(trailing)));
+      location ??= trailing;
+      return [...head.fields, trailing];
+    }
+
+    const at = part.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+    if (at && isJobTitle(at[1])) return [at[1], at[2]];
+
+    // "Software Engineer, Acme Corp" but not "Austin, TX"
+    const comma = part.match(/^([^,]+),\s*(.+)$/);
+    if (comma && !isLocation(part) && isJobTitle(comma[1]) && !isJobTitle(comma[2])) {
+      return [comma[1].trim(), comma[2].trim()];
+    }
+
+    return [part];
+  });
+
+  return { fields, location };
+}
+
+/**
+ * Finds a "City, Region" location, or a city after a company's legal form, at the end of a header field
+ * @param field - Header field
+ * @returns The location as written, or undefined when the field doesn't end in one
+ */
+function findTrailingLocation(field: string): string | undefined {
+  // The first comma that leaves a location gives the longest one ("San Francisco, CA", not "CA")
+  for (const comma of field.matchAll(/,\s*/g)) {
+    const head = field.slice(0, comma.index).trim();
+    const tail = field.slice((comma.index ?? 0) + comma[0].length);
+    if (!head) continue;
+    if (isLocation(tail)) return tail;
+    if (COMPANY_SUFFIX_PATTERN.test(head) && CITY_PATTERN.test(tail) && !COMPANY_SUFFIX_PATTERN.test(tail)) return tail;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a line looks like "City, Region" or a remote marker
+ * (not "Engineer, Acme Corp" or "Acme, Inc.")
+ * @param text - Candidate text
+ * @returns Boolean indicating a location
+ */
+function isLocation(text: string): boolean {
+  return LOCATION_PATTERN.test(text.trim()) &&
+    text.split(/\s+/).length <= 6 &&
+    !isJobTitle(text) &&
+    !COMPANY_SUFFIX_PATTERN.test(text.trim());
+}
+
+/**
+ * Checks whether a line reads as a sentence rather than a header
+ * @param line - Text line
+ * @returns Boolean indicating descriptive prose
+ */
+function isProse(line: string): boolean {
+  return line.length > 80 || (/[.!?]$/.test(line) && line.split(/\s+/).length > 6);
+}
+
+/**
+ * Joins wrapped lines into paragraphs, keeping bullets on their own lines
+ * @param content - Section content
+ * @returns Paragraph text
+ */
+function joinProse(content: string): string {
+  return splitLines(content)
+    .map(line => (BULLET_PATTERN.test(line) ? `\n${stripBullet(line)}` : line))
+    .join(' ')
+    .replace(/ \n/g, '\n')
+    .trim();
+}
+
+/**
+ * Splits a comma, semicolon, pipe or bullet separated list
+ * @param text - List text
+ * @returns Trimmed items
+ */
+function splitList(text: string): string[] {
+  return text.split(/\s*[,;|•·]\s*/).map(item => item.trim().replace(/\.$/, '')).filter(Boolean);
+}
+
+/**
+ * Removes a leading bullet marker
+ * @param line - Text line
+ * @returns Line without its bullet
+ */
+function stripBullet(line: string): string {
+  return line.replace(BULLET_PATTERN, '').trim();
+}
+
+/**
+ * Splits content into trimmed, non-empty lines
+ * @param content - Text content
+ * @returns Lines
+ */
+function splitLines(content: string): string[] {
+  return content.split('\n').map(line => line.trim()).filter(Boolean);
+}
@@ -0,0 +1,237 @@
+// Skills list normalization: canonical names, duplicate removal and grouping by category
+import { SKILL_DICTIONARY, type SkillCategory, type SkillDefinition } from '../job-match/skill-dictionary';
+
+// Groups a normalized skills list is organized into, in output order
+export type SkillGroupKey = 'languages' | 'frameworks' | 'tools' | 'data' | 'professional' | 'soft' | 'other';
+
+export interface SkillRename {
+  before: string; // As written
+  after: string; // Canonical name
+}
+
+export interface SkillGroupEntry {
+  title: string;
+  skills: string[];
+}
+
+export interface SkillListNormalization {
+  lines: string[]; // One "Group: skill, skill" line per group
+  groups: SkillGroupEntry[];
+  renamed: SkillRename[]; // Spellings replaced by canonical names
+  duplicates: string[]; // Entries removed as repeats of an earlier entry, as written
+}
+
+// Group each dictionary category is listed under
+const CATEGORY_GROUPS: Record<SkillCategory, SkillGroupKey> = {
+  language: 'languages',
+  framework: 'frameworks',
+  database: 'tools',
+  cloud: 'tools',
+  tool: 'tools',
+  data: 'data',
+  practice: 'professional',
+  business: 'professional',
+  soft: 'soft'
+};
+
+const GROUP_ORDER: SkillGroupKey[] = ['languages', 'frameworks', 'tools', 'data', 'professional', 'soft'];
+
+// Entries longer than this are sentences, so the section isn't a plain list
+const MAX_SKILL_WORDS = 5;
+
+// Longest text before a colon read as a group label ("Frameworks: React, Vue")
+const MAX_LABEL_LENGTH = 40;
+
+const BULLET_PATTERN = /^[•·▪◦‣*–-]\s+/;
+
+// Every spelling in the dictionary, compacted, mapped to its skill
+const SKILL_SPELLINGS = buildSpellingIndex();
+
+interface SkillEntry {
+  text: string; // As written
+  base: string; // As written, without the qualifier
+  name: string; // Canonical name for known skills, otherwise the base
+  qualifier: string; // Trailing parenthetical such as "(Expert)", kept with the name
+  skill?: SkillDefinition;
+  label?: string; // Group label the entry was written under
+  line: number; // Index of the line the entry was written on
+}
+
+/**
+ * Normalizes a skills list: canonical names and casing, no duplicates, grouped by category
+ * @param lines - Non-empty lines of a Skills section
+ * @param groupTitles - Group titles in the resume's language
+ * @returns Normalized lines with the renames and removed duplicates, or null when the
+ * lines aren't a plain list or contain no known skills
+ */
+export function normalizeSkillList(
+  lines: string[],
+  groupTitles: Record<SkillGroupKey, string>
+): SkillListNormalization | null {
+  const entries = parseSkillEntries(lines);
+  if (!entries || !entries.some(entry => entry.skill)) return null;
+
+  const renamed: SkillRename[] = [];
+  const duplicates: string[] = [];
+  const seen = new Set<string>();
+  const grouped = new Map<string, string[]>();
+  const titleKeys = new Map(
+    (Object.keys(groupTitles) as SkillGroupKey[]).map(key => [groupTitles[key].toLowerCase(), key])
+  );
+
+  const lineGroups = findLineGroups(entries);
+
+  // Known skills go to their category's group; others follow the known skills on a labeled line,
+  // or stay under the label they were written under. Unlabeled lines mix categories
+  // ("JavaScript, Figma, Public Speaking"), so their unknown skills go to the ungrouped rest
+  const groupOf = (entry: SkillEntry): string => {
+    if (entry.skill) return CATEGORY_GROUPS[entry.skill.category];
+    const lineGroup = lineGroups.get(entry.line);
+    if (lineGroup) return lineGroup;
+    if (!entry.label) return 'other';
+    return titleKeys.get(entry.label.toLowerCase()) ?? entry.label;
+  };
+
+  for (const entry of entries) {
+    const key = entry.name.toLowerCase();
+    if (seen.has(key)) {
+      duplicates.push(entry.text);
+      continue;
+    }
+    seen.add(key);
+
+    const name = entry.qualifier ? `${entry.name} ${entry.qualifier}` : entry.name;
+    if (entry.skill && entry.name !== entry.base) {
+      renamed.push({ before: entry.text, after: name });
+    }
+
+    const group = groupOf(entry);
+    grouped.set(group, [...(grouped.get(group) ?? []), name]);
+  }
+
+  // Category groups first, then labels kept from the original, then anything unlabeled
+  const labels = [...grouped.keys()].filter(group => !GROUP_ORDER.includes(group as SkillGroupKey) && group !== 'other');
+  const groups: SkillGroupEntry[] = [...GROUP_ORDER, ...labels, 'other']
+    .filter(group => grouped.has(group))
+    .map(group => ({
+      title: group in groupTitles ? groupTitles[group as SkillGroupKey] : group,
+      skills: grouped.get(group) ?? []
+    }));
+
+  return {
+    lines: groups.map(group => `${group.title}: ${group.skills.join(', ')}`),
+    groups,
+    renamed,
+    duplicates
+  };
+}
+
+/**
+ * Splits skills lines into entries, reading "Label: a, b" lines as labeled groups
+ * @param lines - Non-empty lines of a Skills section
+ * @returns Entries in document order, or null when a line reads as prose
+ */
+function parseSkillEntries(lines: string[]): SkillEntry[] | null {
+  const entries: SkillEntry[] = [];
+
+  for (const [lineIndex, rawLine] of lines.entries()) {
+    const line = rawLine.trim().replace(BULLET_PATTERN, '');
+    const labeled = line.match(/^([^:]+):\s*(.*)$/);
+    const label = labeled && labeled[1].length <= MAX_LABEL_LENGTH ? labeled[1].trim() : undefined;
+    const list = label !== undefined && labeled ? labeled[2] : line;
+
+    for (const text of splitList(list)) {
+      if (text.split(/\s+/).length > MAX_SKILL_WORDS || /[.!?]$/.test(text)) return null;
+
+      const { base, qualifier } = stripQualifier(text);
+      const skill = SKILL_SPELLINGS.get(compactSpelling(base));
+      entries.push({ text, base, name: skill ? skill.name : base, qualifier, skill, label, line: lineIndex });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Finds the group most of each labeled line's known skills belong to ("Tools: Docker, Jira, Foo" → tools)
+ * @param entries - Parsed entries
+ * @returns Group per line index, for labeled lines listing at least one known skill
+ */
+function findLineGroups(entries: SkillEntry[]): Map<number, SkillGroupKey> {
+  const counts = new Map<number, Map<SkillGroupKey, number>>();
+
+  for (const entry of entries) {
+    if (!entry.skill || entry.label === undefined) continue;
+    const group = CATEGORY_GROUPS[entry.skill.category];
+    const lineCounts = counts.get(entry.line) ?? new Map<SkillGroupKey, number>();
+    lineCounts.set(group, (lineCounts.get(group) ?? 0) + 1);
+    counts.set(entry.line, lineCounts);
+  }
+
+  return new Map([...counts].map(([line, lineCounts]) => [
+    line,
+    [...lineCounts].sort((a, b) => b[1] - a[1])[0][0]
+  ]));
+}
+
+/**
+ * Splits a list on commas, semicolons, pipes and bullets outside parentheses
+ * @param list - Text of one list line
+ * @returns Trimmed, non-empty entries
+ */
+function splitList(list: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && /[,;|•·]/.test(char)) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Separates a trailing parenthetical such as a proficiency level from the skill name
+ * @param text - Entry as written
+ * @returns Skill name and the parenthetical ('' when there is none)
+ */
+function stripQualifier(text: string): { base: string; qualifier: string } {
+  const match = text.match(/^(.*?)\s*(\([^()]*\))$/);
+  return match && match[1] ? { base: match[1], qualifier: match[2] } : { base: text, qualifier: '' };
+}
+
+/**
+ * Indexes the dictionary's names and aliases (not related terms) by compacted spelling
+ * @returns Map from compacted spelling to skill
+ */
+function buildSpellingIndex(): Map<string, SkillDefinition> {
+  const index = new Map<string, SkillDefinition>();
+
+  for (const skill of SKILL_DICTIONARY) {
+    for (const spelling of [skill.name, ...skill.aliases, ...(skill.caseSensitiveAliases ?? [])]) {
+      const key = compactSpelling(spelling);
+      if (!index.has(key)) index.set(key, skill);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Reduces a skill spelling to a comparison key, so "React.js", "ReactJS" and "react js" agree
+ * @param spelling - Skill spelling
+ * @returns Lowercase spelling without spaces, dots and hyphens
+ */
+function compactSpelling(spelling: string): string {
+  return spelling.toLowerCase().replace(/[\s.-]+/g, '');
+}
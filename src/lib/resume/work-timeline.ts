@@ -0,0 +1,152 @@
+// Work history timeline checks: missing, unreadable and reversed dates, gaps and overlaps
+import type { WorkEntry } from '@/types/resume';
+import { formatResumeDate, toMonthIndex } from './resume-dates';
+import type { OptimizerMessages } from '../locales/resume-locale';
+
+// Gaps longer than this are worth explaining; shorter ones are normal job changes
+const GAP_WARNING_MONTHS = 6;
+
+// Starting a new role in the month the previous one ended is not an overlap
+const OVERLAP_TOLERANCE_MONTHS = 1;
+
+// Year-only dates are placed mid-year, so comparisons involving them can be off by this much
+const YEAR_ONLY_SLACK_MONTHS = 6;
+
+interface TimedRole {
+  label: string;
+  start: number;
+  end: number;
+  startDate: string;
+  endDate: string;
+  yearOnlyStart: boolean;
+  yearOnlyEnd: boolean;
+}
+
+/**
+ * Checks the work history for date problems ATS and recruiters notice
+ * @param work - Work entries with normalized dates
+ * @param messages - Warning text in the resume's language
+ * @param today - Date used as the end of current roles
+ * @returns Array of warnings (empty when the timeline is consistent)
+ */
+export function checkWorkTimeline(work: WorkEntry[], messages: OptimizerMessages, today: Date = new Date()): string[] {
+  const warnings: string[] = [];
+  const undated: string[] = [];
+  const roles: TimedRole[] = [];
+  const currentMonth = today.getFullYear() * 12 + today.getMonth();
+
+  for (const entry of work) {
+    const label = describeRole(entry, messages);
+
+    if (!entry.startDate && !entry.endDate) {
+      undated.push(label);
+      continue;
+    }
+
+    const unreadable = [entry.startDate, entry.endDate].filter(date => date && toMonthIndex(date) === undefined);
+    if (unreadable.length > 0) {
+      warnings.push(messages.unreadableDates(label, unreadable.map(date => `"${date}"`).join(', ')));
+      continue;
+    }
+
+    // A single date can't be placed on the timeline
+    if (!entry.startDate) continue;
+    const start = toMonthIndex(entry.startDate);
+    const end = entry.current ? currentMonth : entry.endDate && toMonthIndex(entry.endDate);
+    if (start === undefined || typeof end !== 'number') continue;
+
+    const startDate = formatResumeDate(entry.startDate, messages.monthNames);
+    const endDate = entry.current || !entry.endDate ? messages.present : formatResumeDate(entry.endDate, messages.monthNames);
+
+    if (end < start) {
+      warnings.push(messages.reversedDates(label, endDate, startDate));
+      continue;
+    }
+
+    roles.push({
+      label,
+      start,
+      end,
+      startDate,
+      endDate,
+      yearOnlyStart: isYearOnly(entry.startDate),
+      yearOnlyEnd: !entry.current && isYearOnly(entry.endDate)
+    });
+  }
+
+  if (undated.length > 0) {
+    warnings.push(messages.undatedRoles(undated.join(', ')));
+  }
+
+  roles.sort((a, b) => a.start - b.start || a.end - b.end);
+
+  // Overlaps: any later-starting role that begins before an earlier one ends
+  roles.forEach((role, index) => {
+    for (const later of roles.slice(index + 1)) {
+      const overlap = Math.min(role.end, later.end) - later.start;
+      const slack = role.yearOnlyEnd || later.yearOnlyStart ? YEAR_ONLY_SLACK_MONTHS : 0;
+      if (overlap > OVERLAP_TOLERANCE_MONTHS + slack) {
+        warnings.push(messages.overlappingRoles(
+          role.label,
+          `${role.startDate} - ${role.endDate}`,
+          later.label,
+          `${later.startDate} - ${later.endDate}`,
+          formatMonths(overlap, messages)
+        ));
+      }
+    }
+  });
+
+  // Gaps: time between the end of everything so far and the next start
+  let covered: TimedRole | null = null;
+  for (const role of roles) {
+    if (covered) {
+      const gap = role.start - covered.end - 1;
+      const slack = covered.yearOnlyEnd || role.yearOnlyStart ? YEAR_ONLY_SLACK_MONTHS : 0;
+      if (gap > GAP_WARNING_MONTHS + slack) {
+        warnings.push(messages.employmentGap(
+          formatMonths(gap, messages),
+          covered.label,
+          covered.endDate,
+          role.label,
+          role.startDate
+        ));
+      }
+    }
+    if (!covered || role.end > covered.end) {
+      covered = role;
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Names a role for warning messages
+ * @param entry - Work entry
+ * @param messages - Warning text in the resume's language
+ * @returns Quoted title and employer, or a fallback
+ */
+function describeRole(entry: WorkEntry, messages: OptimizerMessages): string {
+  if (entry.title && entry.company) return messages.role(entry.title, entry.company);
+  return messages.role(entry.title ?? entry.company ?? messages.untitledRole);
+}
+
+/**
+ * Checks for a date known only to the year
+ * @param date - ISO date
+ * @returns Boolean indicating a "YYYY" date
+ */
+function isYearOnly(date?: string): boolean {
+  return !!date && /^\d{4}$/.test(date);
+}
+
+/**
+ * Formats a month count
+ * @param months - Number of months
+ * @param messages - Warning text in the resume's language
+ * @returns Text such as "8 months" or "2 years 3 months"
+ */
+function formatMonths(months: number, messages: OptimizerMessages): string {
+  return messages.duration(Math.floor(months / 12), months % 12);
+}
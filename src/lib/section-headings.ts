@@ -0,0 +1,240 @@
+// Section heading dictionary: standard ATS titles, synonyms, fuzzy matching and user mappings
+
+// Standard ATS-friendly section headings per PRD requirements
+export const STANDARD_SECTIONS = {
+  'PERSONAL_INFO': 'Contact Information',
+  'PROFESSIONAL_SUMMARY': 'Professional Summary',
+  'WORK_EXPERIENCE': 'Work Experience',
+  'EDUCATION': 'Education',
+  'SKILLS': 'Skills',
+  'CERTIFICATIONS': 'Certifications',
+  'PROJECTS': 'Projects',
+  'LEADERSHIP': 'Leadership Experience',
+  'RESEARCH': 'Research Experience',
+  'TEACHING': 'Teaching Experience',
+  'CLINICAL': 'Clinical Experience',
+  'VOLUNTEER': 'Volunteer Experience',
+  'AWARDS': 'Awards and Honors',
+  'PUBLICATIONS': 'Publications',
+  'LANGUAGES': 'Languages',
+  'INTERESTS': 'Additional Information'
+} as const;
+
+export type SectionKey = keyof typeof STANDARD_SECTIONS;
+
+// Synonyms per standard section, written in normalized form (lowercase, "&" as "and")
+export type HeadingDictionary = Record<SectionKey, string[]>;
+
+export const DEFAULT_HEADING_DICTIONARY: HeadingDictionary = {
+  PERSONAL_INFO: ['contact information', 'personal information', 'contact', 'contact details', 'personal details', 'contact info'],
+  PROFESSIONAL_SUMMARY: [
+    'professional summary', 'summary', 'profile', 'objective', 'career objective', 'personal statement', 'about me',
+    'overview', 'professional profile', 'career summary', 'summary of qualifications', 'executive summary'
+  ],
+  WORK_EXPERIENCE: [
+    'work experience', 'professional experience', 'employment', 'career history', 'experience', 'work history',
+    'professional background', 'my professional journey', 'employment history', 'relevant experience'
+  ],
+  EDUCATION: [
+    'education', 'academic background', 'qualifications', 'academic qualifications', 'educational background',
+    'education and training'
+  ],
+  SKILLS: [
+    'skills', 'technical skills', 'core competencies', 'competencies', 'expertise', 'abilities', 'proficiencies',
+    'key skills', 'technical proficiencies', 'skills summary', 'areas of expertise', 'tools and technologies'
+  ],
+  CERTIFICATIONS: [
+    'certifications', 'certificates', 'professional certifications', 'licenses', 'credentials',
+    'licenses and certifications'
+  ],
+  PROJECTS: ['projects', 'key projects', 'notable projects', 'project experience', 'portfolio', 'personal projects'],
+  LEADERSHIP: [
+    'leadership', 'leadership experience', 'leadership roles', 'leadership and activities', 'activities and leadership',
+    'extracurricular activities', 'activities'
+  ],
+  RESEARCH: ['research', 'research experience', 'research projects', 'research positions'],
+  TEACHING: ['teaching', 'teaching experience', 'teaching assignments', 'academic appointments'],
+  CLINICAL: ['clinical experience', 'clinical rotations', 'clinical training', 'rotations', 'clinicals'],
+  VOLUNTEER: ['volunteer', 'volunteer experience', 'community service', 'volunteer work', 'community involvement', 'volunteering'],
+  AWARDS: ['awards', 'honors', 'achievements', 'recognition', 'accomplishments', 'awards and honors', 'honors and awards'],
+  PUBLICATIONS: ['publications', 'papers', 'articles', 'published work', 'research publications'],
+  LANGUAGES: ['languages', 'language skills', 'linguistic abilities'],
+  INTERESTS: ['interests', 'hobbies', 'additional information', 'personal interests', 'other', 'miscellaneous']
+};
+
+// A user's own heading, mapped to the section it should become
+export interface HeadingMapping {
+  heading: string;
+  section: SectionKey;
+}
+
+export interface HeadingMatch {
+  section: SectionKey;
+  method: 'custom' | 'exact' | 'synonym' | 'fuzzy';
+  similarity: number; // 0-1; 1 for custom, exact and synonym matches
+}
+
+export interface HeadingMatchOptions {
+  dictionary?: HeadingDictionary;
+  titles?: Record<SectionKey, string>; // Standard titles for exact matches (defaults to the English ones)
+  customMappings?: HeadingMapping[];
+}
+
+export type HeadingMatcher = (heading: string) => HeadingMatch | null;
+
+// Minimum similarity for a fuzzy match: spelling (edit distance) and shared words (token overlap)
+const EDIT_SIMILARITY_THRESHOLD = 0.8;
+const TOKEN_OVERLAP_THRESHOLD = 0.75;
+
+// Words that carry no section meaning ("My Experience", "Skills & Tools")
+const FILLER_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'my', 'in', 'for', 'to', 'at']);
+
+const HEADING_MAPPINGS_STORAGE_KEY = 'claritycv-heading-mappings';
+
+/**
+ * Builds a heading matcher over a dictionary and the user's custom mappings
+ * @param options - Dictionary and standard titles to use (default to the built-in English ones) and custom mappings
+ * @returns Function that matches a heading to a standard section
+ */
+export function createHeadingMatcher(options: HeadingMatchOptions = {}): HeadingMatcher {
+  const dictionary = options.dictionary ?? DEFAULT_HEADING_DICTIONARY;
+  const titles = options.titles ?? STANDARD_SECTIONS;
+  const custom = new Map((options.customMappings ?? []).map(mapping => [normalizeHeading(mapping.heading), mapping.section]));
+  const entries = (Object.keys(dictionary) as SectionKey[]).flatMap(section =>
+    dictionary[section].map(synonym => ({ section, synonym: normalizeHeading(synonym) }))
+  );
+
+  return heading => {
+    const normalized = normalizeHeading(heading);
+    if (!normalized) return null;
+
+    // Custom mappings win, so users can override the dictionary
+    const customSection = custom.get(normalized);
+    if (customSection) return { section: customSection, method: 'custom', similarity: 1 };
+
+    const standard = (Object.keys(titles) as SectionKey[])
+      .find(section => normalizeHeading(titles[section]) === normalized);
+    if (standard) return { section: standard, method: 'exact', similarity: 1 };
+
+    const synonym = entries.find(entry => entry.synonym === normalized);
+    if (synonym) return { section: synonym.section, method: 'synonym', similarity: 1 };
+
+    let best: HeadingMatch | null = null;
+    for (const entry of entries) {
+      const similarity = fuzzySimilarity(normalized, entry.synonym);
+      if (similarity > 0 && (!best || similarity > best.similarity)) {
+        best = { section: entry.section, method: 'fuzzy', similarity };
+      }
+    }
+    return best;
+  };
+}
+
+/**
+ * Normalizes a heading for comparison
+ * @param heading - Heading as written ("SKILLS & TOOLS:")
+ * @returns Lowercase words separated by single spaces ("skills and tools")
+ */
+export function normalizeHeading(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Loads the user's custom heading mappings from local storage
+ * @returns Saved mappings (empty when none are saved or storage is unavailable)
+ */
+export function loadHeadingMappings(): HeadingMapping[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(HEADING_MAPPINGS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved)
+      ? saved.filter((mapping): mapping is HeadingMapping =>
+        typeof mapping?.heading === 'string' && typeof mapping?.section === 'string' && mapping.section in STANDARD_SECTIONS)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves custom heading mappings to local storage for the next run
+ * @param mappings - Mappings to save (replaces any saved before)
+ */
+export function saveHeadingMappings(mappings: HeadingMapping[]): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(HEADING_MAPPINGS_STORAGE_KEY, JSON.stringify(mappings));
+}
+
+/**
+ * Scores a fuzzy match, counting each measure only when it clears its threshold
+ * @param heading - Normalized heading
+ * @param synonym - Normalized dictionary synonym
+ * @returns Best passing similarity, or 0 when neither measure is close enough
+ */
+function fuzzySimilarity(heading: string, synonym: string): number {
+  const spelling = editSimilarity(heading, synonym);
+  const words = tokenOverlap(heading, synonym);
+  return Math.max(
+    spelling >= EDIT_SIMILARITY_THRESHOLD ? spelling : 0,
+    words >= TOKEN_OVERLAP_THRESHOLD ? words : 0
+  );
+}
+
+/**
+ * Measures spelling similarity from the Levenshtein edit distance
+ * @param a - First normalized heading
+ * @param b - Second normalized heading
+ * @returns Similarity between 0 and 1
+ */
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  // Single-row dynamic programming over the edit distance table
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
+
+/**
+ * Measures shared words (Dice coefficient over word stems, ignoring filler words)
+ * @param a - First normalized heading
+ * @param b - Second normalized heading
+ * @returns Overlap between 0 and 1
+ */
+function tokenOverlap(a: string, b: string): number {
+  const tokensA = toTokenSet(a);
+  const tokensB = toTokenSet(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Splits a normalized heading into word stems
+ * @param heading - Normalized heading
+ * @returns Set of stems without filler words
+ */
+function toTokenSet(heading: string): Set<string> {
+  return new Set(
+    heading
+      .split(' ')
+      .filter(word => word && !FILLER_WORDS.has(word))
+      .map(word => (word.length > 3 ? word.replace(/(ies|s)$/, match => (match === 'ies' ? 'y' : '')) : word))
+  );
+}
@@ -0,0 +1,59 @@
+// Bundled English word list for the offline spell checker: base forms plus irregular forms.
+// Regular inflections and derivations ("managed", "leadership", "quickly") are recognized by rule.
+
+export const ENGLISH_WORDS = `
+a abandon ability able aboard about above abroad absence absent absolute absorb abstract abundant abuse academy academic accelerate accent accept access accessible accident accommodate accompany accomplish accord account accountable accountant accounting accreditation accrue accumulate accuracy accurate accuse achieve acknowledge acquire acquisition across act action active activity actor actual acute ad adapt add addition address adequate adjacent adjust administer administration administrative admire admission admit adolescent adopt adult advance advantage adventure adverse advertise advertisement advice advise advisor advisory advocacy advocate aerospace aesthetic affair affect affiliate affiliation afford affordable afraid after afternoon afterward again against age agency agenda agent aggregate aggressive ago agree agreement agriculture ahead aid aim air aircraft airline airport alarm album alert algebra algorithm algorithmic align alignment alike alive all allegation alliance allocate allocation allow ally almost alone along alongside already also alter alternative although altogether always am amateur amazing ambassador ambiguity ambiguous ambition ambitious amend amendment amid among amount ample amplify an analog analogy analysis analyses analyst analytic analytical analyze anatomy ancestor anchor ancient and anecdote angle angry animal animate animation ankle anniversary announce announcement annual anomaly another answer anticipate anxiety anxious any anybody anymore anyone anything anyway anywhere apart apartment apologize apology app apparatus apparel apparent appeal appear appearance append appendix appetite applaud apple appliance applicable applicant application apply appoint appointment appraisal appreciate appreciation apprentice apprenticeship approach appropriate approval approve approximate approximately apt aptitude arbitrary arbitration arch architect architectural architecture archive area arena argue argument arise arisen arm army around arose arrange arrangement array arrest arrival arrive art article articulate artifact artificial artist artistic artwork as ascend ascertain aside ask aspect aspiration aspire assault assemble assembly assert assertive assess assessment asset assign assignment assist assistance assistant associate association assume assumption assurance assure astronomy at ate athlete athletic atmosphere atom attach attachment attack attain attainment attempt attend attendance attendant attention attitude attorney attract attraction attractive attribute auction audience audio audit auditor auditorium augment author authority authorize auto automate automatic automobile automotive autonomous autonomy availability available avenue average aviation avoid await awake award aware awareness away awesome awful awkward axis
+
+baby bachelor back backbone background backing backlog backup backward bad badge badly bag bake balance ball ballot ban banana band bank bankrupt bankruptcy banner bar bare barely bargain barrel barrier base baseball baseline basement basic basically basin basis basket basketball bat batch bath bathroom battery battle bay be beach beam bean bear beard beat beaten beautiful beauty became because become bed bedside bedroom beef been beer before began begin beginner beginning begun behalf behave behavior behavioral behaviour behind being belief believe bell belong below belt bench benchmark bend beneath beneficial beneficiary benefit bent beside besides best bet better between beverage beyond bias bible bicycle bid big bike bill billing billion bin bind binary biography biological biology bird birth birthday bit bite bitter black blade blame blank blanket blend blind block blog blood blow blown blue board boat body boil bold bolster bond bone bonus book booking boost boot border bore born borrow boss both bother bottle bottom bought boundary bounce bow bowl box boy brain branch brand brave bread break breakdown breakfast breakthrough breast breath breathe breed brick bridge brief briefing bright brilliant bring broad broadcast broaden broke broken broker brother brought brown browse browser brush buck budget buffer bug build builder building built bulk bullet bundle bunch burden bureau bureaucracy burn burst bury bus business busy but butter button buy buyer by
+
+cabin cabinet cable cache cafe cake calculate calculation calculus calendar call calm came camera camp campaign campus can canal cancel cancer candidate candle cap capability capable capacity capital capitalize captain capture car carbon card care career careful cargo carry cart case cash cast casual cat catalog catalogue catalyst catch categorize category cater cause caught caution cease ceiling celebrate celebration cell center central centralize centre century ceremony certain certainly certificate certification certify chain chair chairman chairperson challenge chamber champion championship chance change channel chapter character characteristic characterize charge charitable charity chart charter chase chat cheap check checklist checkout cheer cheese chef chemical chemist chemistry chest chicken chief child childhood children chip choice choose chose chosen church circle circuit circular circulate circulation circumstance cite citizen citizenship city civic civil civilian claim clarify clarity class classic classical classify classroom clause clean clear clearance clearly clerk click client climate climb clinic clinical clinician clock close closet closure cloth clothes clothing cloud club clue cluster coach coal coalition coast coat code coffee cognitive coherent cohesive cohort coin cold collaborate collaboration collaborative collaborator collapse collar colleague collect collection collective college color colour column combat combination combine come comedy comfort comfortable command commander commence comment commentary commerce commercial commission commit commitment committee commodity common commonly communicate communication community commute compact companion company comparable comparative compare comparison compassion compassionate compatible compel compensate compensation compete competence competency competent competition competitive competitor compile complain complaint complement complete completely completion complex complexity compliance compliant complicate complicated comply component compose composition compound comprehend comprehension comprehensive compress comprise compromise compute computer computing concentrate concentration concept conception concern concert concise conclude conclusion concrete concurrent condition conduct conference confidence confident confidential configuration configure confine confirm conflict conform confront confuse confusion congress connect connection conscious consciousness consecutive consensus consent consequence conservation conservative consider considerable consideration consist consistency consistent consolidate consolidation constant constantly constitute constitution constrain constraint construct construction consult consultancy consultant consultation consume consumer consumption contact contain container contemporary content contest context continent contingency continual continue continuity continuous contract contractor contradict contrary contrast contribute contribution contributor control controller controversial controversy convene convenience convenient convention conventional conversation conversion convert convey convince cook cookie cool cooperate cooperation cooperative coordinate coordination coordinator cope copy copyright core corner corporate corporation correct correction correlate correlation correspond correspondence corridor corruption cost costly cottage cotton could council counsel counseling counselor count counter counterpart country county couple courage course court cousin cover coverage cow craft crash crazy cream create creation creative creativity creator creature credential credibility credible credit crew crime criminal crisis crises criteria criterion critic critical criticism criticize crop cross crowd crucial cruise cry cultivate cultural culture cup cure curious currency current currently curriculum curricula cursor curve custom customer customize cut cutting cycle
+
+dad daily damage dance danger dangerous dare dark dashboard data database date datum daughter day dead deadline deal dealer dealt dean dear death debate debt debut decade decide decision decisive deck declare decline decrease dedicate dedication deep deeply default defeat defect defend defense defence defensive deficit define definite definitely definition degree delay delegate delegation delete deliberate delicate delight deliver delivery demand democracy democratic demonstrate demonstration denial dense density deny depart department departure depend dependable dependency dependent depict deploy deployment deposit depot depth deputy derive descend describe description desert deserve design designate designer desirable desire desk desktop despite destination destroy destruction detail detect detection determination determine develop developer development deviation device devise devote diagnose diagnosis diagnostic diagram dialog dialogue diamond diary dictate did die diet differ difference different differentiate difficult difficulty dig digest digit digital dignity dilemma diligence diligent dimension diminish dinner diploma diplomacy diplomat diplomatic direct direction directive directly director directory dirty disability disable disagree disaster discipline disclose disclosure discount discourse discover discovery discrete discretion discriminate discrimination discuss discussion disease dish dismiss disorder dispatch display disposal dispose dispute disrupt disruption distance distant distinct distinction distinguish distribute distribution district diverse diversify diversity divide dividend division divorce do doctor doctoral doctorate doctrine document documentary documentation does dog dollar domain domestic dominant dominate donate donation done donor door dose double doubt down download downtown downward dozen draft drag drama dramatic dramatically draw drawn dream dress drew drink drive driven driver drop drove drug dry due dual duration during dust duty dynamic dynamics
+
+each eager ear early earn earnings earth ease easily east eastern easy eat eaten economic economical economics economist economy edge edit edition editor editorial educate education educational educator effect effective effectively efficiency efficient effort egg eight either elaborate elbow elder elect election electric electrical electricity electronic electronics element elementary elevate eleven eligibility eligible eliminate elimination elite else elsewhere email embed embrace emerge emergency emerging emission emotion emotional emphasis emphasize empire empirical employ employee employer employment empower empty enable enact encounter encourage end endeavor endeavour endorse endorsement endure enemy energy enforce enforcement engage engagement engine engineer engineering enhance enhancement enjoy enormous enough enrich enroll enrollment ensure enter enterprise entertain entertainment enthusiasm enthusiastic entire entirely entitle entity entrance entrepreneur entrepreneurial entry environment environmental episode equal equality equally equation equip equipment equity equivalent era error escalate escalation escape especially essay essence essential establish establishment estate estimate ethic ethical ethics ethnic evaluate evaluation even evening event eventually ever every everybody everyday everyone everything everywhere evidence evident evolution evolve exact exactly exam examination examine example exceed excel excellence excellent except exception exceptional excess excessive exchange excite excitement exciting exclude exclusive excuse execute execution executive exempt exercise exhibit exhibition exist existence exit expand expansion expect expectation expedite expenditure expense expensive experience experiment experimental expert expertise explain explanation explicit explode exploit exploration explore explosion export expose exposure express expression extend extension extensive extent external extra extract extraordinary extreme extremely eye
+
+fabric fabricate face facilitate facilitator facility fact factor factory faculty fail failure fair fairly faith fall fallen false fame familiar family famous fan fancy far farm farmer fashion fast fat fate father fault favor favorite favour favourite fear feature federal fee feed feedback feel fell fellow fellowship felt female fence festival few fiber fibre fiction field fifteen fifth fifty fight figure file fill film filter final finalist finally finance financial find finding fine finger finish fire firm first fiscal fish fit five fix flag flagship flat flavor fleet flexibility flexible flight float floor flow flower fluency fluent fly focus fold folk follow following food foot football for force forecast foreign forest forever forget forgive forgot forgotten form formal format formation former formula formulate forth fortune forum forward foster fought found foundation founder four fourth fraction fragment frame framework franchise fraud free freedom freelance freeze frequency frequent frequently fresh friend friendly from front frontier fruit frustrate fuel fulfill fulfil full fully fun function functional functionality fund fundamental funding fundraise fundraising funny furniture further furthermore future
+
+gain gallery game gap garage garden gas gate gather gave gender gene general generally generate generation generous genetic genius genre gentle genuine geography geology get giant gift girl give given glad glass global globally glove go goal god gold golden golf gone good goods govern governance government governor grab grade gradual gradually graduate graduation grain grand grandfather grandmother grant graph graphic grasp grass grateful gratitude grave gray great greatly green greet grew grey grid grocery gross ground group grow grown growth guarantee guard guess guest guidance guide guideline guilty guitar gun guy gym
+
+habit hair half hall hand handbook handle handoff hang happen happy hard hardly hardware harm harmony harvest has hat hate have he head headquarters health healthcare healthy hear heard heart heat heavy height held hello help helpful hence her here heritage hero herself hesitate hi hid hidden hide hierarchy high highlight highly hill him himself hire his historian historic historical history hit hobby hold holder holiday home homeless honest honor honour hope horizon horizontal horrible horse hospital hospitality host hot hotel hour house household housing how however huge human humanitarian humanity humble humor humour hundred hunger hungry hunt hurt husband hybrid hypothesis hypotheses
+
+ice icon idea ideal ideally identical identification identify identity ideology if ignore ill illegal illness illustrate illustration image imagination imagine immediate immediately immense immigrant immigration impact implement implementation implication imply import importance important impose impossible impress impression impressive improve improvement in incentive incident include inclusion inclusive income incorporate increase increasingly incredible incremental incur indeed independence independent independently index indicate indication indicator indigenous individual individually indoor induce industrial industry inevitable infant infection infer inflation influence influential inform informal information infrastructure ingredient inherent inherit initial initially initiate initiative injury inner innovate innovation innovative input inquiry insert inside insight insightful inspect inspection inspector inspiration inspire install installation instance instant instead institute institution institutional instruct instruction instructional instructor instrument instrumental insurance insure intact intake integral integrate integration integrity intellectual intelligence intelligent intend intense intensive intent intention interact interaction interactive interest interdisciplinary interface interim intermediate internal international internationally internet intern internship interpersonal interpret interpretation interval intervene intervention interview into intricate introduce introduction intuitive invent invention inventory invest investigate investigation investment investor invitation invite invoice involve involvement iron island issue it item iterate iteration its itself
+
+jacket jail job join joint journal journalism journalist journey joy judge judgment judgement juice jump junior jury just justice justify
+
+keen keep kept key keyboard keynote kick kid kill kind king kit kitchen knee knew knife knock know knowledge knowledgeable known
+
+lab label labor laboratory labour lack ladder lady laid lake land landing landscape lane language laptop large largely last late lately later latest latter laugh launch law lawsuit lawyer lay layer layout lead leader leadership leading leaf league lean learn learning least leave lecture lecturer led left leg legacy legal legend legislation legislative legislature legitimate leisure lend length less lesson let letter level leverage liability liable liaison liberal liberty library license licence licensing lie life lifecycle lifestyle lifetime lift light like likelihood likely limit limitation line linear link lip liquid list listen literacy literally literary literature little live lively living load loan lobby local locate location lock log logic logical logistics logo long look loop loose lose loss lost lot loud love lovely low lower loyal loyalty luck lucky lunch lung
+
+machine machinery mad made magazine magic magnitude mail main mainly maintain maintenance major majority make maker male mall man manage manageable management manager managerial mandate mandatory manipulate manner manual manufacture manufacturer manufacturing many map margin marine mark market marketing marketplace marriage married mask mass massive master match mate material math mathematical mathematics matter mature maturity maximize maximum may maybe mayor me meal mean meaning meaningful means meant meanwhile measure measurement meat mechanic mechanical mechanism medal media median mediate medical medication medicine medium meet meeting member membership memo memorandum memory men mental mention mentor mentorship menu merchandise merchant mere merely merge merger merit message met metal method methodology metric metropolitan mice middle midnight might migrate migration mild mile milestone military milk mill million mind mine mineral minimal minimize minimum minister ministry minor minority minute mirror miss mission mistake mix mixture mobile mobility mode model moderate modern modest modification modify module molecular molecule mom moment momentum money monitor month monthly mood moon moral more moreover morning mortgage most mostly mother motion motivate motivation motive motor mount mountain mouse mouth move movement movie much multiple multiply municipal muscle museum music musical musician must mutual my myself mystery
+
+naked name narrative narrow nation national native natural naturally nature navigate navigation near nearby nearly neat necessarily necessary necessity neck need negative negotiate negotiation neighbor neighborhood neighbour neither nerve nervous net network neural neutral never nevertheless new newly news newsletter newspaper next nice night nine no nobody nod noise nomination nominee none nonetheless nor norm normal normally north northern nose not notable note nothing notice notify notion novel now nowhere nuclear number numerous nurse nursing nurture nut nutrition
+
+object objection objective obligation observation observe obstacle obtain obvious obviously occasion occasional occasionally occupation occupational occupy occur ocean odd odds of off offense offensive offer office officer official officially offset often oh oil okay old on once one ongoing onion online only onsite onto open opening openly opera operate operation operational operator opinion opponent opportunity oppose opposite opposition opt optimal optimism optimistic optimization optimize option optional or oral orange orchestra orchestrate order ordinary organ organic organization organizational organize organisation organise orient orientation origin original originally originate other otherwise ought our ourselves out outcome outdoor outer outline outlook output outreach outside outstanding over overall overcame overcome overhaul overlap oversaw oversee overseen oversight overtime overview own owner ownership
+
+pace pack package page paid pain paint painting pair palace pale palm pan panel panic paper parallel parameter parent park parking part partial participant participate participation particular particularly partly partner partnership party pass passage passenger passion passionate past patch patent path patience patient pattern pause pay payment payroll peace peak peer pen penalty pencil people pepper per perceive percent percentage perception perfect perfectly perform performance performer perhaps period periodic permanent permission permit persist persistence persistent person persona personal personality personally personnel perspective persuade persuasive pet petition phase phenomenon philosophy phone photo photograph photographer photography phrase physical physically physician physics piano pick picture piece pile pilot pin pink pioneer pipe pitch place plain plan plane planet planning plant plate platform play player plea pleasant please pleasure pledge plenty plot plus pocket poem poet poetry point pole police policy political politically politician politics poll pollution pool poor pop popular popularity population port portal portfolio portion portrait pose position positive possess possession possibility possible possibly post postmortem poster postpone pot potato potential potentially pound pour poverty powder power powerful practical practice practise practitioner praise pray prayer precise precisely precision predecessor predict prediction predominantly prefer preference pregnancy pregnant preliminary premier premise premium preparation prepare prescribe prescription presence present presentation preserve preside presidency president presidential press pressure prestigious presume pretend pretty prevail prevent prevention previous previously price pride priest primarily primary prime principal principle print prior priority prison prisoner privacy private privilege prize probability probable probably problem procedure proceed proceeding process processor procure procurement produce producer product production productive productivity profession professional professionally professor profile profit profitable profitability profound program programme programmer programming progress progression progressive prohibit project projection prominent promise promote promotion prompt promptly proof proper properly property proportion proposal propose proposition prospect prospective prosper prosperity protect protection protective protein protest protocol proud prove proven provide provider province provincial provision psychological psychologist psychology public publication publicity publicly publish publisher pull pulse pump punch punish punishment purchase pure purple purpose pursue pursuit push put
+
+qualification qualified qualify qualitative quality quantify quantitative quantity quarter quarterly queen query quest question questionnaire queue quick quickly quiet quit quite quota quote
+
+race racial radical radio rail railway rain raise rally ran random range rank rapid rapidly rare rarely rate rather rating ratio rational raw reach react reaction read reader readily reading ready real realistic reality realize really realm rear reason reasonable reasonably rebuild rebuilt recall receipt receive recent recently reception recession recipe recipient recognition recognize recommend recommendation reconcile reconciliation record recover recovery recruit recruiter recruitment rectify recur red redesign reduce reduction redundancy redundant refer reference referral refine reflect reflection reform refresh refugee refund refuse regard regarding regardless regime region regional register registration regret regular regularly regulate regulation regulatory rehabilitation reign reimbursement reinforce reject relate relation relationship relative relatively relax release relevance relevant reliability reliable relief relieve religion religious relocate relocation rely remain remainder remark remarkable remedy remember remind reminder remote remotely removal remove render renew renewable renovate renovation rent repair repeat repeatedly replace replacement replicate reply report reporter reporting repository represent representation representative reproduce republic reputation request require requirement rescue research researcher resemble reservation reserve reside residence resident residential resign resilience resilient resist resistance resolution resolve resort resource resourceful respect respective respectively respond respondent response responsibility responsible rest restaurant restoration restore restrict restriction restructure result resume retail retailer retain retention retire retirement retreat retrieve return reveal revenue reverse review revise revision revolution revolutionary reward rhetoric rhythm rice rich rid ride right rigorous ring rise risen risk rival river road robot robust rock role roll romantic roof room root rose rotate rotation rough roughly round route routine row royal rule ruling run rural rush
+
+sacrifice sad safe safety said sake salad salary sale salon salt same sample sanction sand sat satellite satisfaction satisfactory satisfy sauce save saw say scale scan scenario scene schedule scheme scholar scholarship school science scientific scientist scope score scratch screen script sea seal search season seat second secondary secret secretary section sector secure security see seed seek seem seen segment seize seldom select selection self sell seller semester seminar senate senator send senior sensation sense sensitive sensitivity sent sentence sentiment separate separately sequence series serious seriously servant serve server service session set setting settle settlement setup seven several severe sex sexual shade shadow shake shall shape share shareholder sharp she sheet shelf shell shelter shift shine ship shirt shock shoe shoot shop shopping shore short shortage shortly shot should shoulder shout show shown shut side sight sign signal signature significance significant significantly silence silent silver similar similarly simple simplify simply simulate simulation simultaneous simultaneously since sing single sister sit site situation six size skill skilled skin sky sleep slice slide slight slightly slip slow slowly small smart smell smile smoke smooth snap snow so soccer social socially society sock soft software soil solar soldier sole solely solid solution solve some somebody somehow someone something sometimes somewhat somewhere son song soon sophisticated sorry sort sought upsold soul sound soup source south southern space span spare speak spearhead speaker special specialist specialize specialty specific specifically specification specify spectrum speech speed spend spent sphere spin spirit spiritual split spoke spoken spokesperson sponsor sponsorship sport spot spread spring square squeeze stability stabilize stable staff stage stake stakeholder stand standard standardize standing star start startup state statement station statistic statistical statistics status stay steady steal steel step stick still stimulate stock stone stood stop storage store storm story straight strain strange stranger strategic strategically strategist strategy stream streamline street strength strengthen stress stretch strict strike string strip strive stroke strong strongly structural structure struggle student studio study stuff stupid style subject submission submit subordinate subscribe subscription subsequent subsequently subsidiary substance substantial substantially substitute subtle succeed success successful successfully succession successor such sudden suddenly sue suffer sufficient sugar suggest suggestion suit suitable suite sum summarize summary summer summit sun super superb superior supervise supervision supervisor supplement supplier supply support supporter supportive suppose supreme sure surely surface surgeon surgery surgical surplus surprise surprising surround surrounding survey survival survive suspect suspend sustain sustainability sustainable swear sweep sweet swim swing switch symbol symptom syndrome synergy synthesis synthesize system systematic
+
+table tablet tackle tactic tactical tag tail tailor take taken tale talent talented talk tall tank tap tape target task taste taught tax taxpayer tea teach teacher teaching team teammate teamwork tear technical technically technician technique technological technology teen teenager telephone telescope television tell temperature template temple temporary ten tenant tend tendency tennis tension tent term terminal terminate terms terrible territory terror test testify testimony testing text textbook texture than thank that the theater theatre their them theme themselves then theoretical theory therapeutic therapist therapy there thereby therefore these thesis theses they thick thin thing think third thirty this thorough thoroughly those though thought thousand thread threat threaten three threshold threw thrive throat through throughout throw thrown thus ticket tie tight till timber time timeline timely tiny tip tire tired tissue title to tobacco today toe together toilet told tolerance tolerate toll tomato tomorrow tone tongue tonight too took tool tooth top topic total totally touch tough tour tourism tourist tournament toward towards tower town toxic toy trace track trade tradition traditional traffic tragedy trail train trainee trainer training trait transaction transcript transfer transform transformation transit transition translate translation transmission transmit transparency transparent transport transportation trap travel treasure treasurer treasury treat treatment treaty tree tremendous trend trial triage triangle trick trigger trip triple troop trouble troubleshoot truck true truly trust trustee truth try tube tuition tune turn turnaround turnover tutor tutorial twelve twenty twice twin two type typical typically
+
+ugly ultimate ultimately unable uncle under undergo undergraduate underlying undermine understand understanding understood undertake undertaken undertook unemployment unfortunately uniform union unique unit unite unity universal universe university unless unlike unlikely until unusual up upcoming update upgrade upload upon upper upset upsell urban urge urgency urgent us usage use useful user usual usually utility utilization utilize
+
+vacation vaccine valid validate validation validity valley valuable value van variable variance variation variety various vary vast vegetable vehicle vendor venture venue verbal verification verify version versus vertical very vessel veteran via vice victim victory video view viewer village violate violation violence violent virtual virtually virtue virus visibility visible vision visit visitor visual visualize vital vocabulary vocal voice volume voluntary volunteer vote voter vs vulnerable
+
+wage wait wake walk wall wander want war warehouse warm warn warning warranty was wash waste watch water wave way we weak weakness wealth wealthy weapon wear weather web website wedding week weekend weekly weigh weight welcome welfare well wellbeing wellness went were west western wet what whatever wheel when whenever where whereas wherever whether which while whilst white who whoever whole wholesale whom whose why wide widely widespread width wife wild will willing willingness win wind window wine wing winner winter wire wisdom wise wish with withdraw within without witness woman women won wonder wonderful wood wooden word wore work worker workflow workforce workload workplace workshop world worldwide worry worse worst worth would wound wrap write writer writing written wrong wrote
+
+yard yeah year yearly yell yellow yes yesterday yet yield you young youth your yourself zero zone
+
+about above across after against along amid among around before behind below beneath beside between beyond despite down during except inside into near off onto outside over past since through throughout toward under underneath unlike until upon via within without
+i me my mine we us our ours you your yours he him his she her hers it its they them their theirs this that these those who whom whose which what
+aren't can't couldn't didn't doesn't don't hadn't hasn't haven't isn't it's i'm i've i'd i'll let's shouldn't that's there's they're we're we've won't wouldn't you're you've
+ate began begun bent bit bled blew bore bred brought built burnt caught chose clung crept dealt dug drank drunk drew drove dwelt fed fled flew flung forbade forgave forgiven froze frozen gotten grew hung knelt laid lain leapt learnt lent lit meant overtook paid rode rung sang sank sat shook shone shot slept slid sold sought spun stole stolen struck stuck stung swept swore sworn swum taught thrown told took tore torn understood went withdrew woke woken wore worn wound wove wrote
+men women children people feet teeth mice geese oxen data criteria phenomena analyses bases crises diagnoses hypotheses theses media curricula alumni syllabi indices matrices appendices
+better best worse worst more most less least further furthest farther farthest elder eldest
+`;
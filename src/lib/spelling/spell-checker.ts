@@ -0,0 +1,360 @@
+// Offline spell checker: bundled word list, tech allow-list and the user's own dictionary
+import { SKILL_DICTIONARY } from '../job-match/skill-dictionary';
+
+export interface SpellingIssue {
+  text: string; // Flagged text as written
+  start: number; // Offset of the flagged text in the checked text
+  end: number;
+  message: string;
+  suggestions: string[]; // Replacements for the flagged text, best first
+}
+
+export interface SpellChecker {
+  isKnown: (word: string) => boolean;
+  suggest: (word: string) => string[];
+}
+
+// Personal dictionary: words the user added, kept for the next run
+const PERSONAL_DICTIONARY_STORAGE_KEY = 'claritycv-personal-dictionary';
+
+// Suggestions offered for a misspelled word
+const MAX_SUGGESTIONS = 5;
+
+// Shorter words are too often abbreviations to check
+const MIN_CHECKED_LENGTH = 3;
+
+// Derivations stripped in a row when looking for a known base ("collaboratively" → "collaborate")
+const MAX_DERIVATION_DEPTH = 3;
+
+// Resume and technology vocabulary missing from general word lists
+const TECH_TERMS = `
+agile analytics api apis app apps async backend backlog benchmarking blockchain bootcamp capstone chatbot churn cli cloud
+codebase containerization containerize coursework cron crypto cybersecurity dashboard dataset datasets debug debugging
+dedupe deduplicate deliverable deliverables devops downtime ecommerce edtech email emails erp etl failover fintech
+freelancer frontend fullstack genai geospatial gpa hackathon headcount healthtech iaas ide idempotent ingestion internet
+intranet ios json kanban kpi kpis latency laude ledger liaise linter linting llm login logout macos magna metadata microservice
+microservices middleware mockup mockups monolith multithreading nonprofit offboarding okr okrs omnichannel onboarding
+onboard paas pdf pipeline pipelines podcast powerpoint proactive proactively prototyping refactor refactoring regression repo
+repos reskill revamp roadmap roadmaps roi runtime saas scalability scalable scrum sdk shard sharepoint skillset smartphone
+sprint sprints stakeholder stakeholders standup startup startups summa teammate telemetry throughput tokenize
+toolchain toolkit upskill uptime url usability userbase webhook webinar website whitepaper wireframe wireframes wireframing
+workflow workflows workstream xml yaml
+`;
+
+// Suffixes stripped to find a word's base form, with the endings to try in their place;
+// a leading "+" doubles the final consonant back ("planned" → "plan")
+const SUFFIX_RULES: [string, string[]][] = [
+  ["'s", ['']], ["s'", ['s']],
+  ['ies', ['y']], ['es', ['', 'e']], ['s', ['']],
+  ['ied', ['y']], ['ed', ['', 'e', '+']],
+  ['ying', ['ie', 'y']], ['ing', ['', 'e', '+']],
+  ['ier', ['y']], ['iest', ['y']], ['er', ['', 'e', '+']], ['est', ['', 'e', '+']],
+  ['ily', ['y']], ['ally', ['al', '']], ['ably', ['able']], ['ly', ['', 'le']],
+  ['iness', ['y']], ['ness', ['']],
+  ['ment', ['']], ['ful', ['']], ['less', ['']], ['ship', ['']],
+  ['ization', ['ize']], ['isation', ['ize', 'ise']], ['ation', ['ate', 'e', '']], ['ction', ['ce', 'ct']], ['ion', ['', 'e']],
+  ['ivity', ['ive']], ['ability', ['able']], ['ibility', ['ible']], ['ity', ['', 'e']],
+  ['ive', ['', 'e', 'ion']], ['able', ['', 'e']], ['ible', ['', 'e']],
+  ['al', ['', 'e']], ['ic', ['', 'y']], ['ist', ['', 'y']], ['ism', ['']], ['or', ['', 'e']], ['ee', ['']],
+  ['ance', ['', 'e']], ['ence', ['', 'e']], ['ant', ['', 'e']], ['ent', ['', 'e']], ['ize', ['', 'e', 'y']], ['ise', ['', 'e', 'y']],
+  ['ward', ['']], ['wide', ['']]
+];
+
+// Inflections that keep a word's meaning; suggestions reached through them rank above other derivations
+const INFLECTION_SUFFIXES = new Set(["'s", "s'", 'ies', 'es', 's', 'ied', 'ed', 'ying', 'ing']);
+
+const PREFIXES = [
+  'anti', 'auto', 'co', 'counter', 'cross', 'de', 'dis', 'e', 'hyper', 'inter', 'intra', 'macro', 'micro', 'mid', 'mis',
+  'multi', 'non', 'out', 'over', 'post', 'pre', 'pro', 're', 'self', 'semi', 'sub', 'super', 'trans', 'under', 'un'
+];
+
+// British spellings mapped to the American ones in the word list
+const BRITISH_SPELLINGS: [RegExp, string][] = [
+  [/isation/, 'ization'], [/ise(s|d)?$/, 'ize$1'], [/ising$/, 'izing'], [/our(s|ed|ing|ful)?$/, 'or$1'],
+  [/yse(s|d)?$/, 'yze$1'], [/tre(s)?$/, 'ter$1'], [/lled$/, 'led'], [/lling$/, 'ling'], [/ogue$/, 'og']
+];
+
+const WORD_PATTERN = /[\p{L}][\p{L}'’]*/gu;
+const SKIP_PATTERN = /\b[\w.+-]+@[\w-]+\.[\w.-]+|\bhttps?:\/\/\S+|\bwww\.\S+|\b[\w-]+\.(?:com|org|net|io|dev|edu|gov|co)\b\S*/gi;
+
+/**
+ * Creates a spell checker over a word list and any extra accepted words
+ * @param words - Whitespace-separated base words, such as ENGLISH_WORDS
+ * @param extraWords - Additional accepted words, such as the personal dictionary
+ * @returns Checker that recognizes inflected and derived forms and suggests corrections
+ */
+export function createSpellChecker(words: string, extraWords: string[] = []): SpellChecker {
+  const base = new Set(words.split(/\s+/).filter(Boolean));
+  for (const term of [...TECH_TERMS.split(/\s+/), ...skillWords(), ...extraWords]) {
+    if (term) base.add(term.toLowerCase());
+  }
+
+  const byInitial = new Map<string, string[]>();
+  base.forEach(word => byInitial.set(word[0], [...(byInitial.get(word[0]) ?? []), word]));
+
+  const known = new Map<string, boolean>();
+  const isKnown = (word: string): boolean => {
+    const lower = word.toLowerCase().replace(/’/g, "'");
+    let result = known.get(lower);
+    if (result === undefined) {
+      result = lower.split('-').every(part => !part || isBaseForm(part, base, MAX_DERIVATION_DEPTH));
+      known.set(lower, result);
+    }
+    return result;
+  };
+
+  const suggestions = new Map<string, string[]>();
+  const suggest = (word: string): string[] => {
+    const lower = word.toLowerCase();
+    let result = suggestions.get(lower);
+    if (!result) {
+      result = findSuggestions(lower, isKnown, candidate => suggestionRank(candidate, base), byInitial.get(lower[0]) ?? []);
+      suggestions.set(lower, result);
+    }
+    return result.map(suggestion => matchCase(suggestion, word));
+  };
+
+  return { isKnown, suggest };
+}
+
+/**
+ * Checks text for misspelled words
+ * @param text - Text to check
+ * @param checker - Spell checker
+ * @param ignoredWords - Lowercase words the user chose to ignore
+ * @returns Issues in document order
+ */
+export function checkSpelling(text: string, checker: SpellChecker, ignoredWords: Set<string> = new Set()): SpellingIssue[] {
+  const issues: SpellingIssue[] = [];
+  const skipped = [...text.matchAll(SKIP_PATTERN)].map(match => [match.index ?? 0, (match.index ?? 0) + match[0].length]);
+  const words = [...text.matchAll(WORD_PATTERN)]
+    .map(match => ({ text: match[0].replace(/['’]+$/, ''), start: match.index ?? 0 }))
+    .filter(word => !skipped.some(([start, end]) => word.start >= start && word.start < end));
+
+  words.forEach(word => {
+    if (!shouldCheck(text, word.text, word.start) || ignoredWords.has(word.text.toLowerCase())) return;
+    if (checker.isKnown(word.text)) return;
+
+    issues.push({
+      text: word.text,
+      start: word.start,
+      end: word.start + word.text.length,
+      message: `"${word.text}" may be misspelled`,
+      suggestions: checker.suggest(word.text)
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Loads the user's personal dictionary from local storage
+ * @returns Saved words (empty when none are saved or storage is unavailable)
+ */
+export function loadPersonalDictionary(): string[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(PERSONAL_DICTIONARY_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((word): word is string => typeof word === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves the personal dictionary to local storage for the next run
+ * @param words - Words to save (replaces any saved before)
+ */
+export function savePersonalDictionary(words: string[]): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(PERSONAL_DICTIONARY_STORAGE_KEY, JSON.stringify(words));
+}
+
+/**
+ * Decides whether a word should be spell checked: names, acronyms and identifiers are skipped
+ * @param text - Checked text
+ * @param word - Word as written
+ * @param start - Offset of the word in the text
+ * @returns Boolean indicating the word should be checked
+ */
+function shouldCheck(text: string, word: string, start: number): boolean {
+  if (word.length < MIN_CHECKED_LENGTH) return false;
+  // Acronyms ("AWS") and identifiers ("iOS", "JavaScript") aren't dictionary words
+  if (/\p{Lu}/u.test(word.slice(1))) return false;
+  if (!/^\p{Lu}/u.test(word)) return true;
+
+  // Capitalized words are usually names; check them only where a sentence or bullet starts
+  const linePrefix = text.slice(text.lastIndexOf('\n', start - 1) + 1, start);
+  return /[.!?]\s+$/.test(linePrefix) || /^\s*[•·▪◦‣*–-]\s+$/.test(linePrefix);
+}
+
+/**
+ * Checks whether a lowercase word is a base word or derives from one
+ * @param word - Lowercase word
+ * @param base - Base words
+ * @param depth - Derivations still allowed
+ * @returns Boolean indicating the word is known
+ */
+function isBaseForm(word: string, base: Set<string>, depth: number): boolean {
+  if (base.has(word)) return true;
+  if (depth === 0 || word.length < MIN_CHECKED_LENGTH) return false;
+
+  for (const [pattern, american] of BRITISH_SPELLINGS) {
+    const converted = word.replace(pattern, american);
+    if (converted !== word && isBaseForm(converted, base, depth - 1)) return true;
+  }
+
+  for (const [suffix, endings] of SUFFIX_RULES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < 2) continue;
+    const stem = word.slice(0, -suffix.length);
+
+    for (const ending of endings) {
+      if (ending === '+') {
+        // Doubled final consonant: "planned" → "plan"
+        if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2] && isBaseForm(stem.slice(0, -1), base, depth - 1)) return true;
+      } else if (isBaseForm(stem + ending, base, depth - 1)) {
+        return true;
+      }
+    }
+  }
+
+  return PREFIXES.some(prefix =>
+    word.startsWith(prefix) && word.length - prefix.length >= MIN_CHECKED_LENGTH && isBaseForm(word.slice(prefix.length), base, depth - 1));
+}
+
+/**
+ * Ranks a known word as a suggestion: listed words first, then their inflections, then other derivations
+ * @param word - Lowercase known word
+ * @param base - Base words
+ * @returns Rank, lower is better
+ */
+function suggestionRank(word: string, base: Set<string>): number {
+  if (base.has(word)) return 0;
+
+  const inflected = SUFFIX_RULES.some(([suffix, endings]) =>
+    INFLECTION_SUFFIXES.has(suffix) && word.endsWith(suffix) &&
+    endings.some(ending => {
+      const stem = word.slice(0, -suffix.length);
+      return ending === '+' ? stem[stem.length - 1] === stem[stem.length - 2] && base.has(stem.slice(0, -1)) : base.has(stem + ending);
+    }));
+  return inflected ? 1 : 2;
+}
+
+/**
+ * Finds listed words and their inflections one edit away, then base words two edits away with the same first letter
+ * @param word - Lowercase misspelled word
+ * @param isKnown - Word check
+ * @param rank - Suggestion rank of a known word, lower is better
+ * @param candidates - Base words sharing the word's first letter
+ * @returns Suggestions, closest first
+ */
+function findSuggestions(
+  word: string,
+  isKnown: (word: string) => boolean,
+  rank: (word: string) => number,
+  candidates: string[]
+): string[] {
+  const edits = [...new Set(singleEdits(word))]
+    .filter(edit => edit.length >= 2 && isKnown(edit))
+    .map(edit => ({ edit, rank: rank(edit) }));
+  // Only listed words and their inflections: chained derivations accept non-words ("rearession");
+  // the stable sort keeps transpositions ahead of other edits within a rank
+  const found = new Set(edits
+    .filter(edit => edit.rank <= 1)
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ edit }) => edit));
+
+  if (found.size < MAX_SUGGESTIONS) {
+    candidates
+      .filter(candidate => Math.abs(candidate.length - word.length) <= 2 && !found.has(candidate))
+      .map(candidate => ({ candidate, distance: editDistance(word, candidate) }))
+      .filter(({ distance }) => distance <= 2)
+      .sort((a, b) => a.distance - b.distance || commonPrefix(b.candidate, word) - commonPrefix(a.candidate, word))
+      .slice(0, MAX_SUGGESTIONS - found.size)
+      .forEach(({ candidate }) => found.add(candidate));
+  }
+
+  return [...found];
+}
+
+/**
+ * Lists the strings one edit away: transpositions first, as the most common typo, then
+ * deletions, replacements and insertions
+ * @param word - Lowercase word
+ * @returns Candidate strings (may repeat)
+ */
+function singleEdits(word: string): string[] {
+  const letters = 'abcdefghijklmnopqrstuvwxyz';
+  const edits: string[] = [];
+
+  for (let i = 0; i < word.length - 1; i++) edits.push(word.slice(0, i) + word[i + 1] + word[i] + word.slice(i + 2));
+  for (let i = 0; i < word.length; i++) edits.push(word.slice(0, i) + word.slice(i + 1));
+  for (let i = 0; i < word.length; i++) {
+    for (const letter of letters) {
+      if (letter !== word[i]) edits.push(word.slice(0, i) + letter + word.slice(i + 1));
+    }
+  }
+  for (let i = 0; i <= word.length; i++) {
+    for (const letter of letters) edits.push(word.slice(0, i) + letter + word.slice(i));
+  }
+
+  return edits;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein with adjacent transpositions)
+ * @param a - First word
+ * @param b - Second word
+ * @returns Number of edits between the words
+ */
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * Counts the leading characters two words share
+ * @param a - First word
+ * @param b - Second word
+ * @returns Length of the common prefix
+ */
+function commonPrefix(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+}
+
+/**
+ * Copies the capitalization of the original word onto a suggestion
+ * @param suggestion - Lowercase suggestion
+ * @param original - Word as written
+ * @returns Suggestion capitalized like the original
+ */
+function matchCase(suggestion: string, original: string): string {
+  if (original.length > 1 && original === original.toUpperCase()) return suggestion.toUpperCase();
+  return /^\p{Lu}/u.test(original) ? suggestion.charAt(0).toUpperCase() + suggestion.slice(1) : suggestion;
+}
+
+/**
+ * Lists the words in skill names and spellings, so tools and frameworks aren't flagged
+ * @returns Lowercase words from the skill dictionary
+ */
+function skillWords(): string[] {
+  return SKILL_DICTIONARY
+    .flatMap(skill => [skill.name, ...skill.aliases, ...(skill.caseSensitiveAliases ?? []), ...(skill.related ?? [])])
+    .flatMap(spelling => spelling.toLowerCase().match(/\p{L}+/gu) ?? []);
+}
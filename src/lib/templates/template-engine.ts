@@ -60,8 +60,9 @@ function reorderSections(
   sections: DetectedSection[], 
   templateOrder: string[]
 ): DetectedSection[] {
-  const orderedSections: DetectedSection[] = [];
-  const remainingSections = [...sections];
+  // The preamble (name and headline) stays at the top
+  const orderedSections = sections.filter(section => section.kind === 'preamble');
+  const remainingSections = sections.filter(section => section.kind !== 'preamble');
   
   // Add sections in template order
   for (const templateSection of templateOrder) {
@@ -129,11 +130,13 @@ function generateFormattedContent(
   for (let i = 0; i < sections.length; i++) {
     const section = sections[i];
     
-    // Add section title (uppercase for ATS compatibility)
-    content += section.title.toUpperCase() + '\n';
+    // Add section title (uppercase for ATS compatibility); the preamble has none
+    if (section.title) {
+      content += section.title.toUpperCase() + '\n';
+    }
     
     // Add section divider if enabled
-    if (formatting.elements.dividers && i > 0) {
+    if (formatting.elements.dividers && i > 0 && section.title) {
       content += '─'.repeat(section.title.length) + '\n';
     }
     
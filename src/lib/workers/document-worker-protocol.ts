@@ -0,0 +1,51 @@
+// Message protocol between the main thread and the document processing worker
+import type { UploadedFile } from '@/types/file-upload';
+import type { PDFWorkerStatus } from '@/lib/performance/lazy-loader';
+import type {
+  ProcessingResult,
+  ProcessingProgress,
+  ProcessingOptions
+} from '@/lib/document-processor';
+
+// AbortSignal can't be cloned into a worker; cancellation terminates the worker instead
+export type WorkerProcessingOptions = Omit<ProcessingOptions, 'signal'>;
+
+export interface ProcessDocumentRequest {
+  type: 'process';
+  uploadedFile: UploadedFile;
+  options: WorkerProcessingOptions;
+}
+
+export type DocumentWorkerRequest = ProcessDocumentRequest;
+
+export interface WorkerProgressMessage {
+  type: 'progress';
+  progress: ProcessingProgress;
+}
+
+export interface WorkerResultMessage {
+  type: 'result';
+  result: ProcessingResult;
+}
+
+export interface WorkerErrorMessage {
+  type: 'error';
+  error: {
+    // Present when the pipeline threw an UploadError, so recovery flows still work
+    code?: string;
+    message: string;
+    file?: string;
+  };
+}
+
+// Sent before the result so the main thread's PerformanceMonitor reflects PDF.js worker failures
+export interface WorkerPDFStatusMessage {
+  type: 'pdf-worker-status';
+  status: PDFWorkerStatus;
+}
+
+export type DocumentWorkerResponse =
+  | WorkerProgressMessage
+  | WorkerResultMessage
+  | WorkerErrorMessage
+  | WorkerPDFStatusMessage;
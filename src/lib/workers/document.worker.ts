@@ -0,0 +1,57 @@
+// Dedicated worker that runs document processing off the main thread
+import { runProcessingPipeline } from '@/lib/processing-pipeline';
+import { lazyLoader } from '@/lib/performance/lazy-loader';
+import type { DocumentWorkerRequest, DocumentWorkerResponse } from './document-worker-protocol';
+
+// The DOM lib types `self` as Window; describe the dedicated worker scope used here
+interface DocumentWorkerScope {
+  addEventListener(type: 'message', listener: (event: MessageEvent<DocumentWorkerRequest>) => void): void;
+  postMessage(message: DocumentWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const workerScope = self as unknown as DocumentWorkerScope;
+
+/**
+ * Reports the PDF.js worker status if this run loaded PDF.js
+ */
+function postPDFWorkerStatus() {
+  const status = lazyLoader.getPDFWorkerStatus();
+  if (status.state !== 'idle') {
+    workerScope.postMessage({ type: 'pdf-worker-status', status });
+  }
+}
+
+workerScope.addEventListener('message', async (event) => {
+  const request = event.data;
+  if (request.type !== 'process') return;
+
+  try {
+    const result = await runProcessingPipeline(
+      request.uploadedFile,
+      progress => workerScope.postMessage({ type: 'progress', progress }),
+      request.options
+    );
+    postPDFWorkerStatus();
+
+    // Hand generated files over without copying them
+    const transfer = result.downloadOptions
+      .map(option => option.content)
+      .filter((content): content is Uint8Array => content instanceof Uint8Array)
+      .map(content => content.buffer as ArrayBuffer);
+
+    workerScope.postMessage({ type: 'result', result }, transfer);
+  } catch (error) {
+    postPDFWorkerStatus();
+
+    if (error && typeof error === 'object' && 'code' in error) {
+      const { code, message, file } = error as { code: string; message: string; file?: string };
+      workerScope.postMessage({ type: 'error', error: { code, message, file } });
+      return;
+    }
+
+    workerScope.postMessage({
+      type: 'error',
+      error: { message: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+});
@@ -1,6 +1,6 @@
 // File upload types and interfaces following workflow.mdc standards
 
-export type SupportedFileType = 'pdf' | 'docx';
+export type SupportedFileType = 'pdf' | 'docx' | 'doc' | 'rtf' | 'odt' | 'txt' | 'md' | 'json';
 
 export type UploadState = 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
 
@@ -43,10 +43,30 @@ export const FILE_UPLOAD_CONFIG = {
   SUPPORTED_TYPES: {
     'application/pdf': 'pdf',
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
-    // Legacy DOCX MIME type for better compatibility
-    'application/msword': 'docx',
+    // Legacy binary Word; sniffed at parse time since some are really RTF or DOCX
+    'application/msword': 'doc',
+    'application/rtf': 'rtf',
+    'text/rtf': 'rtf',
+    'application/vnd.oasis.opendocument.text': 'odt',
+    'text/plain': 'txt',
+    'text/markdown': 'md',
+    'text/x-markdown': 'md',
+    // JSON Resume (https://jsonresume.org) documents
+    'application/json': 'json',
+  } as const,
+  SUPPORTED_EXTENSIONS: ['.pdf', '.docx', '.doc', '.rtf', '.odt', '.txt', '.md', '.markdown', '.json'] as const,
+  // Extension fallback for when the browser reports no (or a generic) MIME type
+  EXTENSION_TYPES: {
+    '.pdf': 'pdf',
+    '.docx': 'docx',
+    '.doc': 'doc',
+    '.rtf': 'rtf',
+    '.odt': 'odt',
+    '.txt': 'txt',
+    '.md': 'md',
+    '.markdown': 'md',
+    '.json': 'json',
   } as const,
-  SUPPORTED_EXTENSIONS: ['.pdf', '.docx'] as const,
 } as const;
 
 // Error codes for consistent error handling
@@ -57,6 +77,13 @@ export const UPLOAD_ERROR_CODES = {
   FILE_CORRUPTED: 'FILE_CORRUPTED',
   NO_FILE_SELECTED: 'NO_FILE_SELECTED',
   PROCESSING_ERROR: 'PROCESSING_ERROR',
+  IMAGE_ONLY_PDF: 'IMAGE_ONLY_PDF',
+  PASSWORD_REQUIRED: 'PASSWORD_REQUIRED',
+  INCORRECT_PASSWORD: 'INCORRECT_PASSWORD',
+  LEGACY_DOC_UNSUPPORTED: 'LEGACY_DOC_UNSUPPORTED',
+  FILE_TYPE_MISMATCH: 'FILE_TYPE_MISMATCH',
+  FILE_TRUNCATED: 'FILE_TRUNCATED',
+  PROCESSING_CANCELLED: 'PROCESSING_CANCELLED',
 } as const;
 
 export type UploadErrorCode = typeof UPLOAD_ERROR_CODES[keyof typeof UPLOAD_ERROR_CODES];
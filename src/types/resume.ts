@@ -0,0 +1,159 @@
+// Structured resume model extracted from detected sections (JSON Resume-compatible)
+// Dates are ISO 8601 (YYYY-MM or YYYY) when recognized, otherwise kept as written
+
+export interface ResumeData {
+  basics: ResumeBasics;
+  work: WorkEntry[];
+  education: EducationEntry[];
+  skills: SkillGroup[];
+  certifications: CertificationEntry[];
+  projects: ProjectEntry[];
+  languages: LanguageEntry[];
+}
+
+export interface ResumeBasics {
+  name?: string;
+  label?: string; // Headline or current title shown under the name
+  email?: string;
+  phone?: string;
+  url?: string;
+  summary?: string;
+  location?: ResumeLocation;
+  profiles: ResumeProfile[];
+}
+
+export interface ResumeLocation {
+  address?: string;
+  city?: string;
+  region?: string;
+  postalCode?: string;
+  countryCode?: string;
+}
+
+export interface ResumeProfile {
+  network: string;
+  username?: string;
+  url: string;
+}
+
+export interface WorkEntry {
+  title?: string;
+  company?: string;
+  location?: string;
+  startDate?: string;
+  endDate?: string;
+  current: boolean; // True for "Present"/"Current" roles, which have no end date
+  summary?: string;
+  bullets: string[];
+}
+
+export interface EducationEntry {
+  institution?: string;
+  studyType?: string; // Degree, e.g. "Bachelor of Science"
+  area?: string; // Field of study, e.g. "Computer Science"
+  location?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string; // GPA or grade as written
+  details: string[];
+}
+
+export interface SkillGroup {
+  name?: string; // Category label such as "Languages"; absent for an uncategorized list
+  keywords: string[];
+}
+
+export interface CertificationEntry {
+  name: string;
+  issuer?: string;
+  date?: string;
+  url?: string;
+}
+
+export interface ProjectEntry {
+  name: string;
+  description?: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  bullets: string[];
+}
+
+export interface LanguageEntry {
+  language: string;
+  fluency?: string;
+}
+
+// JSON Resume schema v1.0.0 (https://jsonresume.org/schema), limited to the sections we model
+export interface JSONResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: {
+      address?: string;
+      postalCode?: string;
+      city?: string;
+      countryCode?: string;
+      region?: string;
+    };
+    profiles?: { network?: string; username?: string; url?: string }[];
+  };
+  work?: {
+    name?: string;
+    position?: string;
+    location?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }[];
+  education?: {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+  }[];
+  skills?: { name?: string; level?: string; keywords?: string[] }[];
+  certificates?: { name?: string; date?: string; issuer?: string; url?: string }[];
+  projects?: {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+  }[];
+  languages?: { language?: string; fluency?: string }[];
+  meta?: {
+    canonical?: string;
+    version?: string;
+    lastModified?: string;
+  };
+}
+
+/**
+ * Creates an empty resume model
+ * @returns ResumeData with no content
+ */
+export function createEmptyResume(): ResumeData {
+  return {
+    basics: { profiles: [] },
+    work: [],
+    education: [],
+    skills: [],
+    certifications: [],
+    projects: [],
+    languages: []
+  };
+}